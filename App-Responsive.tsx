@@ -1,4 +1,4 @@
-import React, { Suspense, lazy, useCallback, useEffect, useRef, useState, startTransition } from 'react';
+import React, { Suspense, lazy, useCallback, useEffect, useMemo, useRef, useState, startTransition } from 'react';
 import { emitClientError } from './services/clientObservability';
 import ErrorBanner from './components/ErrorBanner';
 import AmbiguousModal, { Candidate as AmbiguousCandidate } from './components/AmbiguousModal';
@@ -8,7 +8,7 @@ import ActionToast from './components/ActionToast';
 import { AuthButton } from './components/AuthButton';
 import { MigrationModal } from './components/MigrationModal';
 import { NoticeDialog } from './components/BrandedDialogs';
-import { MovieData, QueryComplexity, GroundingSource, AIProvider, SuggestionItem, WatchedTitle, WatchlistSaveReceipt, PersonProfile } from './types';
+import { DetailsResponse, MovieData, QueryComplexity, GroundingSource, AIProvider, SuggestionItem, WatchedTitle, WatchlistSaveReceipt, PersonProfile } from './types';
 import { isSupabaseConfigured, supabase } from './lib/supabase';
 import { apiGet, apiPost } from './lib/apiClient';
 import { CheckIcon, ClipboardIcon, EditIcon, Logo, TrashIcon, XMarkIcon, GithubIcon } from './components/icons';
@@ -18,8 +18,17 @@ import { useCloudWatchlists } from './hooks/useCloudWatchlists';
 import { useAuth } from './contexts/AuthContext';
 import { VirtualizedList } from './components/VirtualizedList';
 import { initPerfDebug, useRenderCounter } from './lib/perfDebug';
+import { endTimingAfterPaint, startTiming, timedImport } from './lib/performanceTelemetry';
 import { parseAppRoute } from './lib/routeState';
+import { EpisodeFocus, buildEpisodeFocusQuery, episodeFocusFromQuery } from './lib/episodeFocus';
+import { parseQuery } from './services/queryParser';
+import { ImplicitFeedbackSignal, feedbackSubjectFromMovie, recordImplicitFeedback } from './services/rankingFeedback';
+import { EMPTY_SEARCH_REFINEMENT, SearchRefinement, SearchUrlState, buildSearchPath } from './lib/searchFilters';
 import { useWatched } from './hooks/useWatched';
+import { useCompareTray } from './hooks/useCompareTray';
+import { useSuggestPersonalization } from './hooks/useSuggestPersonalization';
+import CompareTray from './components/CompareTray';
+import { useSavedSearches } from './hooks/useSavedSearches';
 import { cacheGet, cacheSet, movieCacheKey, personCacheKey } from './lib/sessionCache';
 import { WatchlistIconPicker, WatchlistIconBadge, WATCHLIST_ICON_DEFAULT } from './components/WatchlistIconPicker';
 import { ErrorBoundary } from './components/ErrorBoundary';
@@ -44,10 +53,10 @@ const debugLog = (...args: any[]) => {
 type AppView = 'discovery' | 'search' | 'movie' | 'person';
 const GLOBAL_LOADING_MIN_VISIBLE_MS = 300;
 const ACTION_TOAST_MS = 4000;
-const DiscoveryPage = lazy(() => import('./components/DiscoveryPage'));
-const SearchResultsPage = lazy(() => import('./components/SearchResultsPage'));
-const PersonDisplay = lazy(() => import('./components/PersonDisplay'));
-const MovieDisplay = lazy(() => import('./components/MovieDisplay'));
+const DiscoveryPage = lazy(timedImport('DiscoveryPage', () => import('./components/DiscoveryPage')));
+const SearchResultsPage = lazy(timedImport('SearchResultsPage', () => import('./components/SearchResultsPage')));
+const PersonDisplay = lazy(timedImport('PersonDisplay', () => import('./components/PersonDisplay')));
+const MovieDisplay = lazy(timedImport('MovieDisplay', () => import('./components/MovieDisplay')));
 
 type UndoToastState = {
   id: number;
@@ -56,6 +65,19 @@ type UndoToastState = {
   onUndo: () => Promise<void>;
 };
 
+/** Feeds search ranking from a save / watch, using cached details when the title was opened before. */
+function recordTitleFeedback(
+  signal: ImplicitFeedbackSignal,
+  title: { tmdbId: string | number; mediaType: 'movie' | 'tv'; year?: string | null }
+): void {
+  const cached = cacheGet<any>('movie', movieCacheKey(title.tmdbId, title.mediaType === 'tv'));
+  const details: MovieData | null = cached ? ((cached.ok === true && cached.data) ? cached.data : cached) : null;
+  recordImplicitFeedback(
+    signal,
+    (details && feedbackSubjectFromMovie(details)) || { media_type: title.mediaType, year: title.year || undefined }
+  );
+}
+
 const App: React.FC = () => {
   const location = useLocation();
   const navigate = useNavigate();
@@ -109,6 +131,20 @@ const App: React.FC = () => {
     setQuickSaveNewFolderPublic(false);
   }, []);
 
+  // Opening a title's details is a weak positive ranking signal
+  const lastFeedbackTitleRef = useRef<string | null>(null);
+  useEffect(() => {
+    const key = movieData?.tmdb_id ? `${movieData.type}:${movieData.tmdb_id}` : null;
+    if (!movieData || !key || lastFeedbackTitleRef.current === key) return;
+    lastFeedbackTitleRef.current = key;
+    const subject = feedbackSubjectFromMovie(movieData);
+    if (subject) recordImplicitFeedback('opened', subject);
+  }, [movieData]);
+
+  useEffect(() => {
+    if (movieData && !isLoading) endTimingAfterPaint('title_to_details');
+  }, [movieData, isLoading]);
+
   // Lock body scroll when quick-save modal is open
   useEffect(() => {
     if (quickSaveTarget) {
@@ -191,7 +227,16 @@ const App: React.FC = () => {
       quickSavePreviousFocusRef.current?.focus();
     };
   }, [closeQuickSaveModal, quickSaveTarget]);
-  const { isWatched, toggle: toggleWatched, watchedCount } = useWatched();
+  const { watched, isWatched, toggle: toggleWatched, watchedCount } = useWatched();
+  const suggestPersonalization = useSuggestPersonalization(watched, watchlists);
+  const {
+    items: compareItems,
+    toggle: toggleCompare,
+    remove: removeFromCompare,
+    clear: clearCompare,
+    isInCompare
+  } = useCompareTray();
+  const { saveSearch } = useSavedSearches();
 
   const dismissActionToast = useCallback(() => {
     if (actionToastTimeoutRef.current !== null) {
@@ -248,6 +293,7 @@ const App: React.FC = () => {
       let removedFromWatchlist: { folderId: string; item: any }[] = [];
       if (result.action === 'marked') {
         removedFromWatchlist = purgeTitleFromWatchlists(entry.tmdb_id, entry.media_type);
+        recordTitleFeedback('watched', { tmdbId: entry.tmdb_id, mediaType: entry.media_type, year: entry.year });
       }
 
       if (!showUndo) return result;
@@ -324,6 +370,7 @@ const App: React.FC = () => {
 
     try {
       const receipt = await saveToFolder(folderId, buildQuickMovieData(quickSaveTarget), quickSaveTarget.title);
+      recordTitleFeedback('saved', { tmdbId: quickSaveTarget.id, mediaType: quickSaveTarget.media_type, year: quickSaveTarget.year });
       showActionToast({
         kind: 'watchlist',
         message: 'Saved to Watchlist',
@@ -408,7 +455,7 @@ const App: React.FC = () => {
       setError(null);
     }
     try {
-      const data = await apiGet<any>(`/api/person/${personId}`);
+      const data = await apiGet<PersonProfile>(`/api/person/${personId}`);
       cacheSet('person', personCacheKey(personId), data);
       startTransition(() => {
         setPersonData(data);
@@ -501,10 +548,12 @@ const App: React.FC = () => {
   const handleOpenTitle = useCallback(async (
     item: { id: number; mediaType: 'movie' | 'tv' },
     provider?: AIProvider,
-    options: { skipNavigate?: boolean } = {}
+    options: { skipNavigate?: boolean; episodeFocus?: EpisodeFocus | null } = {}
   ) => {
+    startTiming('title_to_details', { media_type: item.mediaType });
     if (!options.skipNavigate) {
-      navigate(`/${item.mediaType}/${item.id}`);
+      const focusQuery = item.mediaType === 'tv' && options.episodeFocus ? buildEpisodeFocusQuery(options.episodeFocus) : '';
+      navigate(`/${item.mediaType}/${item.id}${focusQuery ? `?${focusQuery}` : ''}`);
     }
     scrollMainContentToTop();
 
@@ -579,7 +628,7 @@ const App: React.FC = () => {
     setIsLoading(true);
     setError(null);
     try {
-      const response = await apiGet<any>(
+      const response = await apiGet<DetailsResponse>(
         `/api/details/${item.mediaType}/${item.id}`
       );
       const detailsData = normalizeTvShow(response.data);
@@ -600,7 +649,7 @@ const App: React.FC = () => {
     message: string,
     _complexity: QueryComplexity,
     _provider: AIProvider = 'groq',
-    options: { skipNavigate?: boolean } = {}
+    options: { skipNavigate?: boolean; refinement?: SearchRefinement } = {}
   ) => {
     const normalizedMessage = message.trim();
     if (!normalizedMessage) return;
@@ -614,7 +663,11 @@ const App: React.FC = () => {
       setShortlistCandidates(null);
     });
     if (!options.skipNavigate) {
-      navigate(`/search?q=${encodeURIComponent(normalizedMessage)}`);
+      navigate(buildSearchPath({
+        query: normalizedMessage,
+        refinement: options.refinement || EMPTY_SEARCH_REFINEMENT,
+        page: 1
+      }));
     }
     scrollMainContentToTop('auto');
 
@@ -663,6 +716,8 @@ const App: React.FC = () => {
 
     try {
       const receipt = await saveToFolder(folderId, movie, savedTitle);
+      const subject = feedbackSubjectFromMovie(movie);
+      if (subject) recordImplicitFeedback('saved', subject);
       showActionToast({
         kind: 'watchlist',
         message: 'Saved to Watchlist',
@@ -778,6 +833,21 @@ const App: React.FC = () => {
     selectedProvider
   ]);
 
+  const searchRoute = useMemo(
+    () => parseAppRoute(location.pathname, location.search),
+    [location.pathname, location.search]
+  );
+  const searchRefinement = searchRoute.refinement || EMPTY_SEARCH_REFINEMENT;
+
+  const handleSearchStateChange = useCallback((next: Partial<Omit<SearchUrlState, 'query'>>) => {
+    navigate(buildSearchPath({
+      query: searchRoute.query || currentQuery,
+      refinement: next.refinement || searchRefinement,
+      page: next.page ?? 1,
+      mode: 'mode' in next ? next.mode : searchRoute.searchMode
+    }));
+  }, [currentQuery, navigate, searchRefinement, searchRoute.query, searchRoute.searchMode]);
+
   const homeStructuredData = {
     '@context': 'https://schema.org',
     '@type': 'WebSite',
@@ -830,8 +900,11 @@ const App: React.FC = () => {
           <div className="header-search-slot col-span-2 sm:col-span-1 order-3 sm:order-none px-0 sm:px-2">
             <DynamicSearchIsland
               initialQuery={currentQuery || new URLSearchParams(location.search).get('q') || ''}
-              onSearch={handleSendMessage}
+              initialRefinement={searchRefinement}
+              onSearch={(query, complexity, refinement) => handleSendMessage(query, complexity, 'groq', { refinement })}
               onSuggestionSelect={handleSuggestionSelect}
+              onOpenTitle={(item) => { void handleOpenTitle(item, selectedProvider); }}
+              personalization={suggestPersonalization}
               isLoading={isLoading}
             />
           </div>
@@ -964,6 +1037,8 @@ const App: React.FC = () => {
           )
         }
 
+        <CompareTray items={compareItems} onRemove={removeFromCompare} onClear={clearCompare} />
+
         {actionToast && (
           <div className="mm-action-toast-shell z-[10000]">
             <ActionToast
@@ -1017,6 +1092,8 @@ const App: React.FC = () => {
                     year: item.year ?? undefined,
                   }); }}
                   onQuickSaveToWatchlist={handleQuickSaveToWatchlist}
+                  isInCompare={isInCompare}
+                  onToggleCompare={toggleCompare}
                   watchlists={watchlists}
                 />
               </ErrorBoundary>
@@ -1024,8 +1101,22 @@ const App: React.FC = () => {
               <ErrorBoundary key={`search-${currentQuery}`}>
                 <SearchResultsPage
                   query={new URLSearchParams(location.search).get('q') || currentQuery}
-                  onSearchQuery={(nextQuery) => handleSendMessage(nextQuery, QueryComplexity.SIMPLE)}
-                  onOpenTitle={(item) => handleOpenTitle(item)}
+                  refinement={searchRefinement}
+                  page={searchRoute.page || 1}
+                  searchMode={searchRoute.searchMode}
+                  onSearchStateChange={handleSearchStateChange}
+                  onSearchQuery={(nextQuery) => handleSendMessage(nextQuery, QueryComplexity.SIMPLE, 'groq', { refinement: searchRefinement })}
+                  onSaveSearch={async (name) => {
+                    await saveSearch(name, {
+                      query: searchRoute.query || currentQuery,
+                      refinement: searchRefinement,
+                      mode: searchRoute.searchMode
+                    });
+                  }}
+                  onOpenTitle={(item) => handleOpenTitle(item, undefined, {
+                    // "Breaking Bad S02E03-E07" opens the show with those episodes highlighted
+                    episodeFocus: item.mediaType === 'tv' ? episodeFocusFromQuery(parseQuery(searchRoute.query || currentQuery)) : null
+                  })}
                   onOpenPerson={(personId, name) => {
                     void openPersonById(personId, name, { manageLoading: true });
                   }}
@@ -1038,6 +1129,8 @@ const App: React.FC = () => {
                     year: item.year ?? undefined,
                   }); }}
                   onQuickSaveToWatchlist={handleQuickSaveToWatchlist}
+                  isInCompare={isInCompare}
+                  onToggleCompare={toggleCompare}
                 />
               </ErrorBoundary>
             ) : currentView === 'person' ? (
@@ -1078,6 +1171,8 @@ const App: React.FC = () => {
                     void openPersonById(personId, name, { manageLoading: true });
                   }}
                   onOpenTitle={(item) => handleOpenTitle(item, selectedProvider)}
+                  onOpenCollection={(collectionId) => navigate(`/collection/${collectionId}`)}
+                  episodeFocus={searchRoute.kind === 'tv' && String(searchRoute.id) === String(movieData?.tmdb_id) ? searchRoute.episodeFocus : null}
                 watchlists={watchlists}
                 onCreateWatchlist={addFolder}
                 onSaveToWatchlist={handleSaveMovieToWatchlist}
@@ -2,31 +2,48 @@ import React, { Suspense, lazy } from 'react';
 import { Navigate, Route, Routes, useLocation } from 'react-router-dom';
 import UserPreferenceEffects from './components/UserPreferenceEffects';
 import ClientObservabilityEffects from './components/ClientObservabilityEffects';
+import DiagnosticsOverlay from './components/DiagnosticsOverlay';
+import SchemaViolationBanner from './components/SchemaViolationBanner';
+import SessionExpiredPrompt from './components/SessionExpiredPrompt';
 import { ErrorBoundary } from './components/ErrorBoundary';
+import { IS_DEV } from './lib/config';
+import { timedImport } from './lib/performanceTelemetry';
 
-const App = lazy(() => import('./App-Responsive'));
-const LoginPage = lazy(() => import('./pages/LoginPage'));
-const WatchlistsDashboard = lazy(() =>
+const App = lazy(timedImport('App', () => import('./App-Responsive')));
+const LoginPage = lazy(timedImport('LoginPage', () => import('./pages/LoginPage')));
+const WatchlistsDashboard = lazy(timedImport('WatchlistsDashboard', () =>
   import('./pages/WatchlistsDashboard').then((module) => ({ default: module.WatchlistsDashboard }))
-);
-const SharedWatchlistView = lazy(() =>
+));
+const SharedWatchlistView = lazy(timedImport('SharedWatchlistView', () =>
   import('./components/SharedWatchlistView').then((module) => ({ default: module.SharedWatchlistView }))
-);
-const SettingsHubPage = lazy(() =>
+));
+const SettingsHubPage = lazy(timedImport('SettingsHubPage', () =>
   import('./pages/SettingsPages').then((module) => ({ default: module.SettingsHubPage }))
-);
-const ProfileSettingsPage = lazy(() =>
+));
+const ProfileSettingsPage = lazy(timedImport('ProfileSettingsPage', () =>
   import('./pages/SettingsPages').then((module) => ({ default: module.ProfileSettingsPage }))
-);
-const PreferenceSettingsPage = lazy(() =>
+));
+const PreferenceSettingsPage = lazy(timedImport('PreferenceSettingsPage', () =>
   import('./pages/SettingsPages').then((module) => ({ default: module.PreferenceSettingsPage }))
-);
-const AuthCallbackPage = lazy(() =>
+));
+const AuthCallbackPage = lazy(timedImport('AuthCallbackPage', () =>
   import('./pages/SettingsPages').then((module) => ({ default: module.AuthCallbackPage }))
-);
-const OnboardingPage = lazy(() =>
+));
+const OpenLinkPage = lazy(timedImport('OpenLinkPage', () =>
+  import('./pages/OpenLinkPage').then((module) => ({ default: module.OpenLinkPage }))
+));
+const CollectionPage = lazy(timedImport('CollectionPage', () =>
+  import('./pages/CollectionPage').then((module) => ({ default: module.CollectionPage }))
+));
+const ComparePage = lazy(timedImport('ComparePage', () =>
+  import('./pages/ComparePage').then((module) => ({ default: module.ComparePage }))
+));
+const ExperimentReportPage = lazy(timedImport('ExperimentReportPage', () =>
+  import('./pages/ExperimentReportPage').then((module) => ({ default: module.ExperimentReportPage }))
+));
+const OnboardingPage = lazy(timedImport('OnboardingPage', () =>
   import('./pages/SettingsPages').then((module) => ({ default: module.OnboardingPage }))
-);
+));
 
 export default function AppRoutes() {
   const location = useLocation();
@@ -40,12 +57,18 @@ export default function AppRoutes() {
     >
       <UserPreferenceEffects />
       <ClientObservabilityEffects />
+      <DiagnosticsOverlay />
+      {IS_DEV && <SchemaViolationBanner />}
+      <SessionExpiredPrompt />
       <Routes>
         <Route path="/" element={<ErrorBoundary key={location.pathname}><App /></ErrorBoundary>} />
         <Route path="/search" element={<ErrorBoundary key={location.pathname}><App /></ErrorBoundary>} />
         <Route path="/movie/:id" element={<ErrorBoundary key={location.pathname}><App /></ErrorBoundary>} />
         <Route path="/tv/:id" element={<ErrorBoundary key={location.pathname}><App /></ErrorBoundary>} />
         <Route path="/person/:id" element={<ErrorBoundary key={location.pathname}><App /></ErrorBoundary>} />
+        <Route path="/open" element={<OpenLinkPage />} />
+        <Route path="/collection/:id" element={<ErrorBoundary key={location.pathname}><CollectionPage /></ErrorBoundary>} />
+        <Route path="/compare" element={<ErrorBoundary key={location.pathname}><ComparePage /></ErrorBoundary>} />
         <Route path="/login" element={<LoginPage />} />
         <Route path="/watchlists" element={<ErrorBoundary key={location.pathname}><WatchlistsDashboard /></ErrorBoundary>} />
         <Route path="/watchlists/watched" element={<ErrorBoundary key={location.pathname}><WatchlistsDashboard /></ErrorBoundary>} />
@@ -57,6 +80,7 @@ export default function AppRoutes() {
         <Route path="/settings/preferences" element={<ErrorBoundary key={location.pathname}><PreferenceSettingsPage /></ErrorBoundary>} />
         <Route path="/auth/callback" element={<AuthCallbackPage />} />
         <Route path="/onboarding" element={<OnboardingPage />} />
+        <Route path="/dev/experiments" element={<ErrorBoundary key={location.pathname}><ExperimentReportPage /></ErrorBoundary>} />
         <Route path="*" element={<Navigate to="/" replace />} />
       </Routes>
     </Suspense>
@@ -4,3 +4,8 @@ export const SUPABASE_ANON_KEY = 'mock-key';
 export const IS_DEV = true;
 export const IS_PROD = false;
 export const PERF_DEBUG = false;
+export const APP_VERSION = '1.4.0';
+export const EXPERIMENTS_DISABLED = false;
+export const API_MOCK = false;
+export const API_MOCK_LATENCY_MS = 0;
+export const API_MOCK_ERROR_RATE = 0;
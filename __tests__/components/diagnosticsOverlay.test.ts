@@ -0,0 +1,79 @@
+import * as React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+
+jest.mock('../../services/clientObservability', () => ({
+  getClientObservabilityStats: () => null,
+  getRecentClientEvents: () => []
+}));
+
+import {
+  DIAGNOSTICS_STORAGE_KEY,
+  DiagnosticsPanel,
+  DiagnosticsSnapshot,
+  isDiagnosticsChord,
+  resolveDiagnosticsEnabled
+} from '../../components/DiagnosticsOverlay';
+import { getCacheStatsSnapshot, recordCacheLookup, resetCacheStats } from '../../lib/cacheStats';
+
+function memoryStorage() {
+  const values = new Map<string, string>();
+  return {
+    getItem: (key: string) => values.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      values.set(key, value);
+    },
+    removeItem: (key: string) => {
+      values.delete(key);
+    }
+  };
+}
+
+describe('DiagnosticsOverlay', () => {
+  it('turns on with ?debug=1 for the rest of the tab and off with ?debug=0', () => {
+    const storage = memoryStorage();
+    expect(resolveDiagnosticsEnabled('', storage)).toBe(false);
+    expect(resolveDiagnosticsEnabled('?q=heat&debug=1', storage)).toBe(true);
+    expect(storage.getItem(DIAGNOSTICS_STORAGE_KEY)).toBe('1');
+    expect(resolveDiagnosticsEnabled('?q=heat', storage)).toBe(true);
+    expect(resolveDiagnosticsEnabled('?debug=0', storage)).toBe(false);
+    expect(resolveDiagnosticsEnabled('', storage)).toBe(false);
+  });
+
+  it('only reacts to Alt+Shift+D', () => {
+    const base = { code: 'KeyD', altKey: true, shiftKey: true, ctrlKey: false, metaKey: false };
+    expect(isDiagnosticsChord(base)).toBe(true);
+    expect(isDiagnosticsChord({ ...base, shiftKey: false })).toBe(false);
+    expect(isDiagnosticsChord({ ...base, metaKey: true })).toBe(false);
+    expect(isDiagnosticsChord({ ...base, code: 'KeyF' })).toBe(false);
+  });
+
+  it('renders providers, caches, experiments, API calls and events', () => {
+    resetCacheStats();
+    recordCacheLookup('sessionCache', true);
+    recordCacheLookup('sessionCache', true);
+    recordCacheLookup('sessionCache', false);
+
+    const snapshot: DiagnosticsSnapshot = {
+      providers: {
+        groq: { calls: 2, errors: 1, totalLatencyMs: 300, fallbackCount: 0, lastError: 'timeout' },
+        perplexity: { calls: 0, errors: 0, totalLatencyMs: 0, fallbackCount: 0 }
+      },
+      apiCalls: [{
+        requestId: 'abc123', method: 'GET', url: '/api/suggest?q=heat', status: 200, latencyMs: 42, cached: true, at: '2026-01-01T00:00:00.000Z'
+      }],
+      caches: getCacheStatsSnapshot(),
+      experiments: [{ experiment: 'diversity_rerank', variant: 'variant', inExperiment: true, reason: 'assigned', layer: 'ranking', configVersion: 2 }],
+      events: [{ ts: '2026-01-01T00:00:01.000Z', source: 'client', event: 'search_request_started', level: 'info', data: { page: 1 } }],
+      queue: null
+    };
+
+    const html = renderToStaticMarkup(React.createElement(DiagnosticsPanel, { snapshot, onClose: () => undefined }));
+    expect(html).toContain('groq: 2 calls · 1 errors · avg 150ms');
+    expect(html).toContain('sessionCache: 67% hit (2/3)');
+    expect(html).toContain('indexedDB: — hit (0/0)');
+    expect(html).toContain('diversity_rerank: variant (assigned)');
+    expect(html).toContain('/api/suggest?q=heat');
+    expect(html).toContain('>cache<');
+    expect(html).toContain('search_request_started');
+  });
+});
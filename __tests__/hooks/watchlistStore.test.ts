@@ -2,7 +2,9 @@ import {
   applyWatchlistOrder,
   WATCHLIST_DEFAULT_ICON,
   addFolderToWatchlists,
+  addItemsToFolder,
   buildWatchlistOrderState,
+  createWatchlistItems,
   loadWatchlistsFromStorage,
   rollbackWatchlistSave,
   saveMovieToFolderWithReceipt
@@ -192,4 +194,41 @@ describe('hooks/watchlistStore icon behavior', () => {
     expect(purgedFolders[1].items).toHaveLength(1);
     expect(purgedFolders[1].items[0].saved_title).toBe('Interstellar');
   });
+
+  it('bulk-adds items in order and replaces existing entries for the same titles', () => {
+    const base = addFolderToWatchlists([], 'Star Wars', 'film').next;
+    const folderId = base[0].id;
+    const toMovie = (id: string, title: string) => ({
+      tmdb_id: id,
+      title,
+      year: '',
+      type: 'movie' as const,
+      media_type: 'movie',
+      genres: [],
+      poster_url: '',
+      backdrop_url: '',
+      trailer_url: '',
+      ratings: [],
+      cast: [],
+      crew: { director: '', writer: '', music: '' },
+      summary_short: '',
+      summary_medium: '',
+      summary_long_spoilers: '',
+      suspense_breaker: '',
+      where_to_watch: [],
+      extra_images: [],
+      ai_notes: ''
+    });
+
+    const first = addItemsToFolder(base, folderId, createWatchlistItems([{ movie: toMovie('11', 'Star Wars') }]));
+    const items = createWatchlistItems([
+      { movie: toMovie('1893', 'The Phantom Menace') },
+      { movie: toMovie('11', 'Star Wars'), savedTitle: 'A New Hope' }
+    ]);
+    const next = addItemsToFolder(first, folderId, items);
+
+    expect(next[0].items.map((item) => item.saved_title)).toEqual(['The Phantom Menace', 'A New Hope']);
+    expect(next[0].items[1].id).toBe(items[1].id);
+    expect(addItemsToFolder(first, 'missing', items)).toEqual(first);
+  });
 });
@@ -0,0 +1,277 @@
+const mockEmitClientEvent = jest.fn();
+jest.mock('../../services/clientObservability', () => ({
+  emitClientEvent: (...args: unknown[]) => mockEmitClientEvent(...args)
+}));
+
+import {
+  ApiError,
+  apiGet,
+  apiPost,
+  endpointKey,
+  getCircuitStates,
+  parseRetryAfter,
+  resetCircuitBreakers,
+  retryDelayMs,
+  setApiAuthProvider
+} from '../../lib/apiClient';
+import { createCircuitBreaker } from '../../lib/circuitBreaker';
+
+const mockFetch = jest.fn();
+(global as any).fetch = mockFetch;
+
+function jsonResponse(status: number, payload: unknown, headers: Record<string, string> = {}) {
+  const lower = Object.fromEntries(Object.entries(headers).map(([key, value]) => [key.toLowerCase(), value]));
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: '',
+    headers: { get: (name: string) => lower[name.toLowerCase()] ?? null },
+    text: async () => JSON.stringify(payload)
+  };
+}
+
+const fast = { baseDelayMs: 1, maxDelayMs: 1 };
+
+describe('apiClient request policies', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    mockEmitClientEvent.mockReset();
+    resetCircuitBreakers();
+  });
+
+  it('retries GETs on 5xx and returns the eventual success', async () => {
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse(502, { ok: false, error: { code: 'upstream' } }))
+      .mockResolvedValueOnce(jsonResponse(200, { ok: true, suggestions: [] }));
+
+    await expect(apiGet('/api/suggest', { q: 'heat' }, undefined, fast)).resolves.toEqual({ ok: true, suggestions: [] });
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry POSTs or 4xx responses by default', async () => {
+    mockFetch.mockResolvedValue(jsonResponse(503, { ok: false }));
+    await expect(apiPost('/api/search', { q: 'heat' })).rejects.toMatchObject({ status: 503 });
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+
+    mockFetch.mockReset();
+    mockFetch.mockResolvedValue(jsonResponse(404, { ok: false, error: { code: 'not_found' } }));
+    await expect(apiGet('/api/movie/1', undefined, undefined, fast)).rejects.toMatchObject({ code: 'not_found' });
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('honours Retry-After and gives up when it is too long', async () => {
+    mockFetch.mockResolvedValue(jsonResponse(429, { ok: false, error: { code: 'rate_limited' } }, { 'Retry-After': '120' }));
+    const error = (await apiGet('/api/suggest', undefined, undefined, fast).catch((reason) => reason)) as ApiError;
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.retryAfterMs).toBe(120_000);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+
+    expect(parseRetryAfter('2')).toBe(2000);
+    expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:10 GMT', Date.parse('2026-01-01T00:00:00Z'))).toBe(10_000);
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+
+  it('uses full-jitter exponential backoff capped at maxDelayMs', () => {
+    const error = new ApiError(503, 'unavailable', '');
+    expect(retryDelayMs(0, error, { baseDelayMs: 100 }, () => 1)).toBe(100);
+    expect(retryDelayMs(3, error, { baseDelayMs: 100 }, () => 1)).toBe(800);
+    expect(retryDelayMs(10, error, { baseDelayMs: 100, maxDelayMs: 1000 }, () => 0.5)).toBe(500);
+  });
+
+  it('times out slow attempts without treating caller aborts as timeouts', async () => {
+    mockFetch.mockImplementation((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+      init.signal?.addEventListener('abort', () => {
+        const abort = new Error('aborted');
+        abort.name = 'AbortError';
+        reject(abort);
+      });
+    }));
+
+    await expect(apiGet('/api/slow', undefined, undefined, { timeoutMs: 10, retries: 0 })).rejects.toMatchObject({ code: 'timeout' });
+
+    const controller = new AbortController();
+    const pending = apiGet('/api/slow', undefined, controller.signal, { timeoutMs: 1000 });
+    controller.abort();
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('opens the endpoint circuit after repeated failures and fails fast', async () => {
+    mockFetch.mockResolvedValue(jsonResponse(500, { ok: false }));
+    for (let id = 1; id <= 5; id += 1) {
+      await expect(apiGet(`/api/movie/${id}`, undefined, undefined, { retries: 0 })).rejects.toMatchObject({ status: 500 });
+    }
+
+    await expect(apiGet('/api/movie/6', undefined, undefined, { retries: 0 })).rejects.toMatchObject({ code: 'circuit_open' });
+    expect(mockFetch).toHaveBeenCalledTimes(5);
+    expect(getCircuitStates()).toEqual({ 'GET /api/movie/:id': 'open' });
+    expect(mockEmitClientEvent).toHaveBeenCalledWith({
+      event: 'api_circuit_state_changed',
+      level: 'warn',
+      data: { endpoint: 'GET /api/movie/:id', from: 'closed', to: 'open', consecutive_failures: 5 }
+    });
+
+    await expect(apiGet('/api/suggest', undefined, undefined, { retries: 0, circuitBreaker: false })).rejects.toMatchObject({ status: 500 });
+    expect(endpointKey('post', '/api/person/42/credits?x=1')).toBe('POST /api/person/:id/credits');
+  });
+});
+
+describe('apiGet coalescing', () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    resetCircuitBreakers();
+  });
+
+  it('shares one request between identical concurrent GETs', async () => {
+    mockFetch.mockResolvedValue(jsonResponse(200, { ok: true, results: [1] }));
+
+    const [first, second] = await Promise.all([
+      apiGet('/api/tmdb', { endpoint: 'tv/1/reviews', page: 1 }),
+      apiGet('/api/tmdb', { endpoint: 'tv/1/reviews', page: 1 })
+    ]);
+    expect(first).toEqual(second);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+
+    await apiGet('/api/tmdb', { endpoint: 'tv/1/reviews', page: 1 });
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps the shared request alive until every caller aborts', async () => {
+    let resolveFetch: (value: unknown) => void = () => undefined;
+    let sharedSignal: AbortSignal | undefined;
+    mockFetch.mockImplementation((_url: string, init: RequestInit) => {
+      sharedSignal = init.signal ?? undefined;
+      return new Promise((resolve) => {
+        resolveFetch = resolve;
+      });
+    });
+
+    const leaving = new AbortController();
+    const staying = new AbortController();
+    const left = apiGet('/api/resolve', { q: 'Denis Villeneuve' }, leaving.signal);
+    const stayed = apiGet('/api/resolve', { q: 'Denis Villeneuve' }, staying.signal);
+    await Promise.resolve();
+
+    leaving.abort();
+    await expect(left).rejects.toMatchObject({ name: 'AbortError' });
+    expect(sharedSignal?.aborted).toBe(false);
+
+    resolveFetch(jsonResponse(200, { ok: true }));
+    await expect(stayed).resolves.toEqual({ ok: true });
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('createCircuitBreaker', () => {
+  it('lets one trial through after the cooldown and closes on success', () => {
+    let now = 0;
+    const changes: string[] = [];
+    const breaker = createCircuitBreaker({
+      failureThreshold: 2,
+      cooldownMs: 1000,
+      now: () => now,
+      onStateChange: (from, to) => changes.push(`${from}->${to}`)
+    });
+
+    breaker.recordFailure();
+    breaker.recordFailure();
+    expect(breaker.allowRequest()).toBe(false);
+
+    now = 1000;
+    expect(breaker.allowRequest()).toBe(true);
+    expect(breaker.allowRequest()).toBe(false);
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('open');
+
+    now = 2000;
+    expect(breaker.allowRequest()).toBe(true);
+    breaker.recordSuccess();
+    expect(breaker.allowRequest()).toBe(true);
+    expect(changes).toEqual(['closed->open', 'open->half_open', 'half_open->open', 'open->half_open', 'half_open->closed']);
+  });
+});
+
+describe('apiClient auth', () => {
+  let token = 'old-token';
+  const refreshSession = jest.fn();
+
+  beforeEach(() => {
+    token = 'old-token';
+    mockFetch.mockReset();
+    mockEmitClientEvent.mockReset();
+    refreshSession.mockReset();
+    resetCircuitBreakers();
+    setApiAuthProvider({ getAccessToken: async () => token, refreshSession });
+  });
+
+  afterAll(() => {
+    setApiAuthProvider(null);
+  });
+
+  const sentAuthorization = (call: number) => (mockFetch.mock.calls[call][1].headers as Headers).get('Authorization');
+
+  it('attaches the current access token', async () => {
+    mockFetch.mockResolvedValue(jsonResponse(200, { ok: true }));
+    await apiPost('/api/watchlists/share', { folder_name: 'Heists' });
+    expect(sentAuthorization(0)).toBe('Bearer old-token');
+  });
+
+  it('refreshes once on a 401 and replays with the new token', async () => {
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse(401, { ok: false, error: { code: 'unauthorized' } }))
+      .mockResolvedValueOnce(jsonResponse(200, { ok: true, share_url: '/watchlists/share?token=t' }));
+    refreshSession.mockImplementation(async () => {
+      token = 'new-token';
+      return true;
+    });
+
+    await expect(apiPost('/api/watchlists/share', {})).resolves.toMatchObject({ share_url: '/watchlists/share?token=t' });
+    expect(refreshSession).toHaveBeenCalledTimes(1);
+    expect(sentAuthorization(1)).toBe('Bearer new-token');
+  });
+
+  it('shares one refresh between concurrent 401s', async () => {
+    let finishRefresh: (ok: boolean) => void = () => undefined;
+    refreshSession.mockReturnValue(new Promise<boolean>((resolve) => {
+      finishRefresh = resolve;
+    }));
+    mockFetch.mockImplementation(async (_url: string, init: RequestInit) => (
+      (init.headers as Headers).get('Authorization') === 'Bearer new-token'
+        ? jsonResponse(200, { ok: true })
+        : jsonResponse(401, { ok: false })
+    ));
+
+    const pending = Promise.all([apiPost('/api/a', {}), apiPost('/api/b', {})]);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    token = 'new-token';
+    finishRefresh(true);
+
+    await expect(pending).resolves.toHaveLength(2);
+    expect(refreshSession).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports an expired session when the refresh fails', async () => {
+    mockFetch.mockResolvedValue(jsonResponse(401, { ok: false, error: { code: 'unauthorized' } }));
+    refreshSession.mockResolvedValue(false);
+
+    await expect(apiPost('/api/watchlists/share', {})).rejects.toMatchObject({ status: 401 });
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(mockEmitClientEvent).toHaveBeenCalledWith({
+      event: 'auth_session_expired',
+      level: 'warn',
+      data: { endpoint: 'POST /api/watchlists/share' }
+    });
+  });
+
+  it('leaves requests alone when signed out or when the caller set its own header', async () => {
+    mockFetch.mockResolvedValue(jsonResponse(401, { ok: false }));
+    token = '';
+    await expect(apiPost('/api/a', {})).rejects.toMatchObject({ status: 401 });
+    expect(sentAuthorization(0)).toBeNull();
+
+    token = 'old-token';
+    await expect(apiPost('/api/a', {}, undefined, { Authorization: 'Bearer custom' })).rejects.toMatchObject({ status: 401 });
+    expect(sentAuthorization(1)).toBe('Bearer custom');
+    expect(refreshSession).not.toHaveBeenCalled();
+  });
+});
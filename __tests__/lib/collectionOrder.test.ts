@@ -0,0 +1,48 @@
+import { orderCollectionEntries, sortByRelease, summarizeMarathon } from '../../lib/collectionOrder';
+import type { CollectionEntry } from '../../types';
+
+function entry(id: number, title: string, releaseDate: string | null, runtime: number | null = 120): CollectionEntry {
+  return {
+    id,
+    title,
+    year: releaseDate ? releaseDate.slice(0, 4) : '',
+    release_date: releaseDate,
+    runtime,
+    rating: null,
+    poster_url: '',
+    overview: ''
+  };
+}
+
+const starWars = [
+  entry(1893, 'The Phantom Menace', '1999-05-19', 136),
+  entry(11, 'Star Wars', '1977-05-25', 121),
+  entry(1891, 'The Empire Strikes Back', '1980-05-20', 124),
+  entry(99999, 'Untitled Star Wars Film', null, null)
+];
+
+describe('lib/collectionOrder', () => {
+  it('sorts by release date with undated entries last', () => {
+    expect(sortByRelease(starWars).map((item) => item.id)).toEqual([11, 1891, 1893, 99999]);
+  });
+
+  it('uses the curated chronology and appends unknown entries in release order', () => {
+    const ordered = orderCollectionEntries(10, starWars, 'chronological');
+    expect(ordered.hasChronology).toBe(true);
+    expect(ordered.entries.map((item) => item.id)).toEqual([1893, 11, 1891, 99999]);
+  });
+
+  it('falls back to release order when no chronology is on record', () => {
+    const ordered = orderCollectionEntries(263, starWars, 'chronological');
+    expect(ordered.hasChronology).toBe(false);
+    expect(ordered.entries.map((item) => item.id)).toEqual([11, 1891, 1893, 99999]);
+  });
+
+  it('totals the marathon runtime over released titles only', () => {
+    const summary = summarizeMarathon(
+      [...starWars, entry(5, 'Future Film', '2099-01-01', 150), entry(6, 'No Runtime', '2001-01-01', null)],
+      new Date('2026-01-01')
+    );
+    expect(summary).toEqual({ titleCount: 4, totalRuntimeMinutes: 381, missingRuntimeCount: 1, upcomingCount: 2 });
+  });
+});
@@ -0,0 +1,42 @@
+import {
+  buildEpisodeFocusQuery,
+  episodeFocusFromQuery,
+  formatTotalRuntime,
+  parseEpisodeFocusParams,
+  summarizeEpisodeFocus
+} from '../../lib/episodeFocus';
+import { parseQuery } from '../../services/queryParser';
+
+describe('lib/episodeFocus', () => {
+  it('derives focus from parsed queries and round-trips it through the URL', () => {
+    const episodes = episodeFocusFromQuery(parseQuery('Breaking Bad S02E03-E07'))!;
+    expect(episodes).toEqual({ seasons: { start: 2, end: 2 }, episodes: { start: 3, end: 7 } });
+    expect(buildEpisodeFocusQuery(episodes)).toBe('season=2&episodes=3-7');
+    expect(parseEpisodeFocusParams(new URLSearchParams(buildEpisodeFocusQuery(episodes)))).toEqual(episodes);
+
+    const seasons = episodeFocusFromQuery(parseQuery('the wire seasons 1-3'))!;
+    expect(buildEpisodeFocusQuery(seasons)).toBe('seasons=1-3');
+    expect(parseEpisodeFocusParams(new URLSearchParams('seasons=1-3&episodes=2'))).toEqual(seasons);
+
+    expect(episodeFocusFromQuery(parseQuery('Breaking Bad S03E02'))).toEqual({
+      seasons: { start: 3, end: 3 },
+      episodes: { start: 2, end: 2 }
+    });
+    expect(episodeFocusFromQuery(parseQuery('interstellar'))).toBeNull();
+  });
+
+  it('sums runtime for episodes in focus only', () => {
+    const focus = { seasons: { start: 2, end: 2 }, episodes: { start: 3, end: 5 } };
+    const summary = summarizeEpisodeFocus(focus, [
+      { season: 2, episode: 2, runtime: 47 },
+      { season: 2, episode: 3, runtime: 47 },
+      { season: 2, episode: 4, runtime: 48 },
+      { season: 2, episode: 5, runtime: null },
+      { season: 3, episode: 3, runtime: 47 }
+    ]);
+
+    expect(summary).toEqual({ episodeCount: 3, totalRuntimeMinutes: 95, missingRuntimeCount: 1 });
+    expect(formatTotalRuntime(95)).toBe('1h 35m');
+    expect(formatTotalRuntime(45)).toBe('45m');
+  });
+});
@@ -0,0 +1,128 @@
+import {
+  analyzeEventLog,
+  analyzeExperimentEvents,
+  inverseNormalCdf,
+  normalCdf,
+  parseEventLog,
+  renderAnalysisJson,
+  renderAnalysisMarkdown,
+  sequentialTest,
+  twoProportionZTest
+} from '../../lib/experimentAnalysis';
+
+function exposures(variant: string, count: number, prefix = variant) {
+  return Array.from({ length: count }, (_, index) => ({
+    event: 'experiment_exposure',
+    data: { experiment: 'diversity_rerank', variant, subject: `${prefix}-${index}` }
+  }));
+}
+
+function conversions(variant: string, count: number, prefix = variant, conversionEvent = 'result_opened') {
+  return Array.from({ length: count }, (_, index) => ({
+    event: 'experiment_conversion',
+    data: { experiment: 'diversity_rerank', variant, subject: `${prefix}-${index}`, conversion_event: conversionEvent }
+  }));
+}
+
+describe('normal distribution helpers', () => {
+  it('round-trips common quantiles', () => {
+    expect(normalCdf(0)).toBeCloseTo(0.5, 6);
+    expect(normalCdf(1.959964)).toBeCloseTo(0.975, 5);
+    expect(inverseNormalCdf(0.975)).toBeCloseTo(1.959964, 4);
+    expect(inverseNormalCdf(0.001)).toBeCloseTo(-3.090232, 4);
+  });
+});
+
+describe('significance tests', () => {
+  const control = { variant: 'control', exposures: 1000, conversions: 100, conversionRate: 0.1 };
+  const variant = { variant: 'variant', exposures: 1000, conversions: 130, conversionRate: 0.13 };
+
+  it('matches a textbook two-proportion z-test', () => {
+    const result = twoProportionZTest(control, variant);
+    expect(result.z).toBeCloseTo(2.103, 2);
+    expect(result.pValue).toBeCloseTo(0.0355, 3);
+    expect(result.significant).toBe(true);
+    expect(result.ci[0]).toBeGreaterThan(0);
+  });
+
+  it('gives a wider, more conservative always-valid result', () => {
+    const fixed = twoProportionZTest(control, variant);
+    const sequential = sequentialTest(control, variant)!;
+    expect(sequential.pValue).toBeGreaterThan(fixed.pValue);
+    expect(sequential.ci[1] - sequential.ci[0]).toBeGreaterThan(fixed.ci[1] - fixed.ci[0]);
+    expect(sequentialTest({ ...control, conversions: 0, conversionRate: 0 }, { ...variant, conversions: 0, conversionRate: 0 })).toBeNull();
+  });
+});
+
+describe('analyzeExperimentEvents', () => {
+  it('counts unique exposed subjects and only their conversions', () => {
+    const analysis = analyzeExperimentEvents([
+      ...exposures('control', 200),
+      ...exposures('control', 200),
+      ...exposures('variant', 200),
+      ...conversions('control', 20),
+      ...conversions('control', 20),
+      ...conversions('variant', 40),
+      ...conversions('variant', 5, 'stranger')
+    ]);
+
+    expect(analysis.reports).toHaveLength(1);
+    const [report] = analysis.reports;
+    expect(report.variants).toEqual([
+      { variant: 'control', exposures: 200, conversions: 20, conversionRate: 0.1 },
+      { variant: 'variant', exposures: 200, conversions: 40, conversionRate: 0.2 }
+    ]);
+    expect(report.comparisons[0]).toMatchObject({ variant: 'variant', control: 'control', lowSample: false });
+    expect(report.comparisons[0].absoluteLift).toBeCloseTo(0.1);
+    expect(report.comparisons[0].relativeLift).toBeCloseTo(1);
+  });
+
+  it('excludes subjects exposed to more than one variant and flags small samples', () => {
+    const analysis = analyzeExperimentEvents([
+      ...exposures('control', 10, 'shared'),
+      ...exposures('variant', 10, 'shared'),
+      ...exposures('variant', 4),
+      ...conversions('variant', 1)
+    ]);
+    const [report] = analysis.reports;
+    expect(report.crossoverSubjects).toBe(10);
+    expect(report.variants.map((variant) => variant.exposures)).toEqual([0, 4]);
+    expect(report.comparisons[0].lowSample).toBe(true);
+    expect(report.comparisons[0].relativeLift).toBeNull();
+  });
+
+  it('reports each conversion event separately and can filter to one', () => {
+    const events = [
+      ...exposures('control', 50),
+      ...exposures('variant', 50),
+      ...conversions('control', 10),
+      ...conversions('variant', 10, 'variant', 'watchlist_add')
+    ];
+    expect(analyzeExperimentEvents(events).reports.map((report) => report.conversionEvent))
+      .toEqual(['result_opened', 'watchlist_add']);
+    expect(analyzeExperimentEvents(events, { conversionEvent: 'watchlist_add' }).reports).toHaveLength(1);
+  });
+});
+
+describe('event log parsing and rendering', () => {
+  it('skips malformed lines and renders markdown and JSON', () => {
+    const log = [
+      ...exposures('control', 40),
+      ...exposures('variant', 40),
+      ...conversions('control', 8),
+      ...conversions('variant', 12)
+    ].map((event) => JSON.stringify({ ts: '2026-01-01T00:00:00Z', source: 'client', level: 'info', ...event }))
+      .concat(['not json', '', '{"no":"event"}'])
+      .join('\n');
+
+    expect(parseEventLog(log).skippedLines).toBe(2);
+    const analysis = analyzeEventLog(log);
+    expect(analysis.events).toBe(100);
+
+    const markdown = renderAnalysisMarkdown(analysis);
+    expect(markdown).toContain('## diversity_rerank — result_opened');
+    expect(markdown).toContain('| control (control) | 40 | 8 | 20.00% |');
+    expect(markdown).toContain('| variant | 40 | 12 | 30.00% | +10.00% | +50.00% |');
+    expect(JSON.parse(renderAnalysisJson(analysis)).reports[0].experiment).toBe('diversity_rerank');
+  });
+});
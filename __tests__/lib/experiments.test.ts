@@ -0,0 +1,180 @@
+const mockEmitClientEvent = jest.fn();
+
+jest.mock('../../services/clientObservability', () => ({
+  emitClientEvent: (...args: unknown[]) => mockEmitClientEvent(...args)
+}));
+
+import {
+  EXPERIMENT_OVERRIDES_STORAGE_KEY,
+  getExperimentAssignment,
+  loadLocalExperimentEvents,
+  matchesTargeting,
+  parseExperimentConfig,
+  recordExperimentExposure,
+  setExperimentConfig,
+  setExperimentContext
+} from '../../lib/experiments';
+import experimentConfig from '../../lib/experiments.json';
+
+function memoryStorage(): Storage {
+  const values = new Map<string, string>();
+  return {
+    get length() {
+      return values.size;
+    },
+    key: (index: number) => [...values.keys()][index] ?? null,
+    getItem: (key: string) => (values.has(key) ? values.get(key)! : null),
+    setItem: (key: string, value: string) => {
+      values.set(key, value);
+    },
+    removeItem: (key: string) => {
+      values.delete(key);
+    },
+    clear: () => values.clear()
+  };
+}
+
+const testWindow = {
+  localStorage: memoryStorage(),
+  sessionStorage: memoryStorage(),
+  location: { search: '' }
+};
+(global as any).window = testWindow;
+
+function asSubject(id: string): void {
+  testWindow.localStorage.setItem('moviemonk_experiment_subject_v1', id);
+}
+
+const variants = [{ name: 'control', weight: 1 }, { name: 'variant', weight: 1 }];
+
+describe('lib/experiments', () => {
+  beforeEach(() => {
+    testWindow.localStorage.clear();
+    testWindow.sessionStorage.clear();
+    testWindow.location.search = '';
+    mockEmitClientEvent.mockReset();
+    setExperimentContext({ signedIn: false });
+  });
+
+  afterAll(() => {
+    setExperimentConfig(experimentConfig);
+  });
+
+  it('drops experiments without weighted variants and clamps traffic', () => {
+    const config = parseExperimentConfig({
+      version: 3,
+      experiments: [
+        { key: 'ok', traffic: 4, variants },
+        { key: 'empty', traffic: 1, variants: [{ name: 'control', weight: 0 }] },
+        { traffic: 1, variants }
+      ]
+    });
+    expect(config.experiments.map((experiment) => [experiment.key, experiment.traffic])).toEqual([['ok', 1]]);
+  });
+
+  it('keeps experiments in one layer mutually exclusive', () => {
+    setExperimentConfig({
+      version: 1,
+      experiments: [
+        { key: 'search_feedback_nudge', layer: 'shared', traffic: 0.5, variants },
+        { key: 'diversity_rerank', layer: 'shared', traffic: 0.5, variants }
+      ]
+    });
+
+    let inFirst = 0;
+    for (let i = 0; i < 200; i += 1) {
+      asSubject(`subject-${i}`);
+      const first = getExperimentAssignment('search_feedback_nudge');
+      const second = getExperimentAssignment('diversity_rerank');
+      expect(first.inExperiment && second.inExperiment).toBe(false);
+      expect(first.inExperiment || second.inExperiment).toBe(true);
+      if (first.inExperiment) inFirst += 1;
+    }
+    expect(inFirst).toBeGreaterThan(60);
+    expect(inFirst).toBeLessThan(140);
+  });
+
+  it('splits N variants by weight', () => {
+    setExperimentConfig({
+      version: 1,
+      experiments: [{
+        key: 'diversity_rerank',
+        traffic: 1,
+        variants: [{ name: 'control', weight: 2 }, { name: 'a', weight: 1 }, { name: 'b', weight: 1 }]
+      }]
+    });
+
+    const counts: Record<string, number> = {};
+    for (let i = 0; i < 400; i += 1) {
+      asSubject(`subject-${i}`);
+      const { variant } = getExperimentAssignment('diversity_rerank');
+      counts[variant] = (counts[variant] || 0) + 1;
+    }
+    expect(counts.control).toBeGreaterThan(150);
+    expect(counts.a).toBeGreaterThan(60);
+    expect(counts.b).toBeGreaterThan(60);
+  });
+
+  it('matches signed-in state, country and app version', () => {
+    const context = { signedIn: true, countryCode: 'gb', appVersion: '1.4.0' };
+    expect(matchesTargeting({ signedIn: true, countries: ['GB', 'IE'], minAppVersion: '1.2' }, context)).toBe(true);
+    expect(matchesTargeting({ signedIn: false }, context)).toBe(false);
+    expect(matchesTargeting({ countries: ['US'] }, context)).toBe(false);
+    expect(matchesTargeting({ countries: ['US'] }, { ...context, countryCode: '' })).toBe(false);
+    expect(matchesTargeting({ excludeCountries: ['GB'] }, context)).toBe(false);
+    expect(matchesTargeting({ minAppVersion: '1.10.0' }, context)).toBe(false);
+    expect(matchesTargeting({ maxAppVersion: '1.4.0' }, context)).toBe(true);
+  });
+
+  it('leaves untargeted subjects on the fallback variant', () => {
+    setExperimentConfig({
+      version: 1,
+      experiments: [{ key: 'diversity_rerank', traffic: 1, targeting: { signedIn: true }, variants: [{ name: 'variant', weight: 1 }, { name: 'control', weight: 1 }] }]
+    });
+    expect(getExperimentAssignment('diversity_rerank')).toMatchObject({ variant: 'variant', inExperiment: false, reason: 'not_targeted' });
+
+    setExperimentContext({ signedIn: true });
+    expect(getExperimentAssignment('diversity_rerank').reason).toBe('assigned');
+  });
+
+  it('applies and persists QA overrides from the URL until cleared', () => {
+    setExperimentConfig({ version: 1, experiments: [{ key: 'diversity_rerank', traffic: 0, variants }] });
+
+    testWindow.location.search = '?exp=diversity_rerank:variant,unknown:x';
+    expect(getExperimentAssignment('diversity_rerank')).toMatchObject({ variant: 'variant', reason: 'override', inExperiment: false });
+
+    testWindow.location.search = '';
+    expect(getExperimentAssignment('diversity_rerank').reason).toBe('override');
+
+    testWindow.location.search = '?exp=clear';
+    expect(getExperimentAssignment('diversity_rerank').reason).toBe('not_in_layer');
+    expect(testWindow.localStorage.getItem(EXPERIMENT_OVERRIDES_STORAGE_KEY)).toBeNull();
+  });
+
+  it('honours per-experiment and global kill switches', () => {
+    const experiments = [{ key: 'diversity_rerank', traffic: 1, variants }];
+    setExperimentConfig({ version: 1, experiments: [{ ...experiments[0], killed: true }] });
+    expect(getExperimentAssignment('diversity_rerank')).toMatchObject({ variant: 'control', reason: 'killed' });
+
+    setExperimentConfig({ version: 1, killAll: true, experiments });
+    testWindow.location.search = '?exp=diversity_rerank:variant';
+    expect(getExperimentAssignment('diversity_rerank')).toMatchObject({ variant: 'control', reason: 'killed' });
+  });
+
+  it('records exposure once per session and never for unassigned subjects', () => {
+    setExperimentConfig({ version: 7, experiments: [{ key: 'diversity_rerank', layer: 'ranking', traffic: 1, variants }] });
+    asSubject('subject-1');
+    const assignment = getExperimentAssignment('diversity_rerank');
+
+    recordExperimentExposure(assignment);
+    recordExperimentExposure(assignment);
+    recordExperimentExposure({ ...assignment, inExperiment: false, reason: 'override' });
+
+    expect(mockEmitClientEvent).toHaveBeenCalledTimes(1);
+    expect(mockEmitClientEvent).toHaveBeenCalledWith({
+      event: 'experiment_exposure',
+      data: { experiment: 'diversity_rerank', variant: assignment.variant, layer: 'ranking', config_version: 7, subject: 'subject-1' }
+    });
+    expect(loadLocalExperimentEvents()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,90 @@
+const mockEmitClientEvent = jest.fn();
+jest.mock('../../services/clientObservability', () => ({
+  emitClientEvent: (...args: unknown[]) => mockEmitClientEvent(...args)
+}));
+
+import { apiGet, apiPost, resetCircuitBreakers } from '../../lib/apiClient';
+import { createMockBackend, MockBackend, routeMockRequest } from '../../lib/mockBackend';
+import { apiFixtures } from '../../mocks/api';
+import type { EpisodesResponse, PersonProfile, SearchPageResponse, SharedWatchlistView, SuggestResponse, WatchlistShareResponse } from '../../types';
+
+describe('mock backend', () => {
+  const realFetch = (global as any).fetch;
+  let backend: MockBackend;
+
+  beforeEach(() => {
+    backend = createMockBackend({ fixtures: apiFixtures, fallbackFetch: jest.fn() as any });
+    (global as any).fetch = backend.fetch;
+    mockEmitClientEvent.mockReset();
+    resetCircuitBreakers();
+  });
+
+  afterAll(() => {
+    (global as any).fetch = realFetch;
+  });
+
+  it('serves every mocked route from fixtures that satisfy the response schemas', async () => {
+    const search = await apiPost<SearchPageResponse>('/api/search', { q: 'Heat', page: 1 });
+    expect(search.hero?.title).toBe('Heat');
+    expect(search.results.map((result) => result.title)).toEqual(['Heat', 'In the Heat of the Night']);
+
+    const suggest = await apiGet<SuggestResponse>('/api/suggest', { q: 'pacino' });
+    expect(suggest.suggestions.map((item) => item.title)).toEqual(['Al Pacino']);
+
+    const episodes = await apiGet<EpisodesResponse>('/api/episodes/1396/1');
+    expect(episodes.episodes).toHaveLength(3);
+
+    const person = await apiGet<PersonProfile>('/api/person/1158');
+    expect(person.person.name).toBe('Al Pacino');
+
+    const share = await apiGet<SharedWatchlistView>('/api/watchlists/share', { token: 'mock-share-token' });
+    expect(share.folderName).toBe('Heist night');
+
+    await expect(apiGet<any>('/api/details/movie/949')).resolves.toMatchObject({ ok: true, data: { title: 'Heat', crew: { director: 'Michael Mann' } } });
+    await expect(apiGet<any>('/api/tmdb', { endpoint: 'genre/movie/list' })).resolves.toMatchObject({ genres: expect.any(Array) });
+    await expect(apiPost<any>('/api/vibe', { q: 'slow burn heist' })).resolves.toMatchObject({ query_raw: 'slow burn heist', intent_type: 'vibe_discovery' });
+
+    expect(mockEmitClientEvent).not.toHaveBeenCalledWith(expect.objectContaining({ event: 'api_schema_violation' }));
+  });
+
+  it('answers unknown ids with the backend error envelope', async () => {
+    await expect(apiGet('/api/person/1', undefined, undefined, { retries: 0 })).rejects.toMatchObject({ status: 404, code: 'not_found' });
+  });
+
+  it('injects scheduled failures that the client retries through', async () => {
+    backend.failNext('GET /api/person', 500);
+    const person = await apiGet<PersonProfile>('/api/person/1158', undefined, undefined, { baseDelayMs: 1 });
+    expect(person.person.id).toBe(1158);
+    expect(backend.calls).toEqual(['GET /api/person', 'GET /api/person']);
+  });
+
+  it('fails a share of requests with a 503 when an error rate is set', async () => {
+    const flaky = createMockBackend({ fixtures: apiFixtures, errorRate: 0.5, random: () => 0.2 });
+    const response = await flaky.fetch('/api/suggest?q=heat');
+    expect(response.status).toBe(503);
+    expect(response.headers.get('Retry-After')).toBe('1');
+  });
+
+  it('shares a watchlist and serves it back under the returned token', async () => {
+    const created = await apiPost<WatchlistShareResponse>('/api/watchlists/share', {
+      folder_name: 'Comfort rewatches',
+      folder_icon: null,
+      items: [{ id: 'item-1', saved_title: 'Paddington 2', movie: null, added_at: '2026-01-01T00:00:00.000Z' }],
+      visibility: 'public'
+    });
+    expect(created).toMatchObject({ ok: true, share_token: 'mock-share-2', item_count: 1, visibility: 'public' });
+    expect(created.share_url).toMatch(/\/watchlists\/share\?token=mock-share-2$/);
+    expect(created.created_at).toEqual(expect.any(String));
+
+    const share = await apiGet<SharedWatchlistView>('/api/watchlists/share', { token: created.share_token });
+    expect(share).toMatchObject({ folderName: 'Comfort rewatches', item_count: 1 });
+    expect(apiFixtures.watchlistShare[created.share_token]).toBeUndefined();
+
+    await expect(apiPost('/api/watchlists/share', { folder_name: 'Empty', items: [] })).rejects.toMatchObject({ status: 400, code: 'invalid_payload' });
+  });
+
+  it('leaves routes it does not mock to the fallback fetch', () => {
+    expect(routeMockRequest(apiFixtures, 'POST', new URL('http://localhost/api/groq'), {})).toBeNull();
+    expect(routeMockRequest(apiFixtures, 'DELETE', new URL('http://localhost/api/watchlists/share'), {})).toBeNull();
+  });
+});
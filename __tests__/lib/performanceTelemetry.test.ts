@@ -0,0 +1,77 @@
+const mockEmitClientEvent = jest.fn();
+
+jest.mock('../../services/clientObservability', () => ({
+  emitClientEvent: (...args: unknown[]) => mockEmitClientEvent(...args)
+}));
+
+jest.mock('../../lib/experiments', () => ({
+  getActiveExperimentVariants: () => ({ diversity_rerank: 'variant' })
+}));
+
+import {
+  cumulativeLayoutShift,
+  endTiming,
+  interactionToNextPaint,
+  rateWebVital,
+  setPerformanceRoute,
+  startTiming,
+  timedImport
+} from '../../lib/performanceTelemetry';
+
+describe('web vital helpers', () => {
+  it('rates against the published thresholds', () => {
+    expect(rateWebVital('LCP', 2500)).toBe('good');
+    expect(rateWebVital('INP', 350)).toBe('needs-improvement');
+    expect(rateWebVital('CLS', 0.3)).toBe('poor');
+    expect(rateWebVital('TTFB', 1800)).toBe('needs-improvement');
+  });
+
+  it('takes the worst layout-shift session window', () => {
+    expect(cumulativeLayoutShift([])).toBe(0);
+    expect(cumulativeLayoutShift([
+      { value: 0.05, startTime: 0 },
+      { value: 0.05, startTime: 500 },
+      { value: 0.2, startTime: 3000 },
+      { value: 0.01, startTime: 3200 }
+    ])).toBeCloseTo(0.21);
+  });
+
+  it('ignores one slow outlier per fifty interactions', () => {
+    expect(interactionToNextPaint([])).toBeNull();
+    expect(interactionToNextPaint([80, 300, 120])).toBe(300);
+    const many = Array.from({ length: 60 }, (_, index) => (index === 0 ? 900 : 100 + index));
+    expect(interactionToNextPaint(many)).toBe(159);
+  });
+});
+
+describe('timings', () => {
+  beforeEach(() => {
+    mockEmitClientEvent.mockReset();
+    setPerformanceRoute('/search', '?q=heat');
+  });
+
+  it('emits the elapsed time with route kind and experiment variants', () => {
+    startTiming('search_to_first_result', { page: 1 });
+    endTiming('search_to_first_result', { offline: false });
+    endTiming('search_to_first_result');
+
+    expect(mockEmitClientEvent).toHaveBeenCalledTimes(1);
+    expect(mockEmitClientEvent).toHaveBeenCalledWith({
+      event: 'perf_timing',
+      data: expect.objectContaining({
+        name: 'search_to_first_result',
+        route_kind: 'search',
+        page: 1,
+        offline: false,
+        experiments: { diversity_rerank: 'variant' }
+      })
+    });
+    expect(mockEmitClientEvent.mock.calls[0][0].data.duration_ms).toBeGreaterThanOrEqual(0);
+  });
+
+  it('reports lazy chunk load time', async () => {
+    const load = timedImport('ComparePage', () => Promise.resolve({ default: 'page' }));
+    await expect(load()).resolves.toEqual({ default: 'page' });
+    expect(mockEmitClientEvent.mock.calls[0][0].data).toMatchObject({ name: 'lazy_chunk', chunk: 'ComparePage' });
+  });
+});
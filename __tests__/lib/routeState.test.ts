@@ -1,4 +1,5 @@
 import { parseAppRoute } from '../../lib/routeState';
+import { buildSearchPath, parseSearchUrlState } from '../../lib/searchFilters';
 
 describe('parseAppRoute', () => {
   it('parses home route', () => {
@@ -12,12 +13,34 @@ describe('parseAppRoute', () => {
   it('parses movie and person ids', () => {
     expect(parseAppRoute('/movie/550', '')).toEqual({ kind: 'movie', id: 550 });
     expect(parseAppRoute('/person/31', '')).toEqual({ kind: 'person', id: 31 });
+    expect(parseAppRoute('/collection/10', '')).toEqual({ kind: 'collection', id: 10 });
+  });
+
+  it('parses compare targets', () => {
+    expect(parseAppRoute('/compare', '?ids=movie:603,tv:1396')).toEqual({
+      kind: 'compare',
+      compareTargets: [{ media_type: 'movie', id: 603 }, { media_type: 'tv', id: 1396 }]
+    });
   });
 
   it('parses TV route', () => {
     expect(parseAppRoute('/tv/1399', '')).toEqual({ kind: 'tv', id: 1399 });
   });
 
+  it('parses season and episode focus on TV routes', () => {
+    expect(parseAppRoute('/tv/1396', '?season=2&episodes=3-7')).toEqual({
+      kind: 'tv',
+      id: 1396,
+      episodeFocus: { seasons: { start: 2, end: 2 }, episodes: { start: 3, end: 7 } }
+    });
+    expect(parseAppRoute('/tv/1438', '?seasons=1-3')).toEqual({
+      kind: 'tv',
+      id: 1438,
+      episodeFocus: { seasons: { start: 1, end: 3 } }
+    });
+    expect(parseAppRoute('/tv/1438', '?season=abc')).toEqual({ kind: 'tv', id: 1438 });
+  });
+
   it('parses shared typed deep links', () => {
     // Shared movie link
     expect(parseAppRoute('/', '?q=Inception&type=movie&year=2010')).toEqual({ 
@@ -38,6 +61,52 @@ describe('parseAppRoute', () => {
     });
   });
 
+  it('restores filters, media type, page and mode from a search URL', () => {
+    expect(parseAppRoute(
+      '/search',
+      '?q=thriller&type=tv&genres=53,80&yearMin=2015&rating=7&lang=ko&sort=vote_average.desc&status=ended&page=3&mode=keyword'
+    )).toEqual({
+      kind: 'search',
+      query: 'thriller',
+      refinement: {
+        mediaType: 'tv',
+        filters: {
+          genres: [53, 80],
+          yearMin: 2015,
+          ratingMin: 7,
+          languages: ['ko'],
+          sortBy: 'vote_average.desc',
+          status: 'ended'
+        }
+      },
+      page: 3,
+      searchMode: 'keyword'
+    });
+  });
+
+  it('drops unknown or invalid search params', () => {
+    expect(parseAppRoute(
+      '/search',
+      '?q=dune&type=book&genres=abc&yearMin=99999&rating=11&lang=english&sort=random&status=ended&page=-2&mode=fast&utm_source=x'
+    )).toEqual({ kind: 'search', query: 'dune' });
+  });
+
+  it('round-trips search state through the query string', () => {
+    const state = {
+      query: 'korean thrillers',
+      refinement: {
+        mediaType: 'movie' as const,
+        filters: { genres: [53], yearMin: 2015, runtimeMax: 120, withCast: '1,2', includeAdult: true }
+      },
+      page: 2,
+      mode: 'vibe' as const
+    };
+    const path = buildSearchPath(state);
+    const [pathname, search] = path.split('?');
+    expect(pathname).toBe('/search');
+    expect(parseSearchUrlState(search)).toEqual(state);
+  });
+
   it('returns unknown for unsupported paths', () => {
     expect(parseAppRoute('/foo/bar', '')).toEqual({ kind: 'unknown' });
   });
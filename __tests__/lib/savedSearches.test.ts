@@ -0,0 +1,85 @@
+const mockApiPost = jest.fn();
+
+jest.mock('../../lib/apiClient', () => ({
+  apiPost: (...args: unknown[]) => mockApiPost(...args)
+}));
+
+jest.mock('../../lib/userSettings', () => ({
+  loadPreferenceSettings: () => ({ familySafe: false })
+}));
+
+import {
+  createSavedSearch,
+  diffSavedSearchResults,
+  runSavedSearch,
+  savedSearchToUrlState
+} from '../../lib/savedSearches';
+import type { SearchResult } from '../../types';
+
+function result(id: number, media_type: 'movie' | 'tv' = 'movie'): SearchResult {
+  return {
+    id,
+    title: `Title ${id}`,
+    type: media_type === 'tv' ? 'show' : 'movie',
+    media_type,
+    confidence: 1
+  };
+}
+
+describe('savedSearches', () => {
+  const refinement = {
+    filters: { genres: [53], yearMin: 2016, ratingMin: 7, languages: ['ko'] },
+    mediaType: 'movie' as const
+  };
+
+  beforeEach(() => {
+    mockApiPost.mockReset();
+  });
+
+  it('round-trips query, filters and mode through the saved shape', () => {
+    const saved = createSavedSearch('  Korean thrillers ', { query: 'thriller ', refinement, mode: 'keyword' });
+
+    expect(saved.name).toBe('Korean thrillers');
+    expect(saved.last_result_ids).toEqual([]);
+    expect(savedSearchToUrlState(saved)).toEqual({ query: 'thriller', refinement, page: 1, mode: 'keyword' });
+  });
+
+  it('reports nothing as new before the first run', () => {
+    const saved = createSavedSearch('Korean thrillers', { query: 'thriller', refinement });
+    expect(diffSavedSearchResults(saved, [result(1)])).toEqual([]);
+  });
+
+  it('diffs by media type and id against the previous run', () => {
+    const saved = {
+      ...createSavedSearch('Korean thrillers', { query: 'thriller', refinement }),
+      last_result_ids: ['movie:1', 'movie:2'],
+      last_run_at: '2026-01-01T00:00:00.000Z'
+    };
+
+    expect(diffSavedSearchResults(saved, [result(1), result(2, 'tv'), result(3)]).map((entry) => entry.id)).toEqual([2, 3]);
+  });
+
+  it('sends the saved filters and records the new baseline', async () => {
+    mockApiPost.mockResolvedValue({ hero: result(1), results: [result(1), result(4)] });
+    const saved = {
+      ...createSavedSearch('Korean thrillers', { query: 'thriller', refinement }),
+      last_result_ids: ['movie:1'],
+      last_run_at: '2026-01-01T00:00:00.000Z'
+    };
+
+    const run = await runSavedSearch(saved);
+
+    expect(mockApiPost).toHaveBeenCalledWith('/api/search', {
+      q: 'thriller',
+      page: 1,
+      type: 'movie',
+      genres: '53',
+      yearMin: 2016,
+      ratingMin: 7,
+      languages: 'ko'
+    }, undefined);
+    expect(run.newResults.map((entry) => entry.id)).toEqual([4]);
+    expect(run.search.last_result_ids).toEqual(['movie:1', 'movie:4']);
+    expect(run.search.last_run_at).not.toBe(saved.last_run_at);
+  });
+});
@@ -0,0 +1,45 @@
+import { alias, array, nullable, number, object, oneOf, optional, parseWithSchema, string } from '../../lib/schema';
+
+describe('lib/schema', () => {
+  const schema = object({
+    id: number(),
+    title: string(),
+    year: optional(string()),
+    kind: oneOf(['movie', 'tv'], 'movie'),
+    poster: nullable(string()),
+    folderName: alias(string(), 'folder_name'),
+    tags: array(string())
+  });
+
+  it('passes matching payloads through untouched, keeping unknown fields', () => {
+    const payload = { id: 1, title: 'Heat', year: '1995', kind: 'movie', poster: null, folderName: 'Crime', tags: ['classic'], extra: true };
+    const { value, issues } = parseWithSchema(schema, payload);
+    expect(issues).toEqual([]);
+    expect(value).toEqual(payload);
+  });
+
+  it('coerces leniently and reports every mismatch with its path', () => {
+    const { value, issues } = parseWithSchema(schema, {
+      id: '7',
+      title: 42,
+      year: null,
+      kind: 'person',
+      folder_name: 'Crime',
+      tags: ['a', { bad: true }]
+    });
+
+    expect(value).toEqual({ id: 7, title: '42', kind: 'movie', poster: null, folderName: 'Crime', folder_name: 'Crime', tags: ['a', ''] });
+    expect(issues).toEqual([
+      { path: 'id', expected: 'number', received: 'string' },
+      { path: 'title', expected: 'string', received: 'number' },
+      { path: 'kind', expected: "'movie' | 'tv'", received: 'string' },
+      { path: 'tags[1]', expected: 'string', received: 'object' }
+    ]);
+  });
+
+  it('falls back to an empty shape for non-objects', () => {
+    const { value, issues } = parseWithSchema(schema, 'oops');
+    expect(value).toMatchObject({ id: 0, title: '', tags: [] });
+    expect(issues[0]).toEqual({ path: '(root)', expected: 'object', received: 'string' });
+  });
+});
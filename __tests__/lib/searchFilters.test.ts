@@ -0,0 +1,91 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  buildSearchRequestFilters,
+  formatPersonIds,
+  getActiveFilterCount,
+  parsePersonIds,
+  parseSearchUrlState,
+  SEARCH_SORT_VALUES
+} from '../../lib/searchFilters';
+
+describe('searchFilters', () => {
+  it('counts runtime, cast, crew, status and adult filters', () => {
+    expect(getActiveFilterCount({})).toBe(0);
+    expect(getActiveFilterCount({
+      runtimeMin: 80,
+      runtimeMax: 120,
+      withCast: '6193',
+      withCrew: '525,',
+      status: 'ended',
+      includeAdult: true
+    })).toBe(6);
+    expect(getActiveFilterCount({ withCast: '', includeAdult: false })).toBe(0);
+  });
+
+  it('round-trips person id lists', () => {
+    expect(parsePersonIds('6193, 525|6193,abc')).toEqual([6193, 525]);
+    expect(formatPersonIds([6193, 525])).toBe('6193,525');
+    expect(formatPersonIds([])).toBeUndefined();
+  });
+
+  it('only sends TV status for TV searches', () => {
+    const filters = { status: 'returning' as const, withCast: '6193', includeAdult: true };
+
+    expect(buildSearchRequestFilters({ filters, mediaType: 'tv' })).toEqual({
+      type: 'tv',
+      status: 'returning',
+      withCast: '6193',
+      includeAdult: true
+    });
+    expect(buildSearchRequestFilters({ filters, mediaType: 'all' })).toEqual({
+      withCast: '6193',
+      includeAdult: true
+    });
+  });
+
+  it('never sends the adult filter in family-safe mode', () => {
+    const { refinement } = parseSearchUrlState('?q=heat&adult=1&cast=6193');
+
+    expect(refinement.filters.includeAdult).toBe(true);
+    expect(buildSearchRequestFilters(refinement, { familySafe: true })).toEqual({ withCast: '6193' });
+  });
+});
+
+describe('searchFilters backend contract', () => {
+  const serverFile = (relative: string) => fs.readFileSync(path.join(process.cwd(), 'server', 'app', relative), 'utf8');
+
+  it('only sends keys the backend SearchRequest model accepts', () => {
+    const requestModel = serverFile('models/search.py').split(/\nclass /).find((block) => block.startsWith('SearchRequest(')) || '';
+    const accepted = new Set(Array.from(requestModel.matchAll(/^ {4}(\w+):/gm), (match) => match[1]));
+    expect(accepted.has('q')).toBe(true);
+
+    const everyFilter = buildSearchRequestFilters({
+      mediaType: 'tv',
+      filters: {
+        genres: [18],
+        yearMin: 1990,
+        yearMax: 1999,
+        ratingMin: 7,
+        languages: ['ko'],
+        sortBy: 'title.asc',
+        runtimeMin: 30,
+        runtimeMax: 60,
+        withCast: '6193',
+        withCrew: '525',
+        status: 'ended',
+        includeAdult: true
+      }
+    });
+
+    expect(Object.keys(everyFilter).filter((key) => !accepted.has(key))).toEqual([]);
+  });
+
+  it('only offers sort orders the backend search handler implements', () => {
+    const handler = serverFile('api/search.py');
+    const handled = Array.from(handler.matchAll(/sortBy == "([\w.]+)"/g), (match) => match[1]);
+
+    // popularity.desc is the handler's fallback branch.
+    expect(Array.from(SEARCH_SORT_VALUES).filter((sortBy) => sortBy !== 'popularity.desc' && !handled.includes(sortBy))).toEqual([]);
+  });
+});
@@ -0,0 +1,96 @@
+import {
+  describeSearchRefinement,
+  parseSearchOperators,
+  removeSearchRefinementChip
+} from '../../lib/searchOperators';
+import { buildSearchRequestFilters } from '../../lib/searchFilters';
+
+describe('parseSearchOperators', () => {
+  it('compiles every supported operator into a refinement and keeps free text', () => {
+    const parsed = parseSearchOperators(
+      'heist genre:horror year:1990..1999 lang:ko rating:>7 runtime:<100 type:tv sort:rating'
+    );
+
+    expect(parsed.text).toBe('heist');
+    expect(parsed.refinement.mediaType).toBe('tv');
+    expect(parsed.refinement.filters).toEqual({
+      genres: [27],
+      yearMin: 1990,
+      yearMax: 1999,
+      languages: ['ko'],
+      ratingMin: 7,
+      runtimeMax: 100,
+      runtimeMin: undefined,
+      sortBy: 'vote_average.desc'
+    });
+    expect(parsed.operators).toEqual(['genre', 'year', 'lang', 'rating', 'runtime', 'type', 'sort']);
+  });
+
+  it('resolves genre names against the loaded genre list and aliases', () => {
+    const parsed = parseSearchOperators('genre:sci-fi,Thriller', undefined, {
+      genres: [{ id: 878, name: 'Science Fiction' }, { id: 53, name: 'Thriller' }]
+    });
+    expect(parsed.refinement.filters.genres).toEqual([878, 53]);
+    expect(parsed.text).toBe('');
+  });
+
+  it('leaves unknown keys and invalid values in the free text', () => {
+    const parsed = parseSearchOperators('note:this year:soon rating:<5 https://example.com');
+    expect(parsed.text).toBe('note:this year:soon rating:<5 https://example.com');
+    expect(parsed.operators).toEqual([]);
+  });
+
+  it('treats strict year comparisons as inclusive bounds', () => {
+    expect(parseSearchOperators('year:>2015').refinement.filters).toEqual({ yearMin: 2016, yearMax: undefined });
+    expect(parseSearchOperators('year:<2000').refinement.filters).toEqual({ yearMin: undefined, yearMax: 1999 });
+  });
+
+  it('skips the trailing token while the user is still typing', () => {
+    const typing = parseSearchOperators('dune year:19', undefined, { completedOnly: true });
+    expect(typing.operators).toEqual([]);
+    expect(typing.text).toBe('dune year:19');
+
+    const completed = parseSearchOperators('dune year:2021 ', undefined, { completedOnly: true });
+    expect(completed.operators).toEqual(['year']);
+    expect(completed.text).toBe('dune');
+  });
+
+  it('merges list operators into an existing refinement', () => {
+    const parsed = parseSearchOperators('lang:japanese', {
+      filters: { languages: ['ko'] },
+      mediaType: 'movie'
+    });
+    expect(parsed.refinement).toEqual({ filters: { languages: ['ko', 'ja'] }, mediaType: 'movie' });
+  });
+});
+
+describe('search refinement chips', () => {
+  const refinement = parseSearchOperators('genre:horror year:1990..1999 sort:newest type:movie').refinement;
+
+  it('describes active filters as chips', () => {
+    expect(describeSearchRefinement(refinement).map((chip) => chip.label)).toEqual([
+      'Movies',
+      'Horror',
+      '1990-1999',
+      'Newest'
+    ]);
+  });
+
+  it('removes a chip without touching the others', () => {
+    const next = removeSearchRefinementChip(refinement, 'year');
+    expect(next.filters.yearMin).toBeUndefined();
+    expect(next.filters.yearMax).toBeUndefined();
+    expect(next.filters.genres).toEqual([27]);
+    expect(removeSearchRefinementChip(next, 'mediaType').mediaType).toBe('all');
+  });
+
+  it('maps the refinement onto the /api/search body', () => {
+    expect(buildSearchRequestFilters(refinement)).toEqual({
+      type: 'movie',
+      genres: '27',
+      yearMin: 1990,
+      yearMax: 1999,
+      sortBy: 'release_date.desc'
+    });
+  });
+});
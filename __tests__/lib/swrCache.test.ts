@@ -0,0 +1,80 @@
+const mockApiGet = jest.fn();
+jest.mock('../../lib/apiClient', () => ({
+  apiGet: (...args: unknown[]) => mockApiGet(...args),
+  buildApiGetUrl: (path: string, params?: Record<string, unknown>) =>
+    params ? `${path}?${new URLSearchParams(params as Record<string, string>).toString()}` : path
+}));
+
+import { getCacheStatsSnapshot, resetCacheStats } from '../../lib/cacheStats';
+import { getSwrSnapshot, invalidateSwr, resetSwrCache, subscribeSwr, swrGet, swrKey } from '../../lib/swrCache';
+
+const MINUTE = 60_000;
+
+describe('swrCache', () => {
+  let now = 0;
+
+  beforeEach(() => {
+    now = 0;
+    mockApiGet.mockReset();
+    resetCacheStats();
+    resetSwrCache(() => now);
+  });
+
+  it('serves fresh entries from cache without refetching', async () => {
+    mockApiGet.mockResolvedValueOnce({ value: 1 });
+    await expect(swrGet('/api/tmdb', { endpoint: 'movie/1' })).resolves.toEqual({ value: 1 });
+
+    now = 4 * MINUTE;
+    await expect(swrGet('/api/tmdb', { endpoint: 'movie/1' })).resolves.toEqual({ value: 1 });
+    expect(mockApiGet).toHaveBeenCalledTimes(1);
+    expect(getCacheStatsSnapshot().swrCache).toEqual({ hits: 1, misses: 1, hitRatio: 0.5 });
+  });
+
+  it('returns stale data immediately and notifies subscribers when the refresh lands', async () => {
+    mockApiGet.mockResolvedValueOnce({ value: 1 });
+    await swrGet('/api/tmdb', { endpoint: 'movie/1' });
+
+    let resolveRefresh: (value: unknown) => void = () => undefined;
+    mockApiGet.mockReturnValueOnce(new Promise((resolve) => {
+      resolveRefresh = resolve;
+    }));
+    const key = swrKey('/api/tmdb', { endpoint: 'movie/1' });
+    const seen: unknown[] = [];
+    const unsubscribe = subscribeSwr(key, () => seen.push(getSwrSnapshot(key).data));
+
+    now = 10 * MINUTE;
+    await expect(swrGet('/api/tmdb', { endpoint: 'movie/1' })).resolves.toEqual({ value: 1 });
+    expect(getSwrSnapshot(key).isValidating).toBe(true);
+
+    resolveRefresh({ value: 2 });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(getSwrSnapshot(key)).toMatchObject({ data: { value: 2 }, isValidating: false, fetchedAt: 10 * MINUTE });
+    expect(seen).toEqual([{ value: 1 }, { value: 2 }]);
+    unsubscribe();
+  });
+
+  it('refetches before answering once an entry is too old or invalidated', async () => {
+    mockApiGet.mockResolvedValueOnce({ value: 1 }).mockResolvedValueOnce({ value: 2 }).mockResolvedValueOnce({ value: 3 });
+    await swrGet('/api/suggest', { q: 'heat' });
+
+    now = 11 * MINUTE;
+    await expect(swrGet('/api/suggest', { q: 'heat' })).resolves.toEqual({ value: 2 });
+
+    invalidateSwr('/api/suggest');
+    await expect(swrGet('/api/suggest', { q: 'heat' })).resolves.toEqual({ value: 3 });
+    expect(mockApiGet).toHaveBeenCalledTimes(3);
+  });
+
+  it('keeps stale data when a background refresh fails', async () => {
+    mockApiGet.mockResolvedValueOnce({ value: 1 }).mockRejectedValueOnce(new Error('offline'));
+    await swrGet('/api/tmdb', { endpoint: 'movie/1' });
+
+    now = 10 * MINUTE;
+    await swrGet('/api/tmdb', { endpoint: 'movie/1' });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    const snapshot = getSwrSnapshot(swrKey('/api/tmdb', { endpoint: 'movie/1' }));
+    expect(snapshot.data).toEqual({ value: 1 });
+    expect(snapshot.error).toEqual(new Error('offline'));
+  });
+});
@@ -0,0 +1,116 @@
+import {
+  ComparedTitle,
+  averageNormalizedRating,
+  buildComparePath,
+  buildRatingRows,
+  filterWatchOptionsByRegion,
+  findOverlap,
+  getSharedProviders,
+  normalizeRatingScore,
+  parseCompareIds,
+  toggleCompareTrayItem
+} from '../../lib/titleComparison';
+
+function title(overrides: Partial<ComparedTitle>): ComparedTitle {
+  return {
+    id: 1,
+    media_type: 'movie',
+    title: 'Title',
+    year: '2000',
+    poster_url: '',
+    genres: [],
+    ratings: [],
+    runtimeMinutes: null,
+    seasonCount: null,
+    episodeCount: null,
+    episodeRuntimeMinutes: null,
+    cast: [],
+    providers: [],
+    contentRating: null,
+    contentAdvisory: [],
+    ...overrides
+  };
+}
+
+describe('compare ids', () => {
+  it('parses typed ids, dropping malformed and duplicate entries', () => {
+    expect(parseCompareIds('movie:603, tv:1396,movie:603,person:31,tv:abc')).toEqual([
+      { media_type: 'movie', id: 603 },
+      { media_type: 'tv', id: 1396 }
+    ]);
+    expect(parseCompareIds('movie:1,movie:2,movie:3,movie:4')).toHaveLength(3);
+    expect(parseCompareIds(null)).toEqual([]);
+  });
+
+  it('builds a compare path that round-trips', () => {
+    const path = buildComparePath([{ media_type: 'movie', id: 603 }, { media_type: 'tv', id: 1396 }]);
+    expect(path).toBe('/compare?ids=movie%3A603%2Ctv%3A1396');
+    expect(parseCompareIds(new URLSearchParams(path.split('?')[1]).get('ids'))).toHaveLength(2);
+  });
+});
+
+describe('toggleCompareTrayItem', () => {
+  const item = (id: number) => ({ id, media_type: 'movie' as const, title: `Movie ${id}` });
+
+  it('adds, removes and keeps the newest picks when full', () => {
+    const tray = toggleCompareTrayItem(toggleCompareTrayItem([], item(1)), item(2));
+    expect(tray.map((entry) => entry.id)).toEqual([1, 2]);
+    expect(toggleCompareTrayItem(tray, item(1)).map((entry) => entry.id)).toEqual([2]);
+
+    const full = [item(1), item(2), item(3)];
+    expect(toggleCompareTrayItem(full, item(4)).map((entry) => entry.id)).toEqual([2, 3, 4]);
+  });
+});
+
+describe('normalizeRatingScore', () => {
+  it('puts every source on a 0–100 scale', () => {
+    expect(normalizeRatingScore({ source: 'IMDb', score: '8.7/10' })).toBe(87);
+    expect(normalizeRatingScore({ source: 'Rotten Tomatoes', score: '93%' })).toBe(93);
+    expect(normalizeRatingScore({ source: 'Metacritic', score: '74/100' })).toBe(74);
+    expect(normalizeRatingScore({ source: 'Letterboxd', score: '4.1/5' })).toBe(82);
+    expect(normalizeRatingScore({ source: 'TMDB', score: '7.9' })).toBe(79);
+    expect(normalizeRatingScore({ source: 'Metacritic', score: '8' })).toBe(8);
+  });
+
+  it('returns null for unreadable or out-of-range scores', () => {
+    expect(normalizeRatingScore({ source: 'IMDb', score: 'N/A' })).toBeNull();
+    expect(normalizeRatingScore({ source: 'IMDb', score: '12/10' })).toBeNull();
+  });
+});
+
+describe('buildRatingRows', () => {
+  it('lines up sources across titles and averages what can be read', () => {
+    const first = title({ ratings: [{ source: 'IMDb', score: '8.0/10' }, { source: 'Rotten Tomatoes', score: '90%' }] });
+    const second = title({ id: 2, ratings: [{ source: 'IMDb', score: '7.0/10' }] });
+
+    expect(buildRatingRows([first, second])).toEqual([
+      { source: 'IMDb', scores: ['8.0/10', '7.0/10'], normalized: [80, 70] },
+      { source: 'Rotten Tomatoes', scores: ['90%', null], normalized: [90, null] }
+    ]);
+    expect(averageNormalizedRating(first)).toBe(85);
+    expect(averageNormalizedRating(title({}))).toBeNull();
+  });
+});
+
+describe('overlap', () => {
+  it('finds values shared by at least two titles, case-insensitively', () => {
+    expect(findOverlap([
+      ['Keanu Reeves', 'Carrie-Anne Moss', 'Keanu Reeves'],
+      ['keanu reeves', 'Laurence Fishburne'],
+      ['Laurence Fishburne']
+    ])).toEqual(['Keanu Reeves', 'Laurence Fishburne']);
+  });
+
+  it('keeps only watch options for the viewer region', () => {
+    const options = [
+      { platform: 'Netflix', link: '', type: 'subscription' as const, region: 'US' },
+      { platform: 'Hotstar', link: '', type: 'subscription' as const, region: 'IN' },
+      { platform: 'Apple TV', link: '', type: 'rent' as const }
+    ];
+    expect(filterWatchOptionsByRegion(options, 'us').map((option) => option.platform)).toEqual(['Netflix', 'Apple TV']);
+    expect(getSharedProviders([
+      title({ providers: [options[0], options[2]] }),
+      title({ id: 2, providers: [options[0]] })
+    ])).toEqual(['Netflix']);
+  });
+});
@@ -0,0 +1,143 @@
+const mockEmitClientEvent = jest.fn();
+jest.mock('../../services/clientObservability', () => ({
+  emitClientEvent: (...args: unknown[]) => mockEmitClientEvent(...args)
+}));
+
+import { resetSchemaViolationReports, validateApiResponse } from '../../services/apiResponseSchemas';
+
+describe('services/apiResponseSchemas', () => {
+  beforeEach(() => {
+    mockEmitClientEvent.mockReset();
+    resetSchemaViolationReports();
+  });
+
+  it('returns valid responses unchanged and without reports', () => {
+    const episodes = {
+      ok: true,
+      source: 'tmdb',
+      cached: false,
+      episodes: [{ id: 1, season: 1, episode: 1, name: 'Pilot', airdate: '2008-01-20', runtime: 58, rating: 9, image: null, summary: null }]
+    };
+    expect(validateApiResponse('GET /api/episodes/:id/:id', episodes)).toEqual(episodes);
+    expect(mockEmitClientEvent).not.toHaveBeenCalled();
+  });
+
+  it('repairs a drifted person profile and reports the offending fields once', () => {
+    const drifted = { person: { id: '31', name: null }, filmography: [{ id: 1, title: 'Heat', role: 'Actor', year: '1995' }] };
+
+    const first = validateApiResponse<any>('GET /api/person/:id', drifted);
+    expect(first.person).toEqual({ id: 31, name: '' });
+    expect(first.filmography[0].year).toBe(1995);
+    expect(mockEmitClientEvent).toHaveBeenCalledWith({
+      event: 'api_schema_violation',
+      level: 'warn',
+      data: {
+        endpoint: 'GET /api/person/:id',
+        issue_count: 3,
+        issues: [
+          { path: 'person.id', expected: 'number', received: 'string' },
+          { path: 'person.name', expected: 'string', received: 'null' },
+          { path: 'filmography[0].year', expected: 'number', received: 'string' }
+        ]
+      }
+    });
+
+    validateApiResponse('GET /api/person/:id', drifted);
+    expect(mockEmitClientEvent).toHaveBeenCalledTimes(1);
+  });
+
+  it('maps the snake_case shared watchlist payload onto the client type', () => {
+    const view = validateApiResponse<any>('GET /api/watchlists/share', {
+      folder_name: 'Heists',
+      folder_icon: 'film',
+      items: [],
+      shared_by: 'u1',
+      created_at: '2026-01-01',
+      item_count: 0
+    });
+    expect(view.folderName).toBe('Heists');
+    expect(view.folderIcon).toBe('film');
+    expect(mockEmitClientEvent).not.toHaveBeenCalled();
+  });
+
+  it('reads the backend\'s snake_case applied filters', () => {
+    const page = validateApiResponse<any>('POST /api/search', {
+      ok: true,
+      query: 'heat',
+      page: 1,
+      total_pages: 1,
+      total_results: 1,
+      hero: null,
+      results: [],
+      people: [],
+      applied_filters: {
+        type: 'tv',
+        sort_by: 'title.asc',
+        genres: [],
+        year_min: null,
+        year_max: null,
+        rating_min: 7,
+        languages: ['ko'],
+        runtime_min: 30,
+        runtime_max: null,
+        with_cast: [6193],
+        with_crew: [],
+        status: 'ended',
+        include_adult: false
+      }
+    });
+
+    expect(page.applied_filters).toMatchObject({
+      sortBy: 'title.asc',
+      ratingMin: 7,
+      languages: ['ko'],
+      runtimeMin: 30,
+      withCast: [6193],
+      status: 'ended',
+      includeAdult: false
+    });
+    expect(page.applied_filters.runtimeMax).toBeUndefined();
+    expect(mockEmitClientEvent).not.toHaveBeenCalled();
+  });
+
+  it('checks the details envelope and keeps detail-only fields', () => {
+    const response = validateApiResponse<any>('GET /api/details/tv/:id', {
+      ok: true,
+      cached: false,
+      data: {
+        title: 'Breaking Bad',
+        year: 2008,
+        type: 'show',
+        genres: ['Drama'],
+        poster_url: '',
+        backdrop_url: '',
+        trailer_url: '',
+        ratings: [],
+        cast: [{ id: 17419, name: 'Bryan Cranston', role: 'Walter White', known_for: 'Acting', profile_url: null }],
+        crew: { director: 'Vince Gilligan', writer: 'Vince Gilligan', music: 'Dave Porter' },
+        summary_short: '',
+        summary_medium: '',
+        summary_long_spoilers: '',
+        suspense_breaker: '',
+        where_to_watch: [],
+        extra_images: [],
+        ai_notes: '',
+        content_rating: 'TV-MA',
+        tv_show: { status: 'Ended', total_seasons: 5 }
+      }
+    });
+
+    expect(response.data.year).toBe('2008');
+    expect(response.data.content_rating).toBe('TV-MA');
+    expect(response.data.tv_show).toEqual({ status: 'Ended', total_seasons: 5 });
+    expect(response.data.cast[0]).toEqual({ id: 17419, name: 'Bryan Cranston', role: 'Walter White', known_for: 'Acting' });
+    expect(mockEmitClientEvent).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ endpoint: 'GET /api/details/tv/:id', issues: [{ path: 'data.year', expected: 'string', received: 'number' }] })
+    }));
+  });
+
+  it('leaves untyped endpoints alone', () => {
+    const raw = { results: 'anything' };
+    expect(validateApiResponse('GET /api/tmdb', raw)).toBe(raw);
+  });
+});
@@ -0,0 +1,57 @@
+import {
+  hashQuery,
+  redactEventData,
+  scrubString,
+  setEventRedactionRules
+} from '../../services/clientObservability';
+
+describe('scrubString', () => {
+  it('masks emails, tokens, share links and user ids', () => {
+    expect(scrubString('failed for jane.doe+mm@example.co.uk')).toBe('failed for [email]');
+    expect(scrubString('Authorization: Bearer abc.DEF-123')).toBe('Authorization: Bearer [token]');
+    expect(scrubString('jwt eyJhbGciOi.eyJzdWIiOiIx.sig-nature_1')).toBe('jwt [jwt]');
+    expect(scrubString('/api/watchlists/share?token=s3cr3t&x=1')).toBe('/api/watchlists/share?token=[redacted]&x=1');
+    expect(scrubString('https://moviemonk.app/watchlists/share/s3cr3t?ref=1')).toBe('https://moviemonk.app/watchlists/share/[token]?ref=1');
+    expect(scrubString('user 0f8fad5b-d9cb-469f-a165-70867728950e missing')).toBe('user [uuid] missing');
+  });
+
+  it('truncates long strings and notes how much was cut', () => {
+    expect(scrubString('a'.repeat(12), 10)).toBe(`${'a'.repeat(10)}…[+2]`);
+  });
+});
+
+describe('redactEventData', () => {
+  afterEach(() => {
+    setEventRedactionRules('custom_event', null);
+  });
+
+  it('drops secret-bearing keys at any depth, whatever their casing', () => {
+    const data = redactEventData('client_error', {
+      message: 'Failed to parse Groq response',
+      rawContent: '{"title":"Heat"}',
+      nested: { user_id: 'abc', Email: 'x@y.io', items: [{ access_token: 't' }] }
+    });
+    expect(data).toEqual({
+      message: 'Failed to parse Groq response',
+      rawContent: '[redacted]',
+      nested: { user_id: '[redacted]', Email: '[redacted]', items: [{ access_token: '[redacted]' }] }
+    });
+  });
+
+  it('hashes search text unless the user shares queries', () => {
+    const hashed = redactEventData('search_request_started', { query: 'Heat 1995', original_query: 'heat 1995 ' });
+    expect(hashed.query).toBe(hashQuery('Heat 1995'));
+    expect(hashed.query).toMatch(/^q_[0-9a-f]{16}$/);
+    expect(hashed.original_query).toBe(hashed.query);
+
+    expect(redactEventData('search_request_started', { query: 'Heat 1995' }, { shareQueries: true }))
+      .toEqual({ query: 'Heat 1995' });
+  });
+
+  it('applies per-event rules on top of the defaults', () => {
+    setEventRedactionRules('custom_event', { dropKeys: ['title'], maxStringLength: 4 });
+    expect(redactEventData('custom_event', { title: 'Heat', note: 'abcdef', rawContent: 'x' }))
+      .toEqual({ title: '[redacted]', note: 'abcd…[+2]', rawContent: '[redacted]' });
+    expect(redactEventData('other_event', { title: 'Heat' })).toEqual({ title: 'Heat' });
+  });
+});
@@ -0,0 +1,82 @@
+const mockApiGet = jest.fn();
+
+jest.mock('../../lib/apiClient', () => ({
+  apiGet: (...args: unknown[]) => mockApiGet(...args)
+}));
+
+import { fetchComparedTitle } from '../../services/compareService';
+
+function details(overrides: Record<string, unknown> = {}) {
+  return {
+    data: {
+      tmdb_id: '603',
+      title: 'The Matrix',
+      year: '1999',
+      type: 'movie',
+      genres: ['Action', 'Science Fiction'],
+      poster_url: 'poster.jpg',
+      ratings: [{ source: 'IMDb', score: '8.7/10' }],
+      cast: [{ name: 'Keanu Reeves', role: 'Neo', known_for: '' }],
+      where_to_watch: [{ platform: 'Netflix', link: '', type: 'subscription', region: 'GB' }],
+      content_advisory: ['Violence'],
+      ...overrides
+    }
+  };
+}
+
+describe('services/compareService', () => {
+  beforeEach(() => {
+    mockApiGet.mockReset();
+  });
+
+  it('merges details with runtime, certification and regional providers', async () => {
+    mockApiGet.mockImplementation((path: string) => {
+      if (path.startsWith('/api/details')) return Promise.resolve(details());
+      return Promise.resolve({
+        runtime: 136,
+        release_dates: {
+          results: [
+            { iso_3166_1: 'GB', release_dates: [{ type: 4, certification: '15' }] },
+            { iso_3166_1: 'US', release_dates: [{ type: 3, certification: 'R' }] }
+          ]
+        },
+        'watch/providers': {
+          results: {
+            GB: { link: 'tmdb-link', flatrate: [{ provider_name: 'Netflix' }], rent: [{ provider_name: 'Netflix' }, { provider_name: 'Apple TV' }] }
+          }
+        }
+      });
+    });
+
+    const compared = await fetchComparedTitle({ id: 603, media_type: 'movie' }, 'GB');
+
+    expect(mockApiGet).toHaveBeenCalledWith(
+      '/api/tmdb',
+      { endpoint: 'movie/603', append_to_response: 'release_dates,watch/providers' },
+      undefined
+    );
+    expect(compared).toMatchObject({
+      title: 'The Matrix',
+      runtimeMinutes: 136,
+      contentRating: '15',
+      contentAdvisory: ['Violence'],
+      cast: ['Keanu Reeves']
+    });
+    expect(compared?.providers).toEqual([
+      { platform: 'Netflix', link: 'tmdb-link', type: 'subscription', region: 'GB' },
+      { platform: 'Apple TV', link: 'tmdb-link', type: 'rent', region: 'GB' }
+    ]);
+  });
+
+  it('reads episode counts for shows and falls back to region-filtered details when TMDB facts fail', async () => {
+    mockApiGet.mockImplementation((path: string) => {
+      if (path.startsWith('/api/details')) return Promise.resolve(details({ title: 'Breaking Bad', content_rating: 'TV-MA' }));
+      return Promise.reject(new Error('offline'));
+    });
+
+    const compared = await fetchComparedTitle({ id: 1396, media_type: 'tv' }, 'US');
+
+    expect(compared).toMatchObject({ title: 'Breaking Bad', runtimeMinutes: null, episodeCount: null, contentRating: 'TV-MA' });
+    expect(compared?.providers).toEqual([]);
+  });
+});
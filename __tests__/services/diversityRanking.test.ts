@@ -0,0 +1,92 @@
+const mockGetExperimentAssignment = jest.fn();
+const mockRecordExperimentExposure = jest.fn();
+
+jest.mock('../../lib/experiments', () => ({
+  getExperimentAssignment: (...args: unknown[]) => mockGetExperimentAssignment(...args),
+  recordExperimentExposure: (...args: unknown[]) => mockRecordExperimentExposure(...args)
+}));
+
+import {
+  DiversityCandidate,
+  collectionKey,
+  diversifyResults,
+  diversitySimilarity,
+  getDiversityRerankAssignment,
+  isDiversityRerankEnabled
+} from '../../services/diversityRanking';
+
+function title(id: number, name: string, overrides: Partial<DiversityCandidate> = {}): DiversityCandidate {
+  return { id, media_type: 'movie', title: name, year: '2010', genre_ids: [28], original_language: 'en', ...overrides };
+}
+
+describe('collectionKey', () => {
+  it('reduces sequels, subtitles and seasons to one franchise stem', () => {
+    expect(collectionKey('Dune: Part Two')).toBe('dune');
+    expect(collectionKey('Dune')).toBe('dune');
+    expect(collectionKey('Toy Story 3')).toBe('toy story');
+    expect(collectionKey('The Godfather Part II')).toBe('godfather');
+    expect(collectionKey('Stranger Things - Season 4')).toBe('stranger things');
+    expect(collectionKey('7')).toBeNull();
+  });
+});
+
+describe('diversitySimilarity', () => {
+  it('is 1 for the same profile and 0 when nothing is shared', () => {
+    expect(diversitySimilarity(title(1, 'Saw'), title(2, 'Saw II'))).toBeCloseTo(1);
+    expect(diversitySimilarity(
+      title(1, 'Saw'),
+      title(2, 'Amelie', { genre_ids: [35], original_language: 'fr', year: '2001' })
+    )).toBe(0);
+  });
+});
+
+describe('diversifyResults', () => {
+  const franchise = [
+    title(1, 'Fast & Furious'),
+    title(2, 'Fast & Furious 6'),
+    title(3, 'Fast & Furious 7'),
+    title(4, 'Parasite', { genre_ids: [53], original_language: 'ko', year: '2019' }),
+    title(5, 'Fast & Furious 8')
+  ];
+
+  it('moves a different title ahead of further near-duplicates while keeping the top pick', () => {
+    expect(diversifyResults(franchise).map((item) => item.id)).toEqual([1, 2, 4, 3, 5]);
+  });
+
+  it('keeps the relevance order when lambda is 1 or scores dominate', () => {
+    expect(diversifyResults(franchise, undefined, { lambda: 1, weights: { genre: 1, language: 1, decade: 1, collection: 1 } }))
+      .toBe(franchise);
+
+    const scores: Record<number, number> = { 1: 10, 2: 9.9, 3: 9.8, 4: 0, 5: 9.7 };
+    expect(diversifyResults(franchise, (item) => scores[item.id]).map((item) => item.id)).toEqual([1, 2, 3, 5, 4]);
+  });
+});
+
+describe('isDiversityRerankEnabled', () => {
+  beforeEach(() => {
+    mockGetExperimentAssignment.mockReset();
+    mockRecordExperimentExposure.mockReset();
+  });
+
+  it('needs both the preference and the variant arm, and skips exposure for opted-out users', () => {
+    const assignment = { experiment: 'diversity_rerank', variant: 'variant', inExperiment: true };
+    mockGetExperimentAssignment.mockReturnValue(assignment);
+    expect(isDiversityRerankEnabled({ diverseResults: false })).toBe(false);
+    expect(mockRecordExperimentExposure).not.toHaveBeenCalled();
+
+    expect(isDiversityRerankEnabled({ diverseResults: true })).toBe(true);
+    expect(mockRecordExperimentExposure).toHaveBeenCalledWith(assignment);
+
+    mockGetExperimentAssignment.mockReturnValue({ ...assignment, variant: 'control' });
+    expect(isDiversityRerankEnabled({ diverseResults: true })).toBe(false);
+  });
+
+  it('looks up the assignment without logging exposure', () => {
+    const assignment = { experiment: 'diversity_rerank', variant: 'variant', inExperiment: true };
+    mockGetExperimentAssignment.mockReturnValue(assignment);
+
+    expect(getDiversityRerankAssignment({ diverseResults: false })).toBeNull();
+    expect(getDiversityRerankAssignment({ diverseResults: true })).toBe(assignment);
+    expect(mockRecordExperimentExposure).not.toHaveBeenCalled();
+  });
+});
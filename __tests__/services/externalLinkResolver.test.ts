@@ -0,0 +1,99 @@
+const mockApiGet = jest.fn();
+const mockGetTVShowExternals = jest.fn();
+
+jest.mock('../../lib/apiClient', () => ({
+  apiGet: (...args: unknown[]) => mockApiGet(...args)
+}));
+
+jest.mock('../../services/tvmazeService', () => ({
+  getTVShowExternals: (...args: unknown[]) => mockGetTVShowExternals(...args)
+}));
+
+import {
+  getExternalReferenceFallbackQuery,
+  parseExternalReference,
+  resolveExternalReference
+} from '../../services/externalLinkResolver';
+
+describe('parseExternalReference', () => {
+  it('recognises IMDb, TMDB, TVMaze and Letterboxd links with or without a scheme', () => {
+    expect(parseExternalReference('imdb.com/title/tt0816692')).toEqual({ source: 'imdb', imdbId: 'tt0816692' });
+    expect(parseExternalReference('https://m.imdb.com/title/tt0816692/reference/')).toEqual({ source: 'imdb', imdbId: 'tt0816692' });
+    expect(parseExternalReference('https://www.themoviedb.org/tv/1396-breaking-bad')).toEqual({ source: 'tmdb', mediaType: 'tv', tmdbId: 1396 });
+    expect(parseExternalReference('themoviedb.org/movie/603/cast')).toEqual({ source: 'tmdb', mediaType: 'movie', tmdbId: 603 });
+    expect(parseExternalReference('https://www.tvmaze.com/shows/82/game-of-thrones')).toEqual({ source: 'tvmaze', showId: 82 });
+    expect(parseExternalReference('letterboxd.com/film/dune-part-two/')).toEqual({
+      source: 'letterboxd',
+      slug: 'dune-part-two',
+      title: 'dune part two',
+      year: undefined
+    });
+    expect(parseExternalReference('https://letterboxd.com/someone/film/dune-2021/')).toMatchObject({ title: 'dune', year: 2021 });
+  });
+
+  it('recognises bare ids', () => {
+    expect(parseExternalReference('tt0816692')).toEqual({ source: 'imdb', imdbId: 'tt0816692' });
+    expect(parseExternalReference('tmdb:tv:1396')).toEqual({ source: 'tmdb', mediaType: 'tv', tmdbId: 1396 });
+    expect(parseExternalReference('tvmaze:82')).toEqual({ source: 'tvmaze', showId: 82 });
+  });
+
+  it('keeps a trailing title number that cannot be a release year', () => {
+    expect(parseExternalReference('letterboxd.com/film/blade-runner-2049/')).toMatchObject({ title: 'blade runner 2049', year: undefined });
+  });
+
+  it('ignores plain text and unsupported links', () => {
+    expect(parseExternalReference('interstellar')).toBeNull();
+    expect(parseExternalReference('the matrix 1999')).toBeNull();
+    expect(parseExternalReference('https://example.com/title/tt0816692')).toBeNull();
+    expect(parseExternalReference('imdb.com/name/nm0000138')).toBeNull();
+    expect(parseExternalReference('tmdb:603')).toBeNull();
+  });
+
+  it('searches Letterboxd titles by name when they cannot be resolved', () => {
+    const reference = parseExternalReference('letterboxd.com/film/dune-2021/')!;
+    expect(getExternalReferenceFallbackQuery(reference, 'letterboxd.com/film/dune-2021/')).toBe('dune 2021');
+  });
+});
+
+describe('resolveExternalReference', () => {
+  beforeEach(() => {
+    mockApiGet.mockReset();
+    mockGetTVShowExternals.mockReset();
+  });
+
+  it('uses TMDB find for IMDb ids', async () => {
+    mockApiGet.mockResolvedValue({ movie_results: [{ id: 157336 }], tv_results: [] });
+
+    await expect(resolveExternalReference({ source: 'imdb', imdbId: 'tt0816692' })).resolves.toEqual({ id: 157336, mediaType: 'movie' });
+    expect(mockApiGet).toHaveBeenCalledWith('/api/tmdb', { endpoint: 'find/tt0816692', external_source: 'imdb_id' }, undefined);
+  });
+
+  it('maps TVMaze shows through their IMDb id', async () => {
+    mockGetTVShowExternals.mockResolvedValue({ name: 'Game of Thrones', premiered: '2011-04-17', imdb: 'tt0944947', thetvdb: 121361 });
+    mockApiGet.mockResolvedValue({ movie_results: [], tv_results: [{ id: 1399 }] });
+
+    await expect(resolveExternalReference({ source: 'tvmaze', showId: 82 })).resolves.toEqual({ id: 1399, mediaType: 'tv' });
+  });
+
+  it('prefers the Letterboxd year when picking a resolve candidate', async () => {
+    mockApiGet.mockResolvedValue({
+      type: 'movie',
+      id: 841,
+      candidates: [
+        { type: 'movie', id: 841, year: '1984' },
+        { type: 'tv', id: 90228, year: '2021' },
+        { type: 'movie', id: 438631, year: '2021' }
+      ]
+    });
+
+    await expect(
+      resolveExternalReference({ source: 'letterboxd', slug: 'dune-2021', title: 'dune', year: 2021 })
+    ).resolves.toEqual({ id: 438631, mediaType: 'movie' });
+    expect(mockApiGet).toHaveBeenCalledWith('/api/resolve', { q: 'dune', type: 'movie' }, undefined);
+  });
+
+  it('returns null when TMDB has no match', async () => {
+    mockApiGet.mockResolvedValue({ movie_results: [], tv_results: [] });
+    await expect(resolveExternalReference({ source: 'imdb', imdbId: 'tt9999999' })).resolves.toBeNull();
+  });
+});
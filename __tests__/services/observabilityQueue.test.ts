@@ -0,0 +1,152 @@
+import {
+  ObservabilityRecord,
+  ObservabilityStore,
+  chunkForBeacon,
+  createObservabilityQueue,
+  sampleRateFor
+} from '../../services/observabilityQueue';
+
+function record(event: string, level: ObservabilityRecord['level'] = 'info'): ObservabilityRecord {
+  return { ts: '2026-01-01T00:00:00Z', source: 'client', event, level, data: {} };
+}
+
+function memoryStore(initial: ObservabilityRecord[] = []): ObservabilityStore & { records: ObservabilityRecord[] } {
+  const store = {
+    records: initial,
+    load: async () => store.records,
+    replace: async (records: ObservabilityRecord[]) => {
+      store.records = records;
+    }
+  };
+  return store;
+}
+
+function manualTimers() {
+  const timers: Array<{ callback: () => void; delayMs: number }> = [];
+  return {
+    timers,
+    setTimer: (callback: () => void, delayMs: number) => {
+      const timer = { callback, delayMs };
+      timers.push(timer);
+      return timer;
+    },
+    clearTimer: (handle: unknown) => {
+      const index = timers.indexOf(handle as (typeof timers)[number]);
+      if (index >= 0) timers.splice(index, 1);
+    },
+    runNext: () => timers.shift()?.callback()
+  };
+}
+
+const flushPromises = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('sampleRateFor', () => {
+  it('uses the event rate, then the wildcard, and never samples errors', () => {
+    const rates = { '*': 0.5, noisy: 0.1 };
+    expect(sampleRateFor(record('noisy'), rates)).toBe(0.1);
+    expect(sampleRateFor(record('other'), rates)).toBe(0.5);
+    expect(sampleRateFor(record('noisy', 'error'), rates)).toBe(1);
+    expect(sampleRateFor(record('noisy'), {})).toBe(1);
+  });
+});
+
+describe('chunkForBeacon', () => {
+  it('splits by serialized size', () => {
+    const records = Array.from({ length: 5 }, (_, index) => record(`event_${index}`));
+    const size = JSON.stringify(records[0]).length + 1;
+    expect(chunkForBeacon(records, size * 2).map((chunk) => chunk.length)).toEqual([2, 2, 1]);
+  });
+});
+
+describe('createObservabilityQueue', () => {
+  it('flushes a full batch immediately and the rest on the interval', async () => {
+    const send = jest.fn().mockResolvedValue(true);
+    const timers = manualTimers();
+    const queue = createObservabilityQueue(
+      { transport: { send, beacon: jest.fn() }, ...timers },
+      { maxBatchSize: 2, flushIntervalMs: 1000 }
+    );
+
+    queue.enqueue(record('a'));
+    expect(timers.timers[0].delayMs).toBe(1000);
+    queue.enqueue(record('b'));
+    await flushPromises();
+    expect(send).toHaveBeenCalledWith([record('a'), record('b')]);
+
+    queue.enqueue(record('c'));
+    timers.runNext();
+    await flushPromises();
+    expect(send).toHaveBeenLastCalledWith([record('c')]);
+    expect(queue.stats().pending).toBe(0);
+  });
+
+  it('samples by event name, tags the rate and enforces the session cap', () => {
+    const values = [0.05, 0.5];
+    const queue = createObservabilityQueue(
+      { transport: { send: jest.fn(), beacon: jest.fn() }, random: () => values.shift() ?? 0, setTimer: () => null, clearTimer: () => undefined },
+      { sampleRates: { '*': 1, noisy: 0.1 }, maxEventsPerSession: 2 }
+    );
+
+    expect(queue.enqueue(record('noisy'))).toBe(true);
+    expect(queue.enqueue(record('noisy'))).toBe(false);
+    expect(queue.enqueue(record('kept'))).toBe(true);
+    expect(queue.enqueue(record('over_cap'))).toBe(false);
+    expect(queue.stats()).toMatchObject({ pending: 2, accepted: 2, sampledOut: 1, capped: 1 });
+  });
+
+  it('persists while offline and backs off after failed sends', async () => {
+    let online = false;
+    const store = memoryStore();
+    const send = jest.fn().mockResolvedValueOnce(false).mockResolvedValue(true);
+    const timers = manualTimers();
+    const queue = createObservabilityQueue(
+      { transport: { send, beacon: jest.fn() }, store, isOnline: () => online, random: () => 1, ...timers },
+      { baseBackoffMs: 1000 }
+    );
+
+    queue.enqueue(record('a'));
+    await queue.flush();
+    expect(send).not.toHaveBeenCalled();
+    expect(store.records).toEqual([record('a')]);
+
+    online = true;
+    await queue.flush();
+    expect(queue.stats().consecutiveFailures).toBe(1);
+    expect(timers.timers[0].delayMs).toBe(1000);
+
+    timers.runNext();
+    await flushPromises();
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(store.records).toEqual([]);
+  });
+
+  it('replays events stored by an earlier session before new ones', async () => {
+    const store = memoryStore([record('old')]);
+    const send = jest.fn().mockResolvedValue(true);
+    const queue = createObservabilityQueue({ transport: { send, beacon: jest.fn() }, store, setTimer: () => null, clearTimer: () => undefined });
+
+    queue.enqueue(record('new'));
+    await queue.restore();
+    await queue.flush();
+    expect(send).toHaveBeenCalledWith([record('old'), record('new')]);
+    expect(store.records).toEqual([]);
+  });
+
+  it('beacons pending events on hide and stores what the browser refuses', async () => {
+    const store = memoryStore();
+    const beacon = jest.fn().mockReturnValue(false);
+    const queue = createObservabilityQueue({ transport: { send: jest.fn(), beacon }, store, setTimer: () => null, clearTimer: () => undefined });
+
+    queue.enqueue(record('a'));
+    queue.flushOnHide();
+    await flushPromises();
+    expect(beacon).toHaveBeenCalledWith([record('a')]);
+    expect(store.records).toEqual([record('a')]);
+
+    beacon.mockReturnValue(true);
+    queue.flushOnHide();
+    await flushPromises();
+    expect(queue.stats().pending).toBe(0);
+    expect(store.records).toEqual([]);
+  });
+});
@@ -0,0 +1,164 @@
+const mockGetAllCachedMovies = jest.fn();
+let mockWriteListener: ((movie: any) => void) | null = null;
+
+jest.mock('../../lib/supabase', () => ({
+  isSupabaseConfigured: false,
+  supabase: null
+}));
+
+jest.mock('../../services/clientObservability', () => ({
+  emitClientEvent: jest.fn()
+}));
+
+jest.mock('../../services/indexedDBService', () => ({
+  getAllCachedMovies: () => mockGetAllCachedMovies(),
+  subscribeToIndexedDBWrites: (listener: (movie: any) => void) => {
+    mockWriteListener = listener;
+    return () => {
+      mockWriteListener = null;
+    };
+  }
+}));
+
+import { ApiError, apiPost, isBackendUnreachable, resetCircuitBreakers } from '../../lib/apiClient';
+import {
+  resetOfflineSearchIndex,
+  searchOfflineTitles,
+  suggestOfflineTitles
+} from '../../services/offlineSearchIndex';
+import type { MovieData } from '../../types';
+
+function installMockLocalStorage(initial: Record<string, unknown> = {}): void {
+  const store = new Map<string, string>(
+    Object.entries(initial).map(([key, value]) => [key, JSON.stringify(value)])
+  );
+  const mockStorage: Storage = {
+    get length() {
+      return store.size;
+    },
+    clear: () => {
+      store.clear();
+    },
+    getItem: (key: string) => (store.has(key) ? store.get(key)! : null),
+    key: (index: number) => Array.from(store.keys())[index] ?? null,
+    removeItem: (key: string) => {
+      store.delete(key);
+    },
+    setItem: (key: string, value: string) => {
+      store.set(key, String(value));
+    }
+  };
+
+  Object.defineProperty(globalThis, 'localStorage', {
+    value: mockStorage,
+    configurable: true,
+    writable: true
+  });
+}
+
+function movie(overrides: Partial<MovieData>): MovieData {
+  return {
+    tmdb_id: '603',
+    title: 'The Matrix',
+    year: '1999',
+    type: 'movie',
+    media_type: 'movie',
+    genres: ['Science Fiction'],
+    poster_url: '',
+    backdrop_url: '',
+    trailer_url: '',
+    ratings: [],
+    cast: [],
+    crew: { director: '', writer: '', music: '' },
+    summary_short: '',
+    summary_medium: '',
+    summary_long_spoilers: '',
+    suspense_breaker: '',
+    where_to_watch: [],
+    extra_images: [],
+    ai_notes: '',
+    ...overrides
+  };
+}
+
+describe('services/offlineSearchIndex', () => {
+  beforeEach(() => {
+    resetOfflineSearchIndex();
+    mockGetAllCachedMovies.mockReset();
+    mockGetAllCachedMovies.mockResolvedValue([]);
+    installMockLocalStorage();
+  });
+
+  it('searches cached titles, watchlist items and watched history together', async () => {
+    mockGetAllCachedMovies.mockResolvedValue([{ movieData: movie({}) }]);
+    installMockLocalStorage({
+      moviemonk_watchlists_v1: [{
+        id: 'f1',
+        name: 'Later',
+        items: [{ id: 'i1', saved_title: 'The Matrix', movie: movie({}), added_at: '' }]
+      }],
+      'moviemonk_cloud_watched_cache_v1:user-1': [
+        { tmdb_id: '604', media_type: 'movie', title: 'The Matrix Reloaded', year: '2003' },
+        { tmdb_id: '1396', media_type: 'tv', title: 'Breaking Bad' }
+      ]
+    });
+
+    const results = await searchOfflineTitles('matrix');
+
+    expect(results.map((result) => `${result.media_type}:${result.id}`)).toEqual(['movie:603', 'movie:604']);
+    expect(results[0].match_reasons).toEqual(['In your watchlists', 'Viewed on this device']);
+    expect(results[1].match_reasons).toEqual(['In your watched history']);
+  });
+
+  it('picks up IndexedDB writes after the index is built', async () => {
+    expect(await searchOfflineTitles('arrival')).toEqual([]);
+
+    mockWriteListener?.(movie({ tmdb_id: '329865', title: 'Arrival', year: '2016' }));
+
+    const suggestions = await suggestOfflineTitles('arrival');
+    expect(suggestions).toHaveLength(1);
+    expect(suggestions[0]).toMatchObject({ id: 329865, title: 'Arrival', media_type: 'movie', type: 'movie' });
+    expect(mockGetAllCachedMovies).toHaveBeenCalledTimes(1);
+  });
+
+  it('filters by media type and skips titles without a TMDB id', async () => {
+    mockGetAllCachedMovies.mockResolvedValue([
+      { movieData: movie({ tmdb_id: '1399', title: 'Game of Thrones', type: 'show', media_type: 'tv' }) },
+      { movieData: movie({ tmdb_id: undefined, title: 'Game Night' }) }
+    ]);
+
+    expect((await searchOfflineTitles('game', { mediaType: 'movie' }))).toEqual([]);
+    expect((await searchOfflineTitles('game', { mediaType: 'tv' })).map((result) => result.title)).toEqual(['Game of Thrones']);
+  });
+
+  it('retries the index build after a failed IndexedDB read', async () => {
+    mockGetAllCachedMovies
+      .mockRejectedValueOnce(new Error('IndexedDB read failed'))
+      .mockResolvedValueOnce([{ movieData: movie({}) }]);
+
+    await expect(searchOfflineTitles('matrix')).rejects.toThrow('IndexedDB read failed');
+    expect((await searchOfflineTitles('matrix')).map((result) => result.title)).toEqual(['The Matrix']);
+    expect(mockGetAllCachedMovies).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps falling back offline once the search circuit opens', async () => {
+    resetCircuitBreakers();
+    mockGetAllCachedMovies.mockResolvedValue([{ movieData: movie({}) }]);
+    const mockFetch = jest.fn().mockRejectedValue(new TypeError('Failed to fetch'));
+    (global as any).fetch = mockFetch;
+
+    const codes: string[] = [];
+    for (let run = 0; run < 6; run += 1) {
+      // Same policy as the search page, with the backoff shortened.
+      const error = await apiPost('/api/search', { q: 'matrix' }, undefined, undefined, { retries: 2, baseDelayMs: 1, maxDelayMs: 1 })
+        .catch((reason) => reason) as ApiError;
+      codes.push(error.code);
+      expect(isBackendUnreachable(error)).toBe(true);
+      expect((await searchOfflineTitles('matrix')).map((result) => result.title)).toEqual(['The Matrix']);
+    }
+
+    expect(codes).toContain('circuit_open');
+    expect(mockFetch).toHaveBeenCalledTimes(5);
+    resetCircuitBreakers();
+  });
+});
@@ -0,0 +1,99 @@
+import { formatForAIPrompt, parseQuery } from '../../services/queryParser';
+
+describe('parseQuery season and episode ranges', () => {
+  it('keeps single season and episode queries unchanged', () => {
+    expect(parseQuery('Breaking Bad S03E02')).toMatchObject({ title: 'Breaking Bad', season: 3, episode: 2, type: 'show' });
+    expect(parseQuery('game of thrones season 5')).toMatchObject({ season: 5, type: 'show' });
+    expect(parseQuery('friends s1')).toMatchObject({ title: 'friends', season: 1 });
+
+    const single = parseQuery('Breaking Bad S03E02');
+    expect(single.seasonRange).toBeUndefined();
+    expect(single.episodeRange).toBeUndefined();
+  });
+
+  it('parses episode ranges within a season', () => {
+    expect(parseQuery('Breaking Bad S02E03-E07')).toMatchObject({
+      title: 'Breaking Bad',
+      season: 2,
+      episode: 3,
+      episodeRange: { start: 3, end: 7 },
+      hasSeasonInfo: true
+    });
+    expect(parseQuery('The Office s2 e1 to e4')).toMatchObject({
+      title: 'The Office',
+      season: 2,
+      episode: 1,
+      episodeRange: { start: 1, end: 4 }
+    });
+    expect(parseQuery('the office season 2 episodes 1-4')).toMatchObject({
+      season: 2,
+      episodeRange: { start: 1, end: 4 }
+    });
+  });
+
+  it('parses season ranges and normalises reversed bounds', () => {
+    expect(parseQuery('the wire seasons 1-3')).toMatchObject({ title: 'the wire', season: 1, seasonRange: { start: 1, end: 3 } });
+    expect(parseQuery('lost s1-s3')).toMatchObject({ title: 'lost', seasonRange: { start: 1, end: 3 } });
+    expect(parseQuery('dark season 3 to 1')).toMatchObject({ title: 'dark', season: 1, seasonRange: { start: 1, end: 3 } });
+  });
+
+  it('includes ranges in the AI prompt summary', () => {
+    expect(formatForAIPrompt(parseQuery('Breaking Bad S02E03-E07'))).toContain('Episodes: 3-7');
+    expect(formatForAIPrompt(parseQuery('the wire seasons 1-3'))).toContain('Seasons: 1-3');
+  });
+});
+
+describe('parseQuery multilingual keywords', () => {
+  it('extracts seasons and episodes from Spanish and French queries', () => {
+    expect(parseQuery('La casa de papel temporada 2 capítulo 3')).toMatchObject({
+      title: 'La casa de papel',
+      season: 2,
+      episode: 3,
+      type: 'show'
+    });
+    expect(parseQuery('Élite temporadas 1 a 3')).toMatchObject({ title: 'Élite', seasonRange: { start: 1, end: 3 } });
+    expect(parseQuery('Dix pour cent saison 2 épisode 4')).toMatchObject({ title: 'Dix pour cent', season: 2, episode: 4 });
+  });
+
+  it('extracts seasons and episodes from Japanese and Korean queries', () => {
+    expect(parseQuery('進撃の巨人 シーズン2 第3話')).toMatchObject({ title: '進撃の巨人', season: 2, episode: 3, type: 'show' });
+    expect(parseQuery('鬼滅の刃 第２期')).toMatchObject({ title: '鬼滅の刃', season: 2 });
+    expect(parseQuery('오징어 게임 시즌2 3화')).toMatchObject({ title: '오징어 게임', season: 2, episode: 3 });
+    expect(parseQuery('더 글로리 시즌 1 3~5화')).toMatchObject({ title: '더 글로리', episodeRange: { start: 3, end: 5 } });
+  });
+
+  it('extracts Hindi seasons in Devanagari and transliteration', () => {
+    expect(parseQuery('पंचायत सीज़न २ एपिसोड ३')).toMatchObject({ title: 'पंचायत', season: 2, episode: 3 });
+    expect(parseQuery('Panchayat sizan 3 bhag 2')).toMatchObject({ title: 'Panchayat', season: 3, episode: 2 });
+  });
+
+  it('detects media type keywords across languages', () => {
+    expect(parseQuery('ver película Roma')).toMatchObject({ title: 'Roma', type: 'movie' });
+    expect(parseQuery('千と千尋の神隠し 映画')).toMatchObject({ title: '千と千尋の神隠し', type: 'movie' });
+    expect(parseQuery('사랑의 불시착 드라마')).toMatchObject({ title: '사랑의 불시착', type: 'show' });
+    expect(parseQuery('दंगल फ़िल्म')).toMatchObject({ title: 'दंगल', type: 'movie' });
+  });
+
+  it('leaves non-Latin and accented titles intact', () => {
+    expect(parseQuery('君の名は。').title).toBe('君の名は');
+    expect(parseQuery('Amélie movie')).toMatchObject({ title: 'Amélie', type: 'movie' });
+    expect(parseQuery('Filmé à Paris').title).toBe('Filmé à Paris');
+    expect(parseQuery('Bhaag Milkha Bhaag').title).toBe('Bhaag Milkha Bhaag');
+  });
+
+  it('only strips another language\'s noise words once the query is in that language', () => {
+    expect(parseQuery('Ver Sacrum').title).toBe('Ver Sacrum');
+    expect(parseQuery('Serie Noire').title).toBe('Serie Noire');
+    expect(parseQuery('Latino Americana streaming').title).toBe('Latino Americana streaming');
+    expect(parseQuery('ver Coco latino').title).toBe('Coco');
+    expect(parseQuery('ver La casa de papel temporada 2')).toMatchObject({ title: 'La casa de papel', season: 2 });
+    expect(parseQuery('Lupin saison 1 vostfr')).toMatchObject({ title: 'Lupin', season: 1 });
+  });
+
+  it('keeps the media type open when a title only contains another language\'s type word', () => {
+    expect(parseQuery('Serie Noire')).toMatchObject({ title: 'Serie Noire', type: 'auto' });
+    expect(parseQuery('Peli Grant')).toMatchObject({ title: 'Peli Grant', type: 'auto' });
+    expect(parseQuery('Films of Fury')).toMatchObject({ title: 'Films of Fury', type: 'auto' });
+    expect(parseQuery('serie Narcos latino')).toMatchObject({ title: 'Narcos', type: 'show' });
+  });
+});
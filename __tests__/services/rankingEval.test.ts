@@ -0,0 +1,89 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  RankingEvalReport,
+  RankingFixture,
+  evaluateRankedKeys,
+  evaluateRankingFixture,
+  findMetricRegressions,
+  ndcgAtK,
+  reciprocalRank,
+  topOneHit,
+  validateRankingFixture
+} from '../../services/rankingEval';
+
+const FIXTURE_DIR = path.join(process.cwd(), '__tests__', 'fixtures', 'ranking');
+const BASELINE_PATH = path.join(FIXTURE_DIR, 'baseline.json');
+const FIXTURE_FILES = ['suggest.v1.json', 'search.v1.json'];
+
+function readJson<T>(filePath: string): T {
+  return JSON.parse(fs.readFileSync(filePath, 'utf8')) as T;
+}
+
+describe('ranking metrics', () => {
+  it('scores a perfect ranking as 1 and rewards relevant items placed higher', () => {
+    expect(ndcgAtK([3, 2, 0], [3, 2], 5)).toBe(1);
+    expect(ndcgAtK([2, 3, 0], [3, 2], 5)).toBeLessThan(1);
+    expect(ndcgAtK([0, 2, 3], [3, 2], 5)).toBeLessThan(ndcgAtK([2, 3, 0], [3, 2], 5));
+    expect(ndcgAtK([0, 0, 3], [3], 2)).toBe(0);
+  });
+
+  it('computes reciprocal rank and top-1 against the best grade', () => {
+    expect(reciprocalRank([0, 0, 1])).toBeCloseTo(1 / 3);
+    expect(reciprocalRank([0, 0])).toBe(0);
+    expect(topOneHit([3, 2], [2, 3])).toBe(1);
+    expect(topOneHit([2, 3], [2, 3])).toBe(0);
+  });
+
+  it('treats unjudged keys as irrelevant and cuts the ranking at k', () => {
+    const result = evaluateRankedKeys('q', 'query', ['movie:9', 'movie:1', 'movie:2'], { 'movie:1': 3 }, 2);
+    expect(result).toMatchObject({ reciprocalRank: 0.5, top1: 0, ranking: ['movie:9', 'movie:1'] });
+  });
+
+  it('rejects fixtures without a relevant candidate', () => {
+    expect(() => validateRankingFixture({
+      ranker: 'suggest',
+      version: 1,
+      cases: [{ id: 'empty', query: 'x', candidates: [], relevance: { 'movie:1': 0 } }]
+    })).toThrow('has no relevant candidate');
+  });
+});
+
+describe('golden query sets', () => {
+  const baselines = fs.existsSync(BASELINE_PATH)
+    ? readJson<Record<string, RankingEvalReport>>(BASELINE_PATH)
+    : {};
+  const reports: Record<string, RankingEvalReport> = {};
+
+  afterAll(() => {
+    // `npm run eval:ranking` sets these to refresh the baseline or dump a report for diffing.
+    if (process.env.RANKING_EVAL_UPDATE_BASELINE === '1') {
+      fs.writeFileSync(BASELINE_PATH, `${JSON.stringify(reports, null, 2)}\n`);
+    }
+    if (process.env.RANKING_EVAL_REPORT_OUT) {
+      fs.writeFileSync(process.env.RANKING_EVAL_REPORT_OUT, `${JSON.stringify(reports, null, 2)}\n`);
+    }
+  });
+
+  it.each(FIXTURE_FILES)('%s stays at or above the stored baseline', (file) => {
+    const report = evaluateRankingFixture(readJson<RankingFixture>(path.join(FIXTURE_DIR, file)));
+    reports[report.ranker] = report;
+
+    const baseline = baselines[report.ranker];
+    if (!baseline || process.env.RANKING_EVAL_UPDATE_BASELINE === '1') return;
+
+    const regressions = findMetricRegressions(report, baseline);
+    const droppedQueries = report.queries
+      .filter((query) => {
+        const before = baseline.queries.find((entry) => entry.id === query.id);
+        return before && query.ndcg < before.ndcg;
+      })
+      .map((query) => query.id);
+
+    // Single queries may trade places; only the aggregate has to hold. The
+    // dropped ids are reported alongside so a failure points at the cases.
+    expect({ regressions, droppedQueries: regressions.length > 0 ? droppedQueries : [] })
+      .toEqual({ regressions: [], droppedQueries: [] });
+    expect(report.fixtureVersion).toBe(baseline.fixtureVersion);
+  });
+});
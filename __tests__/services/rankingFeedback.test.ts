@@ -1,8 +1,19 @@
 import type { SearchResult } from '../../types';
-import { applyRankingFeedbackWithStore, type RankingFeedbackStore } from '../../services/rankingFeedback';
+import {
+  DEFAULT_RANKING_FEEDBACK_CONFIG,
+  addFeedbackSignal,
+  applyRankingFeedbackWithStore,
+  createRankingFeedbackStore,
+  decayRankingFeedbackStore,
+  describeFeedbackBoost,
+  feedbackSubjectFromMovie,
+  type RankingFeedbackStore
+} from '../../services/rankingFeedback';
+import type { MovieData } from '../../types';
 
 function createStore(): RankingFeedbackStore {
   return {
+    ...createRankingFeedbackStore(),
     positiveGenres: { 28: 5 },
     negativeGenres: { 18: 4 },
     positiveMediaType: { movie: 3, tv: 0 },
@@ -38,4 +49,68 @@ describe('rankingFeedback', () => {
     expect(ranked[0].id).toBe(2);
     expect(ranked[ranked.length - 1].id).toBe(1);
   });
+
+  it('tracks language, decade and people and explains every boost', () => {
+    let store = createRankingFeedbackStore();
+    store = addFeedbackSignal(store, { media_type: 'movie', original_language: 'ko', year: '2019', people: ['Bong Joon-ho'] }, true, 1);
+    store = addFeedbackSignal(store, { media_type: 'tv', year: '1995' }, false, 1);
+
+    const ranked = applyRankingFeedbackWithStore([
+      { ...result(1, 'movie', 0.6, []), year: '1994' },
+      { ...result(2, 'movie', 0.6, []), original_language: 'ko', year: '2013', people: ['Bong Joon-ho', 'Song Kang-ho'] }
+    ], store);
+
+    expect(ranked[0].id).toBe(2);
+    expect(ranked[0].feedback.boosts.map((boost) => boost.dimension)).toEqual(['person', 'mediaType', 'language', 'decade']);
+    expect(ranked[0].feedback.boosts[0]).toMatchObject({ key: 'bong joon-ho', label: 'Bong Joon-ho' });
+    expect(ranked[0].feedback.boosts[2].label).toBe('Korean');
+    expect(ranked[1].feedback.boosts.map((boost) => [boost.label, Math.sign(boost.delta)])).toEqual([
+      ['Movies', 1],
+      ['1990s', -1]
+    ]);
+    expect(describeFeedbackBoost(ranked[1].feedback.boosts[1])).toBe('You skip 1990s');
+    expect(ranked[0].feedback.score).toBeCloseTo(
+      ranked[0].feedback.baseScore + ranked[0].feedback.boosts.reduce((sum, boost) => sum + boost.delta, 0)
+    );
+  });
+
+  it('halves signals after the configured half-life and drops faded ones', () => {
+    const store = {
+      ...createStore(),
+      positivePeople: { 'keanu reeves': 0.015 },
+      updatedAt: '2026-01-01T00:00:00.000Z'
+    };
+
+    const decayed = decayRankingFeedbackStore(store, new Date('2026-01-11T00:00:00.000Z'), {
+      ...DEFAULT_RANKING_FEEDBACK_CONFIG,
+      halfLifeDays: 10
+    });
+
+    expect(decayed.positiveGenres[28]).toBeCloseTo(2.5);
+    expect(decayed.positiveMediaType.movie).toBeCloseTo(1.5);
+    expect(decayed.positivePeople).toEqual({});
+    expect(decayed.updatedAt).toBe('2026-01-11T00:00:00.000Z');
+  });
+
+  it('turns full details into a feedback subject for implicit signals', () => {
+    const movie = {
+      tmdb_id: '496243',
+      title: 'Parasite',
+      year: '2019',
+      language: 'Korean',
+      type: 'movie',
+      media_type: 'movie',
+      genres: ['Comedy', 'Thriller', 'Sci-Fi & Fantasy'],
+      cast: [{ name: 'Song Kang-ho', role: '', known_for: '' }],
+      crew: { director: 'Bong Joon-ho', writer: '', music: '' }
+    } as unknown as MovieData;
+
+    expect(feedbackSubjectFromMovie(movie)).toEqual({
+      media_type: 'movie',
+      genre_ids: [35, 53],
+      original_language: 'ko',
+      year: '2019',
+      people: ['Bong Joon-ho', 'Song Kang-ho']
+    });
+  });
 });
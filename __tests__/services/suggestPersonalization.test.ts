@@ -0,0 +1,56 @@
+import { DEFAULT_PREFERENCE_SETTINGS } from '../../lib/userSettings';
+import { buildSuggestPersonalization, personalizeSuggestions } from '../../services/suggestPersonalization';
+import type { MovieData, SuggestionItem, WatchlistFolder } from '../../types';
+
+function folder(movies: Array<Partial<MovieData>>): WatchlistFolder {
+  return {
+    id: 'f1',
+    name: 'Saved',
+    items: movies.map((movie, index) => ({
+      id: `i${index}`,
+      saved_title: movie.title || '',
+      added_at: '2026-01-01T00:00:00.000Z',
+      movie: { type: 'movie', media_type: 'movie', ...movie } as MovieData
+    }))
+  };
+}
+
+describe('buildSuggestPersonalization', () => {
+  it('returns undefined when there is no history or stated taste', () => {
+    expect(buildSuggestPersonalization({ watched: [], watchlists: [], preferences: DEFAULT_PREFERENCE_SETTINGS })).toBeUndefined();
+  });
+
+  it('weights saved titles below stated preferences and lists watched keys', () => {
+    const personalization = buildSuggestPersonalization({
+      watched: [{ tmdb_id: '603', media_type: 'movie', title: 'The Matrix' }],
+      watchlists: [folder([
+        { title: 'Parasite', genres: ['Thriller', 'Drama'], language: 'Korean', crew: { director: 'Bong Joon Ho' } as MovieData['crew'] },
+        { title: 'Mother', genres: ['Thriller'], language: 'Korean', crew: { director: 'Bong Joon Ho' } as MovieData['crew'] }
+      ])],
+      preferences: { ...DEFAULT_PREFERENCE_SETTINGS, genres: ['Drama'], languages: ['Japanese'] }
+    });
+
+    expect(personalization).toMatchObject({
+      genres: { 53: 0.8, 18: 1 },
+      languages: { ko: 0.8, ja: 1 },
+      people: { 'bong joon ho': 0.8 },
+      watched: ['movie:603']
+    });
+  });
+});
+
+describe('personalizeSuggestions', () => {
+  it('reorders by taste but keeps unmatched suggestions at the end', () => {
+    const items: SuggestionItem[] = [
+      { id: 1, title: 'Star Trek', type: 'movie', media_type: 'movie', confidence: 0.7, genre_ids: [18] },
+      { id: 3, title: 'Lucas Space Saga', type: 'movie', media_type: 'movie', confidence: 0.5 },
+      { id: 2, title: 'Star Wars', type: 'movie', media_type: 'movie', confidence: 0.69, genre_ids: [878] }
+    ];
+
+    const reordered = personalizeSuggestions('star', items, { genres: { 878: 1 }, languages: {}, people: {}, watched: [] });
+
+    expect(reordered.map((item) => item.id)).toEqual([2, 1, 3]);
+    expect(reordered[0].confidence).toBe(0.69);
+    expect(personalizeSuggestions('star', items)).toBe(items);
+  });
+});
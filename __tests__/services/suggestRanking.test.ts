@@ -1,4 +1,4 @@
-import { rankSuggestCandidates } from '../../services/suggestRanking';
+import { SuggestPersonalization, rankSuggestCandidates } from '../../services/suggestRanking';
 
 describe('rankSuggestCandidates', () => {
   it('orders exact match before starts-with and partial', () => {
@@ -101,4 +101,42 @@ describe('rankSuggestCandidates', () => {
     expect(ranked.map((item) => item.title)).toEqual(['Greta Gerwig', 'Greta Lee']);
     expect(ranked[1].score).toBeGreaterThan(0);
   });
+
+  describe('personalization', () => {
+    const personalization: SuggestPersonalization = {
+      genres: { 878: 1 },
+      languages: { ko: 0.8 },
+      people: {},
+      watched: ['movie:27205']
+    };
+
+    it('lifts near-equal matches that share the user taste', () => {
+      const candidates = [
+        { id: 1, title: 'Star Trek', media_type: 'movie' as const, type: 'movie' as const, popularity: 40, genre_ids: [18] },
+        { id: 2, title: 'Star Wars', media_type: 'movie' as const, type: 'movie' as const, popularity: 30, genre_ids: [878] }
+      ];
+
+      expect(rankSuggestCandidates('star', candidates)[0].id).toBe(1);
+      expect(rankSuggestCandidates('star', candidates, personalization)[0].id).toBe(2);
+    });
+
+    it('never lets taste outrank an exact title match', () => {
+      const ranked = rankSuggestCandidates('the host', [
+        { id: 1, title: 'The Host', media_type: 'movie', type: 'movie', popularity: 1, genre_ids: [18] },
+        { id: 2, title: 'The Hostage', media_type: 'movie', type: 'movie', popularity: 500, genre_ids: [878, 53], original_language: 'ko' }
+      ], { ...personalization, genres: { 878: 1, 53: 1 }, languages: { ko: 1 } });
+
+      expect(ranked.map((item) => item.id)).toEqual([1, 2]);
+    });
+
+    it('demotes watched titles only for discovery-style queries', () => {
+      const candidates = [
+        { id: 27205, title: 'Inception', media_type: 'movie' as const, type: 'movie' as const, popularity: 90 },
+        { id: 64956, title: 'Inception: The Cobol Job', media_type: 'movie' as const, type: 'movie' as const, popularity: 4 }
+      ];
+
+      expect(rankSuggestCandidates('incep', candidates, personalization)[0].id).toBe(27205);
+      expect(rankSuggestCandidates('inception like movies', candidates, personalization)[0].id).toBe(64956);
+    });
+  });
 });
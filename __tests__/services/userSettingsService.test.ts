@@ -0,0 +1,63 @@
+const mockSelect = jest.fn();
+const mockUpsert = jest.fn();
+
+jest.mock('../../lib/supabase', () => ({
+  isSupabaseConfigured: true,
+  supabase: {
+    from: jest.fn(() => ({
+      select: (columns: string) => ({
+        eq: () => ({ maybeSingle: () => mockSelect(columns) })
+      }),
+      upsert: (payload: Record<string, unknown>) => mockUpsert({ ...payload })
+    }))
+  }
+}));
+
+import { fetchPreferenceSettings, upsertPreferenceSettings } from '../../services/userSettingsService';
+import { DEFAULT_PREFERENCE_SETTINGS } from '../../lib/userSettings';
+
+const missingColumn = (column: string) => ({
+  code: '42703',
+  message: `column user_preferences.${column} does not exist`
+});
+
+describe('services/userSettingsService preference columns', () => {
+  beforeEach(() => {
+    mockSelect.mockReset();
+    mockUpsert.mockReset();
+  });
+
+  it('keeps reduced_motion when only the newer search columns are missing', async () => {
+    mockSelect.mockImplementation(async (columns: string) => {
+      if (columns.includes('share_search_queries')) return { data: null, error: missingColumn('share_search_queries') };
+      if (columns.includes('diverse_results')) return { data: null, error: missingColumn('diverse_results') };
+      return { data: { reduced_motion: true, card_density: 'compact' }, error: null };
+    });
+
+    const settings = await fetchPreferenceSettings('user-1');
+
+    expect(settings.reducedMotion).toBe(true);
+    expect(settings.diverseResults).toBe(true);
+    expect(mockSelect).toHaveBeenCalledTimes(3);
+    expect(mockSelect.mock.calls[2][0]).toContain('reduced_motion');
+  });
+
+  it('retries the upsert without just the missing column', async () => {
+    mockUpsert
+      .mockResolvedValueOnce({ error: { message: "Could not find the 'diverse_results' column of 'user_preferences' in the schema cache" } })
+      .mockResolvedValueOnce({ error: null });
+
+    await upsertPreferenceSettings('user-1', { ...DEFAULT_PREFERENCE_SETTINGS, reducedMotion: true });
+
+    expect(mockUpsert).toHaveBeenCalledTimes(2);
+    expect(mockUpsert.mock.calls[1][0]).toMatchObject({ reduced_motion: true, share_search_queries: false });
+    expect(mockUpsert.mock.calls[1][0]).not.toHaveProperty('diverse_results');
+  });
+
+  it('does not retry on unrelated errors', async () => {
+    mockUpsert.mockResolvedValue({ error: { message: 'permission denied' } });
+
+    await expect(upsertPreferenceSettings('user-1', DEFAULT_PREFERENCE_SETTINGS)).rejects.toEqual({ message: 'permission denied' });
+    expect(mockUpsert).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,7 +1,15 @@
 import { useEffect } from 'react';
+import { useLocation } from 'react-router-dom';
+import { initWebVitals, setPerformanceRoute } from '../lib/performanceTelemetry';
 import { emitClientError, emitClientEvent } from '../services/clientObservability';
 
 export function ClientObservabilityEffects() {
+  const location = useLocation();
+
+  useEffect(() => {
+    setPerformanceRoute(location.pathname, location.search);
+  }, [location.pathname, location.search]);
+
   useEffect(() => {
     const onError = (event: ErrorEvent) => {
       emitClientError(event.error || event.message, {
@@ -25,6 +33,7 @@ export function ClientObservabilityEffects() {
       }
     });
 
+    initWebVitals();
     window.addEventListener('error', onError);
     window.addEventListener('unhandledrejection', onUnhandledRejection);
     return () => {
@@ -0,0 +1,64 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import type { QuickSaveTitle } from '../lib/quickSave';
+import { MAX_COMPARE_TITLES, buildComparePath } from '../lib/titleComparison';
+import { CompareIcon, XMarkIcon } from './icons';
+
+interface CompareTrayProps {
+  items: QuickSaveTitle[];
+  onRemove: (item: QuickSaveTitle) => void;
+  onClear: () => void;
+}
+
+/** Floating bar listing the titles picked with a "Compare" action. */
+const CompareTray: React.FC<CompareTrayProps> = ({ items, onRemove, onClear }) => {
+  if (items.length === 0) return null;
+  const canCompare = items.length >= 2;
+
+  return (
+    <aside
+      className="fixed bottom-4 right-4 z-[9000] glass-panel rounded-2xl border border-white/10 shadow-2xl p-3 flex items-center gap-3 max-w-[calc(100vw-2rem)] animate-fade-in"
+      aria-label="Titles to compare"
+    >
+      <ul className="flex items-center gap-2 min-w-0">
+        {items.map((item) => (
+          <li key={`${item.media_type}:${item.id}`} className="relative flex-shrink-0">
+            {item.poster_url ? (
+              <img src={item.poster_url} alt={item.title} title={item.title} className="w-10 aspect-[2/3] rounded-md object-cover" />
+            ) : (
+              <div className="w-10 aspect-[2/3] rounded-md bg-white/10 flex items-center justify-center text-[10px] text-brand-text-light text-center leading-tight px-0.5" title={item.title}>
+                {item.title.slice(0, 12)}
+              </div>
+            )}
+            <button
+              type="button"
+              onClick={() => onRemove(item)}
+              aria-label={`Remove ${item.title} from comparison`}
+              className="absolute -top-1.5 -right-1.5 w-4 h-4 rounded-full bg-black/80 text-white/80 hover:text-white flex items-center justify-center border border-white/20"
+            >
+              <XMarkIcon className="w-2.5 h-2.5" />
+            </button>
+          </li>
+        ))}
+      </ul>
+      <div className="flex flex-col gap-1">
+        {canCompare ? (
+          <Link
+            to={buildComparePath(items)}
+            className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-brand-primary text-white text-sm font-semibold hover:bg-brand-primary/80 transition-colors whitespace-nowrap"
+          >
+            <CompareIcon className="w-4 h-4" />
+            Compare {items.length}
+          </Link>
+        ) : (
+          <span className="text-xs text-brand-text-light whitespace-nowrap">Pick up to {MAX_COMPARE_TITLES - items.length} more</span>
+        )}
+        <button type="button" onClick={onClear} className="text-xs text-brand-text-dark hover:text-white transition-colors">
+          Clear
+        </button>
+      </div>
+    </aside>
+  );
+};
+
+export default CompareTray;
@@ -27,6 +27,8 @@ interface ContentCarouselProps {
   isWatched?: (id: number, mediaType: 'movie' | 'tv') => boolean;
   onToggleWatched?: (item: DiscoveryItem) => void;
   onQuickSaveToWatchlist?: (item: DiscoveryItem) => void;
+  isInCompare?: (id: number, mediaType: 'movie' | 'tv') => boolean;
+  onToggleCompare?: (item: DiscoveryItem) => void;
 }
 
 const ContentCarousel: FC<ContentCarouselProps> = ({
@@ -48,7 +50,9 @@ const ContentCarousel: FC<ContentCarouselProps> = ({
   onOpenTitle,
   isWatched,
   onToggleWatched,
-  onQuickSaveToWatchlist
+  onQuickSaveToWatchlist,
+  isInCompare,
+  onToggleCompare
 }) => {
   const sectionRef = useRef<HTMLElement | null>(null);
   const scrollerRef = useRef<HTMLDivElement | null>(null);
@@ -201,6 +205,8 @@ const ContentCarousel: FC<ContentCarouselProps> = ({
                 isWatched={isWatched?.(item.id, item.media_type)}
                 onToggleWatched={onToggleWatched}
                 onQuickSaveToWatchlist={onQuickSaveToWatchlist}
+                isInCompare={isInCompare?.(item.id, item.media_type)}
+                onToggleCompare={onToggleCompare}
               />
             ))}
       </div>
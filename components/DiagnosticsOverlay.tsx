@@ -0,0 +1,192 @@
+import React, { useEffect, useState } from 'react';
+import { ApiCallRecord, getRecentApiCalls } from '../lib/apiClient';
+import { CacheName, CacheStats, getCacheStatsSnapshot } from '../lib/cacheStats';
+import { ExperimentAssignment, ExperimentKey, getExperimentAssignment, getExperimentConfig } from '../lib/experiments';
+import { getClientObservabilityStats, getRecentClientEvents } from '../services/clientObservability';
+import { getProviderMetricsSnapshot } from '../services/observability';
+import type { ObservabilityQueueStats, ObservabilityRecord } from '../services/observabilityQueue';
+
+export const DIAGNOSTICS_STORAGE_KEY = 'moviemonk_diagnostics_v1';
+const REFRESH_INTERVAL_MS = 1000;
+
+export type DiagnosticsSnapshot = {
+  providers: ReturnType<typeof getProviderMetricsSnapshot>;
+  apiCalls: ApiCallRecord[];
+  caches: Record<CacheName, CacheStats>;
+  experiments: ExperimentAssignment[];
+  events: ObservabilityRecord[];
+  queue: ObservabilityQueueStats | null;
+};
+
+export function collectDiagnosticsSnapshot(): DiagnosticsSnapshot {
+  return {
+    providers: getProviderMetricsSnapshot(),
+    apiCalls: getRecentApiCalls(),
+    caches: getCacheStatsSnapshot(),
+    experiments: getExperimentConfig().experiments.map((definition) => getExperimentAssignment(definition.key as ExperimentKey)),
+    events: getRecentClientEvents(),
+    queue: getClientObservabilityStats()
+  };
+}
+
+/** `?debug=1` turns the overlay on for the tab, `?debug=0` turns it off; otherwise the stored choice wins. */
+export function resolveDiagnosticsEnabled(search: string, storage: Pick<Storage, 'getItem' | 'setItem' | 'removeItem'> | null): boolean {
+  const flag = new URLSearchParams(search).get('debug');
+  if (flag === '1' || flag === 'true') {
+    storage?.setItem(DIAGNOSTICS_STORAGE_KEY, '1');
+    return true;
+  }
+  if (flag === '0' || flag === 'false') {
+    storage?.removeItem(DIAGNOSTICS_STORAGE_KEY);
+    return false;
+  }
+  return storage?.getItem(DIAGNOSTICS_STORAGE_KEY) === '1';
+}
+
+/** Alt+Shift+D; matched on the physical key so macOS Option symbols don't interfere. */
+export function isDiagnosticsChord(event: Pick<KeyboardEvent, 'code' | 'altKey' | 'shiftKey' | 'ctrlKey' | 'metaKey'>): boolean {
+  return event.code === 'KeyD' && event.altKey && event.shiftKey && !event.ctrlKey && !event.metaKey;
+}
+
+function formatRatio(stats: CacheStats): string {
+  return stats.hitRatio === null ? '—' : `${Math.round(stats.hitRatio * 100)}%`;
+}
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <section className="mb-3">
+    <h3 className="text-[11px] uppercase tracking-wide text-brand-text-dark mb-1">{title}</h3>
+    {children}
+  </section>
+);
+
+export const DiagnosticsPanel: React.FC<{ snapshot: DiagnosticsSnapshot; onClose: () => void }> = ({ snapshot, onClose }) => (
+  <aside
+    role="dialog"
+    aria-label="Diagnostics"
+    className="fixed bottom-3 right-3 z-[1000] w-[min(36rem,calc(100vw-1.5rem))] max-h-[70vh] overflow-y-auto rounded-xl border border-white/10 bg-black/90 p-3 font-mono text-[11px] text-brand-text-light shadow-2xl"
+  >
+    <div className="flex items-center justify-between mb-2">
+      <strong className="text-xs">Diagnostics</strong>
+      <button type="button" className="px-2 py-0.5 rounded border border-white/10" onClick={onClose} aria-label="Close diagnostics">
+        ✕
+      </button>
+    </div>
+
+    <Section title="AI providers">
+      {Object.entries(snapshot.providers).map(([provider, stats]) => (
+        <div key={provider}>
+          {provider}: {stats.calls} calls · {stats.errors} errors · avg {stats.calls > 0 ? Math.round(stats.totalLatencyMs / stats.calls) : 0}ms · {stats.fallbackCount} fallbacks
+          {stats.lastError && <span className="text-red-300"> · last error: {stats.lastError}</span>}
+        </div>
+      ))}
+    </Section>
+
+    <Section title="Caches">
+      {(Object.entries(snapshot.caches) as Array<[CacheName, CacheStats]>).map(([cache, stats]) => (
+        <div key={cache}>
+          {cache}: {formatRatio(stats)} hit ({stats.hits}/{stats.hits + stats.misses})
+        </div>
+      ))}
+    </Section>
+
+    <Section title="Experiments">
+      {snapshot.experiments.length === 0 && <div>none configured</div>}
+      {snapshot.experiments.map((assignment) => (
+        <div key={assignment.experiment}>
+          {assignment.experiment}: {assignment.variant} ({assignment.reason}{assignment.inExperiment ? '' : ', not enrolled'})
+        </div>
+      ))}
+    </Section>
+
+    <Section title={`API calls (${snapshot.apiCalls.length})`}>
+      <table className="w-full">
+        <tbody>
+          {snapshot.apiCalls.map((call) => (
+            <tr key={`${call.requestId}-${call.at}`} className={call.status >= 400 || call.status === 0 ? 'text-red-300' : ''}>
+              <td className="pr-2">{call.requestId}</td>
+              <td className="pr-2">{call.method}</td>
+              <td className="pr-2 break-all">{call.url}</td>
+              <td className="pr-2">{call.status || call.errorCode}</td>
+              <td className="pr-2 text-right">{call.latencyMs}ms</td>
+              <td>{call.cached ? 'cache' : ''}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </Section>
+
+    <Section title={`Client events (${snapshot.events.length})`}>
+      {snapshot.queue && (
+        <div className="mb-1 text-brand-text-dark">
+          queue: {snapshot.queue.pending} pending · {snapshot.queue.sampledOut} sampled out · {snapshot.queue.capped} over cap
+        </div>
+      )}
+      {snapshot.events.map((record, index) => (
+        <details key={`${record.ts}-${index}`}>
+          <summary className={record.level === 'error' ? 'text-red-300' : record.level === 'warn' ? 'text-amber-300' : ''}>
+            {record.ts.slice(11, 23)} {record.event}
+          </summary>
+          <pre className="whitespace-pre-wrap break-all">{JSON.stringify(record.data, null, 2)}</pre>
+        </details>
+      ))}
+    </Section>
+  </aside>
+);
+
+function getSessionStorage(): Storage | null {
+  try {
+    return window.sessionStorage;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Hidden developer panel. Opened with `?debug=1` (sticks for the tab) or
+ * Alt+Shift+D; refreshes once a second while open.
+ */
+export function DiagnosticsOverlay() {
+  const [open, setOpen] = useState(() => resolveDiagnosticsEnabled(window.location.search, getSessionStorage()));
+  const [snapshot, setSnapshot] = useState<DiagnosticsSnapshot | null>(null);
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (!isDiagnosticsChord(event)) return;
+      event.preventDefault();
+      setOpen((current) => {
+        const next = !current;
+        const storage = getSessionStorage();
+        if (next) storage?.setItem(DIAGNOSTICS_STORAGE_KEY, '1');
+        else storage?.removeItem(DIAGNOSTICS_STORAGE_KEY);
+        return next;
+      });
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  useEffect(() => {
+    if (!open) {
+      setSnapshot(null);
+      return;
+    }
+    const refresh = () => setSnapshot(collectDiagnosticsSnapshot());
+    refresh();
+    const interval = window.setInterval(refresh, REFRESH_INTERVAL_MS);
+    return () => window.clearInterval(interval);
+  }, [open]);
+
+  if (!open || !snapshot) return null;
+
+  return (
+    <DiagnosticsPanel
+      snapshot={snapshot}
+      onClose={() => {
+        getSessionStorage()?.removeItem(DIAGNOSTICS_STORAGE_KEY);
+        setOpen(false);
+      }}
+    />
+  );
+}
+
+export default DiagnosticsOverlay;
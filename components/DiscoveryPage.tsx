@@ -22,6 +22,8 @@ interface DiscoveryPageProps {
   isWatched?: (id: number, mediaType: 'movie' | 'tv') => boolean;
   onToggleWatched?: (item: DiscoveryItem) => void;
   onQuickSaveToWatchlist?: (item: DiscoveryItem) => void;
+  isInCompare?: (id: number, mediaType: 'movie' | 'tv') => boolean;
+  onToggleCompare?: (item: DiscoveryItem) => void;
   watchlists: WatchlistFolder[];
 }
 
@@ -52,7 +54,7 @@ function saveRailOrder(order: string[]) {
   localStorage.setItem(DISCOVERY_RAIL_ORDER_KEY, JSON.stringify(order));
 }
 
-const DiscoveryPage: React.FC<DiscoveryPageProps> = ({ onOpenTitle, onRunQuery, isWatched, onToggleWatched, onQuickSaveToWatchlist, watchlists }) => {
+const DiscoveryPage: React.FC<DiscoveryPageProps> = ({ onOpenTitle, onRunQuery, isWatched, onToggleWatched, onQuickSaveToWatchlist, isInCompare, onToggleCompare, watchlists }) => {
   const {
     heroItems,
     sections,
@@ -250,6 +252,8 @@ const DiscoveryPage: React.FC<DiscoveryPageProps> = ({ onOpenTitle, onRunQuery,
           isWatched={isWatched}
           onToggleWatched={onToggleWatched}
           onQuickSaveToWatchlist={onQuickSaveToWatchlist}
+          isInCompare={isInCompare}
+          onToggleCompare={onToggleCompare}
         />
       ))}
 
@@ -307,6 +311,8 @@ const DiscoveryPage: React.FC<DiscoveryPageProps> = ({ onOpenTitle, onRunQuery,
           isWatched={isWatched}
           onToggleWatched={onToggleWatched}
           onQuickSaveToWatchlist={onQuickSaveToWatchlist}
+          isInCompare={isInCompare}
+          onToggleCompare={onToggleCompare}
         />
       </section>
     </div>
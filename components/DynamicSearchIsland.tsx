@@ -11,14 +11,24 @@
 
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { track } from '@vercel/analytics/react';
-import { Zap, FlaskConical, Film, Tv, User, Sparkles, Lightbulb, Settings } from 'lucide-react';
-import { QueryComplexity, SuggestionItem, SearchFilters, DiscoveryGenre } from '../types';
+import { Zap, FlaskConical, Film, Tv, User, Sparkles, Lightbulb, Settings, X } from 'lucide-react';
+import { QueryComplexity, SuggestionItem, DiscoveryGenre } from '../types';
 import { SearchIcon, SendIcon } from './icons';
 import { FilterPanel } from './FilterPanel';
 import { getNextHighlightIndex } from '../services/suggestInteraction';
 import { buildPersonCardPresentation } from '../services/personPresentation';
 import { useDebounce } from '../hooks/useDebounce';
-import { apiGet } from '../lib/apiClient';
+import { apiGet, isBackendUnreachable } from '../lib/apiClient';
+import { suggestOfflineTitles } from '../services/offlineSearchIndex';
+import { personalizeSuggestions } from '../services/suggestPersonalization';
+import type { SuggestPersonalization } from '../services/suggestRanking';
+import {
+  getExternalReferenceFallbackQuery,
+  parseExternalReference,
+  resolveExternalReference
+} from '../services/externalLinkResolver';
+import { EMPTY_SEARCH_REFINEMENT, SearchRefinement, getActiveFilterCount } from '../lib/searchFilters';
+import { describeSearchRefinement, parseSearchOperators, removeSearchRefinementChip } from '../lib/searchOperators';
 import { safeImgUrl, sanitizeImgUrl, SAFE_URL_PATTERN, SAFE_DATA_URL_PATTERN } from '../lib/seo';
 import '../styles/dynamic-search-island.css';
 
@@ -70,8 +80,13 @@ const getSuggestionIconComponent = (type: string, media_type?: string) => {
 
 interface DynamicSearchIslandProps {
   initialQuery?: string;
-  onSearch: (query: string, complexity: QueryComplexity) => void;
+  initialRefinement?: SearchRefinement;
+  onSearch: (query: string, complexity: QueryComplexity, refinement?: SearchRefinement) => void;
   onSuggestionSelect?: (suggestion: SuggestionItem) => void;
+  /** Opens a title directly when a pasted IMDb / TMDB / Letterboxd / TVMaze link resolves. */
+  onOpenTitle?: (item: { id: number; mediaType: 'movie' | 'tv' }) => void;
+  /** Taste signals that reorder suggestions; omitted for anonymous, history-less users. */
+  personalization?: SuggestPersonalization;
   isLoading?: boolean;
 }
 
@@ -80,20 +95,14 @@ const STORAGE_KEY_DAILY_TRENDING = 'moviemonk_daily_trending_searches_v1';
 const SUGGEST_DEBOUNCE_MS = 150;
 const SUGGEST_CACHE_TTL_MS = 45 * 1000;
 const SUGGEST_CACHE_MAX_SIZE = 50;
-const DAILY_TRENDING_LIMIT = 6;
-const DAILY_TRENDING_ENGLISH_COUNT = 4;
 
-/** Count only meaningful filter values (non-empty arrays, defined numbers/strings) */
-const getActiveFilterCount = (filters: SearchFilters): number => {
-  let count = 0;
-  if (Array.isArray(filters.genres) && filters.genres.length > 0) count++;
-  if (filters.yearMin !== undefined) count++;
-  if (filters.yearMax !== undefined) count++;
-  if (filters.ratingMin !== undefined) count++;
-  if (Array.isArray(filters.languages) && filters.languages.length > 0) count++;
-  if (filters.sortBy) count++;
-  return count;
+type SuggestFetchResult = {
+  items: SuggestionItem[];
+  /** Served from the on-device index because `/api/suggest` was unreachable. */
+  offline: boolean;
 };
+const DAILY_TRENDING_LIMIT = 6;
+const DAILY_TRENDING_ENGLISH_COUNT = 4;
 
 type TrendingSuggestionItem = SuggestionItem & {
   trendLabel: string;
@@ -257,7 +266,7 @@ const writeDailyTrendingCache = (items: TrendingSuggestionItem[]) => {
   }
 };
 
-const DynamicSearchIsland: React.FC<DynamicSearchIslandProps> = ({ initialQuery, onSearch, onSuggestionSelect, isLoading }) => {
+const DynamicSearchIsland: React.FC<DynamicSearchIslandProps> = ({ initialQuery, initialRefinement, onSearch, onSuggestionSelect, onOpenTitle, personalization, isLoading }) => {
   const [isExpanded, setIsExpanded] = useState(false);
   const [query, setQuery] = useState(initialQuery || '');
 
@@ -269,6 +278,8 @@ const DynamicSearchIsland: React.FC<DynamicSearchIslandProps> = ({ initialQuery,
   const [analysisMode, setAnalysisMode] = useState<'quick' | 'complex'>('quick');
   const [suggestions, setSuggestions] = useState<SuggestionItem[]>([]);
   const [showSuggestions, setShowSuggestions] = useState(false);
+  const [suggestionsOffline, setSuggestionsOffline] = useState(false);
+  const [isResolvingLink, setIsResolvingLink] = useState(false);
   const [highlightedIndex, setHighlightedIndex] = useState(-1);
   const [isSuggesting, setIsSuggesting] = useState(false);
   const [dailyTrending, setDailyTrending] = useState<TrendingSuggestionItem[]>([]);
@@ -276,7 +287,16 @@ const DynamicSearchIsland: React.FC<DynamicSearchIslandProps> = ({ initialQuery,
   const [isTrendingLoading, setIsTrendingLoading] = useState(false);
   const [trendingLoadError, setTrendingLoadError] = useState<string | null>(null);
   const [inlinePrompt, setInlinePrompt] = useState<string | null>(null);
-  const [filters, setFilters] = useState<SearchFilters>({});
+  const [refinement, setRefinement] = useState<SearchRefinement>(initialRefinement || EMPTY_SEARCH_REFINEMENT);
+  const initialRefinementKey = initialRefinement ? JSON.stringify(initialRefinement) : '';
+
+  // Follow the URL (shared links, back/forward) when the route's filters change.
+  useEffect(() => {
+    if (initialRefinement) {
+      setRefinement(initialRefinement);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [initialRefinementKey]);
   const [showFilters, setShowFilters] = useState(false);
   const [genres, setGenres] = useState<DiscoveryGenre[]>([]);
 
@@ -287,8 +307,11 @@ const DynamicSearchIsland: React.FC<DynamicSearchIslandProps> = ({ initialQuery,
   const islandRef = useRef<HTMLDivElement>(null);
   const abortRef = useRef<AbortController | null>(null);
   const suggestCacheRef = useRef<Map<string, { createdAt: number; data: SuggestionItem[] }>>(new Map());
-  const inFlightRef = useRef<Map<string, Promise<SuggestionItem[]>>>(new Map());
+  const inFlightRef = useRef<Map<string, Promise<SuggestFetchResult>>>(new Map());
   const latestQueryRef = useRef('');
+  // Read when results arrive so taste changes never refetch suggestions.
+  const personalizationRef = useRef(personalization);
+  personalizationRef.current = personalization;
   const trendingLoadedRef = useRef(false);
   const genresLoadedRef = useRef(false);
   const filterPanelRef = useRef<HTMLDivElement>(null);
@@ -403,19 +426,49 @@ const DynamicSearchIsland: React.FC<DynamicSearchIslandProps> = ({ initialQuery,
 
   const handleSubmit = useCallback((e?: React.FormEvent) => {
     if (e) e.preventDefault();
-    if (!query.trim() || isLoading) return;
+    if (!query.trim() || isLoading || isResolvingLink) return;
 
     const complexity = analysisMode === 'complex' ? QueryComplexity.COMPLEX : QueryComplexity.SIMPLE;
+    const reference = onOpenTitle ? parseExternalReference(query) : null;
+    if (reference && onOpenTitle) {
+      const rawInput = query.trim();
+      setIsResolvingLink(true);
+      setInlinePrompt(null);
+      void resolveExternalReference(reference)
+        .catch(() => null)
+        .then((resolved) => {
+          track('search_external_link_submitted', { source: reference.source, resolved: Boolean(resolved) });
+          if (resolved) {
+            setQuery('');
+            onOpenTitle(resolved);
+          } else {
+            onSearch(getExternalReferenceFallbackQuery(reference, rawInput), complexity, refinement);
+          }
+          handleCollapse();
+        })
+        .finally(() => setIsResolvingLink(false));
+      return;
+    }
+
+    const parsed = parseSearchOperators(query, refinement, { genres });
+    if (!parsed.text) {
+      setRefinement(parsed.refinement);
+      setQuery('');
+      setInlinePrompt('Add a title or a few keywords to search with these filters.');
+      return;
+    }
 
     track('search_submitted_island', {
-      query_length: query.trim().length,
+      query_length: parsed.text.length,
       analysis_mode: analysisMode,
-      active_filters: getActiveFilterCount(filters)
+      active_filters: getActiveFilterCount(parsed.refinement.filters),
+      inline_operators: parsed.operators.length
     });
 
-    onSearch(query, complexity);
+    setRefinement(parsed.refinement);
+    onSearch(parsed.text, complexity, parsed.refinement);
     handleCollapse();
-  }, [query, isLoading, analysisMode, filters, onSearch, handleCollapse]);
+  }, [query, isLoading, isResolvingLink, analysisMode, refinement, genres, onSearch, onOpenTitle, handleCollapse]);
 
   const handleSuggestionSelect = useCallback((suggestion: SuggestionItem) => {
     track('search_suggestion_selected', {
@@ -516,13 +569,13 @@ const DynamicSearchIsland: React.FC<DynamicSearchIslandProps> = ({ initialQuery,
     }
   };
 
-  const fetchSuggestions = useCallback(async (rawQuery: string): Promise<SuggestionItem[]> => {
+  const fetchSuggestions = useCallback(async (rawQuery: string): Promise<SuggestFetchResult> => {
     const normalizedQuery = rawQuery.trim().toLowerCase();
-    if (normalizedQuery.length < 2) return [];
+    if (normalizedQuery.length < 2) return { items: [], offline: false };
 
     const cached = suggestCacheRef.current.get(normalizedQuery);
     if (cached && Date.now() - cached.createdAt < SUGGEST_CACHE_TTL_MS) {
-      return cached.data;
+      return { items: cached.data, offline: false };
     }
 
     const inFlight = inFlightRef.current.get(normalizedQuery);
@@ -559,9 +612,17 @@ const DynamicSearchIsland: React.FC<DynamicSearchIslandProps> = ({ initialQuery,
           data: nextSuggestions
         });
 
-        return nextSuggestions;
+        return { items: nextSuggestions, offline: false };
+      })
+      .catch(async (error): Promise<SuggestFetchResult> => {
+        if (!isBackendUnreachable(error)) return { items: [], offline: false };
+        // Offline matches are not cached so suggestions recover as soon as the API is back.
+        try {
+          return { items: await suggestOfflineTitles(rawQuery), offline: true };
+        } catch {
+          return { items: [], offline: false };
+        }
       })
-      .catch(() => [] as SuggestionItem[])
       .finally(() => {
         if (abortRef.current === controller) {
           abortRef.current = null;
@@ -621,8 +682,9 @@ const DynamicSearchIsland: React.FC<DynamicSearchIslandProps> = ({ initialQuery,
         return;
       }
 
-      setSuggestions(next);
-      setShowSuggestions(next.length > 0);
+      setSuggestions(personalizeSuggestions(trimmed, next.items, personalizationRef.current));
+      setSuggestionsOffline(next.offline);
+      setShowSuggestions(next.items.length > 0);
       setHighlightedIndex(-1);
       setIsSuggesting(false);
     };
@@ -682,6 +744,8 @@ const DynamicSearchIsland: React.FC<DynamicSearchIslandProps> = ({ initialQuery,
   };
 
   const shouldExpandForResults = query.trim().length >= 2 || isSuggesting || (showSuggestions && suggestions.length > 0);
+  const filterChips = describeSearchRefinement(refinement, genres);
+  const activeFilterCount = getActiveFilterCount(refinement.filters) + (refinement.mediaType !== 'all' ? 1 : 0);
 
   return (
     <>
@@ -698,8 +762,15 @@ const DynamicSearchIsland: React.FC<DynamicSearchIslandProps> = ({ initialQuery,
               type="text"
               value={query}
               onChange={(e) => {
-                setQuery(e.target.value);
-                if (e.target.value.trim().length >= 2) {
+                const parsed = parseSearchOperators(e.target.value, refinement, { genres, completedOnly: true });
+                const nextQuery = parsed.operators.length > 0
+                  ? (parsed.text ? `${parsed.text} ` : '')
+                  : e.target.value;
+                if (parsed.operators.length > 0) {
+                  setRefinement(parsed.refinement);
+                }
+                setQuery(nextQuery);
+                if (nextQuery.trim().length >= 2) {
                   setShowTrending(false);
                   setIsSuggesting(true);
                 } else {
@@ -716,8 +787,8 @@ const DynamicSearchIsland: React.FC<DynamicSearchIslandProps> = ({ initialQuery,
                 }
               }}
               onKeyDown={handleKeyDown}
-              placeholder="Search movies, shows, cast..."
-              disabled={isLoading}
+              placeholder="Search movies, shows, cast... try genre:horror year:1990..1999"
+              disabled={isLoading || isResolvingLink}
               aria-label="Search query"
               aria-autocomplete="list"
               aria-controls="search-suggestion-list"
@@ -737,8 +808,8 @@ const DynamicSearchIsland: React.FC<DynamicSearchIslandProps> = ({ initialQuery,
               title="Advanced Filters"
             >
               <Settings size={18} />
-              {getActiveFilterCount(filters) > 0 && (
-                <span className="filter-badge" title="Filters applied">{getActiveFilterCount(filters)}</span>
+              {activeFilterCount > 0 && (
+                <span className="filter-badge" title="Filters applied">{activeFilterCount}</span>
               )}
             </button>
 
@@ -768,6 +839,28 @@ const DynamicSearchIsland: React.FC<DynamicSearchIslandProps> = ({ initialQuery,
             )}
           </div>
 
+          {isExpanded && filterChips.length > 0 && (
+            <div className="search-operator-chips" aria-label="Active search filters">
+              {filterChips.map((chip) => (
+                <span key={chip.key} className="search-operator-chip">
+                  <span>{chip.label}</span>
+                  <button
+                    type="button"
+                    className="search-operator-chip-remove"
+                    aria-label={`Remove ${chip.label} filter`}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setRefinement((current) => removeSearchRefinementChip(current, chip.key));
+                      searchInputRef.current?.focus();
+                    }}
+                  >
+                    <X size={12} />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+
           {isExpanded && (
             <div className="search-dropdown-menu">
               {showTrending && query.trim().length < 2 && (
@@ -841,6 +934,11 @@ const DynamicSearchIsland: React.FC<DynamicSearchIslandProps> = ({ initialQuery,
                       Searching...
                     </div>
                   )}
+                  {showSuggestions && suggestions.length > 0 && suggestionsOffline && (
+                    <div className="suggest-offline-label" role="presentation">
+                      Offline matches from titles saved on this device
+                    </div>
+                  )}
                   {showSuggestions && suggestions.length > 0 && suggestions.map((suggestion, index) => {
                     const IconComponent = getSuggestionIconComponent(suggestion.type, suggestion.media_type);
                     const personCard = suggestion.type === 'person'
@@ -901,6 +999,12 @@ const DynamicSearchIsland: React.FC<DynamicSearchIslandProps> = ({ initialQuery,
                 </div>
               )}
 
+              {isResolvingLink && (
+                <div className="suggest-inline-hint" role="status">
+                  Opening link…
+                </div>
+              )}
+
               {inlinePrompt && (
                 <div className="suggest-inline-hint">
                   <Lightbulb size={16} className="inline mr-1" />
@@ -960,8 +1064,10 @@ const DynamicSearchIsland: React.FC<DynamicSearchIslandProps> = ({ initialQuery,
       </div>
       <div ref={filterPanelRef}>
         <FilterPanel
-          filters={filters}
-          onFiltersChange={setFilters}
+          filters={refinement.filters}
+          onFiltersChange={(filters) => setRefinement((current) => ({ ...current, filters }))}
+          mediaType={refinement.mediaType}
+          onMediaTypeChange={(mediaType) => setRefinement((current) => ({ ...current, mediaType }))}
           onClose={() => setShowFilters(false)}
           genres={genres}
           isOpen={showFilters}
@@ -1,6 +1,11 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { X, ChevronDown } from 'lucide-react';
-import type { SearchFilters, DiscoveryGenre } from '../types';
+import type { SearchFilters, DiscoveryGenre, SuggestResponse } from '../types';
+import { apiGet } from '../lib/apiClient';
+import { SearchMediaType, formatPersonIds, parsePersonIds } from '../lib/searchFilters';
+import { STATUS_LABELS } from '../lib/searchOperators';
+import { loadPreferenceSettings } from '../lib/userSettings';
+import { useDebounce } from '../hooks/useDebounce';
 import '../styles/filter-panel.css';
 
 interface FilterPanelProps {
@@ -9,6 +14,8 @@ interface FilterPanelProps {
   onClose: () => void;
   genres: DiscoveryGenre[];
   isOpen: boolean;
+  mediaType?: SearchMediaType;
+  onMediaTypeChange?: (mediaType: SearchMediaType) => void;
 }
 
 const LANGUAGES = [
@@ -26,6 +33,16 @@ const LANGUAGES = [
   { code: 'pt', name: 'Portuguese' }
 ];
 
+const MEDIA_TYPE_OPTIONS: Array<{ value: SearchMediaType; label: string }> = [
+  { value: 'all', label: 'All' },
+  { value: 'movie', label: 'Movies' },
+  { value: 'tv', label: 'TV Shows' }
+];
+
+const RUNTIME_STEP = 10;
+const RUNTIME_LIMIT = 240;
+const PERSON_SUGGEST_DEBOUNCE_MS = 200;
+
 const SORT_OPTIONS = [
   { value: 'popularity.desc', label: 'Most Popular' },
   { value: 'vote_average.desc', label: 'Highest Rated' },
@@ -33,20 +50,128 @@ const SORT_OPTIONS = [
   { value: 'title.asc', label: 'Title A-Z' }
 ];
 
+type PickedPerson = { id: number; name: string };
+
+interface PersonPickerProps {
+  label: string;
+  selectedIds: number[];
+  names: Record<number, string>;
+  onAdd: (person: PickedPerson) => void;
+  onRemove: (id: number) => void;
+}
+
+/** Autocompletes people through /api/suggest and keeps picked ids as removable chips. */
+function PersonPicker({ label, selectedIds, names, onAdd, onRemove }: PersonPickerProps) {
+  const [query, setQuery] = useState('');
+  const [options, setOptions] = useState<PickedPerson[]>([]);
+  const debouncedQuery = useDebounce(query, PERSON_SUGGEST_DEBOUNCE_MS);
+
+  useEffect(() => {
+    const trimmed = debouncedQuery.trim();
+    if (trimmed.length < 2) {
+      setOptions([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    apiGet<SuggestResponse>('/api/suggest', { q: trimmed }, controller.signal)
+      .then((payload) => {
+        const people = (payload?.suggestions || [])
+          .filter((item) => item?.type === 'person' && typeof item.id === 'number')
+          .map((item) => ({ id: item.id, name: item.title }));
+        setOptions(people.slice(0, 6));
+      })
+      .catch(() => {
+        if (!controller.signal.aborted) setOptions([]);
+      });
+
+    return () => controller.abort();
+  }, [debouncedQuery]);
+
+  return (
+    <div className="person-picker">
+      {selectedIds.length > 0 && (
+        <div className="person-picker-chips">
+          {selectedIds.map((id) => (
+            <span key={id} className="person-picker-chip">
+              <span>{names[id] || `Person #${id}`}</span>
+              <button type="button" onClick={() => onRemove(id)} aria-label={`Remove ${names[id] || id}`}>
+                <X size={12} />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      <input
+        type="text"
+        value={query}
+        onChange={e => setQuery(e.target.value)}
+        placeholder={`Add ${label.toLowerCase()}...`}
+        aria-label={`Search ${label.toLowerCase()}`}
+        className="year-input person-picker-input"
+      />
+      {options.length > 0 && (
+        <div className="person-picker-options" role="listbox">
+          {options
+            .filter((option) => !selectedIds.includes(option.id))
+            .map((option) => (
+              <button
+                key={option.id}
+                type="button"
+                role="option"
+                aria-selected={false}
+                className="person-picker-option"
+                onClick={() => {
+                  onAdd(option);
+                  setQuery('');
+                  setOptions([]);
+                }}
+              >
+                {option.name}
+              </button>
+            ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
 export function FilterPanel({
   filters,
   onFiltersChange,
   onClose,
   genres,
-  isOpen
+  isOpen,
+  mediaType = 'all',
+  onMediaTypeChange
 }: FilterPanelProps) {
   const [expandedSections, setExpandedSections] = useState<Record<string, boolean>>({
+    type: true,
     genres: true,
     year: true,
     rating: true,
+    runtime: false,
+    people: false,
+    status: true,
     language: false,
-    sort: false
+    sort: false,
+    adult: false
   });
+  const [personNames, setPersonNames] = useState<Record<number, string>>({});
+  const [familySafe, setFamilySafe] = useState(() => loadPreferenceSettings().familySafe);
+
+  useEffect(() => {
+    const syncPrefs = () => setFamilySafe(loadPreferenceSettings().familySafe);
+    window.addEventListener('moviemonk:preferences-updated', syncPrefs as EventListener);
+    return () => window.removeEventListener('moviemonk:preferences-updated', syncPrefs as EventListener);
+  }, []);
+
+  // Clear a previously enabled adult toggle; buildSearchRequestFilters drops it from requests anyway.
+  useEffect(() => {
+    if (familySafe && filters.includeAdult) {
+      onFiltersChange({ ...filters, includeAdult: undefined });
+    }
+  }, [familySafe, filters, onFiltersChange]);
 
   const toggleSection = (section: string) => {
     setExpandedSections(prev => ({
@@ -95,8 +220,47 @@ export function FilterPanel({
     });
   };
 
+  const handleMediaTypeChange = (next: SearchMediaType) => {
+    onMediaTypeChange?.(next);
+    if (next !== 'tv' && filters.status) {
+      onFiltersChange({ ...filters, status: undefined });
+    }
+  };
+
+  const handleRuntimeChange = (type: 'min' | 'max', value: number) => {
+    const newFilters = { ...filters };
+    if (type === 'min') {
+      const capped = Math.min(value, filters.runtimeMax ?? RUNTIME_LIMIT);
+      newFilters.runtimeMin = capped > 0 ? capped : undefined;
+    } else {
+      const capped = Math.max(value, filters.runtimeMin ?? 0);
+      newFilters.runtimeMax = capped < RUNTIME_LIMIT ? capped : undefined;
+    }
+    onFiltersChange(newFilters);
+  };
+
+  const handlePersonAdd = (field: 'withCast' | 'withCrew', person: PickedPerson) => {
+    setPersonNames(prev => ({ ...prev, [person.id]: person.name }));
+    const ids = parsePersonIds(filters[field]);
+    if (ids.includes(person.id)) return;
+    onFiltersChange({ ...filters, [field]: formatPersonIds([...ids, person.id]) });
+  };
+
+  const handlePersonRemove = (field: 'withCast' | 'withCrew', id: number) => {
+    const ids = parsePersonIds(filters[field]).filter(existing => existing !== id);
+    onFiltersChange({ ...filters, [field]: formatPersonIds(ids) });
+  };
+
+  const handleStatusChange = (value: string) => {
+    onFiltersChange({
+      ...filters,
+      status: (value || undefined) as SearchFilters['status']
+    });
+  };
+
   const clearFilters = () => {
     onFiltersChange({});
+    onMediaTypeChange?.('all');
   };
 
   if (!isOpen) return null;
@@ -116,6 +280,68 @@ export function FilterPanel({
         </div>
 
         <div className="filter-panel-content">
+          {/* Media Type */}
+          {onMediaTypeChange && (
+            <div className="filter-section">
+              <button
+                onClick={() => toggleSection('type')}
+                className="filter-section-header"
+              >
+                <span>Type</span>
+                <ChevronDown
+                  size={16}
+                  className={expandedSections.type ? 'rotate-180' : ''}
+                />
+              </button>
+              {expandedSections.type && (
+                <div className="filter-section-content">
+                  <div className="rating-buttons">
+                    {MEDIA_TYPE_OPTIONS.map(option => (
+                      <button
+                        key={option.value}
+                        onClick={() => handleMediaTypeChange(option.value)}
+                        className={`rating-btn ${mediaType === option.value ? 'active' : ''}`}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* TV Status */}
+          {mediaType === 'tv' && (
+            <div className="filter-section">
+              <button
+                onClick={() => toggleSection('status')}
+                className="filter-section-header"
+              >
+                <span>Series Status</span>
+                <ChevronDown
+                  size={16}
+                  className={expandedSections.status ? 'rotate-180' : ''}
+                />
+              </button>
+              {expandedSections.status && (
+                <div className="filter-section-content">
+                  <select
+                    value={filters.status || ''}
+                    onChange={e => handleStatusChange(e.target.value)}
+                    className="year-input status-select"
+                    aria-label="Series status"
+                  >
+                    <option value="">Any status</option>
+                    {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Genres */}
           <div className="filter-section">
             <button
@@ -214,6 +440,79 @@ export function FilterPanel({
             )}
           </div>
 
+          {/* Runtime */}
+          <div className="filter-section">
+            <button
+              onClick={() => toggleSection('runtime')}
+              className="filter-section-header"
+            >
+              <span>Runtime</span>
+              <ChevronDown
+                size={16}
+                className={expandedSections.runtime ? 'rotate-180' : ''}
+              />
+            </button>
+            {expandedSections.runtime && (
+              <div className="filter-section-content">
+                <div className="runtime-summary">
+                  {filters.runtimeMin ?? 0} min – {filters.runtimeMax !== undefined ? `${filters.runtimeMax} min` : 'any length'}
+                </div>
+                <div className="runtime-sliders">
+                  <input
+                    type="range"
+                    min={0}
+                    max={RUNTIME_LIMIT}
+                    step={RUNTIME_STEP}
+                    value={filters.runtimeMin ?? 0}
+                    onChange={e => handleRuntimeChange('min', parseInt(e.target.value) || 0)}
+                    aria-label="Minimum runtime in minutes"
+                  />
+                  <input
+                    type="range"
+                    min={0}
+                    max={RUNTIME_LIMIT}
+                    step={RUNTIME_STEP}
+                    value={filters.runtimeMax ?? RUNTIME_LIMIT}
+                    onChange={e => handleRuntimeChange('max', parseInt(e.target.value) || RUNTIME_LIMIT)}
+                    aria-label="Maximum runtime in minutes"
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Cast & Crew */}
+          <div className="filter-section">
+            <button
+              onClick={() => toggleSection('people')}
+              className="filter-section-header"
+            >
+              <span>Cast &amp; Crew</span>
+              <ChevronDown
+                size={16}
+                className={expandedSections.people ? 'rotate-180' : ''}
+              />
+            </button>
+            {expandedSections.people && (
+              <div className="filter-section-content person-picker-group">
+                <PersonPicker
+                  label="Cast"
+                  selectedIds={parsePersonIds(filters.withCast)}
+                  names={personNames}
+                  onAdd={person => handlePersonAdd('withCast', person)}
+                  onRemove={id => handlePersonRemove('withCast', id)}
+                />
+                <PersonPicker
+                  label="Crew"
+                  selectedIds={parsePersonIds(filters.withCrew)}
+                  names={personNames}
+                  onAdd={person => handlePersonAdd('withCrew', person)}
+                  onRemove={id => handlePersonRemove('withCrew', id)}
+                />
+              </div>
+            )}
+          </div>
+
           {/* Language */}
           <div className="filter-section">
             <button
@@ -275,6 +574,36 @@ export function FilterPanel({
               </div>
             )}
           </div>
+
+          {/* Adult Content */}
+          <div className="filter-section">
+            <button
+              onClick={() => toggleSection('adult')}
+              className="filter-section-header"
+            >
+              <span>Adult Content</span>
+              <ChevronDown
+                size={16}
+                className={expandedSections.adult ? 'rotate-180' : ''}
+              />
+            </button>
+            {expandedSections.adult && (
+              <div className="filter-section-content">
+                <label className={`sort-radio ${familySafe ? 'is-disabled' : ''}`}>
+                  <input
+                    type="checkbox"
+                    checked={Boolean(filters.includeAdult) && !familySafe}
+                    disabled={familySafe}
+                    onChange={e => onFiltersChange({ ...filters, includeAdult: e.target.checked || undefined })}
+                  />
+                  <span>Include adult titles</span>
+                </label>
+                {familySafe && (
+                  <p className="filter-hint">Family-safe mode is on. Turn it off in Settings to include adult titles.</p>
+                )}
+              </div>
+            )}
+          </div>
         </div>
 
         <div className="filter-panel-footer">
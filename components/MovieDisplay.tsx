@@ -11,10 +11,21 @@ import { formatAiNotesHtml } from '../lib/aiNotesFormatter';
 import RatingDisplay from './RatingDisplay';
 import { WatchlistIconPicker, WatchlistIconBadge, WATCHLIST_ICON_DEFAULT } from './WatchlistIconPicker';
 import { useActionFeedback } from '../hooks/useActionFeedback';
+import { useApiResource } from '../hooks/useApiResource';
 import SeoHead from './SeoHead';
 import { buildMovieJsonLd, stripHtmlTags, toMetaDescription } from '../lib/seo';
 import { loadPreferenceSettings } from '../lib/userSettings';
 import { apiGet } from '../lib/apiClient';
+import { swrGet } from '../lib/swrCache';
+import {
+    EpisodeFocus,
+    buildEpisodeFocusQuery,
+    describeEpisodeFocus,
+    formatTotalRuntime,
+    isEpisodeInFocus,
+    summarizeEpisodeFocus
+} from '../lib/episodeFocus';
+import { CollectionRef, fetchMovieCollectionRef } from '../services/collectionService';
 
 interface MovieDisplayProps {
     movie: MovieData | null;
@@ -32,6 +43,8 @@ interface MovieDisplayProps {
     onToggleRelatedWatched?: (entry: { tmdb_id: string; media_type: 'movie' | 'tv'; title: string; poster_url?: string | null; year?: string | null; }) => void;
     isRelatedWatched?: (tmdbId: string, mediaType: 'movie' | 'tv') => boolean;
     onQuickSaveToWatchlist?: (entry: { id: number; media_type: 'movie' | 'tv'; title: string; year?: string; poster_url?: string | null; }) => void;
+    episodeFocus?: EpisodeFocus | null;
+    onOpenCollection?: (collectionId: number) => void;
 }
 
 const LANGUAGE_NAME_BY_CODE: Record<string, string> = {
@@ -231,6 +244,9 @@ const DISCOVER_TITLES = [
     'The Last of Us'
 ];
 
+// Season ranges beyond this are still highlighted, but only these are prefetched.
+const MAX_FOCUS_SEASON_PREFETCH = 6;
+
 const COLOR_PRESETS = ['#7c3aed', '#db2777', '#22c55e', '#f59e0b', '#0ea5e9', '#ef4444', '#a855f7'];
 
 const MovieDisplay: React.FC<MovieDisplayProps> = ({
@@ -248,7 +264,9 @@ const MovieDisplay: React.FC<MovieDisplayProps> = ({
     onToggleWatched,
     onToggleRelatedWatched,
     isRelatedWatched,
-    onQuickSaveToWatchlist
+    onQuickSaveToWatchlist,
+    episodeFocus = null,
+    onOpenCollection
 }) => {
     useRenderCounter('MovieDisplay');
     const { triggerFeedback, isFeedbackActive } = useActionFeedback();
@@ -344,14 +362,81 @@ const MovieDisplay: React.FC<MovieDisplayProps> = ({
         setFullPlotContent(movie?.summary_long_spoilers || '');
     }, [movie]);
 
+    const [collectionRef, setCollectionRef] = useState<CollectionRef | null>(null);
+
+    useEffect(() => {
+        // Movies that belong to a TMDB collection link to the franchise page
+        setCollectionRef(null);
+        const movieId = Number(movie?.tmdb_id);
+        if (!movie || movie.tvShow || !onOpenCollection || !Number.isInteger(movieId) || movieId <= 0) return;
+        const controller = new AbortController();
+        fetchMovieCollectionRef(movieId, controller.signal)
+            .then((ref) => {
+                if (!controller.signal.aborted) setCollectionRef(ref);
+            })
+            .catch(() => undefined);
+        return () => controller.abort();
+    }, [movie?.tmdb_id, movie?.tvShow, Boolean(onOpenCollection)]);
+
+    const episodeFocusKey = episodeFocus ? buildEpisodeFocusQuery(episodeFocus) : '';
+    const focusedSeason = episodeFocus
+        ? Math.max(1, Math.min(episodeFocus.seasons.start, movie?.tvShow?.totalSeasons || episodeFocus.seasons.start))
+        : 1;
+
     useEffect(() => {
         // Reset TV state when movie changes
-        setSelectedSeason(1);
+        setSelectedSeason(focusedSeason);
         setExpandedEpisode(null);
         setEpisodesMap({});
         setEpisodesSource(null);
     }, [movie?.tmdb_id]);
 
+    useEffect(() => {
+        // Jump to the requested season when the focus changes on the same show
+        setSelectedSeason(focusedSeason);
+    }, [episodeFocusKey, focusedSeason]);
+
+    useEffect(() => {
+        // Prefetch the rest of a season range so its combined runtime can be shown
+        if (!episodeFocus || !movie?.tvShow || !movie.tmdb_id) return;
+        const lastSeason = Math.min(
+            episodeFocus.seasons.end,
+            movie.tvShow.totalSeasons || episodeFocus.seasons.end,
+            focusedSeason + MAX_FOCUS_SEASON_PREFETCH - 1
+        );
+        const seasons: number[] = [];
+        for (let season = focusedSeason + 1; season <= lastSeason; season++) seasons.push(season);
+        if (seasons.length === 0) return;
+
+        let cancelled = false;
+        const tmdbId = movie.tmdb_id;
+        void Promise.all(
+            seasons.map((season) =>
+                apiGet<EpisodesResponse>(`/api/episodes/${tmdbId}/${season}`)
+                    .then((data) => data.episodes || [])
+                    .catch(() => [] as TVShowEpisode[])
+            )
+        ).then((results) => {
+            if (cancelled) return;
+            setEpisodesMap(prev => {
+                const next = { ...prev };
+                results.forEach((episodes, index) => {
+                    if (!next[seasons[index]]) next[seasons[index]] = episodes;
+                });
+                return next;
+            });
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [movie?.tmdb_id, movie?.tvShow, episodeFocusKey, focusedSeason]);
+
+    const episodeFocusSummary = useMemo(() => {
+        if (!episodeFocus) return null;
+        const loaded = Object.values(episodesMap).flat();
+        return summarizeEpisodeFocus(episodeFocus, loaded);
+    }, [episodeFocus, episodesMap]);
+
     useEffect(() => {
         setCustomSavedTitle(movie?.title || '');
         // Preserve selection only if it still exists; otherwise clear selection
@@ -603,7 +688,7 @@ const MovieDisplay: React.FC<MovieDisplayProps> = ({
             page: String(page)
         });
         if (language) params.set('language', language);
-        const data = await apiGet<any>('/api/tmdb', Object.fromEntries(params.entries()));
+        const data = await swrGet<any>('/api/tmdb', Object.fromEntries(params.entries()));
         return {
             reviews: normalizeTmdbReviews(data),
             totalPages: data?.total_pages ?? 1
@@ -1033,6 +1118,19 @@ const MovieDisplay: React.FC<MovieDisplayProps> = ({
                                 </div>
                             )}
 
+                            {!isTV && collectionRef && onOpenCollection && (
+                                <div className="mt-3 flex justify-center sm:justify-start animate-slide-up" style={{ animationDelay: '0.30s', animationFillMode: 'forwards' }}>
+                                    <button
+                                        type="button"
+                                        onClick={() => onOpenCollection(collectionRef.id)}
+                                        className="flex items-center gap-1.5 px-2.5 py-1 text-[11px] md:text-xs font-bold text-white bg-white/20 border border-white/10 rounded-md backdrop-blur-md hover:bg-white/30 transition-colors shadow-lg"
+                                    >
+                                        <FilmIcon className="w-3.5 h-3.5 opacity-70" />
+                                        Part of {collectionRef.name}
+                                    </button>
+                                </div>
+                            )}
+
                             <div className="mt-2 md:mt-4 flex flex-wrap justify-center sm:justify-start gap-1.5 md:gap-2 animate-slide-up" style={{ animationDelay: '0.35s', animationFillMode: 'forwards' }}>
                                 {safeGenres.map(genre => (
                                     <span key={genre} className="px-2 py-1 md:px-3 md:py-1.5 bg-white/20 text-white text-xs md:text-sm font-bold rounded-md backdrop-blur-md hover:bg-white/30 transition-colors shadow-lg">{genre}</span>
@@ -1234,6 +1332,28 @@ const MovieDisplay: React.FC<MovieDisplayProps> = ({
                                     )}
                                 </div>
 
+                                {episodeFocus && episodeFocusSummary && (
+                                    <div className="episode-focus-banner flex flex-wrap items-center gap-x-3 gap-y-1 px-4 py-3 rounded-xl border border-brand-primary/40 bg-brand-primary/10 text-sm" role="status">
+                                        <span className="font-semibold text-white">{describeEpisodeFocus(episodeFocus)}</span>
+                                        {episodeFocusSummary.episodeCount > 0 && (
+                                            <>
+                                                <span className="text-brand-text-dark">
+                                                    {episodeFocusSummary.episodeCount} episode{episodeFocusSummary.episodeCount === 1 ? '' : 's'}
+                                                </span>
+                                                {episodeFocusSummary.totalRuntimeMinutes > 0 && (
+                                                    <span className="flex items-center gap-1 text-brand-text-light">
+                                                        <ClockIcon className="w-3.5 h-3.5" />
+                                                        {formatTotalRuntime(episodeFocusSummary.totalRuntimeMinutes)} total
+                                                        {episodeFocusSummary.missingRuntimeCount > 0 && (
+                                                            <span className="text-brand-text-dark"> ({episodeFocusSummary.missingRuntimeCount} without runtime)</span>
+                                                        )}
+                                                    </span>
+                                                )}
+                                            </>
+                                        )}
+                                    </div>
+                                )}
+
                                 {episodesLoading && (!episodesMap[selectedSeason] || episodesMap[selectedSeason].length === 0) ? (
                                     <div className="space-y-3">
                                         {[1, 2, 3].map(i => (
@@ -1251,8 +1371,13 @@ const MovieDisplay: React.FC<MovieDisplayProps> = ({
                                     <div className="space-y-3">
                                         {episodesMap[selectedSeason].map((episode) => {
                                             const isExpanded = expandedEpisode === String(episode.id);
+                                            const isFocused = isEpisodeInFocus(episodeFocus, episode.season, episode.episode);
                                             return (
-                                                <div key={episode.id} className="group relative flex flex-col sm:flex-row gap-4 p-3 sm:p-4 rounded-xl border border-white/10 bg-brand-surface/40 hover:bg-brand-surface/80 hover:border-brand-primary/30 transition-all duration-300">
+                                                <div
+                                                    key={episode.id}
+                                                    data-episode-focus={isFocused ? 'true' : undefined}
+                                                    className={`group relative flex flex-col sm:flex-row gap-4 p-3 sm:p-4 rounded-xl border bg-brand-surface/40 hover:bg-brand-surface/80 hover:border-brand-primary/30 transition-all duration-300 ${isFocused ? 'border-brand-primary/70 ring-1 ring-brand-primary/50' : 'border-white/10'}`}
+                                                >
                                                     <div className="relative w-full sm:w-40 md:w-48 aspect-video rounded-lg overflow-hidden flex-shrink-0 bg-brand-surface">
                                                         {episode.image ? (
                                                             <img 
@@ -1946,37 +2071,12 @@ const CastCard: React.FC<{ member: CastMember; onClick?: () => void }> = ({ memb
     </button>
 );
 
-// Module-level cache so we never double-fetch the same name
-const crewImageCache = new Map<string, string | null>();
-
 const CrewCard: React.FC<{ name: string; role: string; onClick: () => void }> = ({ name, role, onClick }) => {
-    const [photoUrl, setPhotoUrl] = React.useState<string | null | undefined>(undefined);
-
-    React.useEffect(() => {
-        if (!name) return;
-        const key = name.toLowerCase().trim();
-        if (crewImageCache.has(key)) {
-            setPhotoUrl(crewImageCache.get(key)!);
-            return;
-        }
-        let cancelled = false;
-        apiGet<any>('/api/resolve', { q: name })
-            .then(data => {
-                if (cancelled) return;
-                // Pick the top person candidate's profile_url
-                const person = (data?.shortlisted || []).find((c: any) => c.type === 'person' || !c.type);
-                const url = person?.profile_url || null;
-                crewImageCache.set(key, url);
-                setPhotoUrl(url);
-            })
-            .catch(() => {
-                if (!cancelled) {
-                    crewImageCache.set(key, null);
-                    setPhotoUrl(null);
-                }
-            });
-        return () => { cancelled = true; };
-    }, [name]);
+    // Cached and coalesced per name, so repeated crew members share one lookup.
+    const resolved = useApiResource<any>(name ? '/api/resolve' : null, { q: name });
+    // Pick the top person candidate's profile_url
+    const person = (resolved.data?.shortlisted || []).find((c: any) => c.type === 'person' || !c.type);
+    const photoUrl: string | null | undefined = resolved.isLoading ? undefined : person?.profile_url || null;
 
     return (
         <button
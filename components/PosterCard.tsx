@@ -2,7 +2,7 @@ import type { FC, KeyboardEvent } from 'react';
 import { memo, useCallback, useEffect, useRef } from 'react';
 import { DiscoveryItem } from '../types';
 import RatingDisplay from './RatingDisplay';
-import { TagIcon, WatchedIcon } from './icons';
+import { CompareIcon, TagIcon, WatchedIcon } from './icons';
 import { useActionFeedback } from '../hooks/useActionFeedback';
 import { buildRevealStyle, getRevealClassName, useScrollReveal } from '../hooks/useScrollReveal';
 
@@ -16,6 +16,8 @@ interface PosterCardProps {
   isWatched?: boolean;
   onToggleWatched?: (item: DiscoveryItem) => void;
   onQuickSaveToWatchlist?: (item: DiscoveryItem) => void;
+  isInCompare?: boolean;
+  onToggleCompare?: (item: DiscoveryItem) => void;
 }
 
 const formatRating = (rating: number | null) => (
@@ -31,7 +33,9 @@ const PosterCard: FC<PosterCardProps> = ({
   onOpenTitle,
   isWatched = false,
   onToggleWatched,
-  onQuickSaveToWatchlist
+  onQuickSaveToWatchlist,
+  isInCompare = false,
+  onToggleCompare
 }) => {
   const cardRef = useRef<HTMLDivElement | null>(null);
   const { ref: revealRef, isRevealed } = useScrollReveal<HTMLDivElement>();
@@ -127,6 +131,21 @@ const PosterCard: FC<PosterCardProps> = ({
             <WatchedIcon className="w-3.5 h-3.5" filled={isWatched} />
           </button>
         )}
+        {onToggleCompare && (
+          <button
+            type="button"
+            onClick={(e) => { e.stopPropagation(); triggerFeedback('compare'); onToggleCompare(item); }}
+            aria-label={isInCompare ? `Remove ${item.title} from comparison` : `Compare ${item.title}`}
+            aria-pressed={isInCompare}
+            title={isInCompare ? 'In comparison' : 'Compare'}
+            className={`absolute bottom-1.5 left-1.5 z-10 w-7 h-7 rounded-full flex items-center justify-center transition-all duration-200 shadow-lg mm-action-feedback ${isFeedbackActive('compare') ? 'is-feedback-active' : ''} ${isInCompare
+                ? 'bg-sky-500 text-white'
+                : 'bg-black/50 text-white/70 hover:bg-sky-500/90 hover:text-white hover:scale-110 border border-white/20 opacity-100 md:opacity-0 md:group-hover:opacity-100 md:group-focus-visible:opacity-100'
+              }`}
+          >
+            <CompareIcon className="w-3.5 h-3.5" />
+          </button>
+        )}
       </div>
       <span className="discovery-poster-title">{item.title}</span>
       <div className="discovery-poster-meta flex items-center justify-between">
@@ -0,0 +1,48 @@
+import React, { useEffect, useState } from 'react';
+import { SCHEMA_VIOLATION_EVENT, SchemaViolation } from '../services/apiResponseSchemas';
+
+const MAX_VISIBLE = 3;
+
+export const SchemaViolationList: React.FC<{ violations: SchemaViolation[]; onDismiss: () => void }> = ({ violations, onDismiss }) => (
+  <div
+    role="alert"
+    className="fixed top-3 left-1/2 -translate-x-1/2 z-[1000] w-[min(40rem,calc(100vw-1.5rem))] rounded-xl border border-amber-400/40 bg-amber-950/95 p-3 font-mono text-[11px] text-amber-100 shadow-2xl"
+  >
+    <div className="flex items-center justify-between mb-1">
+      <strong className="text-xs">API response does not match its type (dev only)</strong>
+      <button type="button" className="px-2 py-0.5 rounded border border-amber-400/30" onClick={onDismiss} aria-label="Dismiss schema warnings">
+        ✕
+      </button>
+    </div>
+    {violations.slice(-MAX_VISIBLE).map((violation, index) => (
+      <div key={`${violation.endpoint}-${index}`} className="mt-1">
+        <div className="font-semibold">{violation.endpoint}</div>
+        {violation.issues.slice(0, 5).map((issue) => (
+          <div key={issue.path}>
+            {issue.path}: expected {issue.expected}, got {issue.received}
+          </div>
+        ))}
+        {violation.issues.length > 5 && <div>… and {violation.issues.length - 5} more</div>}
+      </div>
+    ))}
+  </div>
+);
+
+/** Dev builds only: surfaces schema violations reported by the API client. */
+export function SchemaViolationBanner() {
+  const [violations, setViolations] = useState<SchemaViolation[]>([]);
+
+  useEffect(() => {
+    const onViolation = (event: Event) => {
+      const detail = (event as CustomEvent<SchemaViolation>).detail;
+      if (detail) setViolations((current) => [...current.slice(-(MAX_VISIBLE - 1)), detail]);
+    };
+    window.addEventListener(SCHEMA_VIOLATION_EVENT, onViolation);
+    return () => window.removeEventListener(SCHEMA_VIOLATION_EVENT, onViolation);
+  }, []);
+
+  if (violations.length === 0) return null;
+  return <SchemaViolationList violations={violations} onDismiss={() => setViolations([])} />;
+}
+
+export default SchemaViolationBanner;
@@ -1,23 +1,49 @@
 import React, { useEffect, useMemo, useState } from 'react';
-import type { SearchPageResponse, SearchResult, SuggestionItem, VibeParseResult } from '../types';
+import type { DetailsResponse, SearchPageResponse, SearchResult, SuggestionItem, SuggestResponse, VibeParseResult } from '../types';
 import type { QuickSaveTitle } from '../lib/quickSave';
 import RatingDisplay from './RatingDisplay';
 import SkeletonCard from './SkeletonCard';
-import { TagIcon, WatchedIcon } from './icons';
+import { CompareIcon, TagIcon, WatchedIcon } from './icons';
 import { useActionFeedback } from '../hooks/useActionFeedback';
 import { useAdaptiveImageTone } from '../hooks/useAdaptiveImageTone';
+import { useDiversityRerank } from '../hooks/useDiversityRerank';
 import { buildRevealStyle, getRevealClassName, useScrollReveal } from '../hooks/useScrollReveal';
 import SeoHead from './SeoHead';
+import { PromptDialog } from './BrandedDialogs';
 import { toMetaDescription } from '../lib/seo';
 import { emitClientEvent } from '../services/clientObservability';
-import { applyRankingFeedback, recordQueryFeedback, recordResultFeedback } from '../services/rankingFeedback';
+import {
+  FeedbackExplanation,
+  applyRankingFeedback,
+  describeFeedbackBoost,
+  recordQueryFeedback,
+  recordResultFeedback
+} from '../services/rankingFeedback';
 import { streamGroqText } from '../services/groqService';
-import { apiGet, apiPost } from '../lib/apiClient';
+import { apiGet, apiPost, isBackendUnreachable } from '../lib/apiClient';
+import { searchOfflineTitles } from '../services/offlineSearchIndex';
+import { diversifyResults } from '../services/diversityRanking';
+import { loadPreferenceSettings } from '../lib/userSettings';
+import { endTimingAfterPaint, startTiming } from '../lib/performanceTelemetry';
+import {
+  EMPTY_SEARCH_REFINEMENT,
+  SearchMode,
+  SearchRefinement,
+  SearchUrlState,
+  buildSearchRequestFilters
+} from '../lib/searchFilters';
 import '../styles/search-results-page.css';
 
 interface SearchResultsPageProps {
   query: string;
+  refinement?: SearchRefinement;
+  page?: number;
+  searchMode?: SearchMode;
+  /** Pushes page / mode / filter changes into the URL so back and forward step through them. */
+  onSearchStateChange?: (next: Partial<Omit<SearchUrlState, 'query'>>) => void;
   onSearchQuery: (nextQuery: string) => void;
+  /** Stores the current query and filters as a named saved search. */
+  onSaveSearch?: (name: string) => Promise<void>;
   onOpenTitle: (item: { id: number; mediaType: 'movie' | 'tv' }) => void;
   onOpenPerson: (personId: number, name?: string) => void;
   isWatched?: (id: number, mediaType: 'movie' | 'tv') => boolean;
@@ -29,6 +55,8 @@ interface SearchResultsPageProps {
     year?: string | null;
   }) => void;
   onQuickSaveToWatchlist?: (item: QuickSaveTitle) => void;
+  isInCompare?: (id: number, mediaType: 'movie' | 'tv') => boolean;
+  onToggleCompare?: (item: QuickSaveTitle) => void;
 }
 
 function normalizeText(input: string): string {
@@ -70,6 +98,10 @@ interface SearchResultCardProps {
     year?: string | null;
   }) => void;
   onQuickSaveToWatchlist?: (item: QuickSaveTitle) => void;
+  inCompare?: boolean;
+  onToggleCompare?: (item: QuickSaveTitle) => void;
+  /** How the user's past feedback moved this result. */
+  feedback?: FeedbackExplanation;
   onResultFeedback?: (item: SearchResult, signal: 'up' | 'down') => void;
 }
 
@@ -80,6 +112,9 @@ const SearchResultCard: React.FC<SearchResultCardProps> = React.memo(({
   onOpenTitle,
   onToggleWatched,
   onQuickSaveToWatchlist,
+  inCompare = false,
+  onToggleCompare,
+  feedback,
   onResultFeedback
 }) => {
   const { ref, isRevealed } = useScrollReveal<HTMLElement>();
@@ -153,6 +188,24 @@ const SearchResultCard: React.FC<SearchResultCardProps> = React.memo(({
             <WatchedIcon className="w-3.5 h-3.5" filled={watched} />
           </button>
         )}
+        {onToggleCompare && (
+          <button
+            type="button"
+            className={`absolute top-10 left-1.5 z-10 w-7 h-7 rounded-full flex items-center justify-center transition-all duration-200 shadow-lg mm-action-feedback ${isFeedbackActive('compare') ? 'is-feedback-active' : ''} ${inCompare
+                ? 'bg-sky-500 text-white'
+                : 'bg-black/50 text-white/70 hover:bg-sky-500/90 hover:text-white hover:scale-110 border border-white/20 opacity-100 md:opacity-0 md:group-hover:opacity-100 md:group-focus-visible:opacity-100'
+              }`}
+            title={inCompare ? 'In comparison' : 'Compare'}
+            aria-pressed={inCompare}
+            onClick={(e) => {
+              e.stopPropagation();
+              triggerFeedback('compare');
+              onToggleCompare(mapToQuickSave(item));
+            }}
+          >
+            <CompareIcon className="w-3.5 h-3.5" />
+          </button>
+        )}
         {typeof item.rating === 'number' && item.rating > 0 && (
           <div className="search-result-floating-rating">
             <svg viewBox="0 0 24 24" fill="currentColor">
@@ -194,6 +247,15 @@ const SearchResultCard: React.FC<SearchResultCardProps> = React.memo(({
           <span>{item.year || 'TBA'}</span>
           <span>{item.type === 'show' ? 'TV Show' : 'Movie'}</span>
         </div>
+        {feedback && feedback.boosts.some((boost) => boost.delta > 0) && (
+          <div className="search-result-reason-chips" aria-label={`Why ${item.title} ranks higher for you`}>
+            {feedback.boosts.filter((boost) => boost.delta > 0).slice(0, 2).map((boost) => (
+              <span key={`${boost.dimension}:${boost.key}`} className="search-result-reason-chip">
+                {describeFeedbackBoost(boost)}
+              </span>
+            ))}
+          </div>
+        )}
         {(typeof item.vibe_score === 'number' || (item.match_reasons?.length || 0) > 0) && (
           <div className="search-result-vibe-block">
             {typeof item.vibe_score === 'number' && (
@@ -251,20 +313,41 @@ const SearchPersonCard: React.FC<SearchPersonCardProps> = React.memo(({ person,
 
 const SearchResultsPage: React.FC<SearchResultsPageProps> = ({
   query,
+  refinement = EMPTY_SEARCH_REFINEMENT,
+  page: routePage = 1,
+  searchMode: requestedMode,
+  onSearchStateChange,
   onSearchQuery,
+  onSaveSearch,
   onOpenTitle,
   onOpenPerson,
   isWatched,
   onToggleWatched,
-  onQuickSaveToWatchlist
+  onQuickSaveToWatchlist,
+  isInCompare,
+  onToggleCompare
 }) => {
-  const [page, setPage] = useState(1);
+  const [localPage, setLocalPage] = useState(1);
+  const page = onSearchStateChange ? routePage : localPage;
   const [payload, setPayload] = useState<SearchPageResponse | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [emptySuggestions, setEmptySuggestions] = useState<SuggestionItem[]>([]);
   const [heroAiSnippet, setHeroAiSnippet] = useState<string>('');
   const [rankingRefreshToken, setRankingRefreshToken] = useState(0);
+  const [diverseResultsPreferred, setDiverseResultsPreferred] = useState(() => loadPreferenceSettings().diverseResults);
+  const diversityEnabled = useDiversityRerank(diverseResultsPreferred);
+  const [saveDialogOpen, setSaveDialogOpen] = useState(false);
+  const [saveName, setSaveName] = useState('');
+  const [saveBusy, setSaveBusy] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [savedKey, setSavedKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    const syncPrefs = () => setDiverseResultsPreferred(loadPreferenceSettings().diverseResults);
+    window.addEventListener('moviemonk:preferences-updated', syncPrefs as EventListener);
+    return () => window.removeEventListener('moviemonk:preferences-updated', syncPrefs as EventListener);
+  }, []);
 
   const { ref: heroRevealRef, isRevealed: isHeroRevealed } = useScrollReveal<HTMLElement>();
   const { ref: resultsRevealRef, isRevealed: isResultsRevealed } = useScrollReveal<HTMLElement>();
@@ -276,11 +359,44 @@ const SearchResultsPage: React.FC<SearchResultsPageProps> = ({
   const heroTone = useAdaptiveImageTone(payload?.hero?.backdrop_url);
   const searchMode = payload?.search_mode || (payload?.vibe ? 'vibe' : 'keyword');
   const isVibeMode = searchMode !== 'keyword';
+  const refinementKey = JSON.stringify(refinement);
 
   useEffect(() => {
-    setPage(1);
+    setLocalPage(1);
     setPayload(null);
-  }, [normalizedQuery]);
+  }, [normalizedQuery, refinementKey, requestedMode]);
+
+  const searchStateKey = `${normalizedQuery}|${refinementKey}|${requestedMode || ''}`;
+
+  const handleSaveSearch = async () => {
+    if (!onSaveSearch) return;
+    if (!saveName.trim()) {
+      setSaveError('Give this search a name.');
+      return;
+    }
+    setSaveBusy(true);
+    try {
+      await onSaveSearch(saveName.trim());
+      setSavedKey(searchStateKey);
+      setSaveDialogOpen(false);
+      emitClientEvent({
+        event: 'saved_search_created',
+        data: { query: query.trim() }
+      });
+    } catch {
+      setSaveError('Could not save this search. Please try again.');
+    } finally {
+      setSaveBusy(false);
+    }
+  };
+
+  const goToPage = (nextPage: number) => {
+    if (onSearchStateChange) {
+      onSearchStateChange({ page: nextPage });
+      return;
+    }
+    setLocalPage(nextPage);
+  };
 
   useEffect(() => {
     if (!normalizedQuery) {
@@ -294,6 +410,7 @@ const SearchResultsPage: React.FC<SearchResultsPageProps> = ({
     const load = async () => {
       setIsLoading(true);
       setError(null);
+      startTiming('search_to_first_result', { page, search_mode: requestedMode });
       emitClientEvent({
         event: 'search_request_started',
         data: {
@@ -308,32 +425,38 @@ const SearchResultsPage: React.FC<SearchResultsPageProps> = ({
           page
         };
 
-        try {
-          const vibe = await apiPost<VibeParseResult>('/api/vibe', { q: query.trim() }, controller.signal);
+        if (requestedMode !== 'keyword') {
+          try {
+            const vibe = await apiPost<VibeParseResult>('/api/vibe', { q: query.trim() }, controller.signal);
 
-          if (vibe) {
-            searchBody.vibe = vibe;
-            const fallback = (vibe.fallback_query_terms || []).join(' ').trim();
-            if (fallback) {
-              searchBody.q = fallback;
-            }
+            if (vibe) {
+              searchBody.vibe = vibe;
+              const fallback = (vibe.fallback_query_terms || []).join(' ').trim();
+              if (fallback) {
+                searchBody.q = fallback;
+              }
 
-            if (vibe.hard_constraints.media_type === 'movie' || vibe.hard_constraints.media_type === 'tv') {
-              searchBody.type = vibe.hard_constraints.media_type;
-            }
+              if (vibe.hard_constraints.media_type === 'movie' || vibe.hard_constraints.media_type === 'tv') {
+                searchBody.type = vibe.hard_constraints.media_type;
+              }
 
-            if (typeof vibe.hard_constraints.release_year_min === 'number') {
-              searchBody.yearMin = vibe.hard_constraints.release_year_min;
-            }
-            if (typeof vibe.hard_constraints.release_year_max === 'number') {
-              searchBody.yearMax = vibe.hard_constraints.release_year_max;
+              if (typeof vibe.hard_constraints.release_year_min === 'number') {
+                searchBody.yearMin = vibe.hard_constraints.release_year_min;
+              }
+              if (typeof vibe.hard_constraints.release_year_max === 'number') {
+                searchBody.yearMax = vibe.hard_constraints.release_year_max;
+              }
             }
+          } catch {
+            // Fall back to raw search query when vibe parsing fails.
           }
-        } catch {
-          // Fall back to raw search query when vibe parsing fails.
         }
 
-        const data = await apiPost<SearchPageResponse>('/api/search', searchBody, controller.signal);
+        // Explicit filters (panel or inline operators) win over vibe-inferred constraints.
+        Object.assign(searchBody, buildSearchRequestFilters(refinement, { familySafe: loadPreferenceSettings().familySafe }));
+
+        // Search is a read despite the POST body, so it is safe to retry.
+        const data = await apiPost<SearchPageResponse>('/api/search', searchBody, controller.signal, undefined, { retries: 2 });
         setPayload(data);
         emitClientEvent({
           event: 'search_request_succeeded',
@@ -347,7 +470,7 @@ const SearchResultsPage: React.FC<SearchResultsPageProps> = ({
         const noTitles = (data.results?.length || 0) === 0;
         if (noTitles) {
           try {
-            const suggestData = await apiGet<{ suggestions: SuggestionItem[] }>('/api/suggest', { q: query.trim() }, controller.signal);
+            const suggestData = await apiGet<SuggestResponse>('/api/suggest', { q: query.trim() }, controller.signal);
             const nextSuggestions = Array.isArray(suggestData?.suggestions) ? suggestData.suggestions : [];
             setEmptySuggestions(nextSuggestions.slice(0, 5));
           } catch {
@@ -358,6 +481,39 @@ const SearchResultsPage: React.FC<SearchResultsPageProps> = ({
         }
       } catch (err: any) {
         if (err?.name === 'AbortError') return;
+        if (isBackendUnreachable(err)) {
+          let offlineResults: SearchResult[] = [];
+          try {
+            offlineResults = await searchOfflineTitles(query, { mediaType: refinement.mediaType });
+          } catch {
+            // The offline index is best-effort; fall through to the error state.
+          }
+          if (controller.signal.aborted) return;
+          if (offlineResults.length > 0) {
+            setPayload({
+              ok: true,
+              query: query.trim(),
+              page: 1,
+              total_pages: 1,
+              total_results: offlineResults.length,
+              search_mode: 'keyword',
+              offline: true,
+              hero: null,
+              results: offlineResults,
+              people: []
+            });
+            setEmptySuggestions([]);
+            emitClientEvent({
+              event: 'search_offline_fallback',
+              level: 'warn',
+              data: {
+                query: query.trim(),
+                results: offlineResults.length
+              }
+            });
+            return;
+          }
+        }
         setError('Failed to load search results. Please try again.');
         setPayload(null);
         emitClientEvent({
@@ -376,7 +532,9 @@ const SearchResultsPage: React.FC<SearchResultsPageProps> = ({
 
     void load();
     return () => controller.abort();
-  }, [query, normalizedQuery, page]);
+    // refinementKey tracks refinement by value so a fresh object with the same filters does not refetch.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [query, normalizedQuery, page, refinementKey, requestedMode]);
 
   useEffect(() => {
     const hero = payload?.hero;
@@ -426,8 +584,8 @@ const SearchResultsPage: React.FC<SearchResultsPageProps> = ({
           const resolve = await apiGet<any>('/api/resolve', { q: `${hero.title}${hero.year ? ` ${hero.year}` : ''}` }, controller.signal);
           if (resolve?.chosen) {
             const type = resolve.chosen.media_type || resolve.type || hero.type;
-            const details = await apiGet<any>(`/api/details/${type}/${resolve.chosen.id || resolve.chosen.tmdb_id}`, undefined, controller.signal);
-            const nextSnippet = details?.data?.summary_short || details?.summary_short;
+            const details = await apiGet<DetailsResponse>(`/api/details/${type}/${resolve.chosen.id || resolve.chosen.tmdb_id}`, undefined, controller.signal);
+            const nextSnippet = details.data?.summary_short;
             if (!cancelled && typeof nextSnippet === 'string' && nextSnippet.trim()) {
               setHeroAiSnippet(nextSnippet.trim());
             }
@@ -454,13 +612,17 @@ const SearchResultsPage: React.FC<SearchResultsPageProps> = ({
     return payload.results.filter((item) => resultKey(item) !== heroKey);
   }, [payload]);
 
-  const rerankedAlsoMatching = useMemo(
-    () => applyRankingFeedback(alsoMatching),
-    [alsoMatching, rankingRefreshToken]
-  );
+  const rerankedAlsoMatching = useMemo(() => {
+    const ranked = applyRankingFeedback(alsoMatching);
+    return diversityEnabled ? diversifyResults(ranked, (item) => item.feedback.score) : ranked;
+  }, [alsoMatching, rankingRefreshToken, diversityEnabled]);
 
   const hasResults = Boolean(payload && ((payload.hero && payload.hero.id) || payload.results.length > 0));
 
+  useEffect(() => {
+    if (hasResults && !isLoading) endTimingAfterPaint('search_to_first_result', { offline: Boolean(payload?.offline) });
+  }, [hasResults, isLoading, payload]);
+
   const renderDidYouMean = !isVibeMode && payload?.did_you_mean && payload.did_you_mean.length > 0
     ? payload.did_you_mean
     : [];
@@ -626,6 +788,21 @@ const SearchResultsPage: React.FC<SearchResultsPageProps> = ({
                   {isWatched?.(payload.hero.id, payload.hero.media_type) ? 'Watched' : 'Mark As Watched'}
                 </button>
               )}
+              {onToggleCompare && (
+                <button
+                  type="button"
+                  className={`search-btn-secondary mm-action-feedback ${isFeedbackActive('hero-compare') ? 'is-feedback-active' : ''}`}
+                  aria-pressed={Boolean(isInCompare?.(payload.hero.id, payload.hero.media_type))}
+                  onClick={(event) => {
+                    event.stopPropagation();
+                    triggerFeedback('hero-compare');
+                    onToggleCompare(mapToQuickSave(payload.hero!));
+                  }}
+                >
+                  <CompareIcon className="w-4 h-4" />
+                  {isInCompare?.(payload.hero.id, payload.hero.media_type) ? 'In Comparison' : 'Compare'}
+                </button>
+              )}
             </div>
           </div>
           
@@ -640,6 +817,13 @@ const SearchResultsPage: React.FC<SearchResultsPageProps> = ({
           data-reveal-variant="fade"
           style={buildRevealStyle(0, 420)}
         >
+          {payload.offline && (
+            <div className="search-offline-banner" role="status">
+              <span className="search-vibe-kicker">Offline</span>
+              <p>You appear to be offline. These matches come from titles already saved on this device.</p>
+            </div>
+          )}
+
           {isVibeMode && payload?.vibe && (
             <div className="search-vibe-banner" aria-label="Vibe search summary">
               <div className="search-vibe-copy">
@@ -660,8 +844,37 @@ const SearchResultsPage: React.FC<SearchResultsPageProps> = ({
           )}
 
           <div className="search-results-header">
-            <h3>{isVibeMode ? 'Vibe matches' : 'Also matching'}</h3>
+            <h3>{payload.offline ? 'Offline matches' : isVibeMode ? 'Vibe matches' : 'Also matching'}</h3>
             <div className="search-results-divider" />
+            {onSearchStateChange && (
+              <div className="search-mode-toggle" role="group" aria-label="Search mode">
+                {(['vibe', 'keyword'] as const).map((mode) => (
+                  <button
+                    key={mode}
+                    type="button"
+                    className={`search-mode-toggle-btn ${(requestedMode || 'vibe') === mode ? 'is-active' : ''}`}
+                    aria-pressed={(requestedMode || 'vibe') === mode}
+                    onClick={() => onSearchStateChange({ mode, page: 1 })}
+                  >
+                    {mode === 'vibe' ? 'Smart' : 'Exact words'}
+                  </button>
+                ))}
+              </div>
+            )}
+            {onSaveSearch && !payload.offline && (
+              <button
+                type="button"
+                className="search-save-btn"
+                disabled={savedKey === searchStateKey}
+                onClick={() => {
+                  setSaveName(query.trim());
+                  setSaveError(null);
+                  setSaveDialogOpen(true);
+                }}
+              >
+                {savedKey === searchStateKey ? 'Saved' : 'Save search'}
+              </button>
+            )}
           </div>
 
 
@@ -705,6 +918,9 @@ const SearchResultsPage: React.FC<SearchResultsPageProps> = ({
                     onOpenTitle={onOpenTitle}
                     onToggleWatched={onToggleWatched}
                     onQuickSaveToWatchlist={onQuickSaveToWatchlist}
+                    inCompare={Boolean(isInCompare?.(item.id, item.media_type))}
+                    onToggleCompare={onToggleCompare}
+                    feedback={item.feedback}
                     onResultFeedback={handleResultFeedback}
                   />
                 );
@@ -780,7 +996,7 @@ const SearchResultsPage: React.FC<SearchResultsPageProps> = ({
             type="button"
             className="search-btn-secondary"
             disabled={page <= 1 || isLoading}
-            onClick={() => setPage((prev) => Math.max(1, prev - 1))}
+            onClick={() => goToPage(Math.max(1, page - 1))}
           >
             Previous
           </button>
@@ -789,12 +1005,29 @@ const SearchResultsPage: React.FC<SearchResultsPageProps> = ({
             type="button"
             className="search-btn-secondary"
             disabled={page >= Math.min(payload.total_pages, 20) || isLoading}
-            onClick={() => setPage((prev) => prev + 1)}
+            onClick={() => goToPage(page + 1)}
           >
             Next
           </button>
         </section>
       )}
+
+      <PromptDialog
+        open={saveDialogOpen}
+        title="Save search"
+        description="Re-run it from your watchlists to see titles that are new since the last run."
+        placeholder="Korean thrillers after 2015"
+        confirmLabel="Save"
+        busy={saveBusy}
+        value={saveName}
+        error={saveError}
+        onChange={(nextValue) => {
+          setSaveName(nextValue);
+          setSaveError(null);
+        }}
+        onConfirm={() => { void handleSaveSearch(); }}
+        onClose={() => setSaveDialogOpen(false)}
+      />
     </div>
   );
 };
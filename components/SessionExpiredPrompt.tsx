@@ -0,0 +1,32 @@
+import { useEffect, useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { SESSION_EXPIRED_EVENT } from '../lib/apiClient';
+import { ConfirmDialog } from './BrandedDialogs';
+
+/** Asks the user to sign in again after the API client failed to refresh an expired session. */
+export default function SessionExpiredPrompt() {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => {
+    const onExpired = () => setOpen(true);
+    window.addEventListener(SESSION_EXPIRED_EVENT, onExpired);
+    return () => window.removeEventListener(SESSION_EXPIRED_EVENT, onExpired);
+  }, []);
+
+  return (
+    <ConfirmDialog
+      open={open && location.pathname !== '/login'}
+      title="Your session expired"
+      description="Sign in again to keep your watchlists, history and settings in sync."
+      confirmLabel="Sign in"
+      cancelLabel="Not now"
+      onConfirm={() => {
+        setOpen(false);
+        navigate('/login');
+      }}
+      onClose={() => setOpen(false)}
+    />
+  );
+}
@@ -3,6 +3,7 @@ import { MovieData, TVShowEpisode, TVShowSeason, TmdbReview, WatchOption, Episod
 import { PlayIcon, CalendarIcon, ClockIcon, StarIcon, TvIcon, LinkIcon, WatchedIcon } from './icons';
 import { formatAiNotesHtml } from '../lib/aiNotesFormatter';
 import { apiGet } from '../lib/apiClient';
+import { swrGet } from '../lib/swrCache';
 import RatingDisplay from './RatingDisplay';
 import SeoHead from './SeoHead';
 import { buildMovieJsonLd, stripHtmlTags, toMetaDescription } from '../lib/seo';
@@ -153,7 +154,7 @@ const TVShowDisplay: React.FC<TVShowDisplayProps> = ({ movie, isWatched = false,
             page: '1'
         });
         if (language) params.set('language', language);
-        const data = await apiGet<any>('/api/tmdb', Object.fromEntries(params.entries()));
+        const data = await swrGet<any>('/api/tmdb', Object.fromEntries(params.entries()));
         return normalizeTmdbReviews(data);
     }, [normalizeTmdbReviews]);
 
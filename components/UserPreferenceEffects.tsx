@@ -1,10 +1,13 @@
 import { useEffect } from 'react';
 import { applyPreferenceSettingsToDocument, loadPreferenceSettings } from '../lib/userSettings';
+import { setSearchQuerySharing } from '../services/clientObservability';
 
 export function UserPreferenceEffects() {
   useEffect(() => {
     const sync = () => {
-      applyPreferenceSettingsToDocument(loadPreferenceSettings());
+      const preferences = loadPreferenceSettings();
+      applyPreferenceSettingsToDocument(preferences);
+      setSearchQuerySharing(preferences.shareSearchQueries);
     };
 
     sync();
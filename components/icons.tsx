@@ -9,6 +9,7 @@ import {
     ChevronDown,
     ChevronUp,
     ClipboardCheck,
+    Columns2,
     Edit3,
     Globe,
     MapPin,
@@ -45,6 +46,10 @@ export const SearchIcon: React.FC<IconProps> = ({ className }) => (
     <LucideSearch {...baseIconProps} className={className} />
 );
 
+export const CompareIcon: React.FC<IconProps> = ({ className }) => (
+    <Columns2 {...baseIconProps} className={className} />
+);
+
 export const SparklesIcon: React.FC<IconProps> = ({ className }) => (
     <LucideSparkles {...baseIconProps} className={className} />
 );
@@ -1,7 +1,9 @@
-import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import React, { createContext, useContext, useEffect, useMemo, useRef, useState } from 'react';
 import { Session, User } from '@supabase/supabase-js';
 import { isSupabaseConfigured, supabase } from '../lib/supabase';
 import { emitClientError } from '../services/clientObservability';
+import { setExperimentContext } from '../lib/experiments';
+import { setApiAuthProvider } from '../lib/apiClient';
 import { DEFAULT_PROFILE_SETTINGS, DEFAULT_PREFERENCE_SETTINGS, saveProfileSettings, savePreferenceSettings } from '../lib/userSettings';
 
 type AuthContextValue = {
@@ -200,6 +202,27 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
+  useEffect(() => {
+    setExperimentContext({ signedIn: Boolean(user) });
+  }, [user]);
+
+  // The API client reads the token from Supabase itself, so a replay right after a refresh
+  // sends the new token before React state catches up.
+  const refreshSessionRef = useRef(refreshSession);
+  refreshSessionRef.current = refreshSession;
+
+  useEffect(() => {
+    if (!isSupabaseConfigured || !supabase) return;
+    setApiAuthProvider({
+      getAccessToken: async () => {
+        const { data } = await supabase!.auth.getSession();
+        return data.session?.access_token ?? null;
+      },
+      refreshSession: () => refreshSessionRef.current()
+    });
+    return () => setApiAuthProvider(null);
+  }, []);
+
   const value = useMemo<AuthContextValue>(
     () => ({
       isEnabled: isSupabaseConfigured,
@@ -0,0 +1,43 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { ApiQueryParams } from '../lib/apiClient';
+import { getSwrSnapshot, invalidateSwr, subscribeSwr, swrGet, swrKey, SwrSnapshot } from '../lib/swrCache';
+
+const EMPTY_SNAPSHOT: SwrSnapshot<never> = { data: undefined, error: undefined, fetchedAt: null, isValidating: false };
+
+/**
+ * A GET through the stale-while-revalidate cache. Renders cached data
+ * immediately and re-renders when a background refresh lands. Pass a null
+ * path to skip the request.
+ */
+export function useApiResource<T>(path: string | null, params?: ApiQueryParams) {
+  const key = path ? swrKey(path, params) : null;
+  const [snapshot, setSnapshot] = useState<SwrSnapshot<T>>(() => (key ? getSwrSnapshot<T>(key) : EMPTY_SNAPSHOT));
+
+  useEffect(() => {
+    if (!path || !key) {
+      setSnapshot(EMPTY_SNAPSHOT);
+      return;
+    }
+    const sync = () => setSnapshot(getSwrSnapshot<T>(key));
+    const unsubscribe = subscribeSwr(key, sync);
+    sync();
+    // Failures land in the snapshot's `error`.
+    swrGet<T>(path, params).catch(() => undefined);
+    return unsubscribe;
+    // `key` already encodes path and params.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [key]);
+
+  const revalidate = useCallback(() => {
+    if (!path || !key) return;
+    invalidateSwr(path, params);
+    swrGet<T>(path, params).catch(() => undefined);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [key]);
+
+  return {
+    ...snapshot,
+    isLoading: Boolean(key) && snapshot.data === undefined && snapshot.error === undefined,
+    revalidate
+  };
+}
@@ -1,9 +1,12 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
-import { MovieData, WatchlistFolder, WatchlistSaveReceipt } from '../types';
+import { MovieData, WatchlistFolder, WatchlistItem, WatchlistSaveReceipt } from '../types';
 import { useWatchlists } from './useWatchlists';
 import {
+  addItemsToFolder,
   applyWatchlistOrder,
   buildWatchlistOrderState,
+  CLOUD_WATCHLIST_CACHE_PREFIX,
+  createWatchlistItems,
   WATCHLIST_DEFAULT_ICON,
   WATCHLIST_STORAGE_KEY,
   loadWatchlistOrderState,
@@ -23,16 +26,16 @@ import {
   fetchCloudWatchlists,
   renameCloudFolder,
   saveCloudItem,
+  saveCloudItems,
   updateCloudFolderIcon,
   updateCloudFolderPrivacy
 } from '../services/watchlistSync';
 import { isSupabaseConfigured, supabase } from '../lib/supabase';
 
 const CLOUD_MIGRATION_EVENT = 'watchlists:cloud-migrated';
-const CLOUD_CACHE_PREFIX = 'moviemonk_cloud_watchlists_cache_v1';
 
 function toCloudCacheKey(userId: string): string {
-  return `${CLOUD_CACHE_PREFIX}:${userId}`;
+  return `${CLOUD_WATCHLIST_CACHE_PREFIX}:${userId}`;
 }
 
 function readCloudCache(userId: string): WatchlistFolder[] {
@@ -73,6 +76,8 @@ export function useCloudWatchlists() {
   const cloudCacheHydratedUserRef = useRef<string | null>(null);
   const cloudFoldersOwnerRef = useRef<string | null>(null);
   const activeCloudUserIdRef = useRef<string | null>(null);
+  // Folder inserts still in flight, so item writes for a brand-new folder wait for it.
+  const pendingFolderWritesRef = useRef(new Map<string, Promise<void>>());
 
   const setCloudFoldersForUser = useCallback((userId: string, folders: WatchlistFolder[]) => {
     cloudFoldersOwnerRef.current = userId;
@@ -180,10 +185,16 @@ export function useCloudWatchlists() {
           items: []
         };
         updateCloudState((prev) => [nextFolder, ...prev]);
-        void addCloudFolder(user.id, trimmed, nextFolder.icon, isPublic, folderId).catch((error) => {
-          console.warn('Failed to add cloud folder', error);
-          updateCloudState((prev) => prev.filter((folder) => folder.id !== folderId));
-        });
+        const write = addCloudFolder(user.id, trimmed, nextFolder.icon, isPublic, folderId)
+          .then(() => undefined)
+          .catch((error) => {
+            console.warn('Failed to add cloud folder', error);
+            updateCloudState((prev) => prev.filter((folder) => folder.id !== folderId));
+          })
+          .finally(() => {
+            pendingFolderWritesRef.current.delete(folderId);
+          });
+        pendingFolderWritesRef.current.set(folderId, write);
         return folderId;
       },
       saveToFolder: async (folderId: string, movie: MovieData, savedTitle?: string) => {
@@ -203,6 +214,23 @@ export function useCloudWatchlists() {
           throw error;
         }
       },
+      saveManyToFolder: async (
+        folderId: string,
+        entries: Array<{ movie: MovieData; savedTitle?: string }>
+      ): Promise<WatchlistItem[]> => {
+        const items = createWatchlistItems(entries);
+        updateCloudState((prev) => addItemsToFolder(prev, folderId, items));
+
+        try {
+          await pendingFolderWritesRef.current.get(folderId);
+          await saveCloudItems(folderId, items);
+          return items;
+        } catch (error) {
+          console.warn('Failed to save cloud items', error);
+          refreshCloud();
+          throw error;
+        }
+      },
       rollbackSave: async (receipt: WatchlistSaveReceipt) => {
         updateCloudState((prev) => rollbackWatchlistSave(prev, receipt));
 
@@ -362,6 +390,7 @@ export function useCloudWatchlists() {
       isHydrated: local.isHydrated,
       addFolder: local.addFolder,
       saveToFolder: local.saveToFolder,
+      saveManyToFolder: local.saveManyToFolder,
       rollbackSave: local.rollbackSave,
       findItem: local.findItem,
       refresh: local.refresh,
@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { QuickSaveTitle } from '../lib/quickSave';
+import {
+  COMPARE_TRAY_EVENT,
+  COMPARE_TRAY_STORAGE_KEY,
+  CompareTarget,
+  isInCompareTray,
+  loadCompareTray,
+  saveCompareTray,
+  toggleCompareTrayItem
+} from '../lib/titleComparison';
+
+/**
+ * Titles picked for side-by-side comparison. Kept in localStorage so the tray
+ * follows the user between pages and stays in sync across open tabs.
+ */
+export function useCompareTray() {
+  const [items, setItems] = useState<QuickSaveTitle[]>(() => loadCompareTray());
+
+  useEffect(() => {
+    const sync = () => setItems(loadCompareTray());
+    const syncFromStorage = (event: StorageEvent) => {
+      if (event.key === null || event.key === COMPARE_TRAY_STORAGE_KEY) sync();
+    };
+    window.addEventListener(COMPARE_TRAY_EVENT, sync);
+    window.addEventListener('storage', syncFromStorage);
+    return () => {
+      window.removeEventListener(COMPARE_TRAY_EVENT, sync);
+      window.removeEventListener('storage', syncFromStorage);
+    };
+  }, []);
+
+  const toggle = useCallback((item: QuickSaveTitle) => {
+    // Callers pass richer card items; only what the tray renders is stored.
+    const entry: QuickSaveTitle = {
+      id: item.id,
+      media_type: item.media_type,
+      title: item.title,
+      year: item.year,
+      poster_url: item.poster_url || null
+    };
+    saveCompareTray(toggleCompareTrayItem(loadCompareTray(), entry));
+  }, []);
+
+  const remove = useCallback((target: CompareTarget) => {
+    saveCompareTray(loadCompareTray().filter((item) => !isInCompareTray([target], item)));
+  }, []);
+
+  const clear = useCallback(() => {
+    saveCompareTray([]);
+  }, []);
+
+  const isInCompare = useCallback(
+    (id: number, mediaType: 'movie' | 'tv') => isInCompareTray(items, { id, media_type: mediaType }),
+    [items]
+  );
+
+  return { items, toggle, remove, clear, isInCompare };
+}
@@ -1,6 +1,8 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { DiscoveryGenre, DiscoveryItem } from '../types';
 import { emitClientError } from '../services/clientObservability';
+import { diversifyResults } from '../services/diversityRanking';
+import { useDiversityRerank } from './useDiversityRerank';
 import {
   DEFAULT_PREFERENCE_SETTINGS,
   UserPreferenceSettings,
@@ -296,7 +298,8 @@ function preferencesEqual(a: UserPreferenceSettings, b: UserPreferenceSettings):
     a.familySafe === b.familySafe &&
     a.reducedMotion === b.reducedMotion &&
     a.autoplayTrailers === b.autoplayTrailers &&
-    a.cardDensity === b.cardDensity
+    a.cardDensity === b.cardDensity &&
+    a.diverseResults === b.diverseResults
   );
 }
 
@@ -585,8 +588,17 @@ export function useDiscovery() {
         setPreferences((current) => (preferencesEqual(current, local) ? current : local));
       }
     };
+    // Same-tab saves do not fire `storage`; the settings page announces them instead.
+    const onPreferencesUpdated = () => {
+      const local = loadPreferenceSettings();
+      setPreferences((current) => (preferencesEqual(current, local) ? current : local));
+    };
     window.addEventListener('storage', onStorage);
-    return () => window.removeEventListener('storage', onStorage);
+    window.addEventListener('moviemonk:preferences-updated', onPreferencesUpdated);
+    return () => {
+      window.removeEventListener('storage', onStorage);
+      window.removeEventListener('moviemonk:preferences-updated', onPreferencesUpdated);
+    };
   }, []);
 
   useEffect(() => {
@@ -644,12 +656,24 @@ export function useDiscovery() {
     setReloadToken((value) => value + 1);
   }, []);
 
+  const diversityEnabled = useDiversityRerank(preferences.diverseResults);
+  const displayedSections = useMemo(
+    () => (diversityEnabled
+      ? sections.map((section) => ({ ...section, items: diversifyResults(section.items) }))
+      : sections),
+    [sections, diversityEnabled]
+  );
+  const displayedGenreItems = useMemo(
+    () => (diversityEnabled ? diversifyResults(selectedGenreItems) : selectedGenreItems),
+    [selectedGenreItems, diversityEnabled]
+  );
+
   return useMemo(() => ({
     heroItems,
-    sections,
+    sections: displayedSections,
     movieGenres,
     selectedGenre,
-    selectedGenreItems,
+    selectedGenreItems: displayedGenreItems,
     cardDensity: preferences.cardDensity,
     isStrictPersonalized: hasStrictPreferenceFilters(preferences),
     isLoading,
@@ -659,10 +683,10 @@ export function useDiscovery() {
     selectGenre
   }), [
     heroItems,
-    sections,
+    displayedSections,
     movieGenres,
     selectedGenre,
-    selectedGenreItems,
+    displayedGenreItems,
     preferences,
     isLoading,
     isGenreLoading,
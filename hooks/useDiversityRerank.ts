@@ -0,0 +1,18 @@
+import { useEffect, useMemo } from 'react';
+import { recordExperimentExposure } from '../lib/experiments';
+import { getDiversityRerankAssignment } from '../services/diversityRanking';
+
+/**
+ * Whether to MMR re-rank results for this user. Follows the "Varied results"
+ * preference as it changes; exposure is logged after render, only while the
+ * preference is on.
+ */
+export function useDiversityRerank(diverseResults: boolean): boolean {
+  const assignment = useMemo(() => getDiversityRerankAssignment({ diverseResults }), [diverseResults]);
+
+  useEffect(() => {
+    if (assignment) recordExperimentExposure(assignment);
+  }, [assignment]);
+
+  return assignment?.variant === 'variant';
+}
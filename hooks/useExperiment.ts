@@ -0,0 +1,28 @@
+import { useEffect, useMemo } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  ExperimentAssignment,
+  ExperimentKey,
+  getExperimentAssignment,
+  recordExperimentExposure
+} from '../lib/experiments';
+
+/**
+ * Variant assignment for one experiment, re-evaluated when the user signs in
+ * or out. Exposure is logged on mount, at most once per browser session.
+ */
+export function useExperiment<K extends ExperimentKey>(experimentKey: K): ExperimentAssignment<K> {
+  const { user } = useAuth();
+  const signedIn = Boolean(user);
+
+  const assignment = useMemo(
+    () => getExperimentAssignment(experimentKey, { signedIn }),
+    [experimentKey, signedIn]
+  );
+
+  useEffect(() => {
+    recordExperimentExposure(assignment);
+  }, [assignment]);
+
+  return assignment;
+}
@@ -0,0 +1,186 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { SavedSearch } from '../types';
+import { useAuth } from '../contexts/AuthContext';
+import { isSupabaseConfigured } from '../lib/supabase';
+import {
+  SAVED_SEARCH_STORAGE_KEY,
+  SavedSearchRun,
+  createSavedSearch,
+  loadLocalSavedSearches,
+  runSavedSearch,
+  saveLocalSavedSearches
+} from '../lib/savedSearches';
+import type { SearchUrlState } from '../lib/searchFilters';
+import {
+  deleteCloudSavedSearch,
+  fetchCloudSavedSearches,
+  saveCloudSavedSearch,
+  uploadSavedSearchesToCloud
+} from '../services/savedSearchSync';
+
+const CLOUD_SAVED_SEARCH_CACHE_PREFIX = 'moviemonk_cloud_saved_searches_cache_v1';
+
+function readCloudSavedSearchCache(userId: string): SavedSearch[] {
+  try {
+    const raw = localStorage.getItem(`${CLOUD_SAVED_SEARCH_CACHE_PREFIX}:${userId}`);
+    return raw ? (JSON.parse(raw) as SavedSearch[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeCloudSavedSearchCache(userId: string, searches: SavedSearch[]): void {
+  try {
+    localStorage.setItem(`${CLOUD_SAVED_SEARCH_CACHE_PREFIX}:${userId}`, JSON.stringify(searches));
+  } catch {
+    // storage full – silent
+  }
+}
+
+function clearLocalSavedSearches(): void {
+  try {
+    localStorage.removeItem(SAVED_SEARCH_STORAGE_KEY);
+  } catch { /* noop */ }
+}
+
+function replaceSearch(list: SavedSearch[], next: SavedSearch, previousId = next.id): SavedSearch[] {
+  const index = list.findIndex((entry) => entry.id === previousId);
+  if (index < 0) return [next, ...list];
+  const copy = list.slice();
+  copy[index] = next;
+  return copy;
+}
+
+// ─── Hook ────────────────────────────────────────────────────────────────────
+
+export function useSavedSearches() {
+  const { user } = useAuth();
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [runningIds, setRunningIds] = useState<string[]>([]);
+  const migrationAttempted = useRef(false);
+
+  const isCloud = Boolean(user && isSupabaseConfigured);
+
+  // Load on mount / user change with instant local cache hydration
+  useEffect(() => {
+    if (isCloud && user?.id) {
+      const cached = readCloudSavedSearchCache(user.id);
+      if (cached.length > 0) {
+        setSavedSearches(cached);
+      }
+
+      setIsLoading(true);
+      fetchCloudSavedSearches(user.id)
+        .then((fetched) => {
+          setSavedSearches(fetched);
+          writeCloudSavedSearchCache(user.id, fetched);
+        })
+        .catch(() => {
+          // If network fetch fails, keep cached searches
+        })
+        .finally(() => setIsLoading(false));
+    } else {
+      setSavedSearches(loadLocalSavedSearches());
+    }
+  }, [isCloud, user?.id]);
+
+  useEffect(() => {
+    if (isCloud && user?.id) {
+      writeCloudSavedSearchCache(user.id, savedSearches);
+    }
+  }, [isCloud, user?.id, savedSearches]);
+
+  // Auto-migrate local → cloud on first sign-in
+  useEffect(() => {
+    if (!isCloud || !user?.id || migrationAttempted.current) return;
+    migrationAttempted.current = true;
+
+    const local = loadLocalSavedSearches();
+    if (local.length === 0) return;
+
+    uploadSavedSearchesToCloud(user.id, local)
+      .then(() => {
+        clearLocalSavedSearches();
+        return fetchCloudSavedSearches(user.id!);
+      })
+      .then((merged) => setSavedSearches(merged))
+      .catch(() => {
+        // cloud failed – keep local state, don't clear local
+      });
+  }, [isCloud, user?.id]);
+
+  const persist = useCallback(
+    async (search: SavedSearch): Promise<SavedSearch> => {
+      if (isCloud && user?.id) {
+        try {
+          const stored = await saveCloudSavedSearch(user.id, search);
+          setSavedSearches((prev) => replaceSearch(prev, stored, search.id));
+          return stored;
+        } catch (error) {
+          console.warn('Cloud saved search write failed, persisting to local storage:', error);
+        }
+      }
+      saveLocalSavedSearches(replaceSearch(loadLocalSavedSearches(), search));
+      return search;
+    },
+    [isCloud, user?.id]
+  );
+
+  const runSearch = useCallback(
+    async (search: SavedSearch): Promise<SavedSearchRun> => {
+      setRunningIds((prev) => [...prev, search.id]);
+      try {
+        const run = await runSavedSearch(search);
+        setSavedSearches((prev) => replaceSearch(prev, run.search));
+        const stored = await persist(run.search);
+        return { ...run, search: stored };
+      } finally {
+        setRunningIds((prev) => prev.filter((id) => id !== search.id));
+      }
+    },
+    [persist]
+  );
+
+  /** Saves the search and runs it once so the next run has a baseline to diff against. */
+  const saveSearch = useCallback(
+    async (name: string, state: Pick<SearchUrlState, 'query' | 'refinement' | 'mode'>): Promise<SavedSearch> => {
+      const draft = createSavedSearch(name, state);
+      setSavedSearches((prev) => [draft, ...prev]);
+      try {
+        return (await runSearch(draft)).search;
+      } catch {
+        return persist(draft);
+      }
+    },
+    [persist, runSearch]
+  );
+
+  const removeSavedSearch = useCallback(
+    async (searchId: string): Promise<void> => {
+      setSavedSearches((prev) => prev.filter((entry) => entry.id !== searchId));
+      if (isCloud && user?.id) {
+        try {
+          await deleteCloudSavedSearch(searchId);
+          return;
+        } catch (error) {
+          console.warn('Cloud saved search delete failed:', error);
+        }
+      }
+      saveLocalSavedSearches(loadLocalSavedSearches().filter((entry) => entry.id !== searchId));
+    },
+    [isCloud, user?.id]
+  );
+
+  const isRunning = useCallback((searchId: string) => runningIds.includes(searchId), [runningIds]);
+
+  return {
+    savedSearches,
+    saveSearch,
+    runSearch,
+    removeSavedSearch,
+    isRunning,
+    isLoading,
+    isCloud
+  };
+}
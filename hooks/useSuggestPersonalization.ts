@@ -0,0 +1,23 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { WatchedTitle, WatchlistFolder } from '../types';
+import { loadPreferenceSettings } from '../lib/userSettings';
+import { buildSuggestPersonalization } from '../services/suggestPersonalization';
+
+/**
+ * Autocomplete personalisation built from the user's watched titles,
+ * watchlists and preference settings. Rebuilt when any of them change.
+ */
+export function useSuggestPersonalization(watched: WatchedTitle[], watchlists: WatchlistFolder[]) {
+  const [preferences, setPreferences] = useState(() => loadPreferenceSettings());
+
+  useEffect(() => {
+    const syncPrefs = () => setPreferences(loadPreferenceSettings());
+    window.addEventListener('moviemonk:preferences-updated', syncPrefs as EventListener);
+    return () => window.removeEventListener('moviemonk:preferences-updated', syncPrefs as EventListener);
+  }, []);
+
+  return useMemo(
+    () => buildSuggestPersonalization({ watched, watchlists, preferences }),
+    [watched, watchlists, preferences]
+  );
+}
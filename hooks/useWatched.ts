@@ -3,18 +3,17 @@ import { WatchedTitle, WatchedToggleResult } from '../types';
 import { useAuth } from '../contexts/AuthContext';
 import { isSupabaseConfigured } from '../lib/supabase';
 import {
+  CLOUD_WATCHED_CACHE_PREFIX,
+  WATCHED_STORAGE_KEY,
   fetchWatchedTitles,
   markWatchedCloud,
   unmarkWatchedCloud,
   uploadWatchedToCloud,
 } from '../services/watchedService';
 
-const LS_KEY = 'moviemonk_watched';
-const CLOUD_WATCHED_CACHE_PREFIX = 'moviemonk_cloud_watched_cache_v1';
-
 function loadLocalWatched(): WatchedTitle[] {
   try {
-    const raw = localStorage.getItem(LS_KEY);
+    const raw = localStorage.getItem(WATCHED_STORAGE_KEY);
     return raw ? (JSON.parse(raw) as WatchedTitle[]) : [];
   } catch {
     return [];
@@ -23,7 +22,7 @@ function loadLocalWatched(): WatchedTitle[] {
 
 function saveLocalWatched(items: WatchedTitle[]): void {
   try {
-    localStorage.setItem(LS_KEY, JSON.stringify(items));
+    localStorage.setItem(WATCHED_STORAGE_KEY, JSON.stringify(items));
   } catch {
     // storage full – silent
   }
@@ -31,7 +30,7 @@ function saveLocalWatched(items: WatchedTitle[]): void {
 
 function clearLocalWatched(): void {
   try {
-    localStorage.removeItem(LS_KEY);
+    localStorage.removeItem(WATCHED_STORAGE_KEY);
   } catch { /* noop */ }
 }
 
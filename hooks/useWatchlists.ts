@@ -1,9 +1,11 @@
 import { useCallback, useEffect, useRef, useState } from 'react';
-import { MovieData, WatchlistFolder, WatchlistSaveReceipt } from '../types';
+import { MovieData, WatchlistFolder, WatchlistItem, WatchlistSaveReceipt } from '../types';
 import {
   addFolderToWatchlists,
+  addItemsToFolder,
   applyWatchlistOrder,
   buildWatchlistOrderState,
+  createWatchlistItems,
   findFolderItem,
   loadWatchlistOrderState,
   loadWatchlistsFromStorage,
@@ -67,6 +69,15 @@ export function useWatchlists() {
     return result.receipt;
   };
 
+  const saveManyToFolder = async (
+    folderId: string,
+    entries: Array<{ movie: MovieData; savedTitle?: string }>
+  ): Promise<WatchlistItem[]> => {
+    const items = createWatchlistItems(entries);
+    persist((prev) => addItemsToFolder(prev, folderId, items));
+    return items;
+  };
+
   const rollbackSave = async (receipt: WatchlistSaveReceipt) => {
     persist((prev) => rollbackWatchlistSave(prev, receipt));
   };
@@ -179,6 +190,7 @@ export function useWatchlists() {
     isHydrated,
     addFolder,
     saveToFolder,
+    saveManyToFolder,
     rollbackSave,
     findItem,
     refresh,
@@ -3,6 +3,7 @@ import { MovieData, WatchlistFolder, WatchlistItem, WatchlistSaveReceipt } from
 export const WATCHLIST_STORAGE_KEY = 'moviemonk_watchlists_v1';
 export const WATCHLIST_ORDER_STORAGE_KEY = 'moviemonk_watchlist_order_v1';
 export const WATCHLIST_DEFAULT_ICON = 'folder';
+export const CLOUD_WATCHLIST_CACHE_PREFIX = 'moviemonk_cloud_watchlists_cache_v1';
 
 export type WatchlistOrderState = {
   folderIds: string[];
@@ -210,6 +211,34 @@ export function saveMovieToFolderWithReceipt(
   return { next, receipt };
 }
 
+export function createWatchlistItems(entries: Array<{ movie: MovieData; savedTitle?: string }>): WatchlistItem[] {
+  const now = new Date().toISOString();
+  return entries.map((entry) => ({
+    id: generateId(),
+    saved_title: (entry.savedTitle && entry.savedTitle.trim()) || entry.movie.title,
+    movie: { ...entry.movie },
+    added_at: now
+  }));
+}
+
+/**
+ * Puts items at the top of a folder in the given order, replacing any existing
+ * entries for the same titles (bulk saves do not produce undo receipts).
+ */
+export function addItemsToFolder(
+  folders: WatchlistFolder[],
+  folderId: string,
+  items: WatchlistItem[]
+): WatchlistFolder[] {
+  if (!folderId || items.length === 0) return folders;
+  const keys = new Set(items.map((item) => getMovieKey(item.movie)));
+  return folders.map((folder) => (
+    folder.id === folderId
+      ? { ...folder, items: [...items, ...folder.items.filter((item) => !keys.has(getMovieKey(item.movie)))] }
+      : folder
+  ));
+}
+
 export function rollbackWatchlistSave(
   folders: WatchlistFolder[],
   receipt: WatchlistSaveReceipt
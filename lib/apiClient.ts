@@ -2,6 +2,8 @@ export class ApiError extends Error {
   public code: string;
   public status: number;
   public details?: any;
+  /** Parsed `Retry-After` on 429/503 responses. */
+  public retryAfterMs?: number;
 
   constructor(status: number, code: string, message: string, details?: any) {
     super(message);
@@ -12,17 +14,190 @@ export class ApiError extends Error {
   }
 }
 
-import { API_BASE_URL } from './config';
+import { API_BASE_URL, API_MOCK, API_MOCK_ERROR_RATE, API_MOCK_LATENCY_MS } from './config';
+import { CircuitBreaker, createCircuitBreaker } from './circuitBreaker';
+import type { MockBackend } from './mockBackend';
+import { emitClientEvent } from '../services/clientObservability';
+import { validateApiResponse } from '../services/apiResponseSchemas';
+
+/** True when the request never reached the API (offline, DNS, CORS). */
+export function isNetworkError(error: unknown): boolean {
+  return error instanceof ApiError && error.code === 'network_error';
+}
+
+/**
+ * True when the API could not be reached for this call: no response, a timed-out
+ * attempt, or an endpoint circuit that is open after repeated such failures.
+ * Offline fallbacks should key off this rather than `isNetworkError`.
+ */
+export function isBackendUnreachable(error: unknown): boolean {
+  return error instanceof ApiError && (error.code === 'network_error' || error.code === 'timeout' || error.code === 'circuit_open');
+}
 
 const API_BASE = API_BASE_URL || '';
 
+export type ApiCallRecord = {
+  requestId: string;
+  method: string;
+  url: string;
+  /** 0 when the request never got a response. */
+  status: number;
+  latencyMs: number;
+  /** The API answered from its own cache (`cached: true` in the envelope). */
+  cached: boolean;
+  errorCode?: string;
+  at: string;
+};
+
+const MAX_RECENT_API_CALLS = 50;
+const recentApiCalls: ApiCallRecord[] = [];
+
+function recordApiCall(record: ApiCallRecord): void {
+  recentApiCalls.push(record);
+  if (recentApiCalls.length > MAX_RECENT_API_CALLS) recentApiCalls.shift();
+}
+
+/** Newest first; used by the diagnostics overlay. */
+export function getRecentApiCalls(): ApiCallRecord[] {
+  return [...recentApiCalls].reverse();
+}
+
+export type RequestPolicy = {
+  /** Abort a single attempt after this long. */
+  timeoutMs?: number;
+  /** Attempts after the first. Defaults to 2 for GET and 0 for everything else. */
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  /** A longer `Retry-After` than this fails the call instead of waiting. */
+  maxRetryAfterMs?: number;
+  /** Opt out for calls that must neither trip nor be blocked by the endpoint's breaker. */
+  circuitBreaker?: boolean;
+};
+
+const DEFAULT_TIMEOUT_MS = 15_000;
+const DEFAULT_GET_RETRIES = 2;
+const DEFAULT_BASE_DELAY_MS = 300;
+const DEFAULT_MAX_DELAY_MS = 4_000;
+const DEFAULT_MAX_RETRY_AFTER_MS = 10_000;
+const BREAKER_FAILURE_THRESHOLD = 5;
+const BREAKER_COOLDOWN_MS = 30_000;
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+const breakers = new Map<string, CircuitBreaker>();
+
+/** Transient failures worth another attempt: no response, timeouts, rate limits and 5xx. */
+export function isRetryableError(error: unknown): boolean {
+  if (!(error instanceof ApiError)) return false;
+  if (error.code === 'network_error' || error.code === 'timeout') return true;
+  return RETRYABLE_STATUSES.has(error.status);
+}
+
+/** Seconds or an HTTP date, per RFC 9110. */
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Delay before retry number `attempt` (0-based): the server's Retry-After when
+ * given, else full-jitter exponential backoff. Null means do not retry.
+ */
+export function retryDelayMs(attempt: number, error: unknown, policy: RequestPolicy = {}, random = Math.random): number | null {
+  const maxRetryAfter = policy.maxRetryAfterMs ?? DEFAULT_MAX_RETRY_AFTER_MS;
+  if (error instanceof ApiError && error.retryAfterMs !== undefined) {
+    return error.retryAfterMs > maxRetryAfter ? null : error.retryAfterMs;
+  }
+  const ceiling = Math.min(policy.maxDelayMs ?? DEFAULT_MAX_DELAY_MS, (policy.baseDelayMs ?? DEFAULT_BASE_DELAY_MS) * 2 ** attempt);
+  return Math.round(random() * ceiling);
+}
+
+/** Breaker key: method plus path, with numeric ids collapsed so `/api/person/1` and `/2` share one. */
+export function endpointKey(method: string, url: string): string {
+  const { pathname } = new URL(url, 'http://localhost');
+  return `${method.toUpperCase()} ${pathname.replace(/\/\d+(?=\/|$)/g, '/:id')}`;
+}
+
+function getBreaker(endpoint: string): CircuitBreaker {
+  let breaker = breakers.get(endpoint);
+  if (!breaker) {
+    breaker = createCircuitBreaker({
+      failureThreshold: BREAKER_FAILURE_THRESHOLD,
+      cooldownMs: BREAKER_COOLDOWN_MS,
+      onStateChange: (from, to, consecutiveFailures) => {
+        emitClientEvent({
+          event: 'api_circuit_state_changed',
+          level: to === 'open' ? 'warn' : 'info',
+          data: { endpoint, from, to, consecutive_failures: consecutiveFailures }
+        });
+      }
+    });
+    breakers.set(endpoint, breaker);
+  }
+  return breaker;
+}
+
+/** Current breaker state per endpoint that has been called. */
+export function getCircuitStates(): Record<string, string> {
+  const states: Record<string, string> = {};
+  breakers.forEach((breaker, endpoint) => {
+    states[endpoint] = breaker.getState();
+  });
+  return states;
+}
+
+export function resetCircuitBreakers(): void {
+  breakers.clear();
+}
+
+function isAbortError(error: unknown): boolean {
+  return Boolean(error && typeof error === 'object' && (error as any).name === 'AbortError');
+}
+
+function abortError(): Error {
+  const error = new Error('The operation was aborted.');
+  error.name = 'AbortError';
+  return error;
+}
+
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+let mockBackend: Promise<MockBackend> | null = null;
+
+/** Loaded on first use so fixtures stay out of normal builds' main chunk. */
+function mockFetch(url: string, init: RequestInit): Promise<Response> {
+  mockBackend ??= Promise.all([import('./mockBackend'), import('../mocks/api')]).then(([{ createMockBackend }, { apiFixtures }]) =>
+    createMockBackend({ fixtures: apiFixtures, latencyMs: API_MOCK_LATENCY_MS, errorRate: API_MOCK_ERROR_RATE })
+  );
+  return mockBackend.then((backend) => backend.fetch(url, init));
+}
+
 export function getApiUrl(path: string): string {
   const origin = typeof window !== 'undefined' ? window.location.origin : 'http://localhost';
   const url = new URL(`${API_BASE}${path}`, origin);
   return API_BASE.startsWith('http') ? url.toString() : `${url.pathname}${url.search}`;
 }
 
-async function fetchWithHandler<T>(url: string, options: RequestInit): Promise<T> {
+async function fetchWithHandler<T>(url: string, options: RequestInit, timeoutMs = DEFAULT_TIMEOUT_MS): Promise<T> {
   const reqId = crypto.randomUUID().substring(0, 12);
   const headers = new Headers(options.headers || {});
   headers.set('X-Client-Request-Id', reqId);
@@ -31,8 +206,29 @@ async function fetchWithHandler<T>(url: string, options: RequestInit): Promise<T
     headers.set('Content-Type', 'application/json');
   }
 
+  const startedAt = Date.now();
+  let status = 0;
+  let cached = false;
+  let errorCode: string | undefined;
+
+  // One controller per attempt so a timeout aborts only this attempt; the caller's signal still wins.
+  const controller = new AbortController();
+  let timedOut = false;
+  const callerSignal = options.signal;
+  const onCallerAbort = () => controller.abort();
+  if (callerSignal?.aborted) controller.abort();
+  else callerSignal?.addEventListener('abort', onCallerAbort, { once: true });
+  const timeout = timeoutMs > 0
+    ? setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs)
+    : null;
+
   try {
-    const response = await fetch(url, { ...options, headers });
+    const init: RequestInit = { ...options, headers, signal: controller.signal };
+    const response = API_MOCK ? await mockFetch(url, init) : await fetch(url, init);
+    status = response.status;
 
     let data;
     const contentType = response.headers?.get?.('content-type');
@@ -53,14 +249,20 @@ async function fetchWithHandler<T>(url: string, options: RequestInit): Promise<T
       }
     }
 
+    cached = Boolean(data && typeof data === 'object' && data.cached === true);
+
     if (!response.ok || (data && typeof data === 'object' && data.ok === false)) {
       const errorBody = data?.error || {};
-      throw new ApiError(
+      const apiError = new ApiError(
         response.status,
         errorBody.code || 'unknown_error',
         errorBody.message || response.statusText,
         errorBody.details
       );
+      if (response.status === 429 || response.status === 503) {
+        apiError.retryAfterMs = parseRetryAfter(response.headers?.get?.('retry-after'));
+      }
+      throw apiError;
     }
 
     // Sometimes the backend wraps successful responses in an { ok: true, ...data } envelope.
@@ -69,25 +271,148 @@ async function fetchWithHandler<T>(url: string, options: RequestInit): Promise<T
     return data as T;
   } catch (error) {
     if (error instanceof ApiError) {
+      errorCode = error.code;
       throw error;
     }
-    if (error && typeof error === 'object' && (error as any).name === 'AbortError') {
+    if (isAbortError(error)) {
+      if (timedOut && !callerSignal?.aborted) {
+        errorCode = 'timeout';
+        throw new ApiError(0, 'timeout', `Request timed out after ${timeoutMs}ms`);
+      }
+      errorCode = 'aborted';
       throw error;
     }
+    errorCode = 'network_error';
     // Handle network errors (CORS, offline, etc.)
     throw new ApiError(
       0,
       'network_error',
       error instanceof Error ? error.message : 'Network request failed'
     );
+  } finally {
+    if (timeout) clearTimeout(timeout);
+    callerSignal?.removeEventListener('abort', onCallerAbort);
+    recordApiCall({
+      requestId: reqId,
+      method: options.method || 'GET',
+      url,
+      status,
+      latencyMs: Date.now() - startedAt,
+      cached,
+      errorCode,
+      at: new Date(startedAt).toISOString()
+    });
   }
 }
 
-export async function apiGet<T>(
-  path: string,
-  params?: Record<string, string | number | boolean | null | undefined>,
-  signal?: AbortSignal
-): Promise<T> {
+export type ApiAuthProvider = {
+  /** Current access token, or null when signed out. */
+  getAccessToken: () => Promise<string | null>;
+  /** Refreshes the session; false when the user has to sign in again. */
+  refreshSession: () => Promise<boolean>;
+};
+
+/** Dispatched on `window` when a 401 could not be fixed by refreshing the session. */
+export const SESSION_EXPIRED_EVENT = 'moviemonk:session-expired';
+
+let authProvider: ApiAuthProvider | null = null;
+let pendingRefresh: Promise<boolean> | null = null;
+
+/** Registered by `AuthProvider`; the client has no access to React context. */
+export function setApiAuthProvider(provider: ApiAuthProvider | null): void {
+  authProvider = provider;
+  pendingRefresh = null;
+}
+
+/**
+ * Adds the bearer token. A caller's own Authorization header is sent as is,
+ * and a 401 on it is not refreshed, since the client did not issue it.
+ */
+async function withAuthHeader(options: RequestInit): Promise<{ options: RequestInit; authenticated: boolean }> {
+  const headers = new Headers(options.headers || {});
+  if (!authProvider || headers.has('Authorization')) return { options, authenticated: false };
+
+  const token = await authProvider.getAccessToken().catch(() => null);
+  if (!token) return { options, authenticated: false };
+  headers.set('Authorization', `Bearer ${token}`);
+  return { options: { ...options, headers }, authenticated: true };
+}
+
+/** Concurrent 401s share one refresh. */
+function refreshSessionOnce(): Promise<boolean> {
+  if (!authProvider) return Promise.resolve(false);
+  if (!pendingRefresh) {
+    pendingRefresh = authProvider.refreshSession()
+      .catch(() => false)
+      .finally(() => {
+        pendingRefresh = null;
+      });
+  }
+  return pendingRefresh;
+}
+
+function notifySessionExpired(endpoint: string): void {
+  emitClientEvent({ event: 'auth_session_expired', level: 'warn', data: { endpoint } });
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new CustomEvent(SESSION_EXPIRED_EVENT, { detail: { endpoint } }));
+  }
+}
+
+/**
+ * Runs attempts under the call's policy: per-attempt timeout, retries with
+ * backoff for transient failures, and the endpoint's circuit breaker.
+ */
+async function requestWithPolicy<T>(url: string, options: RequestInit, policy: RequestPolicy = {}): Promise<T> {
+  const method = options.method || 'GET';
+  const retries = Math.max(0, policy.retries ?? (method === 'GET' ? DEFAULT_GET_RETRIES : 0));
+  const endpoint = endpointKey(method, url);
+  const breaker = policy.circuitBreaker === false ? null : getBreaker(endpoint);
+
+  let refreshed = false;
+
+  for (let attempt = 0; ; attempt += 1) {
+    if (breaker && !breaker.allowRequest()) {
+      throw new ApiError(503, 'circuit_open', `${endpoint} is failing; skipping the request for now`);
+    }
+
+    const { options: attemptOptions, authenticated } = await withAuthHeader(options);
+    try {
+      const result = await fetchWithHandler<T>(url, attemptOptions, policy.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+      breaker?.recordSuccess();
+      return validateApiResponse(endpoint, result);
+    } catch (error) {
+      if (isAbortError(error)) {
+        breaker?.recordCancelled();
+        throw error;
+      }
+      const retryable = isRetryableError(error);
+      // A 4xx still proves the endpoint is up, so only transient failures count against it.
+      if (retryable) breaker?.recordFailure();
+      else breaker?.recordSuccess();
+
+      if (error instanceof ApiError && error.status === 401 && authenticated && !refreshed) {
+        refreshed = true;
+        if (!(await refreshSessionOnce())) {
+          notifySessionExpired(endpoint);
+          throw error;
+        }
+        // Replay with the new token; this does not use up a retry.
+        attempt -= 1;
+        continue;
+      }
+
+      if (!retryable || attempt >= retries) throw error;
+      const delay = retryDelayMs(attempt, error, policy);
+      if (delay === null) throw error;
+      await sleep(delay, options.signal);
+    }
+  }
+}
+
+export type ApiQueryParams = Record<string, string | number | boolean | null | undefined>;
+
+/** The URL `apiGet` requests for these arguments; also the key for coalescing and caching. */
+export function buildApiGetUrl(path: string, params?: ApiQueryParams): string {
   // Use a dummy base if API_BASE is relative or empty, to parse URL properly
   const origin = typeof window !== 'undefined' ? window.location.origin : 'http://localhost';
   const url = new URL(`${API_BASE}${path}`, origin);
@@ -101,24 +426,88 @@ export async function apiGet<T>(
   }
 
   // If API_BASE is relative (e.g. proxy), return relative URL, else absolute
-  const finalUrl = API_BASE.startsWith('http') ? url.toString() : `${url.pathname}${url.search}`;
+  return API_BASE.startsWith('http') ? url.toString() : `${url.pathname}${url.search}`;
+}
+
+type InFlightGet = {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  waiters: number;
+};
+
+const inFlightGets = new Map<string, InFlightGet>();
+
+/**
+ * Joins an identical GET that is already in flight instead of starting another.
+ * Each caller can still abort its own wait; the shared request is only
+ * aborted once every caller has given up. The first caller's policy applies.
+ */
+function joinInFlight<T>(url: string, signal: AbortSignal | undefined, start: (signal: AbortSignal) => Promise<T>): Promise<T> {
+  if (signal?.aborted) return Promise.reject(abortError());
+
+  let entry = inFlightGets.get(url);
+  if (!entry) {
+    const controller = new AbortController();
+    const created: InFlightGet = { controller, waiters: 0, promise: Promise.resolve() };
+    created.promise = start(controller.signal).finally(() => {
+      if (inFlightGets.get(url) === created) inFlightGets.delete(url);
+    });
+    inFlightGets.set(url, created);
+    entry = created;
+  }
 
-  return fetchWithHandler<T>(finalUrl, { method: 'GET', signal });
+  const shared = entry;
+  shared.waiters += 1;
+  if (!signal) return shared.promise as Promise<T>;
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      shared.waiters -= 1;
+      if (shared.waiters === 0) {
+        shared.controller.abort();
+        if (inFlightGets.get(url) === shared) inFlightGets.delete(url);
+      }
+      reject(abortError());
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+    shared.promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value as T);
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+export async function apiGet<T>(
+  path: string,
+  params?: ApiQueryParams,
+  signal?: AbortSignal,
+  policy?: RequestPolicy
+): Promise<T> {
+  const finalUrl = buildApiGetUrl(path, params);
+  return joinInFlight<T>(finalUrl, signal, (sharedSignal) => requestWithPolicy<T>(finalUrl, { method: 'GET', signal: sharedSignal }, policy));
 }
 
+/** Not retried unless the policy asks for it: POSTs are not assumed idempotent. */
 export async function apiPost<T>(
   path: string,
   body: unknown,
   signal?: AbortSignal,
-  additionalHeaders?: Record<string, string>
+  additionalHeaders?: Record<string, string>,
+  policy?: RequestPolicy
 ): Promise<T> {
   const url = `${API_BASE}${path}`;
   const headers = new Headers(additionalHeaders || {});
 
-  return fetchWithHandler<T>(url, {
+  return requestWithPolicy<T>(url, {
     method: 'POST',
     body: JSON.stringify(body),
     headers,
     signal,
-  });
+  }, policy);
 }
@@ -0,0 +1,41 @@
+/**
+ * In-memory hit/miss counters for the client caches, shown in the
+ * diagnostics overlay. Counts reset with the page.
+ */
+
+export type CacheName = 'sessionCache' | 'cacheService' | 'indexedDB' | 'swrCache';
+
+export type CacheStats = {
+  hits: number;
+  misses: number;
+  /** Null until the cache has been read at least once. */
+  hitRatio: number | null;
+};
+
+const counters: Record<CacheName, { hits: number; misses: number }> = {
+  sessionCache: { hits: 0, misses: 0 },
+  cacheService: { hits: 0, misses: 0 },
+  indexedDB: { hits: 0, misses: 0 },
+  swrCache: { hits: 0, misses: 0 }
+};
+
+export function recordCacheLookup(cache: CacheName, hit: boolean): void {
+  if (hit) counters[cache].hits += 1;
+  else counters[cache].misses += 1;
+}
+
+export function getCacheStatsSnapshot(): Record<CacheName, CacheStats> {
+  const snapshot = {} as Record<CacheName, CacheStats>;
+  (Object.keys(counters) as CacheName[]).forEach((cache) => {
+    const { hits, misses } = counters[cache];
+    const total = hits + misses;
+    snapshot[cache] = { hits, misses, hitRatio: total > 0 ? hits / total : null };
+  });
+  return snapshot;
+}
+
+export function resetCacheStats(): void {
+  (Object.keys(counters) as CacheName[]).forEach((cache) => {
+    counters[cache] = { hits: 0, misses: 0 };
+  });
+}
@@ -0,0 +1,71 @@
+/**
+ * Circuit Breaker
+ * After `failureThreshold` consecutive failures the circuit opens and calls
+ * fail fast for `cooldownMs`. Then one trial call is let through (half open):
+ * success closes the circuit, failure opens it again.
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export type CircuitBreakerOptions = {
+  failureThreshold: number;
+  cooldownMs: number;
+  now?: () => number;
+  onStateChange?: (from: CircuitState, to: CircuitState, consecutiveFailures: number) => void;
+};
+
+export interface CircuitBreaker {
+  /** False while open, and while a half-open trial is already in flight. */
+  allowRequest(): boolean;
+  recordSuccess(): void;
+  recordFailure(): void;
+  /** The caller gave up (aborted); frees the half-open trial slot without a verdict. */
+  recordCancelled(): void;
+  getState(): CircuitState;
+}
+
+export function createCircuitBreaker(options: CircuitBreakerOptions): CircuitBreaker {
+  const now = options.now || Date.now;
+  let state: CircuitState = 'closed';
+  let consecutiveFailures = 0;
+  let openedAt = 0;
+  let trialInFlight = false;
+
+  const transition = (next: CircuitState) => {
+    if (next === state) return;
+    const previous = state;
+    state = next;
+    options.onStateChange?.(previous, next, consecutiveFailures);
+  };
+
+  return {
+    allowRequest() {
+      if (state === 'open') {
+        if (now() - openedAt < options.cooldownMs) return false;
+        transition('half_open');
+      }
+      if (state === 'half_open') {
+        if (trialInFlight) return false;
+        trialInFlight = true;
+      }
+      return true;
+    },
+    recordSuccess() {
+      trialInFlight = false;
+      consecutiveFailures = 0;
+      transition('closed');
+    },
+    recordFailure() {
+      trialInFlight = false;
+      consecutiveFailures += 1;
+      if (state === 'half_open' || consecutiveFailures >= options.failureThreshold) {
+        openedAt = now();
+        transition('open');
+      }
+    },
+    recordCancelled() {
+      trialInFlight = false;
+    },
+    getState: () => state
+  };
+}
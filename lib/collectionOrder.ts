@@ -0,0 +1,92 @@
+import type { CollectionEntry } from '../types';
+
+/**
+ * Watch orders for franchise collections. TMDB only knows release dates, so
+ * in-universe order comes from a small curated table keyed by collection id.
+ */
+
+export type CollectionOrder = 'release' | 'chronological';
+
+export interface OrderedCollection {
+  entries: CollectionEntry[];
+  /** False when no in-universe order is on record and release order was used instead. */
+  hasChronology: boolean;
+}
+
+export interface MarathonSummary {
+  titleCount: number;
+  totalRuntimeMinutes: number;
+  missingRuntimeCount: number;
+  upcomingCount: number;
+}
+
+// TMDB collection id -> movie ids in story order. Entries missing here fall back to release order at the end.
+const CHRONOLOGICAL_ORDER: Record<number, number[]> = {
+  // Star Wars Collection: prequels, originals, sequels
+  10: [1893, 1894, 1895, 11, 1891, 1892, 140607, 181808, 181812],
+  // The Fast and the Furious Collection: Tokyo Drift takes place after Fast & Furious 6
+  9485: [9799, 584, 13804, 51497, 82992, 9615, 168259, 337339, 385128, 385687]
+};
+
+export function isCollectionOrder(value: unknown): value is CollectionOrder {
+  return value === 'release' || value === 'chronological';
+}
+
+export function hasCuratedChronology(collectionId: number): boolean {
+  return Array.isArray(CHRONOLOGICAL_ORDER[collectionId]);
+}
+
+/** Upcoming and undated entries sort after everything that has a release date. */
+export function sortByRelease(entries: CollectionEntry[]): CollectionEntry[] {
+  return [...entries].sort((a, b) => {
+    if (a.release_date && b.release_date) return a.release_date.localeCompare(b.release_date);
+    if (a.release_date) return -1;
+    if (b.release_date) return 1;
+    return a.title.localeCompare(b.title);
+  });
+}
+
+export function orderCollectionEntries(
+  collectionId: number,
+  entries: CollectionEntry[],
+  order: CollectionOrder
+): OrderedCollection {
+  const byRelease = sortByRelease(entries);
+  const chronology = CHRONOLOGICAL_ORDER[collectionId];
+  if (order === 'release' || !chronology) {
+    return { entries: byRelease, hasChronology: Boolean(chronology) };
+  }
+
+  const position = new Map(chronology.map((id, index) => [id, index]));
+  const known = byRelease
+    .filter((entry) => position.has(entry.id))
+    .sort((a, b) => position.get(a.id)! - position.get(b.id)!);
+  const unknown = byRelease.filter((entry) => !position.has(entry.id));
+  return { entries: [...known, ...unknown], hasChronology: true };
+}
+
+export function isUpcomingEntry(entry: CollectionEntry, now: Date = new Date()): boolean {
+  if (!entry.release_date) return true;
+  const releaseTime = Date.parse(entry.release_date);
+  return Number.isFinite(releaseTime) && releaseTime > now.getTime();
+}
+
+/** Marathon totals over released titles; upcoming ones are counted separately. */
+export function summarizeMarathon(entries: CollectionEntry[], now: Date = new Date()): MarathonSummary {
+  return entries.reduce<MarathonSummary>(
+    (summary, entry) => {
+      if (isUpcomingEntry(entry, now)) {
+        summary.upcomingCount += 1;
+        return summary;
+      }
+      summary.titleCount += 1;
+      if (entry.runtime) {
+        summary.totalRuntimeMinutes += entry.runtime;
+      } else {
+        summary.missingRuntimeCount += 1;
+      }
+      return summary;
+    },
+    { titleCount: 0, totalRuntimeMinutes: 0, missingRuntimeCount: 0, upcomingCount: 0 }
+  );
+}
@@ -19,3 +19,10 @@ export const IS_DEV = getEnv('DEV') === 'true' || getEnv('MODE') === 'developmen
 export const IS_PROD = getEnv('PROD') === 'true' || getEnv('MODE') === 'production';
 export const PERF_DEBUG = getEnv('VITE_PERF_DEBUG') === 'true';
 export const ENABLE_OBSERVABILITY_API = getEnv('VITE_ENABLE_OBSERVABILITY_API') === 'true';
+export const APP_VERSION = getEnv('VITE_APP_VERSION', '0.0.0');
+/** Global experiments kill switch: everyone gets fallback variants and no exposure is logged. */
+export const EXPERIMENTS_DISABLED = getEnv('VITE_EXPERIMENTS_DISABLED') === 'true';
+/** Serve `/api/*` from recorded fixtures in the browser instead of the backend. */
+export const API_MOCK = getEnv('VITE_API_MOCK') === 'true';
+export const API_MOCK_LATENCY_MS = Number(getEnv('VITE_API_MOCK_LATENCY_MS', '250')) || 0;
+export const API_MOCK_ERROR_RATE = Number(getEnv('VITE_API_MOCK_ERROR_RATE', '0')) || 0;
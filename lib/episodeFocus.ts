@@ -0,0 +1,117 @@
+import type { NumberRange, ParsedQuery } from '../services/queryParser';
+import type { TVShowEpisode } from '../types';
+
+/**
+ * Episode focus: the seasons/episodes a TV query asked for ("S02E03-E07",
+ * "seasons 1-3"), carried through the title URL so the detail view can open
+ * the right season and highlight those episodes.
+ */
+export interface EpisodeFocus {
+  seasons: NumberRange;
+  episodes?: NumberRange; // only meaningful when a single season is focused
+}
+
+export interface EpisodeFocusSummary {
+  episodeCount: number;
+  totalRuntimeMinutes: number;
+  missingRuntimeCount: number;
+}
+
+const MAX_SEASON = 99;
+const MAX_EPISODE = 999;
+
+function toRange(start: number, end: number, max: number): NumberRange | null {
+  if (!Number.isInteger(start) || !Number.isInteger(end) || start < 0 || end < 0 || start > max || end > max) return null;
+  return { start: Math.min(start, end), end: Math.max(start, end) };
+}
+
+function parseRangeParam(value: string | null, max: number): NumberRange | null {
+  if (!value) return null;
+  const match = value.trim().match(/^(\d{1,3})(?:-(\d{1,3}))?$/);
+  if (!match) return null;
+  const start = Number(match[1]);
+  return toRange(start, match[2] ? Number(match[2]) : start, max);
+}
+
+function formatRange(range: NumberRange): string {
+  return range.start === range.end ? String(range.start) : `${range.start}-${range.end}`;
+}
+
+/** Null when the query did not mention a season. */
+export function episodeFocusFromQuery(parsed: ParsedQuery): EpisodeFocus | null {
+  if (!parsed.season) return null;
+  if (parsed.seasonRange) return { seasons: { ...parsed.seasonRange } };
+
+  const focus: EpisodeFocus = { seasons: { start: parsed.season, end: parsed.season } };
+  if (parsed.episodeRange) {
+    focus.episodes = { ...parsed.episodeRange };
+  } else if (parsed.episode) {
+    focus.episodes = { start: parsed.episode, end: parsed.episode };
+  }
+  return focus;
+}
+
+/** Reads `?season=2&episodes=3-7` or `?seasons=1-3` from a title URL. */
+export function parseEpisodeFocusParams(params: URLSearchParams): EpisodeFocus | null {
+  const seasons = parseRangeParam(params.get('seasons') ?? params.get('season'), MAX_SEASON);
+  if (!seasons) return null;
+  const focus: EpisodeFocus = { seasons };
+  const episodes = seasons.start === seasons.end ? parseRangeParam(params.get('episodes'), MAX_EPISODE) : null;
+  if (episodes) focus.episodes = episodes;
+  return focus;
+}
+
+export function buildEpisodeFocusQuery(focus: EpisodeFocus): string {
+  const params = new URLSearchParams();
+  if (focus.seasons.start === focus.seasons.end) {
+    params.set('season', String(focus.seasons.start));
+    if (focus.episodes) params.set('episodes', formatRange(focus.episodes));
+  } else {
+    params.set('seasons', formatRange(focus.seasons));
+  }
+  return params.toString();
+}
+
+export function isEpisodeInFocus(focus: EpisodeFocus | null | undefined, season: number, episode: number): boolean {
+  if (!focus) return false;
+  if (season < focus.seasons.start || season > focus.seasons.end) return false;
+  if (!focus.episodes) return true;
+  return episode >= focus.episodes.start && episode <= focus.episodes.end;
+}
+
+export function summarizeEpisodeFocus(
+  focus: EpisodeFocus,
+  episodes: Array<Pick<TVShowEpisode, 'season' | 'episode' | 'runtime'>>
+): EpisodeFocusSummary {
+  return episodes.reduce<EpisodeFocusSummary>(
+    (summary, episode) => {
+      if (!isEpisodeInFocus(focus, episode.season, episode.episode)) return summary;
+      summary.episodeCount += 1;
+      if (episode.runtime && episode.runtime > 0) {
+        summary.totalRuntimeMinutes += episode.runtime;
+      } else {
+        summary.missingRuntimeCount += 1;
+      }
+      return summary;
+    },
+    { episodeCount: 0, totalRuntimeMinutes: 0, missingRuntimeCount: 0 }
+  );
+}
+
+export function describeEpisodeFocus(focus: EpisodeFocus): string {
+  if (focus.seasons.start !== focus.seasons.end) {
+    return `Seasons ${focus.seasons.start}–${focus.seasons.end}`;
+  }
+  if (!focus.episodes) return `Season ${focus.seasons.start}`;
+  if (focus.episodes.start === focus.episodes.end) {
+    return `Season ${focus.seasons.start}, episode ${focus.episodes.start}`;
+  }
+  return `Season ${focus.seasons.start}, episodes ${focus.episodes.start}–${focus.episodes.end}`;
+}
+
+export function formatTotalRuntime(minutes: number): string {
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest ? `${hours}h ${rest}m` : `${hours}h`;
+}
@@ -0,0 +1,373 @@
+/**
+ * Experiment Analysis
+ * Summarises `experiment_exposure` / `experiment_conversion` client events into
+ * per-variant conversion rates and lifts against control, with a fixed-horizon
+ * two-proportion z-test and an always-valid mixture SPRT (safe to check as the
+ * data arrives, unlike the z-test).
+ */
+
+export type ExperimentEventLike = {
+  ts?: string;
+  event?: string;
+  data?: Record<string, unknown>;
+};
+
+export type AnalysisOptions = {
+  /** Variant every other variant is compared against. */
+  controlVariant?: string;
+  /** Two-sided significance level. */
+  alpha?: number;
+  /** Mixing variance for the sequential test: the squared effect size you expect, on the rate scale. */
+  mixtureVariance?: number;
+  /** Limit the report to one conversion event. */
+  conversionEvent?: string;
+};
+
+export interface VariantSummary {
+  variant: string;
+  exposures: number;
+  conversions: number;
+  conversionRate: number;
+}
+
+export interface SignificanceResult {
+  pValue: number;
+  /** Interval for the absolute rate difference, variant − control. */
+  ci: [number, number];
+  significant: boolean;
+}
+
+export interface VariantComparison {
+  variant: string;
+  control: string;
+  absoluteLift: number;
+  /** (variant − control) / control; null when control never converted. */
+  relativeLift: number | null;
+  relativeCi: [number, number] | null;
+  zTest: SignificanceResult & { z: number };
+  /** Null when both arms have zero variance (e.g. nothing converted yet). */
+  sequential: SignificanceResult | null;
+  /** Too few exposures or conversions for the normal approximation to hold. */
+  lowSample: boolean;
+}
+
+export interface ExperimentMetricReport {
+  experiment: string;
+  conversionEvent: string | null;
+  control: string;
+  variants: VariantSummary[];
+  comparisons: VariantComparison[];
+  /** Subjects exposed to more than one variant; excluded from the counts. */
+  crossoverSubjects: number;
+}
+
+export interface ExperimentAnalysis {
+  events: number;
+  skippedLines: number;
+  alpha: number;
+  mixtureVariance: number;
+  reports: ExperimentMetricReport[];
+}
+
+const DEFAULT_ALPHA = 0.05;
+const DEFAULT_MIXTURE_VARIANCE = 0.0004;
+const MIN_EXPOSURES = 30;
+const MIN_CONVERSIONS = 5;
+
+/** Parses NDJSON exports; blank and malformed lines are counted, not fatal. */
+export function parseEventLog(ndjson: string): { events: ExperimentEventLike[]; skippedLines: number } {
+  const events: ExperimentEventLike[] = [];
+  let skippedLines = 0;
+  for (const line of ndjson.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+    try {
+      const parsed = JSON.parse(trimmed);
+      if (parsed && typeof parsed === 'object' && typeof parsed.event === 'string') {
+        events.push(parsed);
+      } else {
+        skippedLines += 1;
+      }
+    } catch {
+      skippedLines += 1;
+    }
+  }
+  return { events, skippedLines };
+}
+
+/** Standard normal CDF (Abramowitz & Stegun 7.1.26, |error| < 1.5e-7). */
+export function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/** Inverse standard normal CDF (Acklam's rational approximation). */
+export function inverseNormalCdf(p: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - low) return -inverseNormalCdf(1 - p);
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q
+    / (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+export function twoProportionZTest(
+  control: VariantSummary,
+  variant: VariantSummary,
+  alpha = DEFAULT_ALPHA
+): SignificanceResult & { z: number } {
+  const diff = variant.conversionRate - control.conversionRate;
+  const pooled = (control.conversions + variant.conversions) / Math.max(1, control.exposures + variant.exposures);
+  const pooledSe = Math.sqrt(pooled * (1 - pooled) * (1 / Math.max(1, control.exposures) + 1 / Math.max(1, variant.exposures)));
+  const z = pooledSe > 0 ? diff / pooledSe : 0;
+  const pValue = pooledSe > 0 ? 2 * (1 - normalCdf(Math.abs(z))) : 1;
+  const halfWidth = inverseNormalCdf(1 - alpha / 2) * unpooledSe(control, variant);
+  return { z, pValue, ci: [diff - halfWidth, diff + halfWidth], significant: pValue < alpha };
+}
+
+function unpooledSe(control: VariantSummary, variant: VariantSummary): number {
+  const variance = (summary: VariantSummary) => summary.exposures > 0
+    ? (summary.conversionRate * (1 - summary.conversionRate)) / summary.exposures
+    : 0;
+  return Math.sqrt(variance(control) + variance(variant));
+}
+
+/**
+ * Mixture SPRT with a normal mixing distribution (Johari et al., "Always
+ * Valid Inference"). The p-value and interval stay valid however often the
+ * report is refreshed, at the price of wider intervals than the z-test.
+ */
+export function sequentialTest(
+  control: VariantSummary,
+  variant: VariantSummary,
+  alpha = DEFAULT_ALPHA,
+  mixtureVariance = DEFAULT_MIXTURE_VARIANCE
+): SignificanceResult | null {
+  const variance = unpooledSe(control, variant) ** 2;
+  if (variance <= 0 || mixtureVariance <= 0) return null;
+  const diff = variant.conversionRate - control.conversionRate;
+  const total = variance + mixtureVariance;
+
+  const logLikelihoodRatio = 0.5 * Math.log(variance / total)
+    + (mixtureVariance * diff * diff) / (2 * variance * total);
+  const pValue = Math.min(1, Math.exp(-logLikelihoodRatio));
+  const halfWidth = Math.sqrt(((variance * total) / mixtureVariance) * (Math.log(total / variance) - 2 * Math.log(alpha)));
+  return { pValue, ci: [diff - halfWidth, diff + halfWidth], significant: pValue < alpha };
+}
+
+type ExperimentTally = {
+  exposed: Map<string, Set<string>>;
+  conversions: Map<string, Map<string, Set<string>>>;
+};
+
+function readString(data: Record<string, unknown> | undefined, key: string): string | null {
+  const value = data?.[key];
+  return typeof value === 'string' && value.trim() ? value : null;
+}
+
+function compareVariants(
+  control: VariantSummary,
+  variant: VariantSummary,
+  alpha: number,
+  mixtureVariance: number
+): VariantComparison {
+  const absoluteLift = variant.conversionRate - control.conversionRate;
+  const zTest = twoProportionZTest(control, variant, alpha);
+  const relativeLift = control.conversionRate > 0 ? absoluteLift / control.conversionRate : null;
+  const lowSample = [control, variant].some((summary) =>
+    summary.exposures < MIN_EXPOSURES
+    || summary.conversions < MIN_CONVERSIONS
+    || summary.exposures - summary.conversions < MIN_CONVERSIONS);
+
+  return {
+    variant: variant.variant,
+    control: control.variant,
+    absoluteLift,
+    relativeLift,
+    relativeCi: control.conversionRate > 0
+      ? [zTest.ci[0] / control.conversionRate, zTest.ci[1] / control.conversionRate]
+      : null,
+    zTest,
+    sequential: sequentialTest(control, variant, alpha, mixtureVariance),
+    lowSample
+  };
+}
+
+/**
+ * Counts people rather than events: a subject converts at most once per
+ * conversion event, and only counts when it was exposed to that variant.
+ * Events without a subject id each stand for their own subject.
+ */
+export function analyzeExperimentEvents(
+  events: ExperimentEventLike[],
+  options: AnalysisOptions = {},
+  skippedLines = 0
+): ExperimentAnalysis {
+  const alpha = options.alpha ?? DEFAULT_ALPHA;
+  const mixtureVariance = options.mixtureVariance ?? DEFAULT_MIXTURE_VARIANCE;
+  const tallies = new Map<string, ExperimentTally>();
+  const tallyFor = (experiment: string) => {
+    let tally = tallies.get(experiment);
+    if (!tally) {
+      tally = { exposed: new Map(), conversions: new Map() };
+      tallies.set(experiment, tally);
+    }
+    return tally;
+  };
+
+  events.forEach((record, index) => {
+    const experiment = readString(record.data, 'experiment');
+    const variant = readString(record.data, 'variant');
+    if (!experiment || !variant) return;
+    const subject = readString(record.data, 'subject') || `event#${index}`;
+    const tally = tallyFor(experiment);
+
+    if (record.event === 'experiment_exposure') {
+      if (!tally.exposed.has(variant)) tally.exposed.set(variant, new Set());
+      tally.exposed.get(variant)!.add(subject);
+    } else if (record.event === 'experiment_conversion') {
+      const conversionEvent = readString(record.data, 'conversion_event') || 'conversion';
+      if (options.conversionEvent && conversionEvent !== options.conversionEvent) return;
+      if (!tally.conversions.has(conversionEvent)) tally.conversions.set(conversionEvent, new Map());
+      const byVariant = tally.conversions.get(conversionEvent)!;
+      if (!byVariant.has(variant)) byVariant.set(variant, new Set());
+      byVariant.get(variant)!.add(subject);
+    }
+  });
+
+  const reports: ExperimentMetricReport[] = [];
+  for (const [experiment, tally] of [...tallies.entries()].sort((a, b) => a[0].localeCompare(b[0]))) {
+    const seen = new Map<string, number>();
+    tally.exposed.forEach((subjects) => subjects.forEach((subject) => seen.set(subject, (seen.get(subject) || 0) + 1)));
+    const crossover = new Set([...seen.entries()].filter(([, count]) => count > 1).map(([subject]) => subject));
+
+    const variantNames = [...tally.exposed.keys()].sort();
+    const control = options.controlVariant && variantNames.includes(options.controlVariant)
+      ? options.controlVariant
+      : variantNames.includes('control') ? 'control' : variantNames[0];
+    if (!control) continue;
+    const ordered = [control, ...variantNames.filter((name) => name !== control)];
+
+    const conversionEvents: Array<string | null> = tally.conversions.size > 0 ? [...tally.conversions.keys()].sort() : [null];
+    for (const conversionEvent of conversionEvents) {
+      const variants = ordered.map((variant): VariantSummary => {
+        const exposed = [...(tally.exposed.get(variant) || [])].filter((subject) => !crossover.has(subject));
+        const exposedSet = new Set(exposed);
+        const converted = conversionEvent
+          ? [...(tally.conversions.get(conversionEvent)?.get(variant) || [])]
+            .filter((subject) => exposedSet.has(subject) || subject.startsWith('event#'))
+          : [];
+        const conversions = Math.min(converted.length, exposed.length);
+        return {
+          variant,
+          exposures: exposed.length,
+          conversions,
+          conversionRate: exposed.length > 0 ? conversions / exposed.length : 0
+        };
+      });
+
+      reports.push({
+        experiment,
+        conversionEvent,
+        control,
+        variants,
+        comparisons: conversionEvent
+          ? variants.slice(1).map((variant) => compareVariants(variants[0], variant, alpha, mixtureVariance))
+          : [],
+        crossoverSubjects: crossover.size
+      });
+    }
+  }
+
+  return { events: events.length, skippedLines, alpha, mixtureVariance, reports };
+}
+
+export function analyzeEventLog(ndjson: string, options: AnalysisOptions = {}): ExperimentAnalysis {
+  const { events, skippedLines } = parseEventLog(ndjson);
+  return analyzeExperimentEvents(events, options, skippedLines);
+}
+
+function percent(value: number, digits = 2): string {
+  return `${(value * 100).toFixed(digits)}%`;
+}
+
+function signedPercent(value: number): string {
+  return `${value >= 0 ? '+' : ''}${percent(value)}`;
+}
+
+function formatInterval(interval: [number, number] | null): string {
+  return interval ? `[${signedPercent(interval[0])}, ${signedPercent(interval[1])}]` : '—';
+}
+
+function formatP(value: number): string {
+  return value < 0.001 ? '<0.001' : value.toFixed(3);
+}
+
+export function renderAnalysisMarkdown(analysis: ExperimentAnalysis): string {
+  const confidence = `${Math.round((1 - analysis.alpha) * 100)}%`;
+  const lines = [
+    '# Experiment report',
+    '',
+    `${analysis.events} events (${analysis.skippedLines} unreadable lines skipped). `
+      + `${confidence} intervals; always-valid results use mixture variance ${analysis.mixtureVariance}.`
+  ];
+
+  if (analysis.reports.length === 0) {
+    lines.push('', 'No experiment exposures found.');
+    return `${lines.join('\n')}\n`;
+  }
+
+  for (const report of analysis.reports) {
+    lines.push('', `## ${report.experiment}${report.conversionEvent ? ` — ${report.conversionEvent}` : ''}`, '');
+    if (report.crossoverSubjects > 0) {
+      lines.push(`${report.crossoverSubjects} subject(s) saw more than one variant and were excluded.`, '');
+    }
+    lines.push(
+      '| Variant | Exposures | Conversions | Rate | Lift | Relative lift | CI (z-test) | p (z-test) | CI (always valid) | p (always valid) |',
+      '| --- | ---: | ---: | ---: | ---: | ---: | --- | ---: | --- | ---: |'
+    );
+    for (const variant of report.variants) {
+      const comparison = report.comparisons.find((entry) => entry.variant === variant.variant);
+      const rate = report.conversionEvent ? percent(variant.conversionRate) : '—';
+      if (!comparison) {
+        const role = variant.variant === report.control ? ' (control)' : '';
+        lines.push(`| ${variant.variant}${role} | ${variant.exposures} | ${variant.conversions} | ${rate} | — | — | — | — | — | — |`);
+        continue;
+      }
+      const flag = comparison.lowSample ? ' (low sample)' : '';
+      lines.push([
+        `| ${variant.variant}${flag}`,
+        variant.exposures,
+        variant.conversions,
+        rate,
+        signedPercent(comparison.absoluteLift),
+        comparison.relativeLift === null ? '—' : signedPercent(comparison.relativeLift),
+        formatInterval(comparison.zTest.ci),
+        `${formatP(comparison.zTest.pValue)}${comparison.zTest.significant ? ' *' : ''}`,
+        formatInterval(comparison.sequential?.ci || null),
+        comparison.sequential ? `${formatP(comparison.sequential.pValue)}${comparison.sequential.significant ? ' *' : ''}` : '—'
+      ].join(' | ') + ' |');
+    }
+  }
+
+  lines.push('', '`*` significant at the chosen level. Only trust the z-test once the planned sample size is reached.');
+  return `${lines.join('\n')}\n`;
+}
+
+export function renderAnalysisJson(analysis: ExperimentAnalysis): string {
+  return `${JSON.stringify(analysis, null, 2)}\n`;
+}
@@ -1,27 +1,103 @@
 import { emitClientEvent } from '../services/clientObservability';
+import { APP_VERSION, EXPERIMENTS_DISABLED } from './config';
+import { loadProfileSettings } from './userSettings';
+import experimentConfig from './experiments.json';
 
-export type ExperimentVariant = 'control' | 'variant';
+/**
+ * Experiments
+ * Definitions live in `experiments.json`. Each experiment owns a slice of a
+ * layer, so experiments sharing a layer never overlap for one subject, and
+ * splits its slice between weighted variants. Variant names are typed here and
+ * must match the JSON.
+ */
 
-type ExperimentDefinition = {
+export interface ExperimentVariants {
+  search_feedback_nudge: 'control' | 'variant';
+  diversity_rerank: 'control' | 'variant';
+}
+
+export type ExperimentKey = keyof ExperimentVariants;
+export type ExperimentVariant<K extends ExperimentKey = ExperimentKey> = ExperimentVariants[K];
+
+export type ExperimentTargeting = {
+  signedIn?: boolean;
+  /** ISO 3166-1 alpha-2 codes from the profile; subjects without one are left out. */
+  countries?: string[];
+  excludeCountries?: string[];
+  minAppVersion?: string;
+  maxAppVersion?: string;
+};
+
+export type ExperimentDefinition = {
   key: string;
+  /** Defaults to a layer of its own. */
+  layer?: string;
+  /** Share of the layer, 0–1. */
   traffic: number;
+  /** The first variant is the fallback for everyone outside the experiment. */
+  variants: Array<{ name: string; weight: number }>;
+  targeting?: ExperimentTargeting;
+  killed?: boolean;
 };
 
-const SUBJECT_STORAGE_KEY = 'moviemonk_experiment_subject_v1';
-const EXPOSURE_STORAGE_KEY = 'moviemonk_experiment_exposure_v1';
+export type ExperimentConfig = {
+  version: number;
+  /** Kill switch for every experiment at once. */
+  killAll?: boolean;
+  layers?: string[];
+  experiments: ExperimentDefinition[];
+};
 
-const EXPERIMENTS: Record<string, ExperimentDefinition> = {
-  search_feedback_nudge: {
-    key: 'search_feedback_nudge',
-    traffic: 0.5
-  }
+export type ExperimentContext = {
+  signedIn: boolean;
+  countryCode: string;
+  appVersion: string;
+};
+
+export type ExperimentAssignmentReason = 'assigned' | 'override' | 'killed' | 'not_targeted' | 'not_in_layer' | 'unknown';
+
+export interface ExperimentAssignment<K extends ExperimentKey = ExperimentKey> {
+  experiment: K;
+  variant: ExperimentVariants[K];
+  /** Only assigned subjects log exposure and count towards results. */
+  inExperiment: boolean;
+  reason: ExperimentAssignmentReason;
+  layer: string;
+  configVersion: number;
+}
+
+type LayerSlice = {
+  definition: ExperimentDefinition;
+  layer: string;
+  start: number;
+  end: number;
 };
 
+const SUBJECT_STORAGE_KEY = 'moviemonk_experiment_subject_v1';
+const EXPOSURE_STORAGE_KEY = 'moviemonk_experiment_exposure_v2';
+/** Local copy of this device's experiment events, in the exported NDJSON record shape. */
+export const EXPERIMENT_EVENT_LOG_STORAGE_KEY = 'moviemonk_experiment_events_v1';
+const MAX_LOCAL_EXPERIMENT_EVENTS = 2000;
+export const EXPERIMENT_OVERRIDES_STORAGE_KEY = 'moviemonk_experiment_overrides_v1';
+/** `?exp=diversity_rerank:variant,search_feedback_nudge:control`; `?exp=clear` drops overrides. */
+export const EXPERIMENT_OVERRIDE_PARAM = 'exp';
+const FALLBACK_VARIANT = 'control';
+
+let activeConfig: ExperimentConfig = parseExperimentConfig(experimentConfig);
+let slices = buildLayerSlices(activeConfig);
+let contextSignedIn = false;
+const sessionExposures = new Set<string>();
+
 function getStorage(): Storage | null {
   if (typeof window === 'undefined' || !window.localStorage) return null;
   return window.localStorage;
 }
 
+function getSessionStorage(): Storage | null {
+  if (typeof window === 'undefined' || !window.sessionStorage) return null;
+  return window.sessionStorage;
+}
+
 function randomId(): string {
   return `exp_${Math.random().toString(36).slice(2, 10)}_${Date.now().toString(36)}`;
 }
@@ -48,67 +124,325 @@ function getSubjectId(): string {
   return next;
 }
 
-export function getExperimentVariant(experimentKey: keyof typeof EXPERIMENTS): ExperimentVariant {
-  const experiment = EXPERIMENTS[experimentKey];
-  if (!experiment) return 'control';
+/**
+ * Validates a raw config, dropping experiments that cannot be assigned
+ * (no variants, no positive weight). Usable for configs fetched at runtime.
+ */
+export function parseExperimentConfig(raw: unknown): ExperimentConfig {
+  const input = (raw && typeof raw === 'object' ? raw : {}) as Partial<ExperimentConfig>;
+  const experiments = (Array.isArray(input.experiments) ? input.experiments : [])
+    .filter((definition): definition is ExperimentDefinition => Boolean(definition && typeof definition.key === 'string'))
+    .map((definition) => ({
+      ...definition,
+      traffic: Math.max(0, Math.min(1, Number(definition.traffic) || 0)),
+      variants: (Array.isArray(definition.variants) ? definition.variants : [])
+        .filter((variant) => variant && typeof variant.name === 'string' && Number(variant.weight) > 0)
+    }))
+    .filter((definition) => {
+      if (definition.variants.length > 0) return true;
+      console.warn(`[experiments] "${definition.key}" has no weighted variants and is ignored`);
+      return false;
+    });
 
-  const subjectId = getSubjectId();
-  const bucket = hashToUnit(`${experiment.key}:${subjectId}`);
-  return bucket < experiment.traffic ? 'variant' : 'control';
+  return {
+    version: Number(input.version) || 0,
+    killAll: input.killAll === true,
+    layers: Array.isArray(input.layers) ? input.layers : [],
+    experiments
+  };
+}
+
+function buildLayerSlices(config: ExperimentConfig): Map<string, LayerSlice> {
+  const cursors = new Map<string, number>();
+  const next = new Map<string, LayerSlice>();
+  for (const definition of config.experiments) {
+    const layer = definition.layer || definition.key;
+    const start = cursors.get(layer) || 0;
+    const end = Math.min(1, start + definition.traffic);
+    if (start + definition.traffic > 1 + 1e-9) {
+      console.warn(`[experiments] layer "${layer}" is over-allocated; "${definition.key}" gets ${(end - start).toFixed(2)}`);
+    }
+    cursors.set(layer, end);
+    next.set(definition.key, { definition, layer, start, end });
+  }
+  return next;
+}
+
+/** Replaces the active definitions, e.g. with a config fetched at startup or in tests. */
+export function setExperimentConfig(raw: unknown): void {
+  activeConfig = parseExperimentConfig(raw);
+  slices = buildLayerSlices(activeConfig);
+}
+
+export function getExperimentConfig(): ExperimentConfig {
+  return activeConfig;
+}
+
+/** Targeting facts that the lib cannot read itself; the auth provider keeps them current. */
+export function setExperimentContext(context: Partial<Pick<ExperimentContext, 'signedIn'>>): void {
+  if (typeof context.signedIn === 'boolean') contextSignedIn = context.signedIn;
+}
+
+function resolveContext(overrides: Partial<ExperimentContext> = {}): ExperimentContext {
+  let countryCode = '';
+  try {
+    countryCode = loadProfileSettings().countryCode;
+  } catch {
+    countryCode = '';
+  }
+  return {
+    signedIn: contextSignedIn,
+    countryCode,
+    appVersion: APP_VERSION,
+    ...overrides
+  };
+}
+
+function compareVersions(a: string, b: string): number {
+  const left = a.split(/[.+-]/).map((part) => parseInt(part, 10) || 0);
+  const right = b.split(/[.+-]/).map((part) => parseInt(part, 10) || 0);
+  for (let i = 0; i < Math.max(left.length, right.length, 3); i += 1) {
+    const diff = (left[i] || 0) - (right[i] || 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+export function matchesTargeting(targeting: ExperimentTargeting | undefined, context: ExperimentContext): boolean {
+  if (!targeting) return true;
+  if (typeof targeting.signedIn === 'boolean' && targeting.signedIn !== context.signedIn) return false;
+
+  const country = context.countryCode.trim().toUpperCase();
+  if (targeting.countries?.length && !targeting.countries.some((code) => code.toUpperCase() === country)) return false;
+  if (country && targeting.excludeCountries?.some((code) => code.toUpperCase() === country)) return false;
+
+  if (targeting.minAppVersion && compareVersions(context.appVersion, targeting.minAppVersion) < 0) return false;
+  if (targeting.maxAppVersion && compareVersions(context.appVersion, targeting.maxAppVersion) > 0) return false;
+  return true;
+}
+
+function parseOverrideList(value: string): Record<string, string> {
+  const overrides: Record<string, string> = {};
+  for (const entry of value.split(',')) {
+    const [key, variant] = entry.split(':').map((part) => part?.trim());
+    if (key && variant) overrides[key] = variant;
+  }
+  return overrides;
+}
+
+function readStoredOverrides(): Record<string, string> {
+  const storage = getStorage();
+  if (!storage) return {};
+  try {
+    const raw = storage.getItem(EXPERIMENT_OVERRIDES_STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as Record<string, string>) : {};
+  } catch {
+    return {};
+  }
 }
 
-function hasExposure(experimentKey: keyof typeof EXPERIMENTS): boolean {
+function writeStoredOverrides(overrides: Record<string, string>): void {
   const storage = getStorage();
+  if (!storage) return;
+  if (Object.keys(overrides).length === 0) {
+    storage.removeItem(EXPERIMENT_OVERRIDES_STORAGE_KEY);
+    return;
+  }
+  storage.setItem(EXPERIMENT_OVERRIDES_STORAGE_KEY, JSON.stringify(overrides));
+}
+
+/**
+ * QA overrides. A `?exp=` parameter is saved to localStorage so it survives
+ * navigation, and stays until `?exp=clear`.
+ */
+export function getExperimentOverrides(): Record<string, string> {
+  const stored = readStoredOverrides();
+  if (typeof window === 'undefined' || !window.location) return stored;
+
+  const param = new URLSearchParams(window.location.search).get(EXPERIMENT_OVERRIDE_PARAM);
+  if (param === null) return stored;
+  if (param.trim() === 'clear') {
+    writeStoredOverrides({});
+    return {};
+  }
+  const merged = { ...stored, ...parseOverrideList(param) };
+  writeStoredOverrides(merged);
+  return merged;
+}
+
+export function setExperimentOverride(experimentKey: ExperimentKey, variant: string | null): void {
+  const overrides = readStoredOverrides();
+  if (variant) {
+    overrides[experimentKey] = variant;
+  } else {
+    delete overrides[experimentKey];
+  }
+  writeStoredOverrides(overrides);
+}
+
+function pickVariant(definition: ExperimentDefinition, subjectId: string): string {
+  const totalWeight = definition.variants.reduce((sum, variant) => sum + variant.weight, 0);
+  let target = hashToUnit(`${definition.key}:variant:${subjectId}`) * totalWeight;
+  for (const variant of definition.variants) {
+    target -= variant.weight;
+    if (target < 0) return variant.name;
+  }
+  return definition.variants[definition.variants.length - 1].name;
+}
+
+/**
+ * Resolves a subject's variant. Order: kill switch, QA override, targeting,
+ * layer slice, weighted variant. Everyone outside the experiment gets the
+ * first (fallback) variant.
+ */
+export function getExperimentAssignment<K extends ExperimentKey>(
+  experimentKey: K,
+  contextOverrides: Partial<ExperimentContext> = {}
+): ExperimentAssignment<K> {
+  const slice = slices.get(experimentKey);
+  const base = {
+    experiment: experimentKey,
+    layer: slice?.layer || experimentKey,
+    configVersion: activeConfig.version
+  };
+  const outside = (reason: ExperimentAssignmentReason): ExperimentAssignment<K> => ({
+    ...base,
+    variant: (slice?.definition.variants[0]?.name || FALLBACK_VARIANT) as ExperimentVariants[K],
+    inExperiment: false,
+    reason
+  });
+
+  if (!slice) return outside('unknown');
+  const { definition } = slice;
+  if (EXPERIMENTS_DISABLED || activeConfig.killAll || definition.killed) return outside('killed');
+
+  const override = getExperimentOverrides()[experimentKey];
+  if (override && definition.variants.some((variant) => variant.name === override)) {
+    return { ...base, variant: override as ExperimentVariants[K], inExperiment: false, reason: 'override' };
+  }
+
+  if (!matchesTargeting(definition.targeting, resolveContext(contextOverrides))) return outside('not_targeted');
+
+  const subjectId = getSubjectId();
+  const layerBucket = hashToUnit(`layer:${slice.layer}:${subjectId}`);
+  if (layerBucket < slice.start || layerBucket >= slice.end) return outside('not_in_layer');
+
+  return {
+    ...base,
+    variant: pickVariant(definition, subjectId) as ExperimentVariants[K],
+    inExperiment: true,
+    reason: 'assigned'
+  };
+}
+
+export function getExperimentVariant<K extends ExperimentKey>(experimentKey: K): ExperimentVariants[K] {
+  return getExperimentAssignment(experimentKey).variant;
+}
+
+/**
+ * Variants this subject is actually enrolled in, for tagging telemetry. Does
+ * not log exposure; overrides and unassigned subjects are left out.
+ */
+export function getActiveExperimentVariants(): Record<string, string> {
+  const active: Record<string, string> = {};
+  for (const definition of activeConfig.experiments) {
+    const assignment = getExperimentAssignment(definition.key as ExperimentKey);
+    if (assignment.inExperiment) active[definition.key] = assignment.variant;
+  }
+  return active;
+}
+
+function hasSessionExposure(key: string): boolean {
+  if (sessionExposures.has(key)) return true;
+  const storage = getSessionStorage();
   if (!storage) return false;
   try {
-    const raw = storage.getItem(EXPOSURE_STORAGE_KEY);
-    if (!raw) return false;
-    const parsed = JSON.parse(raw) as Record<string, true>;
-    return Boolean(parsed[experimentKey]);
+    const parsed = JSON.parse(storage.getItem(EXPOSURE_STORAGE_KEY) || '{}') as Record<string, true>;
+    return Boolean(parsed[key]);
   } catch {
     return false;
   }
 }
 
-function markExposure(experimentKey: keyof typeof EXPERIMENTS): void {
+function markSessionExposure(key: string): void {
+  sessionExposures.add(key);
+  const storage = getSessionStorage();
+  if (!storage) return;
+  try {
+    const parsed = JSON.parse(storage.getItem(EXPOSURE_STORAGE_KEY) || '{}') as Record<string, true>;
+    parsed[key] = true;
+    storage.setItem(EXPOSURE_STORAGE_KEY, JSON.stringify(parsed));
+  } catch {
+    // Exposure bookkeeping is best-effort; at worst the event repeats.
+  }
+}
+
+export type ExperimentEventRecord = {
+  ts: string;
+  source: 'client';
+  event: string;
+  level: 'info';
+  data: Record<string, unknown>;
+};
+
+export function loadLocalExperimentEvents(): ExperimentEventRecord[] {
+  const storage = getStorage();
+  if (!storage) return [];
+  try {
+    const parsed = JSON.parse(storage.getItem(EXPERIMENT_EVENT_LOG_STORAGE_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export function clearLocalExperimentEvents(): void {
+  getStorage()?.removeItem(EXPERIMENT_EVENT_LOG_STORAGE_KEY);
+}
+
+function emitExperimentEvent(event: string, data: Record<string, unknown>): void {
+  emitClientEvent({ event, data });
   const storage = getStorage();
   if (!storage) return;
-  let parsed: Record<string, true> = {};
+  const record: ExperimentEventRecord = { ts: new Date().toISOString(), source: 'client', event, level: 'info', data };
   try {
-    const raw = storage.getItem(EXPOSURE_STORAGE_KEY);
-    if (raw) parsed = JSON.parse(raw) as Record<string, true>;
+    const next = [...loadLocalExperimentEvents(), record].slice(-MAX_LOCAL_EXPERIMENT_EVENTS);
+    storage.setItem(EXPERIMENT_EVENT_LOG_STORAGE_KEY, JSON.stringify(next));
   } catch {
-    parsed = {};
+    // storage full – the exported server log is the source of truth anyway
   }
-  parsed[experimentKey] = true;
-  storage.setItem(EXPOSURE_STORAGE_KEY, JSON.stringify(parsed));
 }
 
-export function recordExperimentExposure(experimentKey: keyof typeof EXPERIMENTS, variant: ExperimentVariant): void {
-  if (hasExposure(experimentKey)) return;
-  markExposure(experimentKey);
-  emitClientEvent({
-    event: 'experiment_exposure',
-    data: {
-      experiment: experimentKey,
-      variant
-    }
+/**
+ * Logs exposure once per browser session, and only for assigned subjects.
+ * Events carry the random subject id so analysis can count people, not events.
+ */
+export function recordExperimentExposure(assignment: ExperimentAssignment): void {
+  if (!assignment.inExperiment) return;
+  const exposureKey = `${assignment.experiment}:${assignment.variant}`;
+  if (hasSessionExposure(exposureKey)) return;
+  markSessionExposure(exposureKey);
+  emitExperimentEvent('experiment_exposure', {
+    experiment: assignment.experiment,
+    variant: assignment.variant,
+    layer: assignment.layer,
+    config_version: assignment.configVersion,
+    subject: getSubjectId()
   });
 }
 
 export function recordExperimentConversion(
-  experimentKey: keyof typeof EXPERIMENTS,
-  variant: ExperimentVariant,
+  assignment: ExperimentAssignment,
   conversionEvent: string,
   data: Record<string, unknown> = {}
 ): void {
-  emitClientEvent({
-    event: 'experiment_conversion',
-    data: {
-      experiment: experimentKey,
-      variant,
-      conversion_event: conversionEvent,
-      ...data
-    }
+  if (!assignment.inExperiment) return;
+  emitExperimentEvent('experiment_conversion', {
+    ...data,
+    experiment: assignment.experiment,
+    variant: assignment.variant,
+    layer: assignment.layer,
+    conversion_event: conversionEvent,
+    subject: getSubjectId()
   });
 }
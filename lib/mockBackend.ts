@@ -0,0 +1,239 @@
+/**
+ * In-process stand-in for the FastAPI backend, serving recorded fixtures.
+ *
+ * Used by the API client when `VITE_API_MOCK=true`, and by tests that want
+ * realistic payloads without a server: install `backend.fetch` as the global
+ * fetch. Only the routes below are served; anything else is passed to
+ * `fallbackFetch` (the real network by default).
+ */
+
+import type { WatchlistShareResponse } from '../types';
+
+export type ApiFixtures = {
+  search: Record<string, unknown>;
+  suggest: Record<string, unknown>;
+  /** Keyed by `movie/<id>` or `tv/<id>`. */
+  details: Record<string, unknown>;
+  /** Keyed by `<tvId>/<season>`. */
+  episodes: Record<string, unknown>;
+  /** Keyed by person id. */
+  person: Record<string, unknown>;
+  /** Keyed by the proxied TMDB `endpoint` parameter. */
+  tmdb: Record<string, unknown>;
+  vibe: Record<string, unknown>;
+  /** Keyed by share token. */
+  watchlistShare: Record<string, unknown>;
+};
+
+export type MockBackendOptions = {
+  fixtures: ApiFixtures;
+  /** Mean simulated latency; each response waits 50–150% of it. */
+  latencyMs?: number;
+  /** Share of requests (0–1) that fail with a 503. */
+  errorRate?: number;
+  random?: () => number;
+  fallbackFetch?: typeof fetch;
+};
+
+export type MockRoute = {
+  status: number;
+  body: unknown;
+  headers?: Record<string, string>;
+};
+
+export interface MockBackend {
+  fetch(input: RequestInfo | URL, init?: RequestInit): Promise<Response>;
+  /** The next `times` requests to `endpoint` (e.g. `GET /api/person`) fail with `status`. */
+  failNext(endpoint: string, status: number, times?: number): void;
+  /** Endpoints requested so far, in order, for assertions. */
+  readonly calls: string[];
+}
+
+const EMPTY_TMDB_PAGE = { page: 1, results: [], total_pages: 1, total_results: 0 };
+
+function mockError(status: number, code: string, message: string): MockRoute {
+  return { status, body: { ok: false, error: { code, message } } };
+}
+
+function ok(body: unknown): MockRoute {
+  return { status: 200, body };
+}
+
+function matches(text: unknown, query: string): boolean {
+  return typeof text === 'string' && text.toLowerCase().includes(query);
+}
+
+function parseBody(init?: RequestInit): Record<string, unknown> {
+  if (typeof init?.body !== 'string') return {};
+  try {
+    const parsed = JSON.parse(init.body);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function searchFixture(fixtures: ApiFixtures, rawQuery: string, page: number): MockRoute {
+  const query = rawQuery.trim().toLowerCase();
+  const base = fixtures.search as { results?: Array<{ title?: string }>; people?: Array<{ name?: string }>; hero?: { title?: string } | null };
+  const results = (base.results || []).filter((item) => matches(item.title, query));
+  const people = (base.people || []).filter((item) => matches(item.name, query));
+  return ok({
+    ...base,
+    query: rawQuery,
+    page,
+    hero: base.hero && matches(base.hero.title, query) ? base.hero : results[0] || null,
+    results,
+    people,
+    total_results: results.length,
+    total_pages: 1
+  });
+}
+
+function shareWatchlist(fixtures: ApiFixtures, url: URL, body: Record<string, unknown>): MockRoute {
+  const items = Array.isArray(body.items) ? body.items : [];
+  if (!body.folder_name || items.length === 0) {
+    return mockError(400, 'invalid_payload', 'Missing folder name or items');
+  }
+
+  const shareToken = `mock-share-${Object.keys(fixtures.watchlistShare).length + 1}`;
+  const createdAt = new Date().toISOString();
+  fixtures.watchlistShare[shareToken] = {
+    folder_name: body.folder_name,
+    folder_icon: body.folder_icon ?? null,
+    items,
+    shared_by: 'Mock User',
+    created_at: createdAt,
+    item_count: items.length,
+    visibility: 'public'
+  };
+
+  const origin = typeof window !== 'undefined' ? window.location.origin : url.origin;
+  const response: WatchlistShareResponse = {
+    ok: true,
+    share_token: shareToken,
+    share_url: `${origin}/watchlists/share?token=${shareToken}`,
+    visibility: 'public',
+    item_count: items.length,
+    created_at: createdAt
+  };
+  return ok(response);
+}
+
+/**
+ * Maps one request onto its fixture response, or null when the path is not
+ * one the mock serves. Sharing a watchlist stores it in
+ * `fixtures.watchlistShare`, so a later GET with the returned token finds it.
+ */
+export function routeMockRequest(fixtures: ApiFixtures, method: string, url: URL, body: Record<string, unknown>): MockRoute | null {
+  const segments = url.pathname.replace(/^\/+|\/+$/g, '').split('/');
+  if (segments[0] !== 'api') return null;
+  const [, resource, ...rest] = segments;
+  const params = url.searchParams;
+
+  switch (resource) {
+    case 'search': {
+      const query = String((method === 'POST' ? body.q : params.get('q')) ?? '');
+      const page = Number((method === 'POST' ? body.page : params.get('page')) ?? 1) || 1;
+      return searchFixture(fixtures, query, page);
+    }
+    case 'suggest': {
+      const query = (params.get('q') || '').trim().toLowerCase();
+      const base = fixtures.suggest as { suggestions?: Array<{ title?: string }> };
+      return ok({ ...base, query: params.get('q') || '', suggestions: (base.suggestions || []).filter((item) => matches(item.title, query)) });
+    }
+    case 'details': {
+      const [mediaType, id] = rest;
+      const details = fixtures.details[`${mediaType}/${id}`];
+      return details ? ok(details) : mockError(404, 'not_found', `No mock details for ${mediaType}/${id}`);
+    }
+    case 'episodes': {
+      const [tvId, season] = rest;
+      return ok(fixtures.episodes[`${tvId}/${season}`] || { ok: true, episodes: [], source: 'mock', cached: false });
+    }
+    case 'person': {
+      const person = fixtures.person[rest[0]];
+      return person ? ok(person) : mockError(404, 'not_found', `No mock person ${rest[0]}`);
+    }
+    case 'tmdb':
+      return ok(fixtures.tmdb[params.get('endpoint') || ''] || EMPTY_TMDB_PAGE);
+    case 'vibe':
+      return ok({ ...fixtures.vibe, query_raw: String(body.q ?? '') });
+    case 'watchlists': {
+      if (rest[0] !== 'share') return null;
+      if (method === 'POST') return shareWatchlist(fixtures, url, body);
+      if (method !== 'GET') return null;
+      const shared = fixtures.watchlistShare[params.get('token') || ''];
+      return shared ? ok(shared) : mockError(404, 'not_found', 'Shared watchlist not found');
+    }
+    default:
+      return null;
+  }
+}
+
+function abortError(): Error {
+  const error = new Error('The operation was aborted.');
+  error.name = 'AbortError';
+  return error;
+}
+
+function delay(ms: number, signal?: AbortSignal | null): Promise<void> {
+  if (ms <= 0) return signal?.aborted ? Promise.reject(abortError()) : Promise.resolve();
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export function createMockBackend(options: MockBackendOptions): MockBackend {
+  // Shared watchlists are written per backend, never into the caller's fixtures.
+  const fixtures: ApiFixtures = { ...options.fixtures, watchlistShare: { ...options.fixtures.watchlistShare } };
+  const random = options.random || Math.random;
+  const latencyMs = Math.max(0, options.latencyMs ?? 0);
+  const errorRate = Math.min(1, Math.max(0, options.errorRate ?? 0));
+  const fallbackFetch = options.fallbackFetch || ((input: RequestInfo | URL, init?: RequestInit) => fetch(input, init));
+  const scheduledFailures = new Map<string, { status: number; remaining: number }>();
+  const calls: string[] = [];
+
+  const takeScheduledFailure = (endpoint: string): number | null => {
+    const scheduled = scheduledFailures.get(endpoint);
+    if (!scheduled) return null;
+    scheduled.remaining -= 1;
+    if (scheduled.remaining <= 0) scheduledFailures.delete(endpoint);
+    return scheduled.status;
+  };
+
+  return {
+    calls,
+    failNext(endpoint, status, times = 1) {
+      scheduledFailures.set(endpoint, { status, remaining: times });
+    },
+    async fetch(input, init) {
+      const method = (init?.method || 'GET').toUpperCase();
+      const url = new URL(String(input instanceof Request ? input.url : input), 'http://localhost');
+      const route = routeMockRequest(fixtures, method, url, parseBody(init));
+      if (!route) return fallbackFetch(input, init);
+
+      const endpoint = `${method} /api/${url.pathname.split('/')[2]}`;
+      calls.push(endpoint);
+      await delay(latencyMs > 0 ? Math.round(latencyMs * (0.5 + random())) : 0, init?.signal);
+
+      const injected = takeScheduledFailure(endpoint) ?? (errorRate > 0 && random() < errorRate ? 503 : null);
+      const response = injected
+        ? { ...mockError(injected, 'mock_injected_error', `Injected ${injected} from the mock backend`), headers: injected === 503 ? { 'Retry-After': '1' } : undefined }
+        : route;
+
+      return new Response(JSON.stringify(response.body), {
+        status: response.status,
+        headers: { 'Content-Type': 'application/json', ...response.headers }
+      });
+    }
+  };
+}
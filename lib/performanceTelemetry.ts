@@ -0,0 +1,204 @@
+import { emitClientEvent } from '../services/clientObservability';
+import { getActiveExperimentVariants } from './experiments';
+import { RouteKind, parseAppRoute } from './routeState';
+
+/**
+ * First-party performance telemetry: Core Web Vitals attributed to our own
+ * route kinds, plus named timings for the flows we care about. Everything is
+ * emitted as `web_vital` / `perf_timing` client events tagged with the
+ * experiment variants the user is enrolled in.
+ */
+
+export type WebVitalName = 'LCP' | 'INP' | 'CLS' | 'TTFB';
+export type WebVitalRating = 'good' | 'needs-improvement' | 'poor';
+export type TimingName = 'search_to_first_result' | 'title_to_details' | 'lazy_chunk';
+
+export type LayoutShift = { value: number; startTime: number };
+
+const VITAL_THRESHOLDS: Record<WebVitalName, [number, number]> = {
+  LCP: [2500, 4000],
+  INP: [200, 500],
+  CLS: [0.1, 0.25],
+  TTFB: [800, 1800]
+};
+
+/** Timings older than this are abandoned flows, not slow ones. */
+const MAX_TIMING_MS = 60_000;
+
+type LayoutShiftEntry = PerformanceEntry & { value: number; hadRecentInput: boolean };
+type EventTimingEntry = PerformanceEntry & { interactionId?: number };
+
+let currentRouteKind: RouteKind = 'unknown';
+let landingRouteKind: RouteKind | null = null;
+let routeShifts: LayoutShift[] = [];
+let routeInteractions = new Map<number, number>();
+let largestContentfulPaint: number | null = null;
+let lcpReported = false;
+let started = false;
+const pendingTimings = new Map<TimingName, { start: number; data: Record<string, unknown> }>();
+
+export function rateWebVital(name: WebVitalName, value: number): WebVitalRating {
+  const [good, poor] = VITAL_THRESHOLDS[name];
+  if (value <= good) return 'good';
+  return value <= poor ? 'needs-improvement' : 'poor';
+}
+
+/** Largest session window: shifts less than 1s apart, at most 5s long. */
+export function cumulativeLayoutShift(shifts: LayoutShift[]): number {
+  let worst = 0;
+  let sessionValue = 0;
+  let sessionStart = 0;
+  let previous = -Infinity;
+  for (const shift of shifts) {
+    if (shift.startTime - previous > 1000 || shift.startTime - sessionStart > 5000) {
+      sessionValue = 0;
+      sessionStart = shift.startTime;
+    }
+    sessionValue += shift.value;
+    previous = shift.startTime;
+    worst = Math.max(worst, sessionValue);
+  }
+  return worst;
+}
+
+/** Worst interaction, ignoring one outlier per 50 interactions (the INP definition). */
+export function interactionToNextPaint(durations: number[]): number | null {
+  if (durations.length === 0) return null;
+  const sorted = [...durations].sort((a, b) => b - a);
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length / 50))];
+}
+
+function now(): number {
+  return typeof performance !== 'undefined' ? performance.now() : Date.now();
+}
+
+function emitVital(name: WebVitalName, value: number, routeKind: RouteKind): void {
+  emitClientEvent({
+    event: 'web_vital',
+    data: {
+      metric: name,
+      value: name === 'CLS' ? Number(value.toFixed(4)) : Math.round(value),
+      rating: rateWebVital(name, value),
+      route_kind: routeKind,
+      experiments: getActiveExperimentVariants()
+    }
+  });
+}
+
+/** Reports the per-route metrics gathered so far and starts fresh. */
+function flushRouteVitals(): void {
+  if (routeShifts.length > 0) emitVital('CLS', cumulativeLayoutShift(routeShifts), currentRouteKind);
+  const inp = interactionToNextPaint([...routeInteractions.values()]);
+  if (inp !== null) emitVital('INP', inp, currentRouteKind);
+  routeShifts = [];
+  routeInteractions = new Map();
+}
+
+/** LCP stops updating at the first interaction, so it is final by then. */
+function reportLcp(): void {
+  if (lcpReported || largestContentfulPaint === null) return;
+  lcpReported = true;
+  emitVital('LCP', largestContentfulPaint, landingRouteKind || currentRouteKind);
+}
+
+function observe(type: string, onEntries: (entries: PerformanceEntry[]) => void, options: Record<string, unknown> = {}): void {
+  try {
+    const observer = new PerformanceObserver((list) => onEntries(list.getEntries()));
+    observer.observe({ type, buffered: true, ...options } as PerformanceObserverInit);
+  } catch {
+    // Entry type not supported by this browser.
+  }
+}
+
+/** Call on every navigation; vitals gathered on the previous route are reported under its kind. */
+export function setPerformanceRoute(pathname: string, search: string): void {
+  const kind = parseAppRoute(pathname, search).kind;
+  if (landingRouteKind === null) landingRouteKind = kind;
+  if (started && kind !== currentRouteKind) flushRouteVitals();
+  currentRouteKind = kind;
+}
+
+export function initWebVitals(): void {
+  if (started || typeof window === 'undefined' || typeof PerformanceObserver === 'undefined') return;
+  started = true;
+
+  const [navigation] = performance.getEntriesByType('navigation') as PerformanceNavigationTiming[];
+  if (navigation && navigation.responseStart > 0) {
+    const activationStart = (navigation as PerformanceNavigationTiming & { activationStart?: number }).activationStart || 0;
+    emitVital('TTFB', Math.max(0, navigation.responseStart - activationStart), landingRouteKind || currentRouteKind);
+  }
+
+  observe('largest-contentful-paint', (entries) => {
+    const last = entries[entries.length - 1];
+    if (last) largestContentfulPaint = last.startTime;
+  });
+
+  observe('layout-shift', (entries) => {
+    for (const entry of entries as LayoutShiftEntry[]) {
+      if (!entry.hadRecentInput) routeShifts.push({ value: entry.value, startTime: entry.startTime });
+    }
+  });
+
+  const recordInteraction = (entries: PerformanceEntry[]) => {
+    for (const entry of entries as EventTimingEntry[]) {
+      if (!entry.interactionId) continue;
+      const previous = routeInteractions.get(entry.interactionId) || 0;
+      routeInteractions.set(entry.interactionId, Math.max(previous, entry.duration));
+    }
+    reportLcp();
+  };
+  observe('event', recordInteraction, { durationThreshold: 40 });
+  observe('first-input', recordInteraction);
+
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState !== 'hidden') return;
+    reportLcp();
+    flushRouteVitals();
+  });
+}
+
+export function startTiming(name: TimingName, data: Record<string, unknown> = {}): void {
+  pendingTimings.set(name, { start: now(), data });
+}
+
+function emitTiming(name: TimingName, duration: number, data: Record<string, unknown>): void {
+  if (duration < 0 || duration > MAX_TIMING_MS) return;
+  emitClientEvent({
+    event: 'perf_timing',
+    data: {
+      name,
+      duration_ms: Math.round(duration),
+      route_kind: currentRouteKind,
+      ...data,
+      experiments: getActiveExperimentVariants()
+    }
+  });
+}
+
+export function endTiming(name: TimingName, data: Record<string, unknown> = {}): void {
+  const pending = pendingTimings.get(name);
+  if (!pending) return;
+  pendingTimings.delete(name);
+  emitTiming(name, now() - pending.start, { ...pending.data, ...data });
+}
+
+/** Ends the timing once the next frame has been painted, not merely committed. */
+export function endTimingAfterPaint(name: TimingName, data: Record<string, unknown> = {}): void {
+  if (!pendingTimings.has(name)) return;
+  if (typeof requestAnimationFrame !== 'function') {
+    endTiming(name, data);
+    return;
+  }
+  requestAnimationFrame(() => setTimeout(() => endTiming(name, data), 0));
+}
+
+/** Wraps a dynamic import so the chunk's download and evaluation time is reported once. */
+export function timedImport<T>(chunk: string, load: () => Promise<T>): () => Promise<T> {
+  return () => {
+    const start = now();
+    return load().then((module) => {
+      emitTiming('lazy_chunk', now() - start, { chunk });
+      return module;
+    });
+  };
+}
@@ -1,9 +1,15 @@
+import { EpisodeFocus, parseEpisodeFocusParams } from './episodeFocus';
+import { CompareTarget, parseCompareIds } from './titleComparison';
+import { SearchMode, SearchRefinement, hasSearchRefinement, parseSearchUrlState } from './searchFilters';
+
 export type RouteKind =
   | 'home'
   | 'search'
   | 'movie'
   | 'tv'
   | 'person'
+  | 'collection'
+  | 'compare'
   | 'watchlists'
   | 'settings'
   | 'settings-profile'
@@ -16,8 +22,22 @@ export type ParsedRoute = {
   kind: RouteKind;
   id?: number;
   query?: string;
+  refinement?: SearchRefinement;
+  page?: number;
+  searchMode?: SearchMode;
+  episodeFocus?: EpisodeFocus;
+  compareTargets?: CompareTarget[];
 };
 
+function parseSearchRoute(params: URLSearchParams): ParsedRoute {
+  const state = parseSearchUrlState(params);
+  const route: ParsedRoute = { kind: 'search', query: params.get('q') || '' };
+  if (hasSearchRefinement(state.refinement)) route.refinement = state.refinement;
+  if (state.page > 1) route.page = state.page;
+  if (state.mode) route.searchMode = state.mode;
+  return route;
+}
+
 export function parseAppRoute(pathname: string, search: string): ParsedRoute {
   const normalizedPath = pathname || '/';
   const params = new URLSearchParams(search || '');
@@ -39,7 +59,8 @@ export function parseAppRoute(pathname: string, search: string): ParsedRoute {
     }
     return { kind: 'home' };
   }
-  if (normalizedPath === '/search') return { kind: 'search', query: params.get('q') || '' };
+  if (normalizedPath === '/search') return parseSearchRoute(params);
+  if (normalizedPath === '/compare') return { kind: 'compare', compareTargets: parseCompareIds(params.get('ids')) };
   if (normalizedPath === '/watchlists') return { kind: 'watchlists' };
   if (normalizedPath === '/settings') return { kind: 'settings' };
   if (normalizedPath === '/settings/profile') return { kind: 'settings-profile' };
@@ -51,7 +72,15 @@ export function parseAppRoute(pathname: string, search: string): ParsedRoute {
   if (movieMatch) return { kind: 'movie', id: Number(movieMatch[1]) };
 
   const tvMatch = normalizedPath.match(/^\/tv\/(\d+)$/);
-  if (tvMatch) return { kind: 'tv', id: Number(tvMatch[1]) };
+  if (tvMatch) {
+    const route: ParsedRoute = { kind: 'tv', id: Number(tvMatch[1]) };
+    const episodeFocus = parseEpisodeFocusParams(params);
+    if (episodeFocus) route.episodeFocus = episodeFocus;
+    return route;
+  }
+
+  const collectionMatch = normalizedPath.match(/^\/collection\/(\d+)$/);
+  if (collectionMatch) return { kind: 'collection', id: Number(collectionMatch[1]) };
 
   const personMatch = normalizedPath.match(/^\/person\/(\d+)$/);
   if (personMatch) return { kind: 'person', id: Number(personMatch[1]) };
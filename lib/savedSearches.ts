@@ -0,0 +1,100 @@
+import type { SavedSearch, SearchPageResponse, SearchResult } from '../types';
+import { apiPost } from './apiClient';
+import { SearchUrlState, buildSearchRequestFilters } from './searchFilters';
+import { loadPreferenceSettings } from './userSettings';
+
+export const SAVED_SEARCH_STORAGE_KEY = 'moviemonk_saved_searches_v1';
+const MAX_TRACKED_RESULT_IDS = 200;
+
+export type SavedSearchRun = {
+  search: SavedSearch;
+  results: SearchResult[];
+  newResults: SearchResult[];
+};
+
+export function getSearchResultKey(result: Pick<SearchResult, 'id' | 'media_type'>): string {
+  return `${result.media_type}:${result.id}`;
+}
+
+/**
+ * Results whose key was not seen on the previous run. A search that has never
+ * been run has no baseline, so nothing is reported as new.
+ */
+export function diffSavedSearchResults(search: SavedSearch, results: SearchResult[]): SearchResult[] {
+  if (!search.last_run_at) return [];
+  const seen = new Set(search.last_result_ids);
+  return results.filter((result) => !seen.has(getSearchResultKey(result)));
+}
+
+export function createSavedSearch(name: string, state: Pick<SearchUrlState, 'query' | 'refinement' | 'mode'>): SavedSearch {
+  return {
+    id: crypto.randomUUID(),
+    name: name.trim() || state.query.trim(),
+    query: state.query.trim(),
+    filters: state.refinement.filters,
+    media_type: state.refinement.mediaType,
+    search_mode: state.mode,
+    last_result_ids: [],
+    created_at: new Date().toISOString()
+  };
+}
+
+export function savedSearchToUrlState(search: SavedSearch): SearchUrlState {
+  return {
+    query: search.query,
+    refinement: { filters: search.filters, mediaType: search.media_type },
+    page: 1,
+    mode: search.search_mode
+  };
+}
+
+/**
+ * Re-run a saved search and record the result keys as the new baseline.
+ * Runs skip vibe parsing: its LLM output varies between calls, which would
+ * make the "new since last run" diff noisy even when the catalogue has not changed.
+ */
+export async function runSavedSearch(search: SavedSearch, signal?: AbortSignal): Promise<SavedSearchRun> {
+  const data = await apiPost<SearchPageResponse>(
+    '/api/search',
+    {
+      q: search.query,
+      page: 1,
+      ...buildSearchRequestFilters(savedSearchToUrlState(search).refinement, {
+        familySafe: loadPreferenceSettings().familySafe
+      })
+    },
+    signal
+  );
+  const results = [
+    ...(data.hero ? [data.hero] : []),
+    ...(data.results || []).filter((result) => !data.hero || getSearchResultKey(result) !== getSearchResultKey(data.hero))
+  ];
+
+  return {
+    search: {
+      ...search,
+      last_result_ids: results.map(getSearchResultKey).slice(0, MAX_TRACKED_RESULT_IDS),
+      last_run_at: new Date().toISOString()
+    },
+    results,
+    newResults: diffSavedSearchResults(search, results)
+  };
+}
+
+export function loadLocalSavedSearches(storage: Pick<Storage, 'getItem'> = localStorage): SavedSearch[] {
+  try {
+    const raw = storage.getItem(SAVED_SEARCH_STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? (parsed as SavedSearch[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveLocalSavedSearches(searches: SavedSearch[], storage: Pick<Storage, 'setItem'> = localStorage): void {
+  try {
+    storage.setItem(SAVED_SEARCH_STORAGE_KEY, JSON.stringify(searches));
+  } catch {
+    // storage full – silent
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * Lenient runtime schemas for backend payloads.
+ *
+ * Parsing never throws. Like `sanitizeMovieData`, values of the wrong type are
+ * coerced where that is safe (numeric strings, numbers as strings) and
+ * replaced with a fallback otherwise, so components always receive the shape
+ * they were typed against. Every mismatch is recorded as an issue with the
+ * path of the offending field, e.g. `results[3].media_type`.
+ */
+
+export type SchemaIssue = {
+  path: string;
+  expected: string;
+  received: string;
+};
+
+export type Schema<T> = {
+  expected: string;
+  /** Alternative keys read when the primary key is absent, e.g. a snake_case spelling. */
+  aliases?: string[];
+  parse(value: unknown, path: string, issues: SchemaIssue[]): T;
+};
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+export function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function report(issues: SchemaIssue[], path: string, expected: string, value: unknown): void {
+  issues.push({ path: path || '(root)', expected, received: describeValue(value) });
+}
+
+export function string(fallback = ''): Schema<string> {
+  return {
+    expected: 'string',
+    parse(value, path, issues) {
+      if (typeof value === 'string') return value;
+      report(issues, path, 'string', value);
+      return typeof value === 'number' || typeof value === 'boolean' ? String(value) : fallback;
+    }
+  };
+}
+
+export function number(fallback = 0): Schema<number> {
+  return {
+    expected: 'number',
+    parse(value, path, issues) {
+      if (typeof value === 'number' && Number.isFinite(value)) return value;
+      report(issues, path, 'number', value);
+      const coerced = typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+      return Number.isFinite(coerced) ? coerced : fallback;
+    }
+  };
+}
+
+export function boolean(fallback = false): Schema<boolean> {
+  return {
+    expected: 'boolean',
+    parse(value, path, issues) {
+      if (typeof value === 'boolean') return value;
+      report(issues, path, 'boolean', value);
+      if (value === 'true' || value === 1) return true;
+      if (value === 'false' || value === 0) return false;
+      return fallback;
+    }
+  };
+}
+
+/** One of a fixed set of strings; anything else becomes `fallback`. */
+export function oneOf<const V extends string>(values: readonly V[], fallback: V): Schema<V> {
+  const expected = values.map((value) => `'${value}'`).join(' | ');
+  return {
+    expected,
+    parse(value, path, issues) {
+      if (typeof value === 'string' && (values as readonly string[]).includes(value)) return value as V;
+      report(issues, path, expected, value);
+      return fallback;
+    }
+  };
+}
+
+/** Anything goes; for pass-through blobs the client does not interpret. */
+export function unknownValue(): Schema<unknown> {
+  return { expected: 'unknown', parse: (value) => value };
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  const expected = `${item.expected}[]`;
+  return {
+    expected,
+    parse(value, path, issues) {
+      if (!Array.isArray(value)) {
+        report(issues, path, expected, value);
+        return [];
+      }
+      return value.map((entry, index) => item.parse(entry, `${path}[${index}]`, issues));
+    }
+  };
+}
+
+/** Absent (`undefined` or `null`) is fine and yields `undefined`. */
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    expected: `${schema.expected} | undefined`,
+    aliases: schema.aliases,
+    parse: (value, path, issues) => (value == null ? undefined : schema.parse(value, path, issues))
+  };
+}
+
+/** Absent (`undefined` or `null`) is fine and yields `null`. */
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return {
+    expected: `${schema.expected} | null`,
+    aliases: schema.aliases,
+    parse: (value, path, issues) => (value == null ? null : schema.parse(value, path, issues))
+  };
+}
+
+/** Reads the field from one of `names` when its own key is missing. */
+export function alias<T>(schema: Schema<T>, ...names: string[]): Schema<T> {
+  return { ...schema, aliases: [...(schema.aliases || []), ...names] };
+}
+
+type Shape = Record<string, Schema<unknown>>;
+
+/**
+ * Known fields are parsed and replaced; unknown fields are kept as they are,
+ * so a backend may add fields without tripping validation.
+ */
+export function object<S extends Shape>(shape: S): Schema<{ [K in keyof S]: Infer<S[K]> }> {
+  return {
+    expected: 'object',
+    parse(value, path, issues) {
+      const isObject = Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+      if (!isObject) report(issues, path, 'object', value);
+      const input = (isObject ? value : {}) as Record<string, unknown>;
+      const output: Record<string, unknown> = { ...input };
+
+      Object.entries(shape).forEach(([key, field]) => {
+        let raw = input[key];
+        if (raw === undefined && field.aliases) {
+          const found = field.aliases.find((name) => input[name] !== undefined);
+          if (found) raw = input[found];
+        }
+        const parsed = field.parse(raw, path ? `${path}.${key}` : key, issues);
+        if (parsed === undefined) delete output[key];
+        else output[key] = parsed;
+      });
+
+      return output as { [K in keyof S]: Infer<S[K]> };
+    }
+  };
+}
+
+export function parseWithSchema<T>(schema: Schema<T>, value: unknown): { value: T; issues: SchemaIssue[] } {
+  const issues: SchemaIssue[] = [];
+  return { value: schema.parse(value, '', issues), issues };
+}
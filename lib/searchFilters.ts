@@ -0,0 +1,215 @@
+import type { SearchFilters } from '../types';
+
+export type SearchMediaType = 'all' | 'movie' | 'tv';
+
+export type SearchRefinement = {
+  filters: SearchFilters;
+  mediaType: SearchMediaType;
+};
+
+export const EMPTY_SEARCH_REFINEMENT: SearchRefinement = {
+  filters: {},
+  mediaType: 'all'
+};
+
+/** Count only meaningful filter values (non-empty arrays, defined numbers/strings) */
+export function getActiveFilterCount(filters: SearchFilters): number {
+  let count = 0;
+  if (Array.isArray(filters.genres) && filters.genres.length > 0) count++;
+  if (filters.yearMin !== undefined) count++;
+  if (filters.yearMax !== undefined) count++;
+  if (filters.ratingMin !== undefined) count++;
+  if (Array.isArray(filters.languages) && filters.languages.length > 0) count++;
+  if (filters.sortBy) count++;
+  if (filters.runtimeMin !== undefined) count++;
+  if (filters.runtimeMax !== undefined) count++;
+  if (parsePersonIds(filters.withCast).length > 0) count++;
+  if (parsePersonIds(filters.withCrew).length > 0) count++;
+  if (filters.status) count++;
+  if (filters.includeAdult) count++;
+  return count;
+}
+
+/** `withCast` / `withCrew` hold TMDB person ids as a comma-separated string. */
+export function parsePersonIds(value?: string): number[] {
+  if (!value) return [];
+  return Array.from(new Set(
+    value
+      .split(/[,|]/)
+      .map((part) => Number(part.trim()))
+      .filter((id) => Number.isInteger(id) && id > 0)
+  ));
+}
+
+export function formatPersonIds(ids: number[]): string | undefined {
+  return ids.length > 0 ? ids.join(',') : undefined;
+}
+
+export function hasSearchRefinement(refinement: SearchRefinement): boolean {
+  return refinement.mediaType !== 'all' || getActiveFilterCount(refinement.filters) > 0;
+}
+
+/**
+ * Map filters onto the `/api/search` request body. Keys mirror the backend
+ * `SearchRequest` model (server/app/models/search.py); genres, languages and
+ * person ids travel as comma-separated lists. Family-safe mode drops the adult
+ * filter here, whatever URL, saved search or panel state it came from.
+ */
+export function buildSearchRequestFilters(
+  refinement: SearchRefinement,
+  options: { familySafe?: boolean } = {}
+): Record<string, unknown> {
+  const { filters, mediaType } = refinement;
+  const body: Record<string, unknown> = {};
+
+  if (mediaType !== 'all') body.type = mediaType;
+  if (filters.genres && filters.genres.length > 0) body.genres = filters.genres.join(',');
+  if (typeof filters.yearMin === 'number') body.yearMin = filters.yearMin;
+  if (typeof filters.yearMax === 'number') body.yearMax = filters.yearMax;
+  if (typeof filters.ratingMin === 'number') body.ratingMin = filters.ratingMin;
+  if (filters.languages && filters.languages.length > 0) body.languages = filters.languages.join(',');
+  if (filters.sortBy) body.sortBy = filters.sortBy;
+  if (typeof filters.runtimeMin === 'number') body.runtimeMin = filters.runtimeMin;
+  if (typeof filters.runtimeMax === 'number') body.runtimeMax = filters.runtimeMax;
+  if (parsePersonIds(filters.withCast).length > 0) body.withCast = filters.withCast;
+  if (parsePersonIds(filters.withCrew).length > 0) body.withCrew = filters.withCrew;
+  // TMDB only tracks production status for series.
+  if (filters.status && mediaType === 'tv') body.status = filters.status;
+  if (filters.includeAdult && !options.familySafe) body.includeAdult = true;
+
+  return body;
+}
+
+export type SearchMode = 'keyword' | 'vibe';
+
+export type SearchUrlState = {
+  query: string;
+  refinement: SearchRefinement;
+  page: number;
+  mode?: SearchMode;
+};
+
+/** Sort orders the backend search handler implements. */
+export const SEARCH_SORT_VALUES: ReadonlySet<NonNullable<SearchFilters['sortBy']>> = new Set<NonNullable<SearchFilters['sortBy']>>([
+  'popularity.desc',
+  'vote_average.desc',
+  'release_date.desc',
+  'title.asc'
+]);
+const STATUS_VALUES = new Set<NonNullable<SearchFilters['status']>>([
+  'returning',
+  'planned',
+  'in_production',
+  'ended',
+  'cancelled'
+]);
+const MAX_SEARCH_PAGE = 500;
+
+function readInt(params: URLSearchParams, key: string, min: number, max: number): number | undefined {
+  const raw = params.get(key);
+  if (!raw || !/^\d+$/.test(raw)) return undefined;
+  const value = Number(raw);
+  return value >= min && value <= max ? value : undefined;
+}
+
+function readNumber(params: URLSearchParams, key: string, min: number, max: number): number | undefined {
+  const raw = params.get(key);
+  if (!raw || !/^\d+(\.\d+)?$/.test(raw)) return undefined;
+  const value = Number(raw);
+  return value >= min && value <= max ? value : undefined;
+}
+
+function readList(params: URLSearchParams, key: string, pattern: RegExp): string[] | undefined {
+  const raw = params.get(key);
+  if (!raw) return undefined;
+  const values = Array.from(new Set(raw.split(',').map((part) => part.trim().toLowerCase()).filter((part) => pattern.test(part))));
+  return values.length > 0 ? values : undefined;
+}
+
+/**
+ * Restore refinement, page and mode from a search query string.
+ * Unknown keys and malformed values are dropped rather than rejected.
+ */
+export function parseSearchUrlState(search: string | URLSearchParams): SearchUrlState {
+  const params = typeof search === 'string' ? new URLSearchParams(search) : search;
+  const filters: SearchFilters = {};
+
+  const genres = readList(params, 'genres', /^\d{1,6}$/);
+  if (genres) filters.genres = genres.map(Number);
+
+  const yearMin = readInt(params, 'yearMin', 1800, 2100);
+  const yearMax = readInt(params, 'yearMax', 1800, 2100);
+  if (yearMin !== undefined) filters.yearMin = yearMin;
+  if (yearMax !== undefined && (yearMin === undefined || yearMax >= yearMin)) filters.yearMax = yearMax;
+
+  const ratingMin = readNumber(params, 'rating', 0, 10);
+  if (ratingMin !== undefined) filters.ratingMin = ratingMin;
+
+  const languages = readList(params, 'lang', /^[a-z]{2}$/);
+  if (languages) filters.languages = languages;
+
+  const sortBy = params.get('sort');
+  if (sortBy && SEARCH_SORT_VALUES.has(sortBy as NonNullable<SearchFilters['sortBy']>)) {
+    filters.sortBy = sortBy as SearchFilters['sortBy'];
+  }
+
+  const runtimeMin = readInt(params, 'runtimeMin', 0, 1000);
+  const runtimeMax = readInt(params, 'runtimeMax', 1, 1000);
+  if (runtimeMin !== undefined && runtimeMin > 0) filters.runtimeMin = runtimeMin;
+  if (runtimeMax !== undefined && (runtimeMin === undefined || runtimeMax >= runtimeMin)) filters.runtimeMax = runtimeMax;
+
+  const withCast = formatPersonIds(parsePersonIds(params.get('cast') || undefined));
+  if (withCast) filters.withCast = withCast;
+  const withCrew = formatPersonIds(parsePersonIds(params.get('crew') || undefined));
+  if (withCrew) filters.withCrew = withCrew;
+
+  const rawType = params.get('type');
+  const mediaType: SearchMediaType = rawType === 'movie' || rawType === 'tv' ? rawType : 'all';
+
+  const status = params.get('status');
+  if (mediaType === 'tv' && status && STATUS_VALUES.has(status as NonNullable<SearchFilters['status']>)) {
+    filters.status = status as SearchFilters['status'];
+  }
+
+  if (params.get('adult') === '1') filters.includeAdult = true;
+
+  const rawMode = params.get('mode');
+  const mode: SearchMode | undefined = rawMode === 'keyword' || rawMode === 'vibe' ? rawMode : undefined;
+
+  return {
+    query: (params.get('q') || '').trim(),
+    refinement: { filters, mediaType },
+    page: readInt(params, 'page', 1, MAX_SEARCH_PAGE) || 1,
+    mode
+  };
+}
+
+export function buildSearchQueryString(state: SearchUrlState): string {
+  const { filters, mediaType } = state.refinement;
+  const params = new URLSearchParams();
+
+  params.set('q', state.query.trim());
+  if (mediaType !== 'all') params.set('type', mediaType);
+  if (filters.genres && filters.genres.length > 0) params.set('genres', filters.genres.join(','));
+  if (filters.yearMin !== undefined) params.set('yearMin', String(filters.yearMin));
+  if (filters.yearMax !== undefined) params.set('yearMax', String(filters.yearMax));
+  if (filters.ratingMin !== undefined) params.set('rating', String(filters.ratingMin));
+  if (filters.languages && filters.languages.length > 0) params.set('lang', filters.languages.join(','));
+  if (filters.sortBy) params.set('sort', filters.sortBy);
+  if (filters.runtimeMin !== undefined) params.set('runtimeMin', String(filters.runtimeMin));
+  if (filters.runtimeMax !== undefined) params.set('runtimeMax', String(filters.runtimeMax));
+  const cast = formatPersonIds(parsePersonIds(filters.withCast));
+  if (cast) params.set('cast', cast);
+  const crew = formatPersonIds(parsePersonIds(filters.withCrew));
+  if (crew) params.set('crew', crew);
+  if (filters.status && mediaType === 'tv') params.set('status', filters.status);
+  if (filters.includeAdult) params.set('adult', '1');
+  if (state.mode) params.set('mode', state.mode);
+  if (state.page > 1) params.set('page', String(Math.min(state.page, MAX_SEARCH_PAGE)));
+
+  return params.toString();
+}
+
+export function buildSearchPath(state: SearchUrlState): string {
+  return `/search?${buildSearchQueryString(state)}`;
+}
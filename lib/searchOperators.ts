@@ -0,0 +1,423 @@
+import type { DiscoveryGenre, SearchFilters } from '../types';
+import { EMPTY_SEARCH_REFINEMENT, SearchMediaType, SearchRefinement, parsePersonIds } from './searchFilters';
+
+/**
+ * Inline search operators for power users, e.g.
+ *   "heist genre:thriller year:1990..1999 lang:ko rating:>7 runtime:<100 type:tv sort:rating"
+ * Recognised operators compile into a SearchRefinement; everything else stays free text
+ * so it can still flow through parseQuery / the vibe parser.
+ */
+
+export type SearchOperatorKey = 'genre' | 'year' | 'lang' | 'rating' | 'runtime' | 'type' | 'sort';
+
+export type SearchFilterChipKey =
+  | 'genres'
+  | 'year'
+  | 'rating'
+  | 'languages'
+  | 'runtime'
+  | 'sortBy'
+  | 'withCast'
+  | 'withCrew'
+  | 'status'
+  | 'includeAdult'
+  | 'mediaType';
+
+export interface SearchFilterChip {
+  key: SearchFilterChipKey;
+  label: string;
+}
+
+export interface ParsedSearchOperators {
+  text: string;
+  refinement: SearchRefinement;
+  operators: SearchOperatorKey[];
+}
+
+type ParseOptions = {
+  genres?: DiscoveryGenre[];
+  /** Only consume operators followed by whitespace, so a half-typed `year:19` is left alone. */
+  completedOnly?: boolean;
+};
+
+const OPERATOR_ALIASES: Record<string, SearchOperatorKey> = {
+  genre: 'genre',
+  genres: 'genre',
+  g: 'genre',
+  year: 'year',
+  years: 'year',
+  y: 'year',
+  lang: 'lang',
+  language: 'lang',
+  rating: 'rating',
+  rated: 'rating',
+  runtime: 'runtime',
+  length: 'runtime',
+  type: 'type',
+  is: 'type',
+  sort: 'sort',
+  order: 'sort'
+};
+
+// TMDB genre ids are stable; used when the genre list has not loaded yet.
+const FALLBACK_GENRES: DiscoveryGenre[] = [
+  { id: 28, name: 'Action' },
+  { id: 12, name: 'Adventure' },
+  { id: 16, name: 'Animation' },
+  { id: 35, name: 'Comedy' },
+  { id: 80, name: 'Crime' },
+  { id: 99, name: 'Documentary' },
+  { id: 18, name: 'Drama' },
+  { id: 10751, name: 'Family' },
+  { id: 14, name: 'Fantasy' },
+  { id: 36, name: 'History' },
+  { id: 27, name: 'Horror' },
+  { id: 10402, name: 'Music' },
+  { id: 9648, name: 'Mystery' },
+  { id: 10749, name: 'Romance' },
+  { id: 878, name: 'Science Fiction' },
+  { id: 53, name: 'Thriller' },
+  { id: 10752, name: 'War' },
+  { id: 37, name: 'Western' }
+];
+
+const GENRE_ALIASES: Record<string, string> = {
+  scifi: 'science fiction',
+  'sci fi': 'science fiction',
+  'sci-fi': 'science fiction',
+  romcom: 'romance',
+  suspense: 'thriller',
+  kids: 'family',
+  docs: 'documentary',
+  doc: 'documentary',
+  animated: 'animation',
+  anime: 'animation'
+};
+
+const LANGUAGE_NAMES: Record<string, string> = {
+  english: 'en',
+  spanish: 'es',
+  french: 'fr',
+  german: 'de',
+  italian: 'it',
+  japanese: 'ja',
+  korean: 'ko',
+  chinese: 'zh',
+  mandarin: 'zh',
+  russian: 'ru',
+  hindi: 'hi',
+  arabic: 'ar',
+  portuguese: 'pt',
+  tamil: 'ta',
+  telugu: 'te',
+  malayalam: 'ml'
+};
+
+const SORT_ALIASES: Record<string, NonNullable<SearchFilters['sortBy']>> = {
+  rating: 'vote_average.desc',
+  rated: 'vote_average.desc',
+  top: 'vote_average.desc',
+  popular: 'popularity.desc',
+  popularity: 'popularity.desc',
+  new: 'release_date.desc',
+  newest: 'release_date.desc',
+  recent: 'release_date.desc',
+  date: 'release_date.desc',
+  title: 'title.asc',
+  az: 'title.asc',
+  'a-z': 'title.asc'
+};
+
+const SORT_LABELS: Record<NonNullable<SearchFilters['sortBy']>, string> = {
+  'popularity.desc': 'Most popular',
+  'vote_average.desc': 'Highest rated',
+  'release_date.desc': 'Newest',
+  'title.asc': 'Title A-Z'
+};
+
+export const STATUS_LABELS: Record<NonNullable<SearchFilters['status']>, string> = {
+  returning: 'Returning series',
+  planned: 'Planned',
+  in_production: 'In production',
+  ended: 'Ended',
+  cancelled: 'Cancelled'
+};
+
+const OPERATOR_TOKEN = /(^|\s)([a-z]+):("[^"]*"|\S+)(?=\s|$)/gi;
+
+type Bound = { min?: number; max?: number };
+
+/** `step` turns strict comparisons into inclusive bounds for integer values such as years. */
+function parseBound(raw: string, step = 0): Bound | null {
+  const value = raw.trim();
+  const range = value.match(/^(\d+(?:\.\d+)?)\s*(?:\.\.|-|to)\s*(\d+(?:\.\d+)?)$/i);
+  if (range) {
+    const a = Number(range[1]);
+    const b = Number(range[2]);
+    return { min: Math.min(a, b), max: Math.max(a, b) };
+  }
+  const comparison = value.match(/^(>=|<=|>|<)(\d+(?:\.\d+)?)$/);
+  if (comparison) {
+    const n = Number(comparison[2]);
+    if (comparison[1] === '>') return { min: n + step };
+    if (comparison[1] === '>=') return { min: n };
+    if (comparison[1] === '<') return { max: n - step };
+    return { max: n };
+  }
+  const openRange = value.match(/^(\d+(?:\.\d+)?)(\+|\.\.)$/);
+  if (openRange) return { min: Number(openRange[1]) };
+  if (/^\d+(?:\.\d+)?$/.test(value)) {
+    const n = Number(value);
+    return { min: n, max: n };
+  }
+  return null;
+}
+
+function normalizeGenreName(input: string): string {
+  const cleaned = input.toLowerCase().replace(/[_-]+/g, ' ').replace(/\s+/g, ' ').trim();
+  return GENRE_ALIASES[cleaned] || GENRE_ALIASES[input.toLowerCase()] || cleaned;
+}
+
+/** Looks a genre up by name or alias in the stable TMDB movie genre list. */
+export function findGenreByName(name: string): DiscoveryGenre | undefined {
+  const wanted = normalizeGenreName(name);
+  return FALLBACK_GENRES.find((genre) => genre.name.toLowerCase() === wanted);
+}
+
+export function findGenreName(id: number): string | undefined {
+  return FALLBACK_GENRES.find((genre) => genre.id === id)?.name;
+}
+
+/** "English" or "en" → "en"; unknown names → undefined. */
+export function languageCodeForName(name: string): string | undefined {
+  const value = name.trim().toLowerCase();
+  if (LANGUAGE_NAMES[value]) return LANGUAGE_NAMES[value];
+  return /^[a-z]{2}$/.test(value) ? value : undefined;
+}
+
+function resolveGenreIds(raw: string, genres: DiscoveryGenre[]): number[] | null {
+  const catalog = genres.length > 0 ? genres : FALLBACK_GENRES;
+  const ids: number[] = [];
+  for (const part of raw.split(',').map((entry) => entry.trim()).filter(Boolean)) {
+    if (/^\d+$/.test(part)) {
+      ids.push(Number(part));
+      continue;
+    }
+    const wanted = normalizeGenreName(part);
+    const match = catalog.find((genre) => genre.name.toLowerCase() === wanted)
+      || FALLBACK_GENRES.find((genre) => genre.name.toLowerCase() === wanted);
+    if (!match) return null;
+    ids.push(match.id);
+  }
+  return ids.length > 0 ? ids : null;
+}
+
+function resolveLanguages(raw: string): string[] | null {
+  const codes: string[] = [];
+  for (const part of raw.toLowerCase().split(',').map((entry) => entry.trim()).filter(Boolean)) {
+    if (LANGUAGE_NAMES[part]) {
+      codes.push(LANGUAGE_NAMES[part]);
+    } else if (/^[a-z]{2}$/.test(part)) {
+      codes.push(part);
+    } else {
+      return null;
+    }
+  }
+  return codes.length > 0 ? codes : null;
+}
+
+function resolveMediaType(raw: string): SearchMediaType | null {
+  const value = raw.toLowerCase();
+  if (['tv', 'show', 'shows', 'series'].includes(value)) return 'tv';
+  if (['movie', 'movies', 'film', 'films'].includes(value)) return 'movie';
+  if (value === 'all' || value === 'any') return 'all';
+  return null;
+}
+
+function mergeUnique<T>(current: T[] | undefined, next: T[]): T[] {
+  return Array.from(new Set([...(current || []), ...next]));
+}
+
+/**
+ * Apply one operator to a refinement. Returns null when the value is not understood,
+ * in which case the caller keeps the token as free text.
+ */
+function applyOperator(
+  key: SearchOperatorKey,
+  rawValue: string,
+  refinement: SearchRefinement,
+  genres: DiscoveryGenre[]
+): SearchRefinement | null {
+  const value = rawValue.replace(/^"|"$/g, '').trim();
+  if (!value) return null;
+  const filters: SearchFilters = { ...refinement.filters };
+
+  switch (key) {
+    case 'genre': {
+      const ids = resolveGenreIds(value, genres);
+      if (!ids) return null;
+      filters.genres = mergeUnique(filters.genres, ids);
+      break;
+    }
+    case 'year': {
+      const bound = parseBound(value, 1);
+      if (!bound) return null;
+      const isYear = (n?: number) => n === undefined || (Number.isInteger(n) && n >= 1800 && n <= 2100);
+      if (!isYear(bound.min) || !isYear(bound.max)) return null;
+      filters.yearMin = bound.min;
+      filters.yearMax = bound.max;
+      break;
+    }
+    case 'lang': {
+      const codes = resolveLanguages(value);
+      if (!codes) return null;
+      filters.languages = mergeUnique(filters.languages, codes);
+      break;
+    }
+    case 'rating': {
+      const bound = parseBound(value);
+      if (!bound || bound.min === undefined || bound.min < 0 || bound.min > 10) return null;
+      filters.ratingMin = bound.min;
+      break;
+    }
+    case 'runtime': {
+      const bound = parseBound(value);
+      if (!bound) return null;
+      // A bare number reads as "at most", e.g. runtime:100.
+      filters.runtimeMin = bound.min !== bound.max ? bound.min : undefined;
+      filters.runtimeMax = bound.max;
+      break;
+    }
+    case 'type': {
+      const mediaType = resolveMediaType(value);
+      if (!mediaType) return null;
+      return { filters, mediaType };
+    }
+    case 'sort': {
+      const sortBy = SORT_ALIASES[value.toLowerCase()];
+      if (!sortBy) return null;
+      filters.sortBy = sortBy;
+      break;
+    }
+  }
+
+  return { filters, mediaType: refinement.mediaType };
+}
+
+export function parseSearchOperators(
+  input: string,
+  base: SearchRefinement = EMPTY_SEARCH_REFINEMENT,
+  options: ParseOptions = {}
+): ParsedSearchOperators {
+  const genres = options.genres || [];
+  let refinement: SearchRefinement = { filters: { ...base.filters }, mediaType: base.mediaType };
+  const operators: SearchOperatorKey[] = [];
+  const source = input || '';
+
+  const text = source.replace(OPERATOR_TOKEN, (token, lead: string, rawKey: string, rawValue: string, offset: number) => {
+    const key = OPERATOR_ALIASES[rawKey.toLowerCase()];
+    if (!key) return token;
+    if (options.completedOnly && offset + token.length >= source.length) return token;
+
+    const next = applyOperator(key, rawValue, refinement, genres);
+    if (!next) return token;
+    refinement = next;
+    operators.push(key);
+    return lead;
+  });
+
+  return {
+    text: operators.length > 0 ? text.replace(/\s+/g, ' ').trim() : source,
+    refinement,
+    operators
+  };
+}
+
+function formatBound(min: number | undefined, max: number | undefined, unit = ''): string {
+  if (min !== undefined && max !== undefined) {
+    return min === max ? `${min}${unit}` : `${min}-${max}${unit}`;
+  }
+  if (min !== undefined) return `${min}${unit}+`;
+  return `under ${max}${unit}`;
+}
+
+/** Describe the active refinement as removable chips, in a stable order. */
+export function describeSearchRefinement(
+  refinement: SearchRefinement,
+  genres: DiscoveryGenre[] = []
+): SearchFilterChip[] {
+  const { filters, mediaType } = refinement;
+  const chips: SearchFilterChip[] = [];
+
+  if (mediaType !== 'all') {
+    chips.push({ key: 'mediaType', label: mediaType === 'tv' ? 'TV shows' : 'Movies' });
+  }
+  if (filters.genres && filters.genres.length > 0) {
+    const catalog = [...genres, ...FALLBACK_GENRES];
+    const names = filters.genres.map((id) => catalog.find((genre) => genre.id === id)?.name || `#${id}`);
+    chips.push({ key: 'genres', label: names.join(', ') });
+  }
+  if (filters.yearMin !== undefined || filters.yearMax !== undefined) {
+    const label = filters.yearMax === undefined
+      ? `${filters.yearMin}+`
+      : filters.yearMin === undefined
+        ? `Up to ${filters.yearMax}`
+        : formatBound(filters.yearMin, filters.yearMax);
+    chips.push({ key: 'year', label });
+  }
+  if (filters.ratingMin !== undefined) {
+    chips.push({ key: 'rating', label: `Rated ${filters.ratingMin}+` });
+  }
+  if (filters.languages && filters.languages.length > 0) {
+    chips.push({ key: 'languages', label: filters.languages.map((code) => code.toUpperCase()).join(', ') });
+  }
+  if (filters.runtimeMin !== undefined || filters.runtimeMax !== undefined) {
+    chips.push({ key: 'runtime', label: formatBound(filters.runtimeMin, filters.runtimeMax, ' min') });
+  }
+  const castCount = parsePersonIds(filters.withCast).length;
+  if (castCount > 0) {
+    chips.push({ key: 'withCast', label: castCount === 1 ? 'Cast: 1 person' : `Cast: ${castCount} people` });
+  }
+  const crewCount = parsePersonIds(filters.withCrew).length;
+  if (crewCount > 0) {
+    chips.push({ key: 'withCrew', label: crewCount === 1 ? 'Crew: 1 person' : `Crew: ${crewCount} people` });
+  }
+  if (filters.status) {
+    chips.push({ key: 'status', label: STATUS_LABELS[filters.status] });
+  }
+  if (filters.includeAdult) {
+    chips.push({ key: 'includeAdult', label: 'Including adult' });
+  }
+  if (filters.sortBy) {
+    chips.push({ key: 'sortBy', label: SORT_LABELS[filters.sortBy] });
+  }
+
+  return chips;
+}
+
+export function removeSearchRefinementChip(
+  refinement: SearchRefinement,
+  key: SearchFilterChipKey
+): SearchRefinement {
+  const filters: SearchFilters = { ...refinement.filters };
+
+  switch (key) {
+    case 'mediaType':
+      return { filters, mediaType: 'all' };
+    case 'year':
+      delete filters.yearMin;
+      delete filters.yearMax;
+      break;
+    case 'rating':
+      delete filters.ratingMin;
+      break;
+    case 'runtime':
+      delete filters.runtimeMin;
+      delete filters.runtimeMax;
+      break;
+    default:
+      delete filters[key];
+  }
+
+  return { filters, mediaType: refinement.mediaType };
+}
@@ -7,6 +7,8 @@
  * TTL: 30 minutes. Entries older than that are treated as misses and evicted.
  */
 
+import { recordCacheLookup } from './cacheStats';
+
 const TTL_MS = 30 * 60 * 1000; // 30 minutes
 
 interface CacheEntry<T> {
@@ -30,6 +32,12 @@ export function cacheSet<T>(namespace: string, id: string, data: T): void {
 
 /** Read a value from sessionStorage cache. Returns null on miss or expiry. */
 export function cacheGet<T>(namespace: string, id: string): T | null {
+  const data = readEntry<T>(namespace, id);
+  recordCacheLookup('sessionCache', data !== null);
+  return data;
+}
+
+function readEntry<T>(namespace: string, id: string): T | null {
   try {
     const raw = sessionStorage.getItem(storageKey(namespace, id));
     if (!raw) return null;
@@ -0,0 +1,171 @@
+/**
+ * Stale-while-revalidate cache over `apiGet`.
+ *
+ * Opt-in: only callers that go through `swrGet` (or `useApiResource`) are
+ * cached. A fresh entry is returned as is; a stale one is returned right away
+ * while a background refresh runs, and subscribers are notified when it lands.
+ * Entries past `maxStaleMs` are treated as misses. Memory only, per page load.
+ */
+
+import { apiGet, ApiQueryParams, buildApiGetUrl } from './apiClient';
+import { recordCacheLookup } from './cacheStats';
+
+export type SwrPolicy = {
+  /** Served without revalidating for this long. */
+  ttlMs: number;
+  /** Served (with a background refresh) until this age; older entries are refetched first. */
+  maxStaleMs: number;
+};
+
+const MINUTE = 60_000;
+
+/** Keyed by API path; paths not listed use `DEFAULT_SWR_POLICY`. */
+export const SWR_ENDPOINT_POLICIES: Record<string, SwrPolicy> = {
+  '/api/tmdb': { ttlMs: 5 * MINUTE, maxStaleMs: 60 * MINUTE },
+  '/api/resolve': { ttlMs: 30 * MINUTE, maxStaleMs: 24 * 60 * MINUTE },
+  '/api/omdb': { ttlMs: 60 * MINUTE, maxStaleMs: 24 * 60 * MINUTE },
+  '/api/suggest': { ttlMs: MINUTE, maxStaleMs: 10 * MINUTE }
+};
+
+export const DEFAULT_SWR_POLICY: SwrPolicy = { ttlMs: MINUTE, maxStaleMs: 10 * MINUTE };
+
+const MAX_ENTRIES = 300;
+
+export type SwrSnapshot<T> = {
+  data: T | undefined;
+  /** Last fetch error; cleared by the next success. */
+  error: unknown;
+  fetchedAt: number | null;
+  isValidating: boolean;
+};
+
+type SwrEntry = {
+  data?: unknown;
+  hasData: boolean;
+  error?: unknown;
+  fetchedAt: number | null;
+  revalidation: Promise<unknown> | null;
+};
+
+const entries = new Map<string, SwrEntry>();
+const listeners = new Map<string, Set<() => void>>();
+let now: () => number = Date.now;
+
+export function swrKey(path: string, params?: ApiQueryParams): string {
+  return buildApiGetUrl(path, params);
+}
+
+export function getSwrPolicy(path: string): SwrPolicy {
+  return SWR_ENDPOINT_POLICIES[path] || DEFAULT_SWR_POLICY;
+}
+
+function notify(key: string): void {
+  listeners.get(key)?.forEach((listener) => listener());
+}
+
+function getEntry(key: string): SwrEntry {
+  let entry = entries.get(key);
+  if (entry) {
+    // Re-insert so Map order doubles as least-recently-used order.
+    entries.delete(key);
+  } else {
+    entry = { hasData: false, fetchedAt: null, revalidation: null };
+  }
+  entries.set(key, entry);
+  if (entries.size > MAX_ENTRIES) {
+    const oldest = entries.keys().next().value;
+    if (oldest !== undefined && oldest !== key) entries.delete(oldest);
+  }
+  return entry;
+}
+
+function revalidate<T>(key: string, path: string, params: ApiQueryParams | undefined, entry: SwrEntry): Promise<T> {
+  if (entry.revalidation) return entry.revalidation as Promise<T>;
+
+  const request = apiGet<T>(path, params)
+    .then((data) => {
+      entry.data = data;
+      entry.hasData = true;
+      entry.error = undefined;
+      entry.fetchedAt = now();
+      return data;
+    })
+    .catch((error) => {
+      entry.error = error;
+      throw error;
+    })
+    .finally(() => {
+      entry.revalidation = null;
+      notify(key);
+    });
+
+  entry.revalidation = request;
+  notify(key);
+  return request;
+}
+
+/**
+ * `apiGet` through the cache. Resolves from cache when the entry is within
+ * `maxStaleMs`, revalidating in the background once it is past `ttlMs`.
+ */
+export function swrGet<T>(path: string, params?: ApiQueryParams, policy?: Partial<SwrPolicy>): Promise<T> {
+  const { ttlMs, maxStaleMs } = { ...getSwrPolicy(path), ...policy };
+  const key = swrKey(path, params);
+  const entry = getEntry(key);
+  const age = entry.fetchedAt === null ? Infinity : now() - entry.fetchedAt;
+
+  if (entry.hasData && age <= maxStaleMs) {
+    recordCacheLookup('swrCache', true);
+    if (age > ttlMs) {
+      revalidate(key, path, params, entry).catch(() => undefined);
+    }
+    return Promise.resolve(entry.data as T);
+  }
+
+  recordCacheLookup('swrCache', false);
+  return revalidate<T>(key, path, params, entry);
+}
+
+export function getSwrSnapshot<T>(key: string): SwrSnapshot<T> {
+  const entry = entries.get(key);
+  return {
+    data: entry?.hasData ? (entry.data as T) : undefined,
+    error: entry?.error,
+    fetchedAt: entry?.fetchedAt ?? null,
+    isValidating: Boolean(entry?.revalidation)
+  };
+}
+
+/** Called whenever the entry under `key` starts or finishes a fetch. */
+export function subscribeSwr(key: string, listener: () => void): () => void {
+  let set = listeners.get(key);
+  if (!set) {
+    set = new Set();
+    listeners.set(key, set);
+  }
+  set.add(listener);
+  return () => {
+    set!.delete(listener);
+    if (set!.size === 0) listeners.delete(key);
+  };
+}
+
+/**
+ * Marks entries stale so the next read refetches; data stays visible meanwhile.
+ * With params only that exact request, with just a path every request to it,
+ * with neither the whole cache.
+ */
+export function invalidateSwr(path?: string, params?: ApiQueryParams): void {
+  const target = path ? swrKey(path, params) : '';
+  entries.forEach((entry, key) => {
+    if (!target || key === target || (!params && key.startsWith(`${target}?`))) {
+      entry.fetchedAt = null;
+    }
+  });
+}
+
+/** Test hook: drop every entry and optionally swap the clock. */
+export function resetSwrCache(clock: () => number = Date.now): void {
+  entries.clear();
+  now = clock;
+}
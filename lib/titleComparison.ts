@@ -0,0 +1,204 @@
+import type { Rating, WatchOption } from '../types';
+import type { QuickSaveTitle } from './quickSave';
+
+export const MAX_COMPARE_TITLES = 3;
+export const COMPARE_TRAY_STORAGE_KEY = 'moviemonk_compare_tray_v1';
+export const COMPARE_TRAY_EVENT = 'moviemonk:compare-tray-updated';
+
+export type CompareTarget = Pick<QuickSaveTitle, 'id' | 'media_type'>;
+
+export interface ComparedTitle {
+  id: number;
+  media_type: 'movie' | 'tv';
+  title: string;
+  year: string;
+  poster_url: string;
+  genres: string[];
+  ratings: Rating[];
+  runtimeMinutes: number | null;
+  seasonCount: number | null;
+  episodeCount: number | null;
+  episodeRuntimeMinutes: number | null;
+  cast: string[];
+  /** Streaming / rent / buy options in the viewer's region only. */
+  providers: WatchOption[];
+  contentRating: string | null;
+  contentAdvisory: string[];
+}
+
+export interface RatingComparisonRow {
+  source: string;
+  /** Raw score per title, in the same order as the compared titles. */
+  scores: Array<string | null>;
+  /** Score per title on a common 0–100 scale. */
+  normalized: Array<number | null>;
+}
+
+function targetKey(target: CompareTarget): string {
+  return `${target.media_type}:${target.id}`;
+}
+
+// ─── URL ─────────────────────────────────────────────────────────────────────
+
+/** `movie:603,tv:1396` → targets; malformed and duplicate entries are dropped. */
+export function parseCompareIds(raw: string | null | undefined): CompareTarget[] {
+  if (!raw) return [];
+  const seen = new Set<string>();
+  const targets: CompareTarget[] = [];
+  for (const part of raw.split(',')) {
+    const match = part.trim().match(/^(movie|tv):(\d+)$/i);
+    if (!match) continue;
+    const target: CompareTarget = { media_type: match[1].toLowerCase() as 'movie' | 'tv', id: Number(match[2]) };
+    if (target.id <= 0 || seen.has(targetKey(target))) continue;
+    seen.add(targetKey(target));
+    targets.push(target);
+    if (targets.length === MAX_COMPARE_TITLES) break;
+  }
+  return targets;
+}
+
+export function buildCompareIds(targets: CompareTarget[]): string {
+  return targets.slice(0, MAX_COMPARE_TITLES).map(targetKey).join(',');
+}
+
+export function buildComparePath(targets: CompareTarget[]): string {
+  const params = new URLSearchParams({ ids: buildCompareIds(targets) });
+  return `/compare?${params.toString()}`;
+}
+
+// ─── Compare tray ────────────────────────────────────────────────────────────
+
+export function loadCompareTray(): QuickSaveTitle[] {
+  try {
+    const raw = localStorage.getItem(COMPARE_TRAY_STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed)
+      ? parsed.filter((item) => item && Number.isInteger(item.id) && (item.media_type === 'movie' || item.media_type === 'tv'))
+        .slice(0, MAX_COMPARE_TITLES)
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveCompareTray(items: QuickSaveTitle[]): void {
+  try {
+    localStorage.setItem(COMPARE_TRAY_STORAGE_KEY, JSON.stringify(items.slice(0, MAX_COMPARE_TITLES)));
+  } catch {
+    // storage full – silent
+  }
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new Event(COMPARE_TRAY_EVENT));
+  }
+}
+
+export function isInCompareTray(items: CompareTarget[], target: CompareTarget): boolean {
+  return items.some((item) => targetKey(item) === targetKey(target));
+}
+
+/**
+ * Adds the title, or removes it when it is already in the tray. A full tray
+ * drops its oldest title so the newest pick is always kept.
+ */
+export function toggleCompareTrayItem(items: QuickSaveTitle[], item: QuickSaveTitle): QuickSaveTitle[] {
+  if (isInCompareTray(items, item)) {
+    return items.filter((existing) => targetKey(existing) !== targetKey(item));
+  }
+  return [...items, item].slice(-MAX_COMPARE_TITLES);
+}
+
+// ─── Ratings ─────────────────────────────────────────────────────────────────
+
+/**
+ * Puts a source's score on a 0–100 scale. Explicit scales ("8.7/10", "74/100",
+ * "87%", "4.1/5") are honoured; bare numbers are read as 0–10 unless they are
+ * larger, or come from Metacritic, which always scores out of 100.
+ */
+export function normalizeRatingScore(rating: Pick<Rating, 'source' | 'score'>): number | null {
+  const value = String(rating.score ?? '').trim();
+  const fraction = value.match(/^(\d+(?:\.\d+)?)\s*\/\s*(\d+(?:\.\d+)?)$/);
+  let normalized: number | null = null;
+
+  if (fraction) {
+    const denominator = Number(fraction[2]);
+    normalized = denominator > 0 ? (Number(fraction[1]) / denominator) * 100 : null;
+  } else if (/^\d+(?:\.\d+)?\s*%$/.test(value)) {
+    normalized = parseFloat(value);
+  } else if (/^\d+(?:\.\d+)?$/.test(value)) {
+    const numeric = Number(value);
+    normalized = /metacritic/i.test(rating.source) || numeric > 10 ? numeric : numeric * 10;
+  }
+
+  if (normalized === null || !Number.isFinite(normalized) || normalized < 0 || normalized > 100) return null;
+  return Math.round(normalized);
+}
+
+/** One row per rating source that any compared title has, in first-seen order. */
+export function buildRatingRows(titles: ComparedTitle[]): RatingComparisonRow[] {
+  const sources: string[] = [];
+  for (const title of titles) {
+    for (const rating of title.ratings) {
+      if (rating.source && !sources.includes(rating.source)) sources.push(rating.source);
+    }
+  }
+
+  return sources.map((source) => {
+    const matches = titles.map((title) => title.ratings.find((rating) => rating.source === source) || null);
+    return {
+      source,
+      scores: matches.map((rating) => rating?.score ?? null),
+      normalized: matches.map((rating) => (rating ? normalizeRatingScore(rating) : null))
+    };
+  });
+}
+
+/** Mean of a title's normalised scores, or null when none could be read. */
+export function averageNormalizedRating(title: ComparedTitle): number | null {
+  const scores = title.ratings
+    .map(normalizeRatingScore)
+    .filter((score): score is number => score !== null);
+  if (scores.length === 0) return null;
+  return Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length);
+}
+
+// ─── Overlap ─────────────────────────────────────────────────────────────────
+
+/**
+ * Values that appear in at least two of the lists, matched case-insensitively
+ * and returned in first-seen spelling and order.
+ */
+export function findOverlap(lists: string[][]): string[] {
+  const counts = new Map<string, { label: string; count: number }>();
+  for (const list of lists) {
+    const seenInList = new Set<string>();
+    for (const value of list) {
+      const key = value.trim().toLowerCase();
+      if (!key || seenInList.has(key)) continue;
+      seenInList.add(key);
+      const entry = counts.get(key);
+      if (entry) entry.count += 1;
+      else counts.set(key, { label: value.trim(), count: 1 });
+    }
+  }
+  return Array.from(counts.values())
+    .filter((entry) => entry.count >= 2)
+    .map((entry) => entry.label);
+}
+
+/** Options tagged with another region are dropped; untagged options are kept. */
+export function filterWatchOptionsByRegion(options: WatchOption[], region: string): WatchOption[] {
+  const wanted = region.toUpperCase();
+  return options.filter((option) => !option.region || option.region.toUpperCase() === wanted);
+}
+
+export function getSharedCast(titles: ComparedTitle[]): string[] {
+  return findOverlap(titles.map((title) => title.cast));
+}
+
+export function getSharedGenres(titles: ComparedTitle[]): string[] {
+  return findOverlap(titles.map((title) => title.genres));
+}
+
+export function getSharedProviders(titles: ComparedTitle[]): string[] {
+  return findOverlap(titles.map((title) => title.providers.map((option) => option.platform)));
+}
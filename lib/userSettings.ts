@@ -18,6 +18,10 @@ export type UserPreferenceSettings = {
   reducedMotion: boolean;
   autoplayTrailers: boolean;
   cardDensity: 'compact' | 'rich';
+  /** Mix franchises, languages and decades in search and discovery lists. */
+  diverseResults: boolean;
+  /** Send search terms with diagnostics as typed instead of hashed. */
+  shareSearchQueries: boolean;
 };
 
 export const DEFAULT_PROFILE_SETTINGS: UserProfileSettings = {
@@ -37,7 +41,9 @@ export const DEFAULT_PREFERENCE_SETTINGS: UserPreferenceSettings = {
   familySafe: true,
   reducedMotion: false,
   autoplayTrailers: false,
-  cardDensity: 'rich'
+  cardDensity: 'rich',
+  diverseResults: true,
+  shareSearchQueries: false
 };
 
 const PROFILE_STORAGE_KEY = 'moviemonk_profile_settings_v1';
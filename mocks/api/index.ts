@@ -0,0 +1,26 @@
+/**
+ * Recorded backend responses for `VITE_API_MOCK` mode and for tests.
+ * Add a fixture by extending the matching JSON file; keys are documented on
+ * `ApiFixtures`.
+ */
+
+import type { ApiFixtures } from '../../lib/mockBackend';
+import search from './fixtures/search.json';
+import suggest from './fixtures/suggest.json';
+import details from './fixtures/details.json';
+import episodes from './fixtures/episodes.json';
+import person from './fixtures/person.json';
+import tmdb from './fixtures/tmdb.json';
+import vibe from './fixtures/vibe.json';
+import watchlistShare from './fixtures/watchlistShare.json';
+
+export const apiFixtures: ApiFixtures = {
+  search,
+  suggest,
+  details,
+  episodes,
+  person,
+  tmdb,
+  vibe,
+  watchlistShare
+};
@@ -0,0 +1,285 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link, useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import SeoHead from '../components/SeoHead';
+import ActionToast from '../components/ActionToast';
+import { ClockIcon, Logo, StarIcon, WatchedIcon } from '../components/icons';
+import { useCloudWatchlists } from '../hooks/useCloudWatchlists';
+import { useWatched } from '../hooks/useWatched';
+import { buildQuickMovieData } from '../lib/quickSave';
+import { formatTotalRuntime } from '../lib/episodeFocus';
+import {
+  CollectionOrder,
+  isCollectionOrder,
+  isUpcomingEntry,
+  orderCollectionEntries,
+  summarizeMarathon
+} from '../lib/collectionOrder';
+import { fetchCollection } from '../services/collectionService';
+import { emitClientEvent } from '../services/clientObservability';
+import { MovieCollection } from '../types';
+
+const NEW_FOLDER_VALUE = '__new__';
+
+/**
+ * `/collection/:id` — every film in a TMDB collection with release or
+ * in-universe order, marathon runtime and a save-all-to-watchlist action.
+ */
+export function CollectionPage() {
+  const navigate = useNavigate();
+  const { id: idParam } = useParams<{ id: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const collectionId = Number(idParam);
+  const orderParam = searchParams.get('order');
+  const order: CollectionOrder = isCollectionOrder(orderParam) ? orderParam : 'release';
+
+  const [collection, setCollection] = useState<MovieCollection | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [folderChoice, setFolderChoice] = useState(NEW_FOLDER_VALUE);
+  const [isSaving, setIsSaving] = useState(false);
+  const [toast, setToast] = useState<string | null>(null);
+
+  const { folders, addFolder, saveManyToFolder } = useCloudWatchlists();
+  const { isWatched, toggle: toggleWatched } = useWatched();
+
+  useEffect(() => {
+    if (!Number.isInteger(collectionId) || collectionId <= 0) {
+      navigate('/', { replace: true });
+      return;
+    }
+
+    const controller = new AbortController();
+    setIsLoading(true);
+    setError(null);
+    fetchCollection(collectionId, controller.signal)
+      .then((result) => {
+        if (controller.signal.aborted) return;
+        setCollection(result);
+        if (!result) setError('This collection could not be found.');
+      })
+      .catch(() => {
+        if (!controller.signal.aborted) setError('Failed to load this collection. Please try again.');
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false);
+      });
+    return () => controller.abort();
+  }, [collectionId, navigate]);
+
+  useEffect(() => {
+    if (!toast) return;
+    const timer = setTimeout(() => setToast(null), 3000);
+    return () => clearTimeout(timer);
+  }, [toast]);
+
+  const ordered = useMemo(
+    () => (collection ? orderCollectionEntries(collection.id, collection.parts, order) : null),
+    [collection, order]
+  );
+  const marathon = useMemo(() => (ordered ? summarizeMarathon(ordered.entries) : null), [ordered]);
+  const watchedCount = ordered
+    ? ordered.entries.filter((entry) => isWatched(String(entry.id), 'movie')).length
+    : 0;
+
+  const setOrder = (next: CollectionOrder) => {
+    const params = new URLSearchParams(searchParams);
+    if (next === 'release') params.delete('order');
+    else params.set('order', next);
+    setSearchParams(params, { replace: true });
+  };
+
+  const handleSaveAll = async () => {
+    if (!collection || !ordered || ordered.entries.length === 0) return;
+    const folderId = folderChoice === NEW_FOLDER_VALUE ? addFolder(collection.name) : folderChoice;
+    if (!folderId) return;
+
+    setIsSaving(true);
+    try {
+      await saveManyToFolder(
+        folderId,
+        ordered.entries.map((entry) => ({
+          movie: buildQuickMovieData({
+            id: entry.id,
+            media_type: 'movie',
+            title: entry.title,
+            year: entry.year,
+            poster_url: entry.poster_url
+          })
+        }))
+      );
+      const folderName = folders.find((folder) => folder.id === folderId)?.name || collection.name;
+      setFolderChoice(folderId);
+      setToast(`Saved ${ordered.entries.length} titles to "${folderName}"`);
+      emitClientEvent({
+        event: 'collection_saved',
+        data: { collection_id: collection.id, count: ordered.entries.length, order }
+      });
+    } catch {
+      setToast('Failed to save the collection. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="app-container" style={{ background: '#121212' }}>
+      <SeoHead
+        title={collection ? collection.name : 'Collection'}
+        description={collection?.overview || 'Every film in the franchise, in release or story order.'}
+        path={`/collection/${idParam || ''}`}
+        image={collection?.backdrop_url || undefined}
+      />
+      <header className="app-header flex items-center justify-between px-4 sm:px-6 py-3 glass-panel border-b-0 z-50 sticky top-0">
+        <Link to="/" className="flex items-center gap-2.5 sm:gap-3 text-left" aria-label="Go to discovery home">
+          <Logo className="w-[2.125rem] h-[2.125rem] sm:w-9 sm:h-9 text-primary drop-shadow-glow" />
+          <h1 className="brand-signature title-font text-xl sm:text-2xl font-bold tracking-tight" aria-label="MovieMonk">
+            <span className="brand-signature-movie">Movie</span>
+            <span className="brand-signature-monk">Monk</span>
+          </h1>
+        </Link>
+        <button type="button" className="mm-settings-nav-back" onClick={() => navigate(-1)}>
+          <svg width="14" height="14" fill="none" stroke="currentColor" strokeWidth="2" viewBox="0 0 24 24"><path d="M19 12H5M12 5l-7 7 7 7" /></svg>
+          Back
+        </button>
+      </header>
+
+      <main className="w-full max-w-5xl mx-auto p-4 sm:p-6 lg:p-8">
+        {isLoading ? (
+          <div className="py-16 text-center text-sm text-brand-text-light">Loading collection…</div>
+        ) : error || !collection || !ordered || !marathon ? (
+          <div className="py-16 text-center">
+            <p className="text-sm text-brand-text-light">{error || 'This collection could not be found.'}</p>
+            <Link to="/" className="mt-4 inline-block text-sm font-semibold text-brand-primary hover:text-brand-accent">Back to discovery</Link>
+          </div>
+        ) : (
+          <div className="flex flex-col gap-6 animate-fade-in">
+            <section className="glass-panel rounded-2xl border border-white/5 p-5 sm:p-6 flex flex-col sm:flex-row gap-5">
+              {collection.poster_url && (
+                <img src={collection.poster_url} alt={collection.name} className="w-28 sm:w-36 rounded-xl object-cover self-start" />
+              )}
+              <div className="flex-1 min-w-0 flex flex-col gap-3">
+                <h2 className="text-2xl sm:text-3xl font-bold text-white">{collection.name}</h2>
+                {collection.overview && <p className="text-sm text-brand-text-light leading-relaxed">{collection.overview}</p>}
+                <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-brand-text-dark">
+                  <span>{marathon.titleCount} film{marathon.titleCount === 1 ? '' : 's'}</span>
+                  {marathon.totalRuntimeMinutes > 0 && (
+                    <span className="flex items-center gap-1 text-brand-text-light">
+                      <ClockIcon className="w-3.5 h-3.5" />
+                      {formatTotalRuntime(marathon.totalRuntimeMinutes)} marathon
+                      {marathon.missingRuntimeCount > 0 && ` (${marathon.missingRuntimeCount} without runtime)`}
+                    </span>
+                  )}
+                  {marathon.upcomingCount > 0 && <span>{marathon.upcomingCount} upcoming</span>}
+                  <span>{watchedCount} of {ordered.entries.length} watched</span>
+                </div>
+              </div>
+            </section>
+
+            <section className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+              <div className="flex flex-col gap-1">
+                <div className="inline-flex rounded-xl border border-white/10 bg-white/5 p-1" role="group" aria-label="Watch order">
+                  {(['release', 'chronological'] as const).map((option) => (
+                    <button
+                      key={option}
+                      type="button"
+                      onClick={() => setOrder(option)}
+                      aria-pressed={order === option}
+                      className={`px-3 py-1.5 rounded-lg text-sm font-semibold transition-colors ${order === option ? 'bg-brand-primary text-white' : 'text-brand-text-light hover:text-white'}`}
+                    >
+                      {option === 'release' ? 'Release order' : 'Chronological'}
+                    </button>
+                  ))}
+                </div>
+                {order === 'chronological' && !ordered.hasChronology && (
+                  <p className="text-xs text-brand-text-dark">No in-universe order on record for this collection, so release order is shown.</p>
+                )}
+              </div>
+
+              <div className="flex flex-wrap items-center gap-2">
+                <label htmlFor="collection-folder" className="sr-only">Watchlist folder</label>
+                <select
+                  id="collection-folder"
+                  value={folderChoice}
+                  onChange={(event) => setFolderChoice(event.target.value)}
+                  className="bg-brand-surface border border-white/10 text-white text-sm py-2 px-3 rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-primary"
+                >
+                  <option value={NEW_FOLDER_VALUE}>New folder “{collection.name}”</option>
+                  {folders.map((folder) => (
+                    <option key={folder.id} value={folder.id}>{folder.name}</option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={() => { void handleSaveAll(); }}
+                  disabled={isSaving || ordered.entries.length === 0}
+                  className="px-4 py-2 rounded-lg bg-brand-primary text-white text-sm font-semibold hover:bg-brand-primary/80 disabled:opacity-50 transition-colors"
+                >
+                  {isSaving ? 'Saving…' : `Save all ${ordered.entries.length}`}
+                </button>
+              </div>
+            </section>
+
+            <ol className="flex flex-col gap-3">
+              {ordered.entries.map((entry, index) => {
+                const watched = isWatched(String(entry.id), 'movie');
+                const upcoming = isUpcomingEntry(entry);
+                return (
+                  <li key={entry.id} className="glass-panel rounded-xl border border-white/5 p-3 flex items-center gap-4">
+                    <span className="w-6 text-center text-sm font-bold text-brand-text-dark">{index + 1}</span>
+                    <Link to={`/movie/${entry.id}`} className="flex items-center gap-4 flex-1 min-w-0 group">
+                      {entry.poster_url ? (
+                        <img src={entry.poster_url} alt={entry.title} className="w-12 aspect-[2/3] rounded-md object-cover flex-shrink-0" loading="lazy" />
+                      ) : (
+                        <div className="w-12 aspect-[2/3] rounded-md bg-white/5 flex-shrink-0" />
+                      )}
+                      <div className="min-w-0">
+                        <h3 className="text-white font-semibold truncate group-hover:text-brand-primary transition-colors">{entry.title}</h3>
+                        <div className="flex flex-wrap items-center gap-3 mt-1 text-xs text-brand-text-dark">
+                          <span>{entry.year || 'TBA'}</span>
+                          {entry.runtime && (
+                            <span className="flex items-center gap-1">
+                              <ClockIcon className="w-3 h-3" />
+                              {formatTotalRuntime(entry.runtime)}
+                            </span>
+                          )}
+                          {entry.rating !== null && (
+                            <span className="flex items-center gap-1">
+                              <StarIcon className="w-3 h-3 text-amber-400" />
+                              {entry.rating.toFixed(1)}
+                            </span>
+                          )}
+                          {upcoming && <span className="text-brand-accent">Upcoming</span>}
+                        </div>
+                      </div>
+                    </Link>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        void toggleWatched({
+                          tmdb_id: String(entry.id),
+                          media_type: 'movie',
+                          title: entry.title,
+                          poster_url: entry.poster_url || undefined,
+                          year: entry.year || undefined
+                        });
+                      }}
+                      aria-pressed={watched}
+                      aria-label={watched ? `Mark ${entry.title} as not watched` : `Mark ${entry.title} as watched`}
+                      className={`p-2 rounded-lg transition-colors ${watched ? 'text-emerald-400 bg-emerald-400/10' : 'text-brand-text-light hover:text-white hover:bg-white/10'}`}
+                    >
+                      <WatchedIcon className="w-5 h-5" filled={watched} />
+                    </button>
+                  </li>
+                );
+              })}
+            </ol>
+          </div>
+        )}
+      </main>
+
+      {toast && (
+        <ActionToast kind="watchlist" message={toast} onDismiss={() => setToast(null)} />
+      )}
+    </div>
+  );
+}
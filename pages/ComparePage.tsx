@@ -0,0 +1,305 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import SeoHead from '../components/SeoHead';
+import { Logo, XMarkIcon } from '../components/icons';
+import { formatTotalRuntime } from '../lib/episodeFocus';
+import {
+  CompareTarget,
+  ComparedTitle,
+  averageNormalizedRating,
+  buildCompareIds,
+  buildRatingRows,
+  getSharedCast,
+  getSharedGenres,
+  getSharedProviders,
+  parseCompareIds
+} from '../lib/titleComparison';
+import { fetchComparedTitle, resolveCompareRegion } from '../services/compareService';
+import { emitClientEvent } from '../services/clientObservability';
+
+const CAST_PREVIEW_COUNT = 8;
+
+function formatLength(title: ComparedTitle): string {
+  if (title.media_type === 'movie') {
+    return title.runtimeMinutes ? formatTotalRuntime(title.runtimeMinutes) : '—';
+  }
+  const parts: string[] = [];
+  if (title.seasonCount) parts.push(`${title.seasonCount} season${title.seasonCount === 1 ? '' : 's'}`);
+  if (title.episodeCount) parts.push(`${title.episodeCount} episode${title.episodeCount === 1 ? '' : 's'}`);
+  if (title.episodeRuntimeMinutes) parts.push(`~${formatTotalRuntime(title.episodeRuntimeMinutes)} each`);
+  return parts.length > 0 ? parts.join(' · ') : '—';
+}
+
+function isShared(value: string, shared: Set<string>): boolean {
+  return shared.has(value.trim().toLowerCase());
+}
+
+function toKeySet(values: string[]): Set<string> {
+  return new Set(values.map((value) => value.trim().toLowerCase()));
+}
+
+const Chip: React.FC<{ label: string; highlighted: boolean }> = ({ label, highlighted }) => (
+  <span
+    className={`inline-block px-2 py-0.5 rounded-full text-xs border ${highlighted
+      ? 'border-sky-400/60 bg-sky-400/15 text-sky-200'
+      : 'border-white/10 bg-white/5 text-brand-text-light'
+      }`}
+  >
+    {label}
+  </span>
+);
+
+/**
+ * `/compare?ids=movie:1,tv:2` — up to three titles side by side: ratings on a
+ * common scale, length, genres, cast and where-to-watch overlap, and content
+ * rating.
+ */
+export function ComparePage() {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const idsParam = searchParams.get('ids');
+  const targets = useMemo(() => parseCompareIds(idsParam), [idsParam]);
+  const region = useMemo(() => resolveCompareRegion(), []);
+
+  const [titles, setTitles] = useState<ComparedTitle[]>([]);
+  const [missingCount, setMissingCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (targets.length < 2) {
+      setTitles([]);
+      setMissingCount(0);
+      return;
+    }
+
+    const controller = new AbortController();
+    setIsLoading(true);
+    setError(null);
+    Promise.all(targets.map((target) => fetchComparedTitle(target, region, controller.signal).catch(() => null)))
+      .then((results) => {
+        if (controller.signal.aborted) return;
+        const loaded = results.filter((title): title is ComparedTitle => title !== null);
+        setTitles(loaded);
+        setMissingCount(results.length - loaded.length);
+        if (loaded.length === 0) setError('These titles could not be loaded. Please try again.');
+        emitClientEvent({
+          event: 'compare_viewed',
+          data: { count: loaded.length, media_types: loaded.map((title) => title.media_type).join(',') }
+        });
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false);
+      });
+    return () => controller.abort();
+  }, [region, targets]);
+
+  const removeTarget = (target: CompareTarget) => {
+    const remaining = targets.filter((entry) => entry.id !== target.id || entry.media_type !== target.media_type);
+    const params = new URLSearchParams(searchParams);
+    if (remaining.length > 0) params.set('ids', buildCompareIds(remaining));
+    else params.delete('ids');
+    setSearchParams(params, { replace: true });
+  };
+
+  const ratingRows = useMemo(() => buildRatingRows(titles), [titles]);
+  const sharedCast = useMemo(() => getSharedCast(titles), [titles]);
+  const sharedGenres = useMemo(() => toKeySet(getSharedGenres(titles)), [titles]);
+  const sharedProviders = useMemo(() => getSharedProviders(titles), [titles]);
+  const sharedCastKeys = useMemo(() => toKeySet(sharedCast), [sharedCast]);
+  const sharedProviderKeys = useMemo(() => toKeySet(sharedProviders), [sharedProviders]);
+
+  const rowLabelClass = 'py-3 pr-4 text-left align-top text-xs font-semibold uppercase tracking-wide text-brand-text-dark whitespace-nowrap';
+  const cellClass = 'py-3 px-3 align-top text-sm text-brand-text-light';
+
+  return (
+    <div className="app-container" style={{ background: '#121212' }}>
+      <SeoHead
+        title={titles.length > 0 ? titles.map((title) => title.title).join(' vs ') : 'Compare titles'}
+        description="Ratings, length, cast and where to watch, side by side."
+        path="/compare"
+        robots="noindex,follow"
+      />
+      <header className="app-header flex items-center justify-between px-4 sm:px-6 py-3 glass-panel border-b-0 z-50 sticky top-0">
+        <Link to="/" className="flex items-center gap-2.5 sm:gap-3 text-left" aria-label="Go to discovery home">
+          <Logo className="w-[2.125rem] h-[2.125rem] sm:w-9 sm:h-9 text-primary drop-shadow-glow" />
+          <h1 className="brand-signature title-font text-xl sm:text-2xl font-bold tracking-tight" aria-label="MovieMonk">
+            <span className="brand-signature-movie">Movie</span>
+            <span className="brand-signature-monk">Monk</span>
+          </h1>
+        </Link>
+        <button type="button" className="mm-settings-nav-back" onClick={() => navigate(-1)}>
+          <svg width="14" height="14" fill="none" stroke="currentColor" strokeWidth="2" viewBox="0 0 24 24"><path d="M19 12H5M12 5l-7 7 7 7" /></svg>
+          Back
+        </button>
+      </header>
+
+      <main className="w-full max-w-6xl mx-auto p-4 sm:p-6 lg:p-8">
+        {targets.length < 2 ? (
+          <div className="py-16 text-center">
+            <p className="text-sm text-brand-text-light">Pick at least two titles with the Compare action on any poster or search result.</p>
+            <Link to="/" className="mt-4 inline-block text-sm font-semibold text-brand-primary hover:text-brand-accent">Back to discovery</Link>
+          </div>
+        ) : isLoading ? (
+          <div className="py-16 text-center text-sm text-brand-text-light">Loading titles…</div>
+        ) : error ? (
+          <div className="py-16 text-center">
+            <p className="text-sm text-brand-text-light">{error}</p>
+            <Link to="/" className="mt-4 inline-block text-sm font-semibold text-brand-primary hover:text-brand-accent">Back to discovery</Link>
+          </div>
+        ) : (
+          <div className="flex flex-col gap-6 animate-fade-in">
+            <section className="glass-panel rounded-2xl border border-white/5 p-5 flex flex-col gap-2 text-sm">
+              <h2 className="text-xl font-bold text-white">{titles.map((title) => title.title).join(' vs ')}</h2>
+              <p className="text-brand-text-light">
+                {sharedCast.length > 0
+                  ? `Shared cast: ${sharedCast.join(', ')}`
+                  : 'No cast members in common.'}
+              </p>
+              <p className="text-brand-text-light">
+                {sharedProviders.length > 0
+                  ? `Available on the same service in ${region}: ${sharedProviders.join(', ')}`
+                  : `No streaming service in ${region} carries more than one of these.`}
+              </p>
+              {missingCount > 0 && (
+                <p className="text-xs text-brand-text-dark">{missingCount} title{missingCount === 1 ? '' : 's'} could not be loaded.</p>
+              )}
+            </section>
+
+            <div className="overflow-x-auto">
+              <table className="w-full min-w-[36rem] border-separate border-spacing-0">
+                <thead>
+                  <tr>
+                    <th className={rowLabelClass} scope="col"><span className="sr-only">Field</span></th>
+                    {titles.map((title) => (
+                      <th key={`${title.media_type}:${title.id}`} scope="col" className="py-3 px-3 align-top text-left font-normal">
+                        <div className="flex items-start gap-3">
+                          <Link to={`/${title.media_type}/${title.id}`} className="flex items-start gap-3 min-w-0 group">
+                            {title.poster_url ? (
+                              <img src={title.poster_url} alt={title.title} className="w-14 aspect-[2/3] rounded-md object-cover flex-shrink-0" />
+                            ) : (
+                              <div className="w-14 aspect-[2/3] rounded-md bg-white/5 flex-shrink-0" />
+                            )}
+                            <div className="min-w-0">
+                              <span className="block text-white font-semibold group-hover:text-brand-primary transition-colors">{title.title}</span>
+                              <span className="block text-xs text-brand-text-dark">
+                                {title.year || 'TBA'} · {title.media_type === 'tv' ? 'TV Show' : 'Movie'}
+                              </span>
+                            </div>
+                          </Link>
+                          <button
+                            type="button"
+                            onClick={() => removeTarget(title)}
+                            aria-label={`Remove ${title.title} from comparison`}
+                            className="ml-auto p-1 rounded-md text-brand-text-dark hover:text-white hover:bg-white/10"
+                          >
+                            <XMarkIcon className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="[&>tr>*]:border-t [&>tr>*]:border-white/5">
+                  <tr>
+                    <th scope="row" className={rowLabelClass}>Overall score</th>
+                    {titles.map((title) => {
+                      const average = averageNormalizedRating(title);
+                      return (
+                        <td key={`${title.media_type}:${title.id}`} className={cellClass}>
+                          {average === null ? '—' : <span className="text-lg font-bold text-white">{average}<span className="text-xs text-brand-text-dark">/100</span></span>}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                  {ratingRows.map((row) => (
+                    <tr key={row.source}>
+                      <th scope="row" className={rowLabelClass}>{row.source}</th>
+                      {titles.map((title, index) => (
+                        <td key={`${title.media_type}:${title.id}`} className={cellClass}>
+                          {row.scores[index] === null ? '—' : (
+                            <div className="flex flex-col gap-1">
+                              <span>{row.scores[index]}</span>
+                              {row.normalized[index] !== null && (
+                                <div className="h-1.5 w-full max-w-[8rem] rounded-full bg-white/10" aria-hidden="true">
+                                  <div className="h-full rounded-full bg-brand-primary" style={{ width: `${row.normalized[index]}%` }} />
+                                </div>
+                              )}
+                            </div>
+                          )}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                  <tr>
+                    <th scope="row" className={rowLabelClass}>Length</th>
+                    {titles.map((title) => <td key={`${title.media_type}:${title.id}`} className={cellClass}>{formatLength(title)}</td>)}
+                  </tr>
+                  <tr>
+                    <th scope="row" className={rowLabelClass}>Genres</th>
+                    {titles.map((title) => (
+                      <td key={`${title.media_type}:${title.id}`} className={cellClass}>
+                        <div className="flex flex-wrap gap-1">
+                          {title.genres.length > 0
+                            ? title.genres.map((genre) => <Chip key={genre} label={genre} highlighted={isShared(genre, sharedGenres)} />)
+                            : '—'}
+                        </div>
+                      </td>
+                    ))}
+                  </tr>
+                  <tr>
+                    <th scope="row" className={rowLabelClass}>Cast</th>
+                    {titles.map((title) => {
+                      // Shared names always show, even when they are billed below the preview cut-off.
+                      const preview = title.cast.filter((name, index) => index < CAST_PREVIEW_COUNT || isShared(name, sharedCastKeys));
+                      return (
+                        <td key={`${title.media_type}:${title.id}`} className={cellClass}>
+                          <div className="flex flex-wrap gap-1">
+                            {preview.length > 0
+                              ? preview.map((name) => <Chip key={name} label={name} highlighted={isShared(name, sharedCastKeys)} />)
+                              : '—'}
+                          </div>
+                        </td>
+                      );
+                    })}
+                  </tr>
+                  <tr>
+                    <th scope="row" className={rowLabelClass}>Where to watch ({region})</th>
+                    {titles.map((title) => (
+                      <td key={`${title.media_type}:${title.id}`} className={cellClass}>
+                        <div className="flex flex-wrap gap-1">
+                          {title.providers.length > 0
+                            ? title.providers.map((option) => (
+                              <Chip
+                                key={option.platform}
+                                label={option.type === 'subscription' ? option.platform : `${option.platform} (${option.type})`}
+                                highlighted={isShared(option.platform, sharedProviderKeys)}
+                              />
+                            ))
+                            : 'Not available'}
+                        </div>
+                      </td>
+                    ))}
+                  </tr>
+                  <tr>
+                    <th scope="row" className={rowLabelClass}>Content rating</th>
+                    {titles.map((title) => (
+                      <td key={`${title.media_type}:${title.id}`} className={cellClass}>
+                        <span className="font-semibold text-white">{title.contentRating || 'Not rated'}</span>
+                        {title.contentAdvisory.length > 0 && (
+                          <ul className="mt-1 list-disc pl-4 text-xs text-brand-text-dark">
+                            {title.contentAdvisory.map((advisory) => <li key={advisory}>{advisory}</li>)}
+                          </ul>
+                        )}
+                      </td>
+                    ))}
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,208 @@
+import React, { useMemo, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import SeoHead from '../components/SeoHead';
+import { Logo } from '../components/icons';
+import {
+  ExperimentAnalysis,
+  analyzeEventLog,
+  analyzeExperimentEvents,
+  renderAnalysisJson,
+  renderAnalysisMarkdown
+} from '../lib/experimentAnalysis';
+import { clearLocalExperimentEvents, loadLocalExperimentEvents } from '../lib/experiments';
+
+type ReportFormat = 'markdown' | 'json';
+
+function formatPercent(value: number | null): string {
+  if (value === null) return '—';
+  return `${value >= 0 ? '+' : ''}${(value * 100).toFixed(1)}%`;
+}
+
+function formatInterval(interval: [number, number] | null | undefined): string {
+  return interval ? `${formatPercent(interval[0])} to ${formatPercent(interval[1])}` : '—';
+}
+
+const ReportTables: React.FC<{ analysis: ExperimentAnalysis }> = ({ analysis }) => {
+  if (analysis.reports.length === 0) {
+    return <p className="text-sm text-brand-text-dark">No experiment exposures recorded yet.</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {analysis.reports.map((report) => (
+        <section key={`${report.experiment}:${report.conversionEvent || ''}`} className="glass-panel rounded-xl p-4 overflow-x-auto">
+          <h2 className="text-base font-semibold text-brand-text-light">
+            {report.experiment}
+            {report.conversionEvent && <span className="text-brand-text-dark font-normal"> · {report.conversionEvent}</span>}
+          </h2>
+          {report.crossoverSubjects > 0 && (
+            <p className="text-xs text-amber-300 mt-1">
+              {report.crossoverSubjects} subject(s) saw more than one variant and were excluded.
+            </p>
+          )}
+          <table className="w-full text-sm mt-3">
+            <thead>
+              <tr className="text-left text-brand-text-dark">
+                <th className="py-1 pr-3 font-medium">Variant</th>
+                <th className="py-1 pr-3 font-medium text-right">Exposed</th>
+                <th className="py-1 pr-3 font-medium text-right">Converted</th>
+                <th className="py-1 pr-3 font-medium text-right">Rate</th>
+                <th className="py-1 pr-3 font-medium text-right">Lift</th>
+                <th className="py-1 pr-3 font-medium">CI (z-test)</th>
+                <th className="py-1 pr-3 font-medium">CI (always valid)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.variants.map((variant) => {
+                const comparison = report.comparisons.find((entry) => entry.variant === variant.variant);
+                return (
+                  <tr key={variant.variant} className="border-t border-white/5 text-brand-text-light">
+                    <td className="py-1 pr-3">
+                      {variant.variant}
+                      {variant.variant === report.control && <span className="text-brand-text-dark"> (control)</span>}
+                      {comparison?.lowSample && <span className="text-amber-300"> · low sample</span>}
+                    </td>
+                    <td className="py-1 pr-3 text-right">{variant.exposures}</td>
+                    <td className="py-1 pr-3 text-right">{report.conversionEvent ? variant.conversions : '—'}</td>
+                    <td className="py-1 pr-3 text-right">
+                      {report.conversionEvent ? `${(variant.conversionRate * 100).toFixed(1)}%` : '—'}
+                    </td>
+                    <td className="py-1 pr-3 text-right">{comparison ? formatPercent(comparison.relativeLift) : '—'}</td>
+                    <td className={`py-1 pr-3 ${comparison?.zTest.significant ? 'text-sky-300' : ''}`}>
+                      {formatInterval(comparison?.zTest.ci)}
+                    </td>
+                    <td className={`py-1 pr-3 ${comparison?.sequential?.significant ? 'text-sky-300' : ''}`}>
+                      {formatInterval(comparison?.sequential?.ci)}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </section>
+      ))}
+    </div>
+  );
+};
+
+/**
+ * `/dev/experiments` — the experiment report for events recorded on this
+ * device, or for an exported NDJSON log loaded from disk.
+ */
+export function ExperimentReportPage() {
+  const navigate = useNavigate();
+  const [uploaded, setUploaded] = useState<{ name: string; text: string } | null>(null);
+  const [localRevision, setLocalRevision] = useState(0);
+  const [format, setFormat] = useState<ReportFormat>('markdown');
+  const [copied, setCopied] = useState(false);
+
+  const analysis = useMemo(() => {
+    if (uploaded) return analyzeEventLog(uploaded.text);
+    return analyzeExperimentEvents(loadLocalExperimentEvents());
+  }, [uploaded, localRevision]);
+
+  const rendered = useMemo(
+    () => (format === 'json' ? renderAnalysisJson(analysis) : renderAnalysisMarkdown(analysis)),
+    [analysis, format]
+  );
+
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    file.text().then((text) => setUploaded({ name: file.name, text })).catch(() => setUploaded(null));
+    event.target.value = '';
+  };
+
+  const handleCopy = () => {
+    navigator.clipboard?.writeText(rendered).then(() => {
+      setCopied(true);
+      window.setTimeout(() => setCopied(false), 1500);
+    }).catch(() => undefined);
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([rendered], { type: format === 'json' ? 'application/json' : 'text/markdown' });
+    const url = URL.createObjectURL(blob);
+    const anchor = document.createElement('a');
+    anchor.href = url;
+    anchor.download = `experiment-report.${format === 'json' ? 'json' : 'md'}`;
+    anchor.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleClearLocal = () => {
+    clearLocalExperimentEvents();
+    setLocalRevision((revision) => revision + 1);
+  };
+
+  return (
+    <div className="app-container" style={{ background: '#121212' }}>
+      <SeoHead title="Experiment report" description="Exposure and conversion results per experiment variant." path="/dev/experiments" robots="noindex,nofollow" />
+      <header className="app-header flex items-center justify-between px-4 sm:px-6 py-3 glass-panel border-b-0 z-50 sticky top-0">
+        <Link to="/" className="flex items-center gap-2.5 sm:gap-3 text-left" aria-label="Go to discovery home">
+          <Logo className="w-[2.125rem] h-[2.125rem] sm:w-9 sm:h-9 text-primary drop-shadow-glow" />
+          <h1 className="brand-signature title-font text-xl sm:text-2xl font-bold tracking-tight" aria-label="MovieMonk">
+            <span className="brand-signature-movie">Movie</span>
+            <span className="brand-signature-monk">Monk</span>
+          </h1>
+        </Link>
+        <button type="button" className="mm-settings-nav-back" onClick={() => navigate(-1)}>
+          <svg width="14" height="14" fill="none" stroke="currentColor" strokeWidth="2" viewBox="0 0 24 24"><path d="M19 12H5M12 5l-7 7 7 7" /></svg>
+          Back
+        </button>
+      </header>
+
+      <main className="w-full max-w-6xl mx-auto p-4 sm:p-6 lg:p-8 space-y-6">
+        <div>
+          <h2 className="text-xl font-semibold text-brand-text-light">Experiment report</h2>
+          <p className="text-sm text-brand-text-dark mt-1">
+            {uploaded ? `From ${uploaded.name}` : 'From events recorded in this browser'} · {analysis.events} events
+            {analysis.skippedLines > 0 && ` · ${analysis.skippedLines} unreadable lines skipped`}
+          </p>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <label className="px-3 py-1.5 rounded-lg border border-white/10 bg-white/5 text-brand-text-light cursor-pointer">
+            Load NDJSON export
+            <input type="file" accept=".ndjson,.jsonl,.json,.log,.txt" className="sr-only" onChange={handleFile} />
+          </label>
+          {uploaded ? (
+            <button type="button" className="px-3 py-1.5 rounded-lg border border-white/10 bg-white/5 text-brand-text-light" onClick={() => setUploaded(null)}>
+              Show local events
+            </button>
+          ) : (
+            <button type="button" className="px-3 py-1.5 rounded-lg border border-white/10 bg-white/5 text-brand-text-light" onClick={handleClearLocal}>
+              Clear local events
+            </button>
+          )}
+        </div>
+
+        <ReportTables analysis={analysis} />
+
+        <section className="glass-panel rounded-xl p-4">
+          <div className="flex flex-wrap items-center gap-2 text-sm mb-3">
+            {(['markdown', 'json'] as ReportFormat[]).map((option) => (
+              <button
+                key={option}
+                type="button"
+                aria-pressed={format === option}
+                className={`px-3 py-1 rounded-full border ${format === option ? 'border-sky-400/60 bg-sky-400/15 text-sky-200' : 'border-white/10 bg-white/5 text-brand-text-light'}`}
+                onClick={() => setFormat(option)}
+              >
+                {option === 'json' ? 'JSON' : 'Markdown'}
+              </button>
+            ))}
+            <span className="flex-1" />
+            <button type="button" className="px-3 py-1 rounded-lg border border-white/10 bg-white/5 text-brand-text-light" onClick={handleCopy}>
+              {copied ? 'Copied' : 'Copy'}
+            </button>
+            <button type="button" className="px-3 py-1 rounded-lg border border-white/10 bg-white/5 text-brand-text-light" onClick={handleDownload}>
+              Download
+            </button>
+          </div>
+          <pre className="text-xs text-brand-text-light whitespace-pre overflow-x-auto max-h-96">{rendered}</pre>
+        </section>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import React, { useEffect } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import SeoHead from '../components/SeoHead';
+import { EMPTY_SEARCH_REFINEMENT, buildSearchPath } from '../lib/searchFilters';
+import {
+  getExternalReferenceFallbackQuery,
+  parseExternalReference,
+  resolveExternalReference
+} from '../services/externalLinkResolver';
+import { emitClientEvent } from '../services/clientObservability';
+
+/**
+ * `/open?url=` — jump straight to the title behind an IMDb / TMDB / Letterboxd /
+ * TVMaze link, falling back to a normal search when it cannot be resolved.
+ */
+export function OpenLinkPage() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const rawUrl = (searchParams.get('url') || '').trim();
+
+  useEffect(() => {
+    if (!rawUrl) {
+      navigate('/', { replace: true });
+      return;
+    }
+
+    const controller = new AbortController();
+    const reference = parseExternalReference(rawUrl);
+    const searchFor = (query: string) => {
+      navigate(buildSearchPath({ query, refinement: EMPTY_SEARCH_REFINEMENT, page: 1 }), { replace: true });
+    };
+
+    if (!reference) {
+      searchFor(rawUrl);
+      return;
+    }
+
+    resolveExternalReference(reference, controller.signal)
+      .catch(() => null)
+      .then((resolved) => {
+        if (controller.signal.aborted) return;
+        emitClientEvent({
+          event: 'open_link_resolved',
+          data: { source: reference.source, resolved: Boolean(resolved) }
+        });
+        if (resolved) {
+          navigate(`/${resolved.mediaType}/${resolved.id}`, { replace: true });
+        } else {
+          searchFor(getExternalReferenceFallbackQuery(reference, rawUrl));
+        }
+      });
+
+    return () => controller.abort();
+  }, [navigate, rawUrl]);
+
+  return (
+    <div className="min-h-screen bg-brand-bg text-brand-text-light flex items-center justify-center text-sm">
+      <SeoHead title="Opening link" description="Resolving a shared title link." path="/open" robots="noindex,follow" />
+      Opening link…
+    </div>
+  );
+}
@@ -1075,6 +1075,30 @@ export function PreferenceSettingsPage() {
                 aria-label="Toggle compact cards"
               />
             </div>
+            <div className="mm-settings-row" style={{ cursor: 'default' }}>
+              <div className="mm-settings-row-text">
+                <div className="mm-settings-row-title">Varied results</div>
+                <div className="mm-settings-row-sub">Spread search and discovery lists across franchises, languages and decades</div>
+              </div>
+              <button
+                type="button"
+                className={`mm-settings-toggle ${preferences.diverseResults ? 'on' : ''}`}
+                onClick={() => setPreferences({ ...preferences, diverseResults: !preferences.diverseResults })}
+                aria-label="Toggle varied results"
+              />
+            </div>
+            <div className="mm-settings-row" style={{ cursor: 'default' }}>
+              <div className="mm-settings-row-text">
+                <div className="mm-settings-row-title">Share search terms</div>
+                <div className="mm-settings-row-sub">Include what you type in diagnostics; otherwise searches are sent as anonymous hashes</div>
+              </div>
+              <button
+                type="button"
+                className={`mm-settings-toggle ${preferences.shareSearchQueries ? 'on' : ''}`}
+                onClick={() => setPreferences({ ...preferences, shareSearchQueries: !preferences.shareSearchQueries })}
+                aria-label="Toggle sharing search terms"
+              />
+            </div>
           </div>
         </div>
 
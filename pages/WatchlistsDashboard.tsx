@@ -4,11 +4,12 @@ import { useAuth } from '../contexts/AuthContext';
 import SeoHead from '../components/SeoHead';
 import { useCloudWatchlists } from '../hooks/useCloudWatchlists';
 import { useWatched } from '../hooks/useWatched';
+import { useSavedSearches } from '../hooks/useSavedSearches';
 import { loadProfileSettings } from '../lib/userSettings';
 import { ConfirmDialog, NoticeDialog, PromptDialog } from '../components/BrandedDialogs';
 import ActionToast from '../components/ActionToast';
 import { TrashIcon, EditIcon, CheckIcon, XMarkIcon, ChevronRightIcon, ChevronUpIcon, ChevronDownIcon, Logo } from '../components/icons';
-import { WatchlistFolder } from '../types';
+import { SearchResult, WatchlistFolder, WatchlistShareResponse } from '../types';
 import {
   getWatchlistIconOption,
   WatchlistIconBadge,
@@ -27,6 +28,9 @@ import { getAuthAvatarUrl, getAuthDisplayName } from '../lib/authIdentity';
 import { emitClientEvent } from '../services/clientObservability';
 import { apiPost } from '../lib/apiClient';
 import { safeImgUrl, sanitizeImgUrl } from '../lib/seo';
+import { getSearchResultKey, savedSearchToUrlState } from '../lib/savedSearches';
+import { buildSearchPath } from '../lib/searchFilters';
+import { describeSearchRefinement } from '../lib/searchOperators';
 
 
 
@@ -57,7 +61,7 @@ function DashboardLayout({ children }: { children: React.ReactNode }) {
 }
 
 export function WatchlistsDashboard() {
-  const { user, session, loading } = useAuth();
+  const { user, loading } = useAuth();
   const navigate = useNavigate();
   const location = useLocation();
   const { folderName: folderNameParam } = useParams<{ folderName?: string }>();
@@ -77,6 +81,8 @@ export function WatchlistsDashboard() {
     isHydrated
   } = useCloudWatchlists();
   const { watchedCount, watched, toggle: toggleWatched } = useWatched();
+  const { savedSearches, runSearch, removeSavedSearch, isRunning } = useSavedSearches();
+  const [savedSearchRuns, setSavedSearchRuns] = useState<Record<string, { newResults: SearchResult[]; error?: string }>>({});
 
   const [profile, setProfile] = useState<any>(null);
   const [showWatchedView, setShowWatchedView] = useState(false);
@@ -199,6 +205,21 @@ export function WatchlistsDashboard() {
     }
   };
 
+  const handleRunSavedSearch = async (searchId: string) => {
+    const search = savedSearches.find((entry) => entry.id === searchId);
+    if (!search) return;
+    try {
+      const run = await runSearch(search);
+      setSavedSearchRuns((prev) => ({ ...prev, [searchId]: { newResults: run.newResults } }));
+      emitClientEvent({
+        event: 'saved_search_rerun',
+        data: { new_results: run.newResults.length, total_results: run.results.length }
+      });
+    } catch {
+      setSavedSearchRuns((prev) => ({ ...prev, [searchId]: { newResults: [], error: 'Could not run this search. Try again in a moment.' } }));
+    }
+  };
+
   // Deep-link & route synchronization: keep internal state in sync with URL pathname and params
   useEffect(() => {
     const pathname = location.pathname;
@@ -459,7 +480,7 @@ export function WatchlistsDashboard() {
       setSharingFolderId(folder.id);
       setShareLink(null);
 
-      const data = await apiPost<any>('/api/watchlists/share', {
+      const data = await apiPost<WatchlistShareResponse>('/api/watchlists/share', {
         folder_name: folder.name,
         folder_icon: folder.icon || null,
         items: folder.items.map(item => ({
@@ -469,7 +490,7 @@ export function WatchlistsDashboard() {
           added_at: item.added_at
         })),
         visibility: 'public'
-      }, undefined, session?.access_token ? { Authorization: `Bearer ${session.access_token}` } : {});
+      });
       setShareLink(data.share_url);
     } catch (err) {
       console.error('Share error:', err);
@@ -1165,6 +1186,94 @@ export function WatchlistsDashboard() {
             </div>
           )}
 
+          {/* SAVED SEARCHES SECTION */}
+          {!activeFolder && !showWatchedView && savedSearches.length > 0 && (
+            <div className="mt-12 animate-fade-in">
+              <div className="wl-section-header mb-6">
+                <h2 className="wl-section-title text-2xl font-bold">Saved Searches</h2>
+                <p className="wl-section-subtitle">Re-run to see titles that are new since the last run</p>
+              </div>
+
+              <div className="grid gap-3 sm:grid-cols-2 xl:grid-cols-3">
+                {savedSearches.map((search) => {
+                  const run = savedSearchRuns[search.id];
+                  const running = isRunning(search.id);
+                  const state = savedSearchToUrlState(search);
+                  const chips = describeSearchRefinement(state.refinement);
+                  return (
+                    <div key={search.id} className="glass-panel p-4 rounded-2xl border border-white/5 flex flex-col gap-3">
+                      <div className="flex items-start justify-between gap-3">
+                        <div className="min-w-0">
+                          <h3 className="text-white font-semibold truncate">{search.name}</h3>
+                          <p className="text-xs text-brand-text-light truncate">
+                            “{search.query}”
+                            {search.last_run_at ? ` · Last run ${new Date(search.last_run_at).toLocaleDateString()}` : ' · Never run'}
+                          </p>
+                        </div>
+                        <button
+                          type="button"
+                          onClick={() => {
+                            void removeSavedSearch(search.id);
+                          }}
+                          className="p-1.5 rounded-lg hover:bg-white/10 text-brand-text-light hover:text-white transition-colors"
+                          aria-label={`Delete saved search ${search.name}`}
+                        >
+                          <TrashIcon className="w-4 h-4" />
+                        </button>
+                      </div>
+
+                      {chips.length > 0 && (
+                        <div className="flex flex-wrap gap-1.5">
+                          {chips.map((chip) => (
+                            <span key={chip.key} className="px-2 py-0.5 rounded-full bg-white/5 border border-white/10 text-[11px] text-brand-text-light">
+                              {chip.label}
+                            </span>
+                          ))}
+                        </div>
+                      )}
+
+                      {run?.error && <p className="text-xs text-red-300">{run.error}</p>}
+                      {run && !run.error && (
+                        run.newResults.length > 0 ? (
+                          <div className="space-y-1.5">
+                            <p className="text-xs font-semibold text-emerald-300">{run.newResults.length} new since last run</p>
+                            <ul className="space-y-1">
+                              {run.newResults.slice(0, 5).map((result) => (
+                                <li key={getSearchResultKey(result)}>
+                                  <Link to={`/${result.media_type}/${result.id}`} className="text-sm text-white hover:underline">
+                                    {result.title}{result.year ? ` (${result.year})` : ''}
+                                  </Link>
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        ) : (
+                          <p className="text-xs text-brand-text-light">Nothing new since last run</p>
+                        )
+                      )}
+
+                      <div className="flex items-center gap-2 mt-auto">
+                        <button
+                          type="button"
+                          className="mm-chip-button"
+                          disabled={running}
+                          onClick={() => {
+                            void handleRunSavedSearch(search.id);
+                          }}
+                        >
+                          {running ? 'Running…' : 'Re-run'}
+                        </button>
+                        <Link to={buildSearchPath(state)} className="text-xs text-brand-text-light hover:text-white transition-colors">
+                          Open results
+                        </Link>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
           {/* SEARCH HISTORY SECTION */}
           {!activeFolder && !showWatchedView && (
             <div className="mt-12 animate-fade-in pb-12">
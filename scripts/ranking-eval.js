@@ -0,0 +1,111 @@
+/**
+ * Prints a per-query diff between two ranking eval reports.
+ *
+ *   node scripts/ranking-eval.js                       baseline vs current code
+ *   node scripts/ranking-eval.js before.json           saved report vs current code
+ *   node scripts/ranking-eval.js before.json after.json
+ *   node scripts/ranking-eval.js --save report.json    also keep the current report
+ *
+ * Save a report on one branch and pass it as `before` on another to compare
+ * two ranker versions.
+ */
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { execFileSync } = require('child_process');
+
+const BASELINE_PATH = path.join(__dirname, '..', '__tests__', 'fixtures', 'ranking', 'baseline.json');
+const METRICS = ['ndcg', 'mrr', 'top1'];
+
+function parseArgs(argv) {
+  const files = [];
+  let save = null;
+  for (let i = 0; i < argv.length; i += 1) {
+    if (argv[i] === '--save') {
+      save = argv[i + 1];
+      i += 1;
+    } else {
+      files.push(argv[i]);
+    }
+  }
+  return { before: files[0] || BASELINE_PATH, after: files[1] || null, save };
+}
+
+function readReports(filePath) {
+  return JSON.parse(fs.readFileSync(filePath, 'utf8'));
+}
+
+function runCurrentReport() {
+  const out = path.join(os.tmpdir(), `ranking-eval-${process.pid}.json`);
+  try {
+    execFileSync(
+      process.platform === 'win32' ? 'npx.cmd' : 'npx',
+      ['jest', '__tests__/services/rankingEval.test.ts', '--silent'],
+      { stdio: 'inherit', env: { ...process.env, RANKING_EVAL_REPORT_OUT: out } }
+    );
+  } catch {
+    // A baseline failure still writes the report, and the diff is what explains it.
+  }
+  if (!fs.existsSync(out)) {
+    console.error('Ranking eval did not produce a report.');
+    process.exit(1);
+  }
+  const reports = readReports(out);
+  fs.unlinkSync(out);
+  return reports;
+}
+
+function formatDelta(before, after) {
+  const delta = after - before;
+  if (Math.abs(delta) < 1e-6) return '      =';
+  return `${delta > 0 ? '+' : ''}${delta.toFixed(4)}`.padStart(7);
+}
+
+function diffRanker(name, before, after) {
+  console.log(`\n${name} (fixture v${before.fixtureVersion} -> v${after.fixtureVersion}, k=${after.k})`);
+  for (const metric of METRICS) {
+    console.log(`  ${metric.padEnd(5)} ${before.metrics[metric].toFixed(4)} -> ${after.metrics[metric].toFixed(4)} ${formatDelta(before.metrics[metric], after.metrics[metric])}`);
+  }
+
+  const beforeById = new Map(before.queries.map((query) => [query.id, query]));
+  let changed = 0;
+  for (const query of after.queries) {
+    const previous = beforeById.get(query.id);
+    beforeById.delete(query.id);
+    if (!previous) {
+      console.log(`  + ${query.id} (new) ndcg ${query.ndcg.toFixed(4)}`);
+      changed += 1;
+      continue;
+    }
+    const sameRanking = previous.ranking.join(' ') === query.ranking.join(' ');
+    if (sameRanking && previous.ndcg === query.ndcg) continue;
+    changed += 1;
+    console.log(`  ~ ${query.id} "${query.query}"`);
+    console.log(`      ndcg ${formatDelta(previous.ndcg, query.ndcg)}  rr ${formatDelta(previous.reciprocalRank, query.reciprocalRank)}  top1 ${formatDelta(previous.top1, query.top1)}`);
+    if (!sameRanking) {
+      console.log(`      before: ${previous.ranking.join(', ')}`);
+      console.log(`      after:  ${query.ranking.join(', ')}`);
+    }
+  }
+  for (const id of beforeById.keys()) {
+    console.log(`  - ${id} (removed)`);
+    changed += 1;
+  }
+  if (changed === 0) console.log('  no per-query changes');
+}
+
+const args = parseArgs(process.argv.slice(2));
+const before = readReports(args.before);
+const after = args.after ? readReports(args.after) : runCurrentReport();
+
+if (args.save) {
+  fs.writeFileSync(args.save, `${JSON.stringify(after, null, 2)}\n`);
+}
+
+for (const name of Object.keys(after)) {
+  if (!before[name]) {
+    console.log(`\n${name}: no report to compare against`);
+    continue;
+  }
+  diffRanker(name, before[name], after[name]);
+}
@@ -79,6 +79,99 @@ def _normalise_result(item: dict, media_type: str | None = None) -> SearchResult
     )
 
 
+# Client status values onto TMDB's ``status`` strings for series.
+_TV_STATUS = {
+    "returning": {"Returning Series"},
+    "planned": {"Planned", "Pilot"},
+    "in_production": {"In Production"},
+    "ended": {"Ended"},
+    "cancelled": {"Canceled", "Cancelled"},
+}
+
+# Search responses do not carry runtime, credits or status, so these filters
+# need each candidate's details. Capped to keep one search from fanning out;
+# candidates past the cap are dropped and the response totals say so.
+_DETAIL_FILTER_LIMIT = 40
+
+
+def _parse_id_list(value: str | None) -> set[int]:
+    return {int(part) for part in (value or "").replace("|", ",").split(",") if part.strip().isdigit()}
+
+
+def _runtime_minutes(details: dict) -> int | None:
+    runtime = details.get("runtime")
+    if not runtime:
+        episode_runtimes = details.get("episode_run_time") or []
+        runtime = episode_runtimes[0] if episode_runtimes else None
+    if not runtime:
+        runtime = (details.get("last_episode_to_air") or {}).get("runtime")
+    return runtime or None
+
+
+def _matches_details(
+    details: dict,
+    runtime_min: int | None,
+    runtime_max: int | None,
+    cast_ids: set[int],
+    crew_ids: set[int],
+    status: str | None,
+) -> bool:
+    if runtime_min or runtime_max:
+        runtime = _runtime_minutes(details)
+        if runtime is None:
+            return False
+        if runtime_min and runtime < runtime_min:
+            return False
+        if runtime_max and runtime > runtime_max:
+            return False
+
+    credits = details.get("credits") or {}
+    if cast_ids and not cast_ids.issubset({c.get("id") for c in credits.get("cast") or []}):
+        return False
+    if crew_ids and not crew_ids.issubset({c.get("id") for c in credits.get("crew") or []}):
+        return False
+
+    if status and details.get("status") not in _TV_STATUS.get(status, set()):
+        return False
+    return True
+
+
+async def _apply_detail_filters(
+    results: list[SearchResult],
+    runtime_min: int | None,
+    runtime_max: int | None,
+    cast_ids: set[int],
+    crew_ids: set[int],
+    status: str | None,
+) -> list[SearchResult]:
+    """Keep results whose details satisfy the runtime, cast, crew and TV status filters.
+
+    A result whose detail lookup fails is kept unverified rather than dropped.
+    """
+    if not (runtime_min or runtime_max or cast_ids or crew_ids or status):
+        return results
+
+    if len(results) > _DETAIL_FILTER_LIMIT:
+        logger.info("Detail filters checked %d of %d results", _DETAIL_FILTER_LIMIT, len(results))
+    candidates = results[:_DETAIL_FILTER_LIMIT]
+    if status:
+        candidates = [r for r in candidates if r.media_type == "tv"]
+
+    details_list = await asyncio.gather(
+        *(tmdb.get_details_with_credits(r.media_type, r.id) for r in candidates),
+        return_exceptions=True,
+    )
+    kept: list[SearchResult] = []
+    for result, details in zip(candidates, details_list):
+        if isinstance(details, Exception):
+            logger.warning("Detail filter lookup failed for %s/%s: %s", result.media_type, result.id, details)
+            kept.append(result)
+            continue
+        if _matches_details(details, runtime_min, runtime_max, cast_ids, crew_ids, status):
+            kept.append(result)
+    return kept
+
+
 @router.api_route("/search", methods=["GET", "POST"])
 async def search(
     q: str | None = Query(None, min_length=1),
@@ -89,6 +182,13 @@ async def search(
     yearMax: int | None = Query(None, alias="yearMax"),
     ratingMin: float | None = Query(None, alias="ratingMin"),
     sortBy: str = Query("popularity.desc", alias="sortBy"),
+    languages: str | None = Query(None, description="Comma-separated ISO 639-1 codes"),
+    runtimeMin: int | None = Query(None, alias="runtimeMin", ge=0),
+    runtimeMax: int | None = Query(None, alias="runtimeMax", ge=1),
+    withCast: str | None = Query(None, alias="withCast", description="Comma-separated person IDs"),
+    withCrew: str | None = Query(None, alias="withCrew", description="Comma-separated person IDs"),
+    status: str | None = Query(None, description="TV only: returning | planned | in_production | ended | cancelled"),
+    includeAdult: bool = Query(False, alias="includeAdult"),
     body: SearchRequest | None = None,
 ) -> Any:
     # Use body if provided (POST), otherwise use query params
@@ -101,6 +201,13 @@ async def search(
         yearMax = body.yearMax
         ratingMin = body.ratingMin
         sortBy = body.sortBy
+        languages = body.languages
+        runtimeMin = body.runtimeMin
+        runtimeMax = body.runtimeMax
+        withCast = body.withCast
+        withCrew = body.withCrew
+        status = body.status
+        includeAdult = body.includeAdult
 
     if not q or len(q.strip()) < 1:
         return api_error(400, "query_too_short", "Query too short")
@@ -113,7 +220,10 @@ async def search(
         "q": query.lower(), "page": page, "type": type,
         "genres": genres or "", "yearMin": yearMin or "",
         "yearMax": yearMax or "", "ratingMin": ratingMin or "",
-        "sortBy": sortBy,
+        "sortBy": sortBy, "languages": languages or "",
+        "runtimeMin": runtimeMin or "", "runtimeMax": runtimeMax or "",
+        "withCast": withCast or "", "withCrew": withCrew or "",
+        "status": status or "", "includeAdult": includeAdult,
     })
     cached = await get_cache(cache_key)
     if cached:
@@ -146,11 +256,11 @@ async def search(
 
         if type == "movie" or type == "all":
             movie_idx = len(tasks)
-            tasks.append(tmdb.search_movie(search_query, page=page))
+            tasks.append(tmdb.search_movie(search_query, page=page, include_adult=includeAdult))
 
         if type == "tv" or type == "all":
             tv_idx = len(tasks)
-            tasks.append(tmdb.search_tv(search_query, page=page))
+            tasks.append(tmdb.search_tv(search_query, page=page, include_adult=includeAdult))
 
         res_list = await asyncio.gather(*tasks, return_exceptions=True)
 
@@ -225,11 +335,35 @@ async def search(
         if ratingMin:
             results = [r for r in results if r.rating and r.rating >= ratingMin]
 
+        language_codes = {code.strip().lower() for code in (languages or "").split(",") if code.strip()}
+        if language_codes:
+            results = [r for r in results if (r.original_language or "").lower() in language_codes]
+
+        cast_ids = _parse_id_list(withCast)
+        crew_ids = _parse_id_list(withCrew)
+        tv_status = status if type == "tv" else None
+        detail_filters_active = bool(runtimeMin or runtimeMax or cast_ids or crew_ids or tv_status)
+        results = await _apply_detail_filters(
+            results,
+            runtime_min=runtimeMin,
+            runtime_max=runtimeMax,
+            cast_ids=cast_ids,
+            crew_ids=crew_ids,
+            status=tv_status,
+        )
+        if detail_filters_active:
+            # TMDB's totals count titles these filters were never checked
+            # against, so report only what this page kept.
+            total_results = len(results)
+            total_pages = page
+
         # Sort
         if sortBy == "vote_average.desc":
             results.sort(key=lambda r: r.rating or 0, reverse=True)
         elif sortBy == "release_date.desc":
             results.sort(key=lambda r: r.year or "", reverse=True)
+        elif sortBy == "title.asc":
+            results.sort(key=lambda r: r.title.casefold())
         else:
             results.sort(key=lambda r: r.popularity or 0, reverse=True)
 
@@ -254,6 +388,13 @@ async def search(
                 year_min=yearMin,
                 year_max=yearMax,
                 rating_min=ratingMin,
+                languages=sorted(language_codes),
+                runtime_min=runtimeMin,
+                runtime_max=runtimeMax,
+                with_cast=sorted(cast_ids),
+                with_crew=sorted(crew_ids),
+                status=tv_status,
+                include_adult=includeAdult,
             ),
         )
 
@@ -68,6 +68,7 @@ async def suggest(q: str = Query(..., min_length=1)) -> Any:
                     confidence=round(score, 3),
                     known_for_department=item.get("known_for_department"),
                     known_for_titles=known_for,
+                    popularity=item.get("popularity"),
                 ))
             else:
                 date_field = "release_date" if mt == "movie" else "first_air_date"
@@ -80,6 +81,9 @@ async def suggest(q: str = Query(..., min_length=1)) -> Any:
                     media_type=mt,
                     poster_url=tmdb.build_image_url(item.get("poster_path"), "w185"),
                     confidence=round(score, 3),
+                    popularity=item.get("popularity"),
+                    genre_ids=item.get("genre_ids"),
+                    original_language=item.get("original_language"),
                 ))
 
         # Sort by confidence descending
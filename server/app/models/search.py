@@ -55,6 +55,13 @@ class AppliedFilters(BaseModel):
     year_min: int | None = None
     year_max: int | None = None
     rating_min: float | None = None
+    languages: list[str] = []
+    runtime_min: int | None = None
+    runtime_max: int | None = None
+    with_cast: list[int] = []
+    with_crew: list[int] = []
+    status: str | None = None  # only applied to TV searches
+    include_adult: bool = False
 
 
 class SearchPageResponse(BaseModel):
@@ -83,6 +90,13 @@ class SearchRequest(BaseModel):
     yearMax: int | None = None
     ratingMin: float | None = None
     sortBy: str = "popularity.desc"
+    languages: str | None = None  # Comma-separated ISO 639-1 codes
+    runtimeMin: int | None = None
+    runtimeMax: int | None = None
+    withCast: str | None = None  # Comma-separated TMDB person IDs
+    withCrew: str | None = None
+    status: str | None = None  # TV only: returning | planned | in_production | ended | cancelled
+    includeAdult: bool = False
 
 
 class VibeRequest(BaseModel):
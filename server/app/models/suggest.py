@@ -15,6 +15,9 @@ class SuggestionItem(BaseModel):
     confidence: float = 0.0
     known_for_department: str | None = None
     known_for_titles: list[str] | None = None
+    popularity: float | None = None
+    genre_ids: list[int] | None = None
+    original_language: str | None = None
 
 
 class SuggestResponse(BaseModel):
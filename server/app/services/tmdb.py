@@ -89,15 +89,25 @@ async def search_multi(query: str, page: int = 1) -> dict:
     return await tmdb_fetch("search/multi", {"query": query, "page": page})
 
 
-async def search_movie(query: str, year: str | None = None, page: int = 1) -> dict:
-    params: dict[str, Any] = {"query": query, "page": page}
+async def search_movie(
+    query: str,
+    year: str | None = None,
+    page: int = 1,
+    include_adult: bool = False,
+) -> dict:
+    params: dict[str, Any] = {"query": query, "page": page, "include_adult": str(include_adult).lower()}
     if year:
         params["year"] = year
     return await tmdb_fetch("search/movie", params)
 
 
-async def search_tv(query: str, year: str | None = None, page: int = 1) -> dict:
-    params: dict[str, Any] = {"query": query, "page": page}
+async def search_tv(
+    query: str,
+    year: str | None = None,
+    page: int = 1,
+    include_adult: bool = False,
+) -> dict:
+    params: dict[str, Any] = {"query": query, "page": page, "include_adult": str(include_adult).lower()}
     if year:
         params["first_air_date_year"] = year
     return await tmdb_fetch("search/tv", params)
@@ -112,6 +122,14 @@ async def get_details(media_type: str, tmdb_id: int) -> dict:
     return await tmdb_fetch(f"{media_type}/{tmdb_id}", {"language": "en-US"})
 
 
+async def get_details_with_credits(media_type: str, tmdb_id: int) -> dict:
+    """Details plus cast and crew in one request, for filtering search results."""
+    return await tmdb_fetch(
+        f"{media_type}/{tmdb_id}",
+        {"language": "en-US", "append_to_response": "credits"},
+    )
+
+
 async def get_season_details(tv_id: int, season_number: int) -> dict:
     """Fetch details for a specific season of a TV show (contains episodes)."""
     return await tmdb_fetch(f"tv/{tv_id}/season/{season_number}", {"language": "en-US"})
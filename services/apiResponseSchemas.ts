@@ -0,0 +1,433 @@
+import {
+  CastMember,
+  DetailsResponse,
+  EpisodesResponse,
+  FilmItem,
+  MovieData,
+  PersonCredit,
+  PersonProfile,
+  PersonSearchCandidate,
+  Rating,
+  RelatedPerson,
+  RelatedTitle,
+  SearchPageResponse,
+  SearchResult,
+  SharedWatchlistView,
+  SuggestionItem,
+  SuggestResponse,
+  TVShowEpisode,
+  VibeParseResult,
+  WatchlistItem,
+  WatchOption
+} from '../types';
+import { IS_DEV } from '../lib/config';
+import {
+  alias,
+  array,
+  boolean,
+  describeValue,
+  nullable,
+  number,
+  object,
+  oneOf,
+  optional,
+  parseWithSchema,
+  Schema,
+  SchemaIssue,
+  string
+} from '../lib/schema';
+import { sanitizeMovieData } from './movieDataValidation';
+import { emitClientEvent } from './clientObservability';
+
+export const SCHEMA_VIOLATION_EVENT = 'moviemonk:schema-violation';
+
+const MAX_REPORTED_ISSUES = 10;
+
+const roleBucket = oneOf(['all', 'acting', 'directing', 'other'], 'other');
+const titleMediaType = oneOf(['movie', 'tv'], 'movie');
+
+/** Saved movies keep going through the existing sanitizer. */
+const movieData: Schema<MovieData> = {
+  expected: 'MovieData',
+  parse(value, path, issues) {
+    const movie = sanitizeMovieData(value);
+    if (movie) return movie;
+    issues.push({ path: path || '(root)', expected: 'MovieData', received: describeValue(value) });
+    return sanitizeMovieData({}) as MovieData;
+  }
+};
+
+export const ratingSchema: Schema<Rating> = object({
+  source: string(),
+  score: string()
+});
+
+export const suggestionItemSchema: Schema<SuggestionItem> = object({
+  id: number(),
+  title: string(),
+  year: optional(string()),
+  type: oneOf(['movie', 'show', 'person'], 'movie'),
+  media_type: oneOf(['movie', 'tv', 'person'], 'movie'),
+  poster_url: optional(string()),
+  confidence: number(),
+  known_for_department: optional(string()),
+  known_for_titles: optional(array(string())),
+  popularity: optional(number()),
+  genre_ids: optional(array(number())),
+  original_language: optional(string())
+});
+
+export const suggestResponseSchema: Schema<SuggestResponse> = object({
+  ok: boolean(true),
+  query: optional(string()),
+  suggestions: array(suggestionItemSchema),
+  cached: optional(boolean())
+});
+
+const personCandidateSchema: Schema<PersonSearchCandidate> = object({
+  id: number(),
+  name: string(),
+  type: oneOf(['person'], 'person'),
+  score: number(),
+  confidence: number(),
+  popularity: optional(number()),
+  role_match: optional(oneOf(['match', 'mismatch', 'neutral'], 'neutral')),
+  known_for_department: optional(string()),
+  known_for_titles: optional(array(string())),
+  profile_url: optional(string())
+});
+
+export const searchResultSchema: Schema<SearchResult> = object({
+  id: number(),
+  title: string(),
+  year: optional(string()),
+  type: oneOf(['movie', 'show'], 'movie'),
+  media_type: titleMediaType,
+  poster_url: optional(string()),
+  backdrop_url: optional(string()),
+  overview: optional(string()),
+  summary_snippet: optional(string()),
+  rating: optional(number()),
+  genre_ids: optional(array(number())),
+  genres: optional(array(string())),
+  confidence: number(),
+  popularity: optional(number()),
+  original_language: optional(string()),
+  people: optional(array(string())),
+  vibe_score: optional(number()),
+  match_reasons: optional(array(string()))
+});
+
+export const searchPageResponseSchema: Schema<SearchPageResponse> = object({
+  ok: boolean(true),
+  query: string(),
+  page: number(1),
+  total_pages: number(1),
+  total_results: number(),
+  search_mode: optional(oneOf(['keyword', 'vibe', 'mixed'], 'keyword')),
+  offline: optional(boolean()),
+  hero: nullable(searchResultSchema),
+  results: array(searchResultSchema),
+  people: array(personCandidateSchema),
+  did_you_mean: optional(array(string())),
+  vibe: optional(object({
+    intent_type: oneOf(['title_lookup', 'vibe_discovery', 'mixed'], 'mixed'),
+    summary: string(),
+    signals: array(string())
+  })),
+  // The FastAPI backend sends these keys in snake_case.
+  applied_filters: optional(object({
+    type: oneOf(['all', 'movie', 'tv'], 'all'),
+    sortBy: alias(string('popularity.desc'), 'sort_by'),
+    genres: array(number()),
+    yearMin: nullable(alias(number(), 'year_min')),
+    yearMax: nullable(alias(number(), 'year_max')),
+    ratingMin: nullable(alias(number(), 'rating_min')),
+    languages: optional(array(string())),
+    runtimeMin: optional(alias(number(), 'runtime_min')),
+    runtimeMax: optional(alias(number(), 'runtime_max')),
+    withCast: optional(alias(array(number()), 'with_cast')),
+    withCrew: optional(alias(array(number()), 'with_crew')),
+    status: optional(string()),
+    includeAdult: optional(alias(boolean(), 'include_adult'))
+  }))
+});
+
+const episodeSchema: Schema<TVShowEpisode> = object({
+  id: number(),
+  season: number(),
+  episode: number(),
+  name: string(),
+  airdate: string(),
+  runtime: nullable(number()),
+  rating: nullable(number()),
+  image: nullable(string()),
+  summary: nullable(string())
+});
+
+export const episodesResponseSchema: Schema<EpisodesResponse> = object({
+  ok: boolean(true),
+  episodes: array(episodeSchema),
+  source: string(),
+  cached: boolean()
+});
+
+const personCreditSchema: Schema<PersonCredit> = object({
+  id: number(),
+  media_type: titleMediaType,
+  title: string(),
+  year: optional(number()),
+  role: string(),
+  role_bucket: roleBucket,
+  character: optional(string()),
+  job: optional(string()),
+  department: optional(string()),
+  popularity: optional(number()),
+  poster_url: optional(string())
+});
+
+const filmItemSchema: Schema<FilmItem> = object({
+  id: number(),
+  title: string(),
+  year: optional(number()),
+  role: string(),
+  media_type: optional(titleMediaType),
+  role_bucket: optional(roleBucket),
+  character: optional(string()),
+  poster_url: optional(string()),
+  popularity: optional(number()),
+  job: optional(string()),
+  department: optional(string())
+});
+
+const relatedPersonSchema: Schema<RelatedPerson> = object({
+  id: number(),
+  name: string(),
+  known_for: optional(string()),
+  profile_url: optional(string()),
+  popularity: optional(number()),
+  source: optional(oneOf(['tmdb-co-star', 'tmdb-similar', 'serpapi'], 'tmdb-similar'))
+});
+
+export const personProfileSchema: Schema<PersonProfile> = object({
+  person: object({
+    id: number(),
+    name: string(),
+    biography: optional(string()),
+    birthday: optional(string()),
+    place_of_birth: optional(string()),
+    profile_url: optional(string()),
+    known_for_department: optional(string())
+  }),
+  filmography: array(filmItemSchema),
+  top_work: optional(array(personCreditSchema)),
+  credits_all: optional(array(personCreditSchema)),
+  credits_acting: optional(array(personCreditSchema)),
+  credits_directing: optional(array(personCreditSchema)),
+  credits_other: optional(array(personCreditSchema)),
+  role_distribution: optional(object({
+    acting: number(),
+    directing: number(),
+    other: number()
+  })),
+  career_span: optional(object({
+    start_year: optional(number()),
+    end_year: optional(number()),
+    active_years: optional(number())
+  })),
+  known_for_tags: optional(array(string())),
+  sources: optional(array(object({ name: string(), url: string() }))),
+  related_people: optional(array(relatedPersonSchema)),
+  cached: optional(boolean())
+});
+
+const relatedTitleSchema: Schema<RelatedTitle> = object({
+  id: number(),
+  title: string(),
+  year: optional(string()),
+  media_type: titleMediaType,
+  poster_url: optional(string()),
+  popularity: optional(number()),
+  source: optional(oneOf(['tmdb-similar', 'tmdb-recommendations', 'serpapi'], 'tmdb-similar'))
+});
+
+const castMemberSchema: Schema<CastMember> = object({
+  id: optional(number()),
+  name: string(),
+  role: string(),
+  known_for: string(),
+  profile_url: optional(string())
+});
+
+const watchOptionSchema: Schema<WatchOption> = object({
+  platform: string(),
+  link: string(),
+  type: oneOf(['subscription', 'rent', 'free', 'buy'], 'subscription'),
+  confidence: optional(number()),
+  last_checked_at: optional(string()),
+  region: optional(string())
+});
+
+/**
+ * Title details as the backend sends them. Unlike `movieData` this keeps every
+ * field the detail page reads; `tvShow` and `technical_specs` pass through for
+ * the view's own normalisation.
+ */
+const movieDetailsSchema: Schema<MovieData> = object({
+  tmdb_id: optional(string()),
+  title: string(),
+  year: string(),
+  language: optional(string()),
+  type: oneOf(['movie', 'show', 'song', 'franchise'], 'movie'),
+  media_type: optional(string()),
+  genres: array(string()),
+  poster_url: string(),
+  backdrop_url: string(),
+  trailer_url: string(),
+  ratings: array(ratingSchema),
+  cast: array(castMemberSchema),
+  crew: object({ director: string(), writer: string(), music: string() }),
+  summary_short: string(),
+  summary_medium: string(),
+  summary_long_spoilers: string(),
+  suspense_breaker: string(),
+  where_to_watch: array(watchOptionSchema),
+  extra_images: array(string()),
+  ai_notes: string(),
+  budget: optional(string()),
+  revenue: optional(string()),
+  content_rating: optional(string()),
+  vibe_check: optional(string()),
+  content_advisory: optional(array(string())),
+  best_watched_with: optional(string()),
+  related: optional(array(relatedTitleSchema))
+});
+
+export const detailsResponseSchema: Schema<DetailsResponse> = object({
+  ok: boolean(true),
+  data: movieDetailsSchema,
+  similar: optional(array(relatedTitleSchema)),
+  sources: optional(array(object({ name: string(), url: string() }))),
+  cached: optional(boolean())
+});
+
+const watchlistItemSchema: Schema<WatchlistItem> = object({
+  id: string(),
+  saved_title: string(),
+  movie: movieData,
+  added_at: string()
+});
+
+/** The backend sends snake_case keys here; the aliases map them onto the client type. */
+export const sharedWatchlistViewSchema: Schema<SharedWatchlistView> = object({
+  folderName: alias(string(), 'folder_name'),
+  folderIcon: optional(alias(string(), 'folder_icon')),
+  items: array(watchlistItemSchema),
+  shared_by: string(),
+  created_at: string(),
+  item_count: number()
+});
+
+export const vibeParseResultSchema: Schema<VibeParseResult> = object({
+  query_raw: string(),
+  intent_type: oneOf(['title_lookup', 'vibe_discovery', 'mixed'], 'mixed'),
+  hard_constraints: object({
+    include_genres: array(string()),
+    exclude_genres: array(string()),
+    languages: array(string()),
+    release_year_min: nullable(number()),
+    release_year_max: nullable(number()),
+    max_runtime_minutes: nullable(number()),
+    min_runtime_minutes: nullable(number()),
+    media_type: oneOf(['movie', 'tv', 'any'], 'any'),
+    include_people: array(string()),
+    exclude_people: array(string())
+  }),
+  soft_preferences: object({
+    tone_tags: array(string()),
+    story_cues: array(string()),
+    pace: oneOf(['slow', 'medium', 'fast', 'any'], 'any'),
+    intensity: oneOf(['low', 'medium', 'high', 'any'], 'any'),
+    reference_titles: array(string())
+  }),
+  ranking_hints: object({
+    boost_overview_terms: array(string()),
+    boost_keyword_terms: array(string()),
+    penalize_terms: array(string())
+  }),
+  fallback_query_terms: array(string()),
+  confidence: number(),
+  notes_for_retrieval: array(string())
+});
+
+/**
+ * Response schema per endpoint, keyed like the API client's circuit breakers
+ * (`METHOD /path` with numeric segments as `:id`). Endpoints without a typed
+ * response, such as the raw `/api/tmdb` proxy, are not listed.
+ */
+export const API_RESPONSE_SCHEMAS: Record<string, Schema<unknown>> = {
+  'GET /api/search': searchPageResponseSchema,
+  'POST /api/search': searchPageResponseSchema,
+  'GET /api/suggest': suggestResponseSchema,
+  'GET /api/details/movie/:id': detailsResponseSchema,
+  'GET /api/details/tv/:id': detailsResponseSchema,
+  'GET /api/episodes/:id/:id': episodesResponseSchema,
+  'GET /api/person/:id': personProfileSchema,
+  'GET /api/watchlists/share': sharedWatchlistViewSchema,
+  'POST /api/vibe': vibeParseResultSchema,
+  'GET /api/omdb': array(ratingSchema)
+};
+
+export type SchemaViolation = {
+  endpoint: string;
+  issues: SchemaIssue[];
+};
+
+const reportedIssues = new Set<string>();
+
+/** Array indices are folded so one bad field across 20 results reports once. */
+function issueKey(endpoint: string, issue: SchemaIssue): string {
+  return `${endpoint} ${issue.path.replace(/\[\d+\]/g, '[]')}`;
+}
+
+function reportViolation(endpoint: string, issues: SchemaIssue[]): void {
+  const fresh = issues.filter((issue) => {
+    const key = issueKey(endpoint, issue);
+    if (reportedIssues.has(key)) return false;
+    reportedIssues.add(key);
+    return true;
+  });
+  if (fresh.length === 0) return;
+
+  emitClientEvent({
+    event: 'api_schema_violation',
+    level: 'warn',
+    data: {
+      endpoint,
+      issue_count: fresh.length,
+      issues: fresh.slice(0, MAX_REPORTED_ISSUES)
+    }
+  });
+
+  if (IS_DEV && typeof window !== 'undefined') {
+    console.warn(`[schema] ${endpoint} response does not match its type`, fresh);
+    window.dispatchEvent(new CustomEvent<SchemaViolation>(SCHEMA_VIOLATION_EVENT, { detail: { endpoint, issues: fresh } }));
+  }
+}
+
+/**
+ * Coerces a successful response into its declared shape and reports any
+ * mismatch once per endpoint and field. Unknown endpoints pass through.
+ */
+export function validateApiResponse<T>(endpoint: string, data: T): T {
+  const schema = API_RESPONSE_SCHEMAS[endpoint];
+  if (!schema) return data;
+  const { value, issues } = parseWithSchema(schema, data);
+  if (issues.length > 0) reportViolation(endpoint, issues);
+  return value as T;
+}
+
+/** Test hook: forget which issues were already reported. */
+export function resetSchemaViolationReports(): void {
+  reportedIssues.clear();
+}
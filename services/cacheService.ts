@@ -1,4 +1,5 @@
 import { MovieData, GroundingSource } from '../types';
+import { recordCacheLookup } from '../lib/cacheStats';
 
 interface CachedResponse {
   movieData: MovieData;
@@ -190,6 +191,12 @@ export function setCachedByEntity(
  * Get cached response if available and valid
  */
 export function getCachedResponse(query: string, provider: string): { movieData: MovieData; sources: GroundingSource[] | null } | null {
+  const result = readCachedResponse(query, provider);
+  recordCacheLookup('cacheService', result !== null);
+  return result;
+}
+
+function readCachedResponse(query: string, provider: string): { movieData: MovieData; sources: GroundingSource[] | null } | null {
   try {
     // Entity-first path via query->entity index.
     const resolved = resolveEntityFromQuery(query, provider);
@@ -1,7 +1,13 @@
-import { apiPost, getApiUrl } from '../lib/apiClient';
+import { ApiError, apiPost, getApiUrl } from '../lib/apiClient';
 import { IS_DEV, ENABLE_OBSERVABILITY_API } from '../lib/config';
-
-type ObservabilityLevel = 'info' | 'warn' | 'error';
+import {
+  ObservabilityLevel,
+  ObservabilityQueue,
+  ObservabilityQueueStats,
+  ObservabilityRecord,
+  createIndexedDBObservabilityStore,
+  createObservabilityQueue
+} from './observabilityQueue';
 
 export type ClientObservabilityEvent = {
   event: string;
@@ -9,6 +15,58 @@ export type ClientObservabilityEvent = {
   data?: Record<string, unknown>;
 };
 
+/**
+ * Keep probability per event name. Chatty per-request events are sampled;
+ * errors are always kept and experiment events are left at 1 because the
+ * experiment report counts them.
+ */
+const OBSERVABILITY_SAMPLE_RATES: Record<string, number> = {
+  '*': 1,
+  search_request_started: 0.25,
+  search_request_succeeded: 0.25
+};
+
+export type RedactionRules = {
+  /** Keys whose values never leave the device, matched ignoring case and underscores. */
+  dropKeys: string[];
+  /** Keys holding search text; hashed unless the user opted into sharing queries. */
+  queryKeys: string[];
+  maxStringLength: number;
+};
+
+const DEFAULT_REDACTION_RULES: RedactionRules = {
+  dropKeys: [
+    'rawContent', 'password', 'token', 'accessToken', 'refreshToken', 'authorization', 'apiKey',
+    'email', 'userId', 'shareToken', 'sharedBy'
+  ],
+  queryKeys: ['query', 'originalQuery', 'selectedQuery', 'q'],
+  maxStringLength: 300
+};
+
+/** Per-event additions to the default rules. */
+const EVENT_REDACTION_RULES: Record<string, Partial<RedactionRules>> = {
+  client_error: { maxStringLength: 500 }
+};
+
+const STRING_SCRUBBERS: Array<[RegExp, string]> = [
+  [/[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi, '[email]'],
+  [/\beyJ[\w-]+\.[\w-]+\.[\w-]+/g, '[jwt]'],
+  [/\b(Bearer)\s+[\w.~+/-]+=*/gi, '$1 [token]'],
+  [/([?&#](?:access_token|refresh_token|token|api_key|apikey|key|code)=)[^&#\s]+/gi, '$1[redacted]'],
+  [/(\/watchlists\/share\/)[^/?#\s]+/g, '$1[token]'],
+  // Supabase user ids (and any other UUIDs) identify a person across sessions.
+  [/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, '[uuid]']
+];
+
+const MAX_REDACTION_DEPTH = 4;
+const MAX_REDACTED_ARRAY_ITEMS = 20;
+
+const MAX_RECENT_EVENTS = 50;
+
+let shareSearchQueries = false;
+const recentEvents: ObservabilityRecord[] = [];
+let queue: ObservabilityQueue | null = null;
+
 function toEndpoint(): string {
   return '/api/observability';
 }
@@ -33,6 +91,134 @@ function canUseBeacon(): boolean {
   return typeof navigator !== 'undefined' && typeof navigator.sendBeacon === 'function' && typeof Blob !== 'undefined';
 }
 
+function normalizeKey(key: string): string {
+  return key.replace(/[_-]/g, '').toLowerCase();
+}
+
+/** Stable, non-reversible-at-a-glance id for a query so repeats can still be grouped. */
+export function hashQuery(query: string): string {
+  const text = query.trim().toLowerCase();
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i += 1) {
+    const code = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return `q_${(h2 >>> 0).toString(16).padStart(8, '0')}${(h1 >>> 0).toString(16).padStart(8, '0')}`;
+}
+
+export function scrubString(value: string, maxLength = DEFAULT_REDACTION_RULES.maxStringLength): string {
+  const scrubbed = STRING_SCRUBBERS.reduce((text, [pattern, replacement]) => text.replace(pattern, replacement), value);
+  return scrubbed.length > maxLength ? `${scrubbed.slice(0, maxLength)}…[+${scrubbed.length - maxLength}]` : scrubbed;
+}
+
+export function getRedactionRules(eventName: string): RedactionRules {
+  const overrides = EVENT_REDACTION_RULES[eventName] || {};
+  return {
+    dropKeys: [...DEFAULT_REDACTION_RULES.dropKeys, ...(overrides.dropKeys || [])],
+    queryKeys: [...DEFAULT_REDACTION_RULES.queryKeys, ...(overrides.queryKeys || [])],
+    maxStringLength: overrides.maxStringLength ?? DEFAULT_REDACTION_RULES.maxStringLength
+  };
+}
+
+export function setEventRedactionRules(eventName: string, rules: Partial<RedactionRules> | null): void {
+  if (rules) EVENT_REDACTION_RULES[eventName] = rules;
+  else delete EVENT_REDACTION_RULES[eventName];
+}
+
+/** Mirrors the "share search terms" preference; until set, queries are hashed. */
+export function setSearchQuerySharing(enabled: boolean): void {
+  shareSearchQueries = enabled;
+}
+
+/**
+ * Removes personal data from an event payload before it leaves the device:
+ * secret-bearing keys are dropped, emails/tokens/UUIDs are masked inside any
+ * string, long strings are truncated and search text is hashed.
+ */
+export function redactEventData(
+  eventName: string,
+  data: Record<string, unknown>,
+  options: { shareQueries?: boolean } = {}
+): Record<string, unknown> {
+  const rules = getRedactionRules(eventName);
+  const dropKeys = new Set(rules.dropKeys.map(normalizeKey));
+  const queryKeys = new Set(rules.queryKeys.map(normalizeKey));
+  const shareQueries = options.shareQueries ?? shareSearchQueries;
+
+  const visit = (value: unknown, depth: number): unknown => {
+    if (typeof value === 'string') return scrubString(value, rules.maxStringLength);
+    if (value === null || typeof value !== 'object') return value;
+    if (depth >= MAX_REDACTION_DEPTH) return '[truncated]';
+    if (Array.isArray(value)) {
+      return value.slice(0, MAX_REDACTED_ARRAY_ITEMS).map((item) => visit(item, depth + 1));
+    }
+    const result: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value as Record<string, unknown>)) {
+      const normalized = normalizeKey(key);
+      if (dropKeys.has(normalized)) {
+        result[key] = '[redacted]';
+      } else if (queryKeys.has(normalized) && typeof entry === 'string') {
+        result[key] = shareQueries ? scrubString(entry, rules.maxStringLength) : hashQuery(entry);
+      } else {
+        result[key] = visit(entry, depth + 1);
+      }
+    }
+    return result;
+  };
+
+  return visit(data, 0) as Record<string, unknown>;
+}
+
+function sendBatch(records: ObservabilityRecord[]): Promise<boolean> {
+  // The queue owns retries and backoff; a breaker here would report its own state changes into the queue it guards.
+  return apiPost(toEndpoint(), { events: records }, undefined, undefined, { retries: 0, circuitBreaker: false })
+    .then(() => true)
+    .catch((error) => {
+      if (IS_DEV) {
+        console.warn('observability_transport_failed', error);
+      }
+      // A rejected payload will not get better on retry; only network and server failures are retried.
+      if (error instanceof ApiError && error.status >= 400 && error.status < 500 && error.status !== 408 && error.status !== 429) {
+        return true;
+      }
+      return false;
+    });
+}
+
+function beaconBatch(records: ObservabilityRecord[]): boolean {
+  if (!canUseBeacon()) return false;
+  const payload = safeJson({ events: records });
+  if (!payload) return true;
+  return navigator.sendBeacon(getApiUrl(toEndpoint()), new Blob([payload], { type: 'application/json' }));
+}
+
+function getQueue(): ObservabilityQueue {
+  if (queue) return queue;
+  const created = createObservabilityQueue(
+    {
+      transport: { send: sendBatch, beacon: beaconBatch },
+      store: createIndexedDBObservabilityStore(),
+      isOnline: () => typeof navigator === 'undefined' || navigator.onLine !== false
+    },
+    { sampleRates: OBSERVABILITY_SAMPLE_RATES }
+  );
+  queue = created;
+  void created.restore();
+
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') created.flushOnHide();
+  });
+  window.addEventListener('pagehide', () => created.flushOnHide());
+  window.addEventListener('online', () => {
+    void created.flush();
+  });
+  return created;
+}
+
 function devLog(event: ClientObservabilityEvent): void {
   if (IS_DEV) {
     const payload = {
@@ -52,28 +238,32 @@ export function emitClientEvent(input: ClientObservabilityEvent): void {
   if (typeof window === 'undefined') return;
   const event = { ...input, level: input.level || 'info' as ObservabilityLevel };
   devLog(event);
-  if (!observabilityApiEnabled()) return;
 
   const payload = safeJson({
     ts: nowIso(),
     source: 'client',
     event: event.event,
     level: event.level,
-    data: event.data || {}
+    data: redactEventData(event.event, event.data || {})
   });
   if (!payload) return;
+  // Round-trip through JSON so queued records are plain data IndexedDB can clone.
+  const record = JSON.parse(payload) as ObservabilityRecord;
+  recentEvents.push(record);
+  if (recentEvents.length > MAX_RECENT_EVENTS) recentEvents.shift();
 
-  if (canUseBeacon()) {
-    const body = new Blob([payload], { type: 'application/json' });
-    navigator.sendBeacon(getApiUrl(toEndpoint()), body);
-    return;
-  }
+  if (!observabilityApiEnabled()) return;
+  getQueue().enqueue(record);
+}
 
-  void apiPost(toEndpoint(), JSON.parse(payload), undefined, { keepalive: 'true' } as any).catch((error) => {
-    if (IS_DEV) {
-      console.warn('observability_transport_failed', error);
-    }
-  });
+/** Last events as they would be sent (after redaction), newest first. */
+export function getRecentClientEvents(): ObservabilityRecord[] {
+  return [...recentEvents].reverse();
+}
+
+/** Queue counters for diagnostics; null until the first event is queued. */
+export function getClientObservabilityStats(): ObservabilityQueueStats | null {
+  return queue ? queue.stats() : null;
 }
 
 export function emitClientError(error: unknown, context: Record<string, unknown> = {}): void {
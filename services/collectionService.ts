@@ -0,0 +1,73 @@
+import { apiGet } from '../lib/apiClient';
+import type { CollectionEntry, MovieCollection } from '../types';
+
+/**
+ * Collection Service
+ * TMDB collections (franchises) via the generic TMDB proxy. Collection parts
+ * carry no runtime, so each movie's details are fetched alongside.
+ */
+
+const IMG_BASE = 'https://image.tmdb.org/t/p';
+
+export interface CollectionRef {
+  id: number;
+  name: string;
+}
+
+function buildImageUrl(path: string | null | undefined, size: 'w342' | 'w780'): string {
+  return path ? `${IMG_BASE}/${size}${path}` : '';
+}
+
+function normalizeCollectionEntry(raw: any): CollectionEntry | null {
+  const id = Number(raw?.id);
+  const title = typeof raw?.title === 'string' ? raw.title.trim() : '';
+  if (!Number.isInteger(id) || id <= 0 || !title) return null;
+  const releaseDate = typeof raw?.release_date === 'string' && raw.release_date ? raw.release_date : null;
+
+  return {
+    id,
+    title,
+    year: releaseDate ? releaseDate.substring(0, 4) : '',
+    release_date: releaseDate,
+    runtime: typeof raw?.runtime === 'number' && raw.runtime > 0 ? raw.runtime : null,
+    rating: typeof raw?.vote_average === 'number' && raw.vote_count > 0 ? raw.vote_average : null,
+    poster_url: buildImageUrl(raw?.poster_path, 'w342'),
+    overview: typeof raw?.overview === 'string' ? raw.overview : ''
+  };
+}
+
+async function fetchRuntime(movieId: number, signal?: AbortSignal): Promise<number | null> {
+  try {
+    const details = await apiGet<any>('/api/tmdb', { endpoint: `movie/${movieId}` }, signal);
+    return typeof details?.runtime === 'number' && details.runtime > 0 ? details.runtime : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function fetchCollection(collectionId: number, signal?: AbortSignal): Promise<MovieCollection | null> {
+  const data = await apiGet<any>('/api/tmdb', { endpoint: `collection/${collectionId}` }, signal);
+  if (!data?.id) return null;
+
+  const parts = (Array.isArray(data.parts) ? data.parts : [])
+    .map(normalizeCollectionEntry)
+    .filter((entry: CollectionEntry | null): entry is CollectionEntry => entry !== null);
+  const runtimes = await Promise.all(parts.map((entry: CollectionEntry) => fetchRuntime(entry.id, signal)));
+
+  return {
+    id: Number(data.id),
+    name: typeof data.name === 'string' ? data.name : 'Collection',
+    overview: typeof data.overview === 'string' ? data.overview : '',
+    poster_url: buildImageUrl(data.poster_path, 'w342'),
+    backdrop_url: buildImageUrl(data.backdrop_path, 'w780'),
+    parts: parts.map((entry: CollectionEntry, index: number) => ({ ...entry, runtime: runtimes[index] ?? entry.runtime }))
+  };
+}
+
+/** The collection a movie belongs to, if any. */
+export async function fetchMovieCollectionRef(movieId: number, signal?: AbortSignal): Promise<CollectionRef | null> {
+  const details = await apiGet<any>('/api/tmdb', { endpoint: `movie/${movieId}` }, signal);
+  const collection = details?.belongs_to_collection;
+  if (!collection?.id) return null;
+  return { id: Number(collection.id), name: typeof collection.name === 'string' ? collection.name : 'Collection' };
+}
@@ -0,0 +1,140 @@
+import { apiGet } from '../lib/apiClient';
+import { cacheGet, movieCacheKey } from '../lib/sessionCache';
+import { loadProfileSettings } from '../lib/userSettings';
+import { CompareTarget, ComparedTitle, filterWatchOptionsByRegion } from '../lib/titleComparison';
+import type { DetailsResponse, MovieData, WatchOption } from '../types';
+
+/**
+ * Compare Service
+ * Loads everything the side-by-side view needs for one title: the unified
+ * details payload plus the TMDB facts it leaves out (runtime, episode counts,
+ * certification and watch providers for the viewer's region).
+ */
+
+const FALLBACK_REGION = 'US';
+const MAX_COMPARED_CAST = 15;
+
+/** Profile country first, then the browser locale, then the US. */
+export function resolveCompareRegion(): string {
+  try {
+    const countryCode = loadProfileSettings().countryCode.trim().toUpperCase();
+    if (/^[A-Z]{2}$/.test(countryCode)) return countryCode;
+  } catch {
+    // storage unavailable – fall through to the locale
+  }
+  if (typeof navigator !== 'undefined') {
+    const locales = Array.isArray(navigator.languages) && navigator.languages.length > 0
+      ? navigator.languages
+      : [navigator.language];
+    for (const locale of locales) {
+      const region = typeof locale === 'string' ? locale.split('-')[1] : undefined;
+      if (region && /^[A-Za-z]{2}$/.test(region)) return region.toUpperCase();
+    }
+  }
+  return FALLBACK_REGION;
+}
+
+function positiveNumber(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : null;
+}
+
+function pickByRegion<T extends { iso_3166_1?: string }>(results: T[], region: string): T[] {
+  const local = results.filter((entry) => entry?.iso_3166_1 === region);
+  return local.length > 0 ? local : results.filter((entry) => entry?.iso_3166_1 === FALLBACK_REGION);
+}
+
+function extractCertification(facts: any, mediaType: 'movie' | 'tv', region: string): string | null {
+  if (mediaType === 'tv') {
+    const results: any[] = Array.isArray(facts?.content_ratings?.results) ? facts.content_ratings.results : [];
+    const rating = pickByRegion(results, region).find((entry) => entry?.rating)?.rating;
+    return typeof rating === 'string' && rating.trim() ? rating.trim() : null;
+  }
+
+  const results: any[] = Array.isArray(facts?.release_dates?.results) ? facts.release_dates.results : [];
+  const releases: any[] = pickByRegion(results, region).flatMap((entry: any) =>
+    Array.isArray(entry?.release_dates) ? entry.release_dates : []
+  );
+  // Theatrical (type 3) certifications are the ones shown on posters and tickets.
+  const certified = releases.filter((release) => typeof release?.certification === 'string' && release.certification.trim());
+  const picked = certified.find((release) => release.type === 3) || certified[0];
+  return picked ? picked.certification.trim() : null;
+}
+
+function extractProviders(facts: any, region: string): WatchOption[] | null {
+  const market = facts?.['watch/providers']?.results?.[region];
+  if (!market) return null;
+
+  const byPlatform = new Map<string, WatchOption>();
+  const collect = (bucket: any[], type: WatchOption['type']) => {
+    (Array.isArray(bucket) ? bucket : []).forEach((entry: any) => {
+      const platform = typeof entry?.provider_name === 'string' ? entry.provider_name.trim() : '';
+      if (!platform || byPlatform.has(platform.toLowerCase())) return;
+      byPlatform.set(platform.toLowerCase(), { platform, link: market.link || '', type, region });
+    });
+  };
+  collect(market.flatrate, 'subscription');
+  collect(market.free, 'free');
+  collect(market.rent, 'rent');
+  collect(market.buy, 'buy');
+  return Array.from(byPlatform.values());
+}
+
+async function fetchDetails(target: CompareTarget, signal?: AbortSignal): Promise<MovieData | null> {
+  const cacheKey = movieCacheKey(target.id, target.media_type === 'tv');
+  const cached = cacheGet<any>('movie', cacheKey);
+  // Older cache entries hold the whole response envelope.
+  if (cached) return (cached.ok === true && cached.data) ? cached.data : cached;
+
+  const response = await apiGet<DetailsResponse>(`/api/details/${target.media_type}/${target.id}`, undefined, signal);
+  return response?.data || null;
+}
+
+async function fetchFacts(target: CompareTarget, signal?: AbortSignal): Promise<any> {
+  try {
+    return await apiGet<any>(
+      '/api/tmdb',
+      {
+        endpoint: `${target.media_type}/${target.id}`,
+        append_to_response: target.media_type === 'tv' ? 'content_ratings,watch/providers' : 'release_dates,watch/providers'
+      },
+      signal
+    );
+  } catch {
+    return null;
+  }
+}
+
+export async function fetchComparedTitle(
+  target: CompareTarget,
+  region: string,
+  signal?: AbortSignal
+): Promise<ComparedTitle | null> {
+  const [details, facts] = await Promise.all([fetchDetails(target, signal), fetchFacts(target, signal)]);
+  if (!details) return null;
+
+  const episodeRuntimes: number[] = Array.isArray(facts?.episode_run_time)
+    ? facts.episode_run_time.filter((minutes: unknown) => positiveNumber(minutes) !== null)
+    : [];
+
+  return {
+    id: target.id,
+    media_type: target.media_type,
+    title: details.title,
+    year: details.year || '',
+    poster_url: details.poster_url || '',
+    genres: Array.isArray(details.genres) ? details.genres : [],
+    ratings: Array.isArray(details.ratings) ? details.ratings : [],
+    runtimeMinutes: target.media_type === 'movie' ? positiveNumber(facts?.runtime) : null,
+    seasonCount: target.media_type === 'tv' ? positiveNumber(facts?.number_of_seasons) : null,
+    episodeCount: target.media_type === 'tv' ? positiveNumber(facts?.number_of_episodes) : null,
+    episodeRuntimeMinutes: episodeRuntimes.length > 0 ? episodeRuntimes[0] : null,
+    cast: (Array.isArray(details.cast) ? details.cast : [])
+      .map((member) => member?.name)
+      .filter((name): name is string => typeof name === 'string' && name.trim().length > 0)
+      .slice(0, MAX_COMPARED_CAST),
+    providers: extractProviders(facts, region)
+      ?? filterWatchOptionsByRegion(Array.isArray(details.where_to_watch) ? details.where_to_watch : [], region),
+    contentRating: extractCertification(facts, target.media_type, region) || details.content_rating || null,
+    contentAdvisory: Array.isArray(details.content_advisory) ? details.content_advisory : []
+  };
+}
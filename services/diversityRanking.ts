@@ -0,0 +1,166 @@
+/**
+ * Diversity Ranking
+ * Maximal-marginal-relevance re-ranking: each pick trades the item's own
+ * relevance against how much it resembles what is already shown, so a list is
+ * not ten entries from one franchise, one language or one decade.
+ */
+
+import { ExperimentAssignment, getExperimentAssignment, recordExperimentExposure } from '../lib/experiments';
+import type { UserPreferenceSettings } from '../lib/userSettings';
+
+export interface DiversityCandidate {
+  id: number;
+  media_type: string;
+  title: string;
+  year?: string;
+  genre_ids?: number[];
+  original_language?: string;
+}
+
+export type DiversityDimension = 'genre' | 'language' | 'decade' | 'collection';
+
+export type DiversityConfig = {
+  /** 1 keeps the relevance order, 0 maximises variety. */
+  lambda: number;
+  weights: Record<DiversityDimension, number>;
+};
+
+export const DEFAULT_DIVERSITY_CONFIG: DiversityConfig = {
+  lambda: 0.7,
+  weights: {
+    genre: 0.3,
+    language: 0.15,
+    decade: 0.15,
+    collection: 0.4
+  }
+};
+
+type DiversityFeatures = {
+  genreIds: Set<number>;
+  language: string | null;
+  decade: number | null;
+  collection: string | null;
+};
+
+const SEQUEL_SUFFIX = /\s+(?:\d+|[ivx]+|part\s+\w+|chapter\s+\w+|season\s+\d+|vol(?:ume)?\.?\s+\w+)$/;
+
+/**
+ * Franchise key from the title: "Dune: Part Two", "Dune Part 2" and "Dune"
+ * share "dune". Search and discovery payloads carry no TMDB collection id, and
+ * the title stem catches sequels, spin-offs and per-season entries alike.
+ */
+export function collectionKey(title: string): string | null {
+  let stem = title.toLowerCase().split(/\s*[:–—]\s*|\s+-\s+/)[0] || '';
+  stem = stem.replace(/[^a-z0-9\s]/g, ' ').replace(/\s+/g, ' ').trim().replace(/^the\s+/, '');
+  let previous = '';
+  while (stem !== previous) {
+    previous = stem;
+    stem = stem.replace(SEQUEL_SUFFIX, '').trim();
+  }
+  return stem.length >= 2 ? stem : null;
+}
+
+function featuresOf(item: DiversityCandidate): DiversityFeatures {
+  const year = item.year?.match(/\d{4}/)?.[0];
+  return {
+    genreIds: new Set(item.genre_ids || []),
+    language: item.original_language?.toLowerCase() || null,
+    decade: year ? Math.floor(Number(year) / 10) * 10 : null,
+    collection: collectionKey(item.title)
+  };
+}
+
+function genreOverlap(a: Set<number>, b: Set<number>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach((genreId) => {
+    if (b.has(genreId)) shared += 1;
+  });
+  return shared / (a.size + b.size - shared);
+}
+
+function similarity(a: DiversityFeatures, b: DiversityFeatures, config: DiversityConfig): number {
+  const { weights } = config;
+  const total = weights.genre + weights.language + weights.decade + weights.collection;
+  if (total <= 0) return 0;
+
+  const score = weights.genre * genreOverlap(a.genreIds, b.genreIds)
+    + (a.language && a.language === b.language ? weights.language : 0)
+    + (a.decade !== null && a.decade === b.decade ? weights.decade : 0)
+    + (a.collection && a.collection === b.collection ? weights.collection : 0);
+  return score / total;
+}
+
+/** 0–1 similarity of two titles over genre, language, decade and collection. */
+export function diversitySimilarity(
+  a: DiversityCandidate,
+  b: DiversityCandidate,
+  config: DiversityConfig = DEFAULT_DIVERSITY_CONFIG
+): number {
+  return similarity(featuresOf(a), featuresOf(b), config);
+}
+
+/**
+ * Re-orders `items` with MMR. `relevance` defaults to the incoming order, so
+ * it runs after whatever ranked the list (e.g. `applyRankingFeedback`); scores
+ * are min-max scaled to sit on the same 0–1 range as similarity.
+ */
+export function diversifyResults<T extends DiversityCandidate>(
+  items: T[],
+  relevance: (item: T, index: number) => number = (_item, index) => -index,
+  config: DiversityConfig = DEFAULT_DIVERSITY_CONFIG
+): T[] {
+  if (!Array.isArray(items) || items.length < 3 || config.lambda >= 1) return items;
+
+  const raw = items.map((item, index) => relevance(item, index));
+  const min = Math.min(...raw);
+  const range = Math.max(...raw) - min;
+  const pool = items.map((item, index) => ({
+    item,
+    relevance: range > 0 ? (raw[index] - min) / range : 1,
+    features: featuresOf(item),
+    maxSimilarity: 0
+  }));
+
+  const picked: T[] = [];
+  while (pool.length > 0) {
+    let bestIndex = 0;
+    let bestScore = -Infinity;
+    pool.forEach((entry, index) => {
+      const score = config.lambda * entry.relevance - (1 - config.lambda) * entry.maxSimilarity;
+      if (score > bestScore + 1e-9) {
+        bestScore = score;
+        bestIndex = index;
+      }
+    });
+
+    const [chosen] = pool.splice(bestIndex, 1);
+    picked.push(chosen.item);
+    for (const entry of pool) {
+      entry.maxSimilarity = Math.max(entry.maxSimilarity, similarity(entry.features, chosen.features, config));
+    }
+  }
+  return picked;
+}
+
+/**
+ * The `diversity_rerank` assignment for users who keep varied results on, or
+ * null for users who opted out and so are not part of the test. Does not log
+ * exposure.
+ */
+export function getDiversityRerankAssignment(
+  preferences: Pick<UserPreferenceSettings, 'diverseResults'>
+): ExperimentAssignment<'diversity_rerank'> | null {
+  return preferences.diverseResults ? getExperimentAssignment('diversity_rerank') : null;
+}
+
+/**
+ * Diversity applies when the user keeps varied results on and lands in the
+ * `diversity_rerank` variant. Users who opted out are not exposed to the test.
+ */
+export function isDiversityRerankEnabled(preferences: Pick<UserPreferenceSettings, 'diverseResults'>): boolean {
+  const assignment = getDiversityRerankAssignment(preferences);
+  if (!assignment) return false;
+  recordExperimentExposure(assignment);
+  return assignment.variant === 'variant';
+}
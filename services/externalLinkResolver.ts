@@ -0,0 +1,170 @@
+import { apiGet } from '../lib/apiClient';
+import { getTVShowExternals } from './tvmazeService';
+
+/**
+ * External Link Resolver
+ * Recognises IMDb / TMDB / Letterboxd / TVMaze URLs and ids pasted into search
+ * and maps them onto the TMDB title they point at.
+ */
+
+export type ExternalReference =
+  | { source: 'tmdb'; mediaType: 'movie' | 'tv'; tmdbId: number }
+  | { source: 'imdb'; imdbId: string }
+  | { source: 'tvmaze'; showId: number }
+  | { source: 'letterboxd'; slug: string; title: string; year?: number };
+
+export interface ResolvedExternalTitle {
+  id: number;
+  mediaType: 'movie' | 'tv';
+}
+
+const IMDB_ID_PATTERN = /^tt\d{7,10}$/i;
+const LETTERBOXD_MAX_YEAR_OFFSET = 5;
+
+function parseUrl(input: string): URL | null {
+  const candidate = /^https?:\/\//i.test(input) ? input : `https://${input}`;
+  try {
+    const url = new URL(candidate);
+    return url.hostname.includes('.') ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+function normalizeHost(hostname: string): string {
+  return hostname.toLowerCase().replace(/^(www|m)\./, '');
+}
+
+function parseLetterboxdSlug(slug: string): ExternalReference {
+  const yearMatch = slug.match(/^(.+)-(\d{4})$/);
+  const maxYear = new Date().getFullYear() + LETTERBOXD_MAX_YEAR_OFFSET;
+  // Letterboxd appends the release year only to disambiguate remakes ("dune-2021");
+  // a trailing number beyond that range is part of the title ("blade-runner-2049").
+  const year = yearMatch && Number(yearMatch[2]) >= 1870 && Number(yearMatch[2]) <= maxYear
+    ? Number(yearMatch[2])
+    : undefined;
+  const titleSlug = year ? yearMatch![1] : slug;
+
+  return {
+    source: 'letterboxd',
+    slug,
+    title: titleSlug.replace(/-+/g, ' ').trim(),
+    year
+  };
+}
+
+/** Returns null for anything that is not a recognised title link or id. */
+export function parseExternalReference(input: string): ExternalReference | null {
+  const value = input.trim();
+  if (!value || /\s/.test(value)) return null;
+
+  if (IMDB_ID_PATTERN.test(value)) return { source: 'imdb', imdbId: value.toLowerCase() };
+
+  const prefixed = value.match(/^(tmdb|tvmaze):(?:(movie|tv):)?(\d+)$/i);
+  if (prefixed) {
+    const id = Number(prefixed[3]);
+    if (prefixed[1].toLowerCase() === 'tvmaze') return prefixed[2] ? null : { source: 'tvmaze', showId: id };
+    if (!prefixed[2]) return null;
+    return { source: 'tmdb', mediaType: prefixed[2].toLowerCase() as 'movie' | 'tv', tmdbId: id };
+  }
+
+  const url = parseUrl(value);
+  if (!url) return null;
+  const host = normalizeHost(url.hostname);
+  const path = url.pathname;
+
+  if (host === 'imdb.com') {
+    const match = path.match(/^\/title\/(tt\d{7,10})(?:\/|$)/i);
+    return match ? { source: 'imdb', imdbId: match[1].toLowerCase() } : null;
+  }
+
+  if (host === 'themoviedb.org') {
+    const match = path.match(/^\/(movie|tv)\/(\d+)(?:[-/]|$)/i);
+    return match ? { source: 'tmdb', mediaType: match[1].toLowerCase() as 'movie' | 'tv', tmdbId: Number(match[2]) } : null;
+  }
+
+  if (host === 'tvmaze.com') {
+    const match = path.match(/^\/shows\/(\d+)(?:[-/]|$)/i);
+    return match ? { source: 'tvmaze', showId: Number(match[1]) } : null;
+  }
+
+  if (host === 'letterboxd.com') {
+    // Covers both /film/<slug>/ and member pages like /<user>/film/<slug>/.
+    const match = path.match(/^\/(?:[^/]+\/)?film\/([a-z0-9-]+)(?:\/|$)/i);
+    return match ? parseLetterboxdSlug(match[1].toLowerCase()) : null;
+  }
+
+  return null;
+}
+
+/** Text search to run when a recognised link cannot be resolved to a title. */
+export function getExternalReferenceFallbackQuery(reference: ExternalReference, input: string): string {
+  if (reference.source === 'letterboxd') {
+    return reference.year ? `${reference.title} ${reference.year}` : reference.title;
+  }
+  return input.trim();
+}
+
+async function findByExternalId(
+  externalId: string,
+  externalSource: 'imdb_id' | 'tvdb_id',
+  signal?: AbortSignal
+): Promise<ResolvedExternalTitle | null> {
+  const data = await apiGet<any>('/api/tmdb', { endpoint: `find/${externalId}`, external_source: externalSource }, signal);
+  const movie = data?.movie_results?.[0];
+  if (movie?.id) return { id: Number(movie.id), mediaType: 'movie' };
+  const show = data?.tv_results?.[0];
+  if (show?.id) return { id: Number(show.id), mediaType: 'tv' };
+  // Episode and season links resolve to the parent series.
+  const episode = data?.tv_episode_results?.[0] || data?.tv_season_results?.[0];
+  if (episode?.show_id) return { id: Number(episode.show_id), mediaType: 'tv' };
+  return null;
+}
+
+async function resolveByTitle(
+  title: string,
+  type: 'movie' | 'show',
+  year: string | undefined,
+  signal?: AbortSignal
+): Promise<ResolvedExternalTitle | null> {
+  const data = await apiGet<any>('/api/resolve', { q: title, type }, signal);
+  const mediaType = type === 'show' ? 'tv' : 'movie';
+  const candidates: any[] = Array.isArray(data?.candidates)
+    ? data.candidates.filter((candidate: any) => candidate?.type === mediaType && candidate?.id)
+    : [];
+  const picked = (year && candidates.find((candidate) => candidate.year === year)) || candidates[0];
+  if (picked) return { id: Number(picked.id), mediaType };
+  if (data?.type === mediaType && data?.id) return { id: Number(data.id), mediaType };
+  return null;
+}
+
+export async function resolveExternalReference(
+  reference: ExternalReference,
+  signal?: AbortSignal
+): Promise<ResolvedExternalTitle | null> {
+  switch (reference.source) {
+    case 'tmdb':
+      return { id: reference.tmdbId, mediaType: reference.mediaType };
+    case 'imdb':
+      return findByExternalId(reference.imdbId, 'imdb_id', signal);
+    case 'letterboxd':
+      return resolveByTitle(reference.title, 'movie', reference.year ? String(reference.year) : undefined, signal);
+    case 'tvmaze': {
+      const externals = await getTVShowExternals(reference.showId);
+      if (!externals) return null;
+      if (externals.imdb) {
+        const byImdb = await findByExternalId(externals.imdb, 'imdb_id', signal);
+        if (byImdb) return byImdb;
+      }
+      if (externals.thetvdb) {
+        const byTvdb = await findByExternalId(String(externals.thetvdb), 'tvdb_id', signal);
+        if (byTvdb) return byTvdb;
+      }
+      return externals.name
+        ? resolveByTitle(externals.name, 'show', externals.premiered?.slice(0, 4), signal)
+        : null;
+    }
+    default:
+      return null;
+  }
+}
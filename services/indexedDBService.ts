@@ -1,4 +1,5 @@
 import { MovieData, GroundingSource } from '../types';
+import { recordCacheLookup } from '../lib/cacheStats';
 
 const DB_NAME = 'MovieMonkDB';
 const DB_VERSION = 1;
@@ -26,6 +27,10 @@ interface QueryEntityIndexEntry {
 
 type CacheRecord = CachedMovie | QueryEntityIndexEntry;
 
+type IndexedDBWriteListener = (movieData: MovieData) => void;
+
+const writeListeners = new Set<IndexedDBWriteListener>();
+
 const CACHE_DURATION = 7 * 24 * 60 * 60 * 1000; // 7 days
 const ENTITY_KEY_PREFIX = 'entity_';
 const QUERY_INDEX_KEY_PREFIX = 'qidx_';
@@ -209,12 +214,41 @@ export async function getFromIndexedDBByEntity(
   }
 }
 
+/**
+ * Observe successful cache writes (used to keep the offline search index current)
+ */
+export function subscribeToIndexedDBWrites(listener: IndexedDBWriteListener): () => void {
+  writeListeners.add(listener);
+  return () => {
+    writeListeners.delete(listener);
+  };
+}
+
+function notifyWriteListeners(movieData: MovieData): void {
+  writeListeners.forEach((listener) => {
+    try {
+      listener(movieData);
+    } catch (error) {
+      console.warn('IndexedDB write listener failed:', error);
+    }
+  });
+}
+
 /**
  * Get cached movie from IndexedDB
  */
 export async function getFromIndexedDB(
   query: string,
   provider: string
+): Promise<{ movieData: MovieData; sources: GroundingSource[] | null } | null> {
+  const result = await readFromIndexedDB(query, provider);
+  recordCacheLookup('indexedDB', result !== null);
+  return result;
+}
+
+async function readFromIndexedDB(
+  query: string,
+  provider: string
 ): Promise<{ movieData: MovieData; sources: GroundingSource[] | null } | null> {
   try {
     // Entity-first path via query->entity index.
@@ -312,6 +346,7 @@ export async function saveToIndexedDB(
         const entity = getEntityFromMovie(movieData);
         if (!entity) {
           console.log(`[indexeddb] saved "${query}" with ${provider}`);
+          notifyWriteListeners(movieData);
           resolve();
           return;
         }
@@ -326,6 +361,7 @@ export async function saveToIndexedDB(
         entityWrite.onsuccess = () => {
           void linkQueryToEntityInIndexedDB(query, provider, entity.media_type, entity.tmdb_id);
           console.log(`[indexeddb] saved "${query}" with ${provider}`);
+          notifyWriteListeners(movieData);
           resolve();
         };
         entityWrite.onerror = () => reject(entityWrite.error);
@@ -0,0 +1,312 @@
+/**
+ * Observability Queue
+ * Buffers client events in memory and ships them in batches. Batches that
+ * cannot be delivered (offline, server down) are kept in IndexedDB and
+ * replayed with exponential backoff, including on the next page load.
+ */
+
+export type ObservabilityLevel = 'info' | 'warn' | 'error';
+
+export type ObservabilityRecord = {
+  ts: string;
+  source: 'client';
+  event: string;
+  level: ObservabilityLevel;
+  data: Record<string, unknown>;
+  /** Present when the event was sampled below 1, so counts can be re-weighted. */
+  sample_rate?: number;
+};
+
+export interface ObservabilityTransport {
+  /** Resolves true when the batch was accepted. */
+  send(records: ObservabilityRecord[]): Promise<boolean>;
+  /** Fire-and-forget delivery for page hide; returns false when the browser refused it. */
+  beacon(records: ObservabilityRecord[]): boolean;
+}
+
+export interface ObservabilityStore {
+  load(): Promise<ObservabilityRecord[]>;
+  replace(records: ObservabilityRecord[]): Promise<void>;
+}
+
+export type ObservabilityQueueConfig = {
+  maxBatchSize: number;
+  flushIntervalMs: number;
+  /** Hard cap on accepted events per page session, after sampling. */
+  maxEventsPerSession: number;
+  /** Most events kept on disk while undeliverable; the oldest are dropped first. */
+  maxStoredEvents: number;
+  baseBackoffMs: number;
+  maxBackoffMs: number;
+  /** Keep probability per event name; `*` is the default for unlisted names. */
+  sampleRates: Record<string, number>;
+};
+
+export type ObservabilityQueueDeps = {
+  transport: ObservabilityTransport;
+  store?: ObservabilityStore | null;
+  isOnline?: () => boolean;
+  random?: () => number;
+  setTimer?: (callback: () => void, delayMs: number) => unknown;
+  clearTimer?: (handle: unknown) => void;
+};
+
+export type ObservabilityQueueStats = {
+  pending: number;
+  accepted: number;
+  sampledOut: number;
+  capped: number;
+  consecutiveFailures: number;
+};
+
+export interface ObservabilityQueue {
+  /** Returns false when the event was sampled out or over the session cap. */
+  enqueue(record: ObservabilityRecord): boolean;
+  flush(): Promise<void>;
+  /** Hands everything pending to `sendBeacon`; whatever it refuses goes to disk. */
+  flushOnHide(): void;
+  /** Loads events left on disk by earlier sessions ahead of new ones. */
+  restore(): Promise<void>;
+  stats(): ObservabilityQueueStats;
+}
+
+export const DEFAULT_OBSERVABILITY_QUEUE_CONFIG: ObservabilityQueueConfig = {
+  maxBatchSize: 20,
+  flushIntervalMs: 5000,
+  maxEventsPerSession: 500,
+  maxStoredEvents: 1000,
+  baseBackoffMs: 2000,
+  maxBackoffMs: 5 * 60 * 1000,
+  sampleRates: { '*': 1 }
+};
+
+/** `sendBeacon` payloads are capped at 64KB by most browsers. */
+const MAX_BEACON_BYTES = 60_000;
+
+export function sampleRateFor(record: Pick<ObservabilityRecord, 'event' | 'level'>, sampleRates: Record<string, number>): number {
+  // Errors are rare and the reason the pipeline exists; never drop them.
+  if (record.level === 'error') return 1;
+  const rate = sampleRates[record.event] ?? sampleRates['*'] ?? 1;
+  return Number.isFinite(rate) ? Math.min(1, Math.max(0, rate)) : 1;
+}
+
+/** Splits records into beacon-sized chunks by serialized length. */
+export function chunkForBeacon(records: ObservabilityRecord[], maxBytes = MAX_BEACON_BYTES): ObservabilityRecord[][] {
+  const chunks: ObservabilityRecord[][] = [];
+  let current: ObservabilityRecord[] = [];
+  let size = 0;
+  for (const record of records) {
+    const length = JSON.stringify(record).length + 1;
+    if (current.length > 0 && size + length > maxBytes) {
+      chunks.push(current);
+      current = [];
+      size = 0;
+    }
+    current.push(record);
+    size += length;
+  }
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+}
+
+export function createObservabilityQueue(
+  deps: ObservabilityQueueDeps,
+  overrides: Partial<ObservabilityQueueConfig> = {}
+): ObservabilityQueue {
+  const config = { ...DEFAULT_OBSERVABILITY_QUEUE_CONFIG, ...overrides };
+  const isOnline = deps.isOnline || (() => true);
+  const random = deps.random || Math.random;
+  const setTimer = deps.setTimer || ((callback: () => void, delayMs: number) => setTimeout(callback, delayMs));
+  const clearTimer = deps.clearTimer || ((handle: unknown) => clearTimeout(handle as ReturnType<typeof setTimeout>));
+
+  let pending: ObservabilityRecord[] = [];
+  let accepted = 0;
+  let sampledOut = 0;
+  let capped = 0;
+  let consecutiveFailures = 0;
+  let timer: unknown = null;
+  let inFlight: Promise<void> | null = null;
+  /** Head of `pending` currently on the wire; page-hide flushes leave it alone. */
+  let sending = 0;
+  let storedCount = 0;
+
+  const schedule = (delayMs: number) => {
+    if (timer !== null) return;
+    timer = setTimer(() => {
+      timer = null;
+      void flush();
+    }, delayMs);
+  };
+
+  const cancelTimer = () => {
+    if (timer === null) return;
+    clearTimer(timer);
+    timer = null;
+  };
+
+  const backoffDelay = () => {
+    const exponential = config.baseBackoffMs * 2 ** Math.max(0, consecutiveFailures - 1);
+    const ceiling = Math.min(config.maxBackoffMs, exponential);
+    // Full jitter keeps many tabs from retrying in lockstep after an outage.
+    return Math.round(ceiling / 2 + random() * (ceiling / 2));
+  };
+
+  const persist = async () => {
+    if (!deps.store) return;
+    const toStore = pending.slice(-config.maxStoredEvents);
+    if (toStore.length === 0 && storedCount === 0) return;
+    try {
+      await deps.store.replace(toStore);
+      storedCount = toStore.length;
+    } catch {
+      // Storage unavailable (private mode, quota); events stay in memory only.
+    }
+  };
+
+  const deliver = async () => {
+    if (!isOnline()) {
+      await persist();
+      return;
+    }
+
+    while (pending.length > 0) {
+      const batch = pending.slice(0, config.maxBatchSize);
+      let ok = false;
+      sending = batch.length;
+      try {
+        ok = await deps.transport.send(batch);
+      } catch {
+        ok = false;
+      } finally {
+        sending = 0;
+      }
+      if (!ok) {
+        consecutiveFailures += 1;
+        await persist();
+        schedule(backoffDelay());
+        return;
+      }
+      consecutiveFailures = 0;
+      pending = pending.slice(batch.length);
+    }
+
+    if (storedCount > 0) await persist();
+  };
+
+  const flush = (): Promise<void> => {
+    if (inFlight) return inFlight;
+    cancelTimer();
+    if (pending.length === 0) return Promise.resolve();
+    inFlight = deliver().finally(() => {
+      inFlight = null;
+    });
+    return inFlight;
+  };
+
+  const enqueue = (record: ObservabilityRecord): boolean => {
+    const rate = sampleRateFor(record, config.sampleRates);
+    if (rate < 1 && random() >= rate) {
+      sampledOut += 1;
+      return false;
+    }
+    if (accepted >= config.maxEventsPerSession) {
+      capped += 1;
+      return false;
+    }
+
+    accepted += 1;
+    pending.push(rate < 1 ? { ...record, sample_rate: rate } : record);
+    if (pending.length >= config.maxBatchSize && consecutiveFailures === 0) {
+      void flush();
+    } else {
+      schedule(consecutiveFailures > 0 ? backoffDelay() : config.flushIntervalMs);
+    }
+    return true;
+  };
+
+  const flushOnHide = () => {
+    cancelTimer();
+    if (pending.length === 0) return;
+    if (!isOnline()) {
+      void persist();
+      return;
+    }
+    const kept: ObservabilityRecord[] = pending.slice(0, sending);
+    for (const chunk of chunkForBeacon(pending.slice(sending))) {
+      let sent = false;
+      try {
+        sent = deps.transport.beacon(chunk);
+      } catch {
+        sent = false;
+      }
+      if (!sent) kept.push(...chunk);
+    }
+    pending = kept;
+    void persist();
+  };
+
+  const restore = async () => {
+    if (!deps.store) return;
+    try {
+      const stored = await deps.store.load();
+      storedCount = stored.length;
+      if (stored.length === 0) return;
+      pending = [...pending.slice(0, sending), ...stored, ...pending.slice(sending)];
+      schedule(0);
+    } catch {
+      // Nothing recoverable; start fresh.
+    }
+  };
+
+  return {
+    enqueue,
+    flush,
+    flushOnHide,
+    restore,
+    stats: () => ({ pending: pending.length, accepted, sampledOut, capped, consecutiveFailures })
+  };
+}
+
+const OBSERVABILITY_DB_NAME = 'MovieMonkObservability';
+const OBSERVABILITY_STORE_NAME = 'pendingEvents';
+const PENDING_RECORD_KEY = 'queue';
+
+function openObservabilityDB(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(OBSERVABILITY_DB_NAME, 1);
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(OBSERVABILITY_STORE_NAME)) {
+        db.createObjectStore(OBSERVABILITY_STORE_NAME);
+      }
+    };
+  });
+}
+
+/** Keeps the whole undelivered queue under one key; it is small and always rewritten together. */
+export function createIndexedDBObservabilityStore(): ObservabilityStore | null {
+  if (typeof indexedDB === 'undefined') return null;
+  return {
+    async load() {
+      const db = await openObservabilityDB();
+      return new Promise<ObservabilityRecord[]>((resolve, reject) => {
+        const request = db.transaction(OBSERVABILITY_STORE_NAME, 'readonly')
+          .objectStore(OBSERVABILITY_STORE_NAME)
+          .get(PENDING_RECORD_KEY);
+        request.onsuccess = () => resolve(Array.isArray(request.result) ? request.result : []);
+        request.onerror = () => reject(request.error);
+      });
+    },
+    async replace(records) {
+      const db = await openObservabilityDB();
+      return new Promise<void>((resolve, reject) => {
+        const store = db.transaction(OBSERVABILITY_STORE_NAME, 'readwrite').objectStore(OBSERVABILITY_STORE_NAME);
+        const request = records.length > 0 ? store.put(records, PENDING_RECORD_KEY) : store.delete(PENDING_RECORD_KEY);
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject(request.error);
+      });
+    }
+  };
+}
@@ -0,0 +1,263 @@
+import Fuse from 'fuse.js';
+import type { MovieData, SearchResult, SuggestionItem, WatchedTitle, WatchlistFolder } from '../types';
+import { getAllCachedMovies, subscribeToIndexedDBWrites } from './indexedDBService';
+import { CLOUD_WATCHED_CACHE_PREFIX, WATCHED_STORAGE_KEY } from './watchedService';
+import { CLOUD_WATCHLIST_CACHE_PREFIX, WATCHLIST_STORAGE_KEY } from '../hooks/watchlistStore';
+
+/**
+ * Offline Search Index
+ * Fuzzy search over titles already on this device (IndexedDB detail cache,
+ * watchlists and watched history) for when the API is unreachable.
+ */
+
+export type OfflineEntrySource = 'cache' | 'watchlist' | 'watched';
+
+export interface OfflineSearchEntry {
+  key: string;
+  id: number;
+  media_type: 'movie' | 'tv';
+  title: string;
+  year?: string;
+  poster_url?: string;
+  backdrop_url?: string;
+  overview?: string;
+  genres: string[];
+  cast: string[];
+  sources: OfflineEntrySource[];
+}
+
+export interface OfflineSearchOptions {
+  limit?: number;
+  mediaType?: 'all' | 'movie' | 'tv';
+}
+
+const DEFAULT_LIMIT = 20;
+const FUSE_THRESHOLD = 0.34;
+
+const SOURCE_REASONS: Record<OfflineEntrySource, string> = {
+  watchlist: 'In your watchlists',
+  watched: 'In your watched history',
+  cache: 'Viewed on this device'
+};
+
+const entries = new Map<string, OfflineSearchEntry>();
+let fuse: Fuse<OfflineSearchEntry> | null = null;
+let buildPromise: Promise<void> | null = null;
+let unsubscribeWrites: (() => void) | null = null;
+
+function toMediaType(value?: string): 'movie' | 'tv' | null {
+  if (value === 'movie') return 'movie';
+  if (value === 'tv' || value === 'show') return 'tv';
+  return null;
+}
+
+export function movieToOfflineEntry(movie: MovieData, source: OfflineEntrySource): OfflineSearchEntry | null {
+  const id = Number(movie?.tmdb_id);
+  const mediaType = toMediaType(movie?.media_type) || toMediaType(movie?.type);
+  if (!Number.isInteger(id) || id <= 0 || !mediaType || !movie.title) return null;
+
+  return {
+    key: `${mediaType}:${id}`,
+    id,
+    media_type: mediaType,
+    title: movie.title,
+    year: movie.year || undefined,
+    poster_url: movie.poster_url || undefined,
+    backdrop_url: movie.backdrop_url || undefined,
+    overview: movie.summary_short || movie.summary_medium || undefined,
+    genres: Array.isArray(movie.genres) ? movie.genres : [],
+    cast: Array.isArray(movie.cast) ? movie.cast.slice(0, 8).map((member) => member.name).filter(Boolean) : [],
+    sources: [source]
+  };
+}
+
+function watchedToOfflineEntry(title: WatchedTitle): OfflineSearchEntry | null {
+  const id = Number(title?.tmdb_id);
+  const mediaType = toMediaType(title?.media_type);
+  if (!Number.isInteger(id) || id <= 0 || !mediaType || !title.title) return null;
+
+  return {
+    key: `${mediaType}:${id}`,
+    id,
+    media_type: mediaType,
+    title: title.title,
+    year: title.year || undefined,
+    poster_url: title.poster_url || undefined,
+    genres: [],
+    cast: [],
+    sources: ['watched']
+  };
+}
+
+function readJsonArray<T>(storage: Pick<Storage, 'getItem'>, key: string): T[] {
+  try {
+    const raw = storage.getItem(key);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? (parsed as T[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Watchlist items and watched titles from guest storage and signed-in cloud caches. */
+export function collectLibraryEntries(storage: Storage): OfflineSearchEntry[] {
+  const folderKeys = [WATCHLIST_STORAGE_KEY];
+  const watchedKeys = [WATCHED_STORAGE_KEY];
+  for (let index = 0; index < storage.length; index++) {
+    const key = storage.key(index);
+    if (!key) continue;
+    if (key.startsWith(`${CLOUD_WATCHLIST_CACHE_PREFIX}:`)) folderKeys.push(key);
+    if (key.startsWith(`${CLOUD_WATCHED_CACHE_PREFIX}:`)) watchedKeys.push(key);
+  }
+
+  const collected: OfflineSearchEntry[] = [];
+  folderKeys.forEach((key) => {
+    readJsonArray<WatchlistFolder>(storage, key).forEach((folder) => {
+      (Array.isArray(folder?.items) ? folder.items : []).forEach((item) => {
+        const entry = item?.movie ? movieToOfflineEntry(item.movie, 'watchlist') : null;
+        if (entry) collected.push(entry);
+      });
+    });
+  });
+  watchedKeys.forEach((key) => {
+    readJsonArray<WatchedTitle>(storage, key).forEach((title) => {
+      const entry = watchedToOfflineEntry(title);
+      if (entry) collected.push(entry);
+    });
+  });
+  return collected;
+}
+
+function mergeEntries(existing: OfflineSearchEntry, incoming: OfflineSearchEntry): OfflineSearchEntry {
+  return {
+    ...existing,
+    title: incoming.title || existing.title,
+    year: incoming.year || existing.year,
+    poster_url: incoming.poster_url || existing.poster_url,
+    backdrop_url: incoming.backdrop_url || existing.backdrop_url,
+    overview: incoming.overview || existing.overview,
+    genres: incoming.genres.length > 0 ? incoming.genres : existing.genres,
+    cast: incoming.cast.length > 0 ? incoming.cast : existing.cast,
+    sources: Array.from(new Set([...existing.sources, ...incoming.sources]))
+  };
+}
+
+function upsertEntry(entry: OfflineSearchEntry): void {
+  const existing = entries.get(entry.key);
+  const next = existing ? mergeEntries(existing, entry) : entry;
+  entries.set(entry.key, next);
+  if (!fuse) return;
+  if (existing) fuse.remove((doc) => doc.key === entry.key);
+  fuse.add(next);
+}
+
+function createFuse(docs: OfflineSearchEntry[]): Fuse<OfflineSearchEntry> {
+  return new Fuse(docs, {
+    includeScore: true,
+    threshold: FUSE_THRESHOLD,
+    shouldSort: true,
+    ignoreLocation: true,
+    minMatchCharLength: 2,
+    keys: [
+      { name: 'title', weight: 0.65 },
+      { name: 'genres', weight: 0.15 },
+      { name: 'overview', weight: 0.1 },
+      { name: 'cast', weight: 0.1 }
+    ]
+  });
+}
+
+/** Adds or refreshes a single title; called for every IndexedDB cache write. */
+export function indexOfflineMovie(movie: MovieData, source: OfflineEntrySource = 'cache'): void {
+  const entry = movieToOfflineEntry(movie, source);
+  if (entry) upsertEntry(entry);
+}
+
+function syncLibraryEntries(): void {
+  if (typeof localStorage === 'undefined') return;
+  collectLibraryEntries(localStorage).forEach((entry) => {
+    const existing = entries.get(entry.key);
+    if (!existing || !entry.sources.every((source) => existing.sources.includes(source))) {
+      upsertEntry(entry);
+    }
+  });
+}
+
+async function ensureOfflineIndex(): Promise<void> {
+  if (!buildPromise) {
+    const build = (async () => {
+      if (!unsubscribeWrites) {
+        unsubscribeWrites = subscribeToIndexedDBWrites((movie) => indexOfflineMovie(movie));
+      }
+      const cached = await getAllCachedMovies();
+      // Fuse is created after the bulk load, so these upserts only touch the entry map.
+      cached.forEach((record) => indexOfflineMovie(record.movieData));
+      fuse = createFuse(Array.from(entries.values()));
+    })();
+    buildPromise = build;
+    // A failed build is retried by the next search instead of disabling the index.
+    build.catch(() => {
+      if (buildPromise === build) buildPromise = null;
+    });
+  }
+  await buildPromise;
+  syncLibraryEntries();
+}
+
+function toReasons(sources: OfflineEntrySource[]): string[] {
+  return (['watchlist', 'watched', 'cache'] as const)
+    .filter((source) => sources.includes(source))
+    .map((source) => SOURCE_REASONS[source]);
+}
+
+export async function searchOfflineTitles(query: string, options: OfflineSearchOptions = {}): Promise<SearchResult[]> {
+  const normalized = query.trim();
+  if (normalized.length < 2) return [];
+
+  await ensureOfflineIndex();
+  if (!fuse) return [];
+
+  const { limit = DEFAULT_LIMIT, mediaType = 'all' } = options;
+  return fuse
+    .search(normalized, { limit: limit * 2 })
+    .filter(({ item }) => mediaType === 'all' || item.media_type === mediaType)
+    .slice(0, limit)
+    .map(({ item, score }) => ({
+      id: item.id,
+      title: item.title,
+      year: item.year,
+      type: item.media_type === 'tv' ? 'show' : 'movie',
+      media_type: item.media_type,
+      poster_url: item.poster_url,
+      backdrop_url: item.backdrop_url,
+      overview: item.overview,
+      genres: item.genres,
+      people: item.cast,
+      confidence: Math.max(0, 1 - (score ?? 1)),
+      match_reasons: toReasons(item.sources)
+    }));
+}
+
+export async function suggestOfflineTitles(query: string, limit = 6): Promise<SuggestionItem[]> {
+  const results = await searchOfflineTitles(query, { limit });
+  return results.map((result) => ({
+    id: result.id,
+    title: result.title,
+    year: result.year,
+    type: result.type,
+    media_type: result.media_type,
+    poster_url: result.poster_url,
+    confidence: result.confidence,
+    popularity: result.popularity,
+    genre_ids: result.genre_ids,
+    original_language: result.original_language
+  }));
+}
+
+export function resetOfflineSearchIndex(): void {
+  entries.clear();
+  fuse = null;
+  buildPromise = null;
+  unsubscribeWrites?.();
+  unsubscribeWrites = null;
+}
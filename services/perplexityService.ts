@@ -4,7 +4,7 @@
  * Uses Perplexity's online model for real-time information
  */
 
-import { MovieData, ChatMessage, QueryComplexity, FetchResult } from '../types';
+import { DetailsResponse, MovieData, ChatMessage, QueryComplexity, FetchResult } from '../types';
 import { ParsedQuery, formatForAIPrompt, parseQuery } from './queryParser';
 import { sanitizeMovieData } from './movieDataValidation';
 import { apiGet } from '../lib/apiClient';
@@ -24,9 +24,9 @@ async function fetchViaServerDetails(parsed: ParsedQuery): Promise<MovieData | n
     if (!best) return null;
 
     const mediaType = best.media_type === 'tv' ? 'tv' : 'movie';
-    const details = await apiGet<any>(`/api/details/${mediaType}/${best.id}`);
+    const details = await apiGet<DetailsResponse>(`/api/details/${mediaType}/${best.id}`);
 
-    return sanitizeMovieData(details);
+    return sanitizeMovieData(details.data);
   } catch {
     return null;
   }
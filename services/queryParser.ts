@@ -3,11 +3,18 @@
  * Extracts structured information from natural language movie/show queries
  */
 
+export interface NumberRange {
+  start: number;
+  end: number;
+}
+
 export interface ParsedQuery {
   title: string;
   year?: number;
-  season?: number;
-  episode?: number;
+  season?: number; // first season when a range was asked for
+  episode?: number; // first episode when a range was asked for
+  seasonRange?: NumberRange; // only set for multi-season queries ("seasons 1-3")
+  episodeRange?: NumberRange; // only set for multi-episode queries ("S02E03-E07")
   type?: 'movie' | 'show' | 'auto';
   isRecent: boolean; // 2024-2025
   hasSeasonInfo: boolean;
@@ -490,9 +497,195 @@ export function parseVibeQuery(query: string): VibeParseResult {
  *   "Breaking Bad S03E02" → {title: "Breaking Bad", season: 3, episode: 2}
  *   "Dune Part Two" → {title: "Dune Part Two"}
  */
+type QueryKeywordLocale = 'en' | 'es' | 'fr' | 'hi' | 'ja' | 'ko';
+
+interface QueryKeywords {
+  season: string[]; // precede the number: "temporada 2", "시즌 2"
+  episode: string[];
+  seasonSuffix?: string[]; // follow the number: "第2期", "2기"
+  episodeSuffix?: string[]; // "第3話", "3화"
+  rangeSeparator: string[];
+  show: string[];
+  movie: string[];
+  noise: string[];
+}
+
+// Longer forms go first so "temporadas" is not consumed as "temporada" + "s".
+const QUERY_KEYWORDS: Record<QueryKeywordLocale, QueryKeywords> = {
+  en: {
+    season: ['seasons', 'season'],
+    episode: ['episodes', 'episode', 'ep'],
+    rangeSeparator: ['through', 'thru', 'to'],
+    show: ['tv series', 'tv show', 'series', 'serees', 'seris', 'show', 'tv'],
+    movie: ['movies', 'movie', 'moive', 'film'],
+    noise: ['watch', 'online', 'free', 'download', 'hd', '1080p', '4k']
+  },
+  es: {
+    season: ['temporadas', 'temporada'],
+    episode: ['episodios', 'episodio', 'capítulos', 'capitulos', 'capítulo', 'capitulo', 'cap'],
+    rangeSeparator: ['hasta', 'al', 'a'],
+    show: ['serie', 'telenovela'],
+    movie: ['películas', 'peliculas', 'película', 'pelicula', 'peli'],
+    noise: ['ver', 'gratis', 'descargar', 'latino', 'castellano', 'subtitulado']
+  },
+  fr: {
+    season: ['saisons', 'saison'],
+    episode: ['épisodes', 'épisode'],
+    rangeSeparator: ['à', 'au'],
+    show: ['séries', 'série', 'feuilleton'],
+    movie: ['films'],
+    noise: ['regarder', 'streaming', 'gratuit', 'vostfr', 'vf']
+  },
+  hi: {
+    season: ['सीज़न', 'सीजन', 'seezan', 'sizan', 'sijan'],
+    episode: ['एपिसोड', 'कड़ी', 'भाग', 'episod', 'bhaag', 'bhag', 'kadi'],
+    rangeSeparator: ['से', 'se'],
+    show: ['धारावाहिक', 'सीरीज़', 'सीरीज', 'dharavahik', 'web series'],
+    movie: ['फ़िल्म', 'फिल्म', 'filam', 'chalchitra'],
+    noise: ['देखें', 'देखो', 'dekho', 'hindi dubbed']
+  },
+  ja: {
+    season: ['シーズン'],
+    episode: ['エピソード'],
+    seasonSuffix: ['期'],
+    episodeSuffix: ['話'],
+    rangeSeparator: ['〜', '～', 'から'],
+    show: ['ドラマ', 'シリーズ'],
+    movie: ['映画'],
+    noise: ['無料', '視聴', '配信']
+  },
+  ko: {
+    season: ['시즌'],
+    episode: ['에피소드'],
+    seasonSuffix: ['기'],
+    episodeSuffix: ['화', '회'],
+    rangeSeparator: [],
+    show: ['드라마', '시리즈'],
+    movie: ['영화'],
+    noise: ['다시보기', '무료']
+  }
+};
+
+// JS `\b` only knows ASCII word characters, which breaks on accents, Devanagari and CJK.
+const WORD_CHAR = '[\\p{L}\\p{M}\\p{N}]';
+const WORD_START = `(?<!${WORD_CHAR})`;
+const WORD_END = `(?!${WORD_CHAR})`;
+// Japanese and Korean keywords are routinely written flush against the title.
+const UNSPACED_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function byLength(words: string[]): string[] {
+  return Array.from(new Set(words)).sort((a, b) => b.length - a.length);
+}
+
+function collectKeywords(pick: (keywords: QueryKeywords) => string[] | undefined): string[] {
+  return byLength(Object.values(QUERY_KEYWORDS).flatMap((keywords) => pick(keywords) || []));
+}
+
+/** Alternation of keywords with Unicode-aware word boundaries (none for CJK/Hangul). */
+function keywordPattern(words: string[], requireEnd = false): string {
+  const alternatives = words.map((word) => {
+    const escaped = escapeRegex(word).replace(/ /g, '\\s+');
+    if (UNSPACED_SCRIPT.test(word)) return escaped;
+    return `${WORD_START}${escaped}${requireEnd ? WORD_END : ''}`;
+  });
+  return `(?:${alternatives.join('|')})`;
+}
+
+const SEASON_WORD = keywordPattern(collectKeywords((keywords) => keywords.season));
+const EPISODE_WORD = keywordPattern(collectKeywords((keywords) => keywords.episode));
+const SEASON_SUFFIX = keywordPattern(collectKeywords((keywords) => keywords.seasonSuffix));
+const EPISODE_SUFFIX = keywordPattern(collectKeywords((keywords) => keywords.episodeSuffix));
+const RANGE_SEPARATOR = `(?:-|–|~|${keywordPattern(collectKeywords((keywords) => keywords.rangeSeparator), true)})`;
+
+// Words such as "ver", "serie" or "latino" are also ordinary title words ("Ver Sacrum", "Serie Noire"),
+// so a locale's media-type and noise words only apply once the query is clearly written in that locale.
+const LOCALE_SCRIPT: Partial<Record<QueryKeywordLocale, RegExp>> = {
+  hi: /\p{Script=Devanagari}/u,
+  ja: /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/u,
+  ko: /\p{Script=Hangul}/u
+};
+
+interface LocaleKeywordPatterns {
+  locale: QueryKeywordLocale;
+  marker: RegExp; // season/episode words only this locale uses
+  show: string;
+  movie: string;
+  noise: string;
+}
+
+const LOCALE_KEYWORD_PATTERNS: LocaleKeywordPatterns[] = (Object.keys(QUERY_KEYWORDS) as QueryKeywordLocale[]).map((locale) => {
+  const keywords = QUERY_KEYWORDS[locale];
+  return {
+    locale,
+    marker: new RegExp(`${keywordPattern(byLength([...keywords.season, ...keywords.episode]))}(?![\\p{L}\\p{M}])`, 'iu'),
+    show: keywordPattern(byLength([...keywords.show, ...keywords.season]), true),
+    movie: keywordPattern(byLength(keywords.movie), true),
+    noise: keywordPattern(byLength([...keywords.show, ...keywords.movie, ...keywords.noise]), true)
+  };
+});
+
+/**
+ * English always applies; other locales need their script, a season/episode word, or two of
+ * their media-type and noise words. One stray "serie" or "peli" is taken to be part of the title.
+ */
+function detectQueryLocales(query: string): QueryKeywordLocale[] {
+  return LOCALE_KEYWORD_PATTERNS
+    .filter(({ locale, marker, noise }) => (
+      locale === 'en' ||
+      Boolean(LOCALE_SCRIPT[locale]?.test(query)) ||
+      marker.test(query) ||
+      (query.match(new RegExp(noise, 'giu')) || []).length >= 2
+    ))
+    .map(({ locale }) => locale);
+}
+
+function localeKeywordPattern(locales: QueryKeywordLocale[], kind: 'show' | 'movie' | 'noise', flags: string): RegExp {
+  const patterns = LOCALE_KEYWORD_PATTERNS.filter(({ locale }) => locales.includes(locale)).map((entry) => entry[kind]);
+  return new RegExp(patterns.join('|'), flags);
+}
+
+const EPISODE_RANGE_PATTERN = new RegExp(`\\bS(\\d{1,2})\\s*E(\\d{1,3})\\s*${RANGE_SEPARATOR}\\s*(?:S\\1\\s*)?(?:E|${EPISODE_WORD}\\s*)?(\\d{1,3})(?!\\d)`, 'iu');
+const SEASON_EPISODE_PATTERN = /\bS(\d{1,2})\s*E(\d{1,3})\b/i;
+const SEASON_RANGE_PATTERN = new RegExp(
+  `(?:${SEASON_WORD}\\s*(\\d{1,2})\\s*${RANGE_SEPARATOR}\\s*(?:${SEASON_WORD}\\s*)?(\\d{1,2})|\\bs(\\d{1,2})\\s*${RANGE_SEPARATOR}\\s*s?(\\d{1,2}))(?!\\d)`,
+  'iu'
+);
+const SEASON_PATTERN = new RegExp(`${SEASON_WORD}\\s*(\\d{1,2})(?!\\d)|(?<!\\d)第?(\\d{1,2})\\s*${SEASON_SUFFIX}`, 'iu');
+const SHORT_SEASON_PATTERN = /\bs(\d{1,2})\b/i;
+const EPISODE_PATTERN = new RegExp(
+  `(?:${EPISODE_WORD}\\s*|\\be)(\\d{1,3})(?:\\s*${RANGE_SEPARATOR}\\s*(?:${EPISODE_WORD}\\s*|e)?(\\d{1,3}))?(?!\\d)` +
+    `|(?<!\\d)第?(\\d{1,3})(?:\\s*${EPISODE_SUFFIX})?(?:\\s*${RANGE_SEPARATOR}\\s*第?(\\d{1,3}))\\s*${EPISODE_SUFFIX}` +
+    `|(?<!\\d)第?(\\d{1,3})\\s*${EPISODE_SUFFIX}`,
+  'iu'
+);
+
+/** Full-width (２) and Devanagari (२) digits to ASCII so the number patterns see them. */
+function normalizeDigits(value: string): string {
+  return value
+    .replace(/[０-９]/g, (digit) => String(digit.charCodeAt(0) - 0xff10))
+    .replace(/[०-९]/g, (digit) => String(digit.charCodeAt(0) - 0x0966));
+}
+
+function applyEpisodeRange(result: ParsedQuery, start: number, end: number): void {
+  result.episode = Math.min(start, end);
+  if (start !== end) {
+    result.episodeRange = { start: Math.min(start, end), end: Math.max(start, end) };
+  }
+}
+
+function markSeasonInfo(result: ParsedQuery): void {
+  result.hasSeasonInfo = true;
+  result.type = 'show';
+}
+
 export function parseQuery(query: string): ParsedQuery {
   const original = query.trim();
-  let remaining = original;
+  let remaining = normalizeDigits(original);
+  const locales = detectQueryLocales(remaining);
 
   const result: ParsedQuery = {
     title: '',
@@ -512,7 +705,7 @@ export function parseQuery(query: string): ParsedQuery {
   if (yearMatch) {
     result.year = parseInt(yearMatch[1]);
     result.isRecent = result.year >= 2024;
-    remaining = remaining.replace(yearMatch[0], '').trim();
+    remaining = remaining.replace(yearMatch[0], ' ').trim();
   } else {
     // Check if query mentions "2024" or "2025" without it being a year
     const currentYearCheck = /\b(2024|2025)\b/i;
@@ -521,62 +714,80 @@ export function parseQuery(query: string): ParsedQuery {
     }
   }
 
-  // Extract season/episode - Format: S01E02, Season 1, s01, etc.
-  const seasonEpisodeMatch = remaining.match(/\bS(\d{1,2})E(\d{1,2})\b/i);
-  if (seasonEpisodeMatch) {
+  // Extract season/episode - S01E02, S02E03-E07, season 1, seasons 1-3, temporada 2, シーズン2, 第2期, s01, etc.
+  const episodeRangeMatch = remaining.match(EPISODE_RANGE_PATTERN);
+  const seasonEpisodeMatch = episodeRangeMatch ? null : remaining.match(SEASON_EPISODE_PATTERN);
+  if (episodeRangeMatch) {
+    result.season = parseInt(episodeRangeMatch[1]);
+    applyEpisodeRange(result, parseInt(episodeRangeMatch[2]), parseInt(episodeRangeMatch[3]));
+    markSeasonInfo(result);
+    remaining = remaining.replace(episodeRangeMatch[0], ' ').trim();
+  } else if (seasonEpisodeMatch) {
     result.season = parseInt(seasonEpisodeMatch[1]);
     result.episode = parseInt(seasonEpisodeMatch[2]);
-    result.hasSeasonInfo = true;
-    result.type = 'show';
-    remaining = remaining.replace(seasonEpisodeMatch[0], '').trim();
+    markSeasonInfo(result);
+    remaining = remaining.replace(seasonEpisodeMatch[0], ' ').trim();
   } else {
-    // Try "Season X" or "season X" format
-    const seasonMatch = remaining.match(/\bseason\s+(\d{1,2})\b/i);
-    if (seasonMatch) {
-      result.season = parseInt(seasonMatch[1]);
-      result.hasSeasonInfo = true;
-      result.type = 'show';
-      remaining = remaining.replace(seasonMatch[0], '').trim();
+    // Ranges first ("seasons 1-3", "temporadas 1 a 3", "s1-s3"), then single seasons
+    const seasonRangeMatch = remaining.match(SEASON_RANGE_PATTERN);
+    const seasonMatch = seasonRangeMatch ? null : remaining.match(SEASON_PATTERN);
+    if (seasonRangeMatch) {
+      const start = parseInt(seasonRangeMatch[1] || seasonRangeMatch[3]);
+      const end = parseInt(seasonRangeMatch[2] || seasonRangeMatch[4]);
+      result.season = Math.min(start, end);
+      if (start !== end) {
+        result.seasonRange = { start: Math.min(start, end), end: Math.max(start, end) };
+      }
+      markSeasonInfo(result);
+      remaining = remaining.replace(seasonRangeMatch[0], ' ').trim();
+    } else if (seasonMatch) {
+      result.season = parseInt(seasonMatch[1] || seasonMatch[2]);
+      markSeasonInfo(result);
+      remaining = remaining.replace(seasonMatch[0], ' ').trim();
     } else {
       // Try "S01" or "s1" format
-      const shortSeasonMatch = remaining.match(/\bs(\d{1,2})\b/i);
+      const shortSeasonMatch = remaining.match(SHORT_SEASON_PATTERN);
       if (shortSeasonMatch) {
         result.season = parseInt(shortSeasonMatch[1]);
-        result.hasSeasonInfo = true;
-        result.type = 'show';
-        remaining = remaining.replace(shortSeasonMatch[0], '').trim();
+        markSeasonInfo(result);
+        remaining = remaining.replace(shortSeasonMatch[0], ' ').trim();
       }
     }
 
-    // Try "Episode X" format (only if season was found)
-    if (result.season) {
-      const episodeMatch = remaining.match(/\bepisode\s+(\d{1,2})\b/i);
+    // Episodes ("episode 3", "capítulos 1 a 4", "e1 to e4", "第3話", "3~5화") only for a single season
+    if (result.season && !result.seasonRange) {
+      const episodeMatch = remaining.match(EPISODE_PATTERN);
       if (episodeMatch) {
-        result.episode = parseInt(episodeMatch[1]);
-        remaining = remaining.replace(episodeMatch[0], '').trim();
+        const start = parseInt(episodeMatch[1] || episodeMatch[3] || episodeMatch[5]);
+        const end = episodeMatch[2] || episodeMatch[4];
+        if (end) {
+          applyEpisodeRange(result, start, parseInt(end));
+        } else {
+          result.episode = start;
+        }
+        remaining = remaining.replace(episodeMatch[0], ' ').trim();
       }
     }
   }
 
-  // Check for explicit media type with common typos
+  // Check for explicit media type with common typos, in English or the query's detected language
   if (result.type === 'auto') {
-    if (/\b(show|series|serees|seris|tv|tv\s+show|tv\s+series|season)\b/i.test(remaining)) {
+    if (localeKeywordPattern(locales, 'show', 'iu').test(remaining)) {
       result.type = 'show';
-    } else if (/\b(movie|moive|film|movies)\b/i.test(remaining)) {
+    } else if (localeKeywordPattern(locales, 'movie', 'iu').test(remaining)) {
       result.type = 'movie';
     }
   }
 
   // Clean up common noise and action words
-  const noiseRegex = /\b(movie|moive|film|movies|show|series|serees|seris|tv|tv\s+show|tv\s+series|watch|online|free|download|hd|1080p|4k)\b/gi;
   remaining = remaining
-    .replace(noiseRegex, ' ')
+    .replace(localeKeywordPattern(locales, 'noise', 'giu'), ' ')
     .replace(/\s+/g, ' ')
     .trim();
 
-  // Remove leading/trailing punctuation and extra spaces
+  // Remove leading/trailing punctuation and extra spaces, keeping letters in any script
   result.title = remaining
-    .replace(/^[^\w\s]+|[^\w\s]+$/g, '')
+    .replace(/^[^\p{L}\p{M}\p{N}\s]+|[^\p{L}\p{M}\p{N}\s]+$/gu, '')
     .replace(/\s+/g, ' ')
     .trim();
 
@@ -626,9 +837,13 @@ export function formatForAIPrompt(parsed: ParsedQuery): string {
     parts.push(`Year: ${parsed.year}`);
   }
   
-  if (parsed.season) {
+  if (parsed.seasonRange) {
+    parts.push(`Seasons: ${parsed.seasonRange.start}-${parsed.seasonRange.end}`);
+  } else if (parsed.season) {
     parts.push(`Season: ${parsed.season}`);
-    if (parsed.episode) {
+    if (parsed.episodeRange) {
+      parts.push(`Episodes: ${parsed.episodeRange.start}-${parsed.episodeRange.end}`);
+    } else if (parsed.episode) {
       parts.push(`Episode: ${parsed.episode}`);
     }
   }
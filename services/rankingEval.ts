@@ -0,0 +1,177 @@
+import type { SearchResult } from '../types';
+import { SuggestCandidate, rankSuggestCandidates } from './suggestRanking';
+import {
+  RankingFeedbackStore,
+  applyRankingFeedbackWithStore,
+  createRankingFeedbackStore
+} from './rankingFeedback';
+
+/**
+ * Ranking Evaluation
+ * Scores the suggest and search rankers against golden query sets with graded
+ * relevance (0 = wrong, 3 = exactly what the user wanted) so ranking changes
+ * can be judged by numbers instead of by eye.
+ */
+
+export type RankerName = 'suggest' | 'search';
+
+export interface SuggestEvalCase {
+  id: string;
+  query: string;
+  candidates: SuggestCandidate[];
+  /** Grade per `media_type:id`; unlisted candidates count as 0. */
+  relevance: Record<string, number>;
+}
+
+export interface SearchEvalCase {
+  id: string;
+  query: string;
+  /** Feedback history the ranking is personalised with; missing maps start empty. */
+  store?: Partial<RankingFeedbackStore>;
+  results: SearchResult[];
+  relevance: Record<string, number>;
+}
+
+export type RankingFixture =
+  | { ranker: 'suggest'; version: number; k?: number; cases: SuggestEvalCase[] }
+  | { ranker: 'search'; version: number; k?: number; cases: SearchEvalCase[] };
+
+export interface RankingMetrics {
+  ndcg: number;
+  mrr: number;
+  top1: number;
+}
+
+export interface QueryEvalResult {
+  id: string;
+  query: string;
+  ndcg: number;
+  reciprocalRank: number;
+  top1: number;
+  /** Ranked keys, cut at k. */
+  ranking: string[];
+}
+
+export interface RankingEvalReport {
+  ranker: RankerName;
+  fixtureVersion: number;
+  k: number;
+  metrics: RankingMetrics;
+  queries: QueryEvalResult[];
+}
+
+export interface MetricRegression {
+  metric: keyof RankingMetrics;
+  baseline: number;
+  actual: number;
+}
+
+const DEFAULT_K = 5;
+/** Absorbs floating point noise when comparing against a stored baseline. */
+const METRIC_TOLERANCE = 1e-6;
+
+export function rankingKey(item: { id: number; media_type: string }): string {
+  return `${item.media_type}:${item.id}`;
+}
+
+function round(value: number): number {
+  return Number(value.toFixed(4));
+}
+
+function dcg(grades: number[]): number {
+  return grades.reduce((sum, grade, index) => sum + (Math.pow(2, grade) - 1) / Math.log2(index + 2), 0);
+}
+
+/** NDCG@k with exponential gain; 0 when nothing in the judgements is relevant. */
+export function ndcgAtK(rankedGrades: number[], allGrades: number[], k: number): number {
+  const ideal = dcg([...allGrades].sort((a, b) => b - a).slice(0, k));
+  if (ideal <= 0) return 0;
+  return dcg(rankedGrades.slice(0, k)) / ideal;
+}
+
+/** 1 / position of the first relevant result, or 0 when none is ranked. */
+export function reciprocalRank(rankedGrades: number[]): number {
+  const index = rankedGrades.findIndex((grade) => grade > 0);
+  return index < 0 ? 0 : 1 / (index + 1);
+}
+
+/** 1 when the top result carries the best grade in the judgements. */
+export function topOneHit(rankedGrades: number[], allGrades: number[]): number {
+  const best = Math.max(0, ...allGrades);
+  return best > 0 && rankedGrades[0] === best ? 1 : 0;
+}
+
+export function evaluateRankedKeys(
+  id: string,
+  query: string,
+  rankedKeys: string[],
+  relevance: Record<string, number>,
+  k: number
+): QueryEvalResult {
+  const rankedGrades = rankedKeys.map((key) => relevance[key] || 0);
+  const allGrades = Object.values(relevance);
+  return {
+    id,
+    query,
+    ndcg: round(ndcgAtK(rankedGrades, allGrades, k)),
+    reciprocalRank: round(reciprocalRank(rankedGrades)),
+    top1: topOneHit(rankedGrades, allGrades),
+    ranking: rankedKeys.slice(0, k)
+  };
+}
+
+function summarize(queries: QueryEvalResult[]): RankingMetrics {
+  if (queries.length === 0) return { ndcg: 0, mrr: 0, top1: 0 };
+  const mean = (values: number[]) => round(values.reduce((sum, value) => sum + value, 0) / values.length);
+  return {
+    ndcg: mean(queries.map((query) => query.ndcg)),
+    mrr: mean(queries.map((query) => query.reciprocalRank)),
+    top1: mean(queries.map((query) => query.top1))
+  };
+}
+
+function rankSuggestCase(testCase: SuggestEvalCase): string[] {
+  return rankSuggestCandidates(testCase.query, testCase.candidates).map(rankingKey);
+}
+
+function rankSearchCase(testCase: SearchEvalCase): string[] {
+  const store = { ...createRankingFeedbackStore(), ...(testCase.store || {}) };
+  return applyRankingFeedbackWithStore(testCase.results, store).map(rankingKey);
+}
+
+/** Throws on fixtures that cannot produce meaningful metrics. */
+export function validateRankingFixture(fixture: RankingFixture): void {
+  const seen = new Set<string>();
+  for (const testCase of fixture.cases) {
+    if (seen.has(testCase.id)) throw new Error(`Duplicate ${fixture.ranker} eval case "${testCase.id}"`);
+    seen.add(testCase.id);
+    if (!Object.values(testCase.relevance).some((grade) => grade > 0)) {
+      throw new Error(`Eval case "${testCase.id}" has no relevant candidate`);
+    }
+  }
+}
+
+export function evaluateRankingFixture(fixture: RankingFixture): RankingEvalReport {
+  validateRankingFixture(fixture);
+  const k = fixture.k || DEFAULT_K;
+  const queries = fixture.ranker === 'suggest'
+    ? fixture.cases.map((testCase) =>
+      evaluateRankedKeys(testCase.id, testCase.query, rankSuggestCase(testCase), testCase.relevance, k))
+    : fixture.cases.map((testCase) =>
+      evaluateRankedKeys(testCase.id, testCase.query, rankSearchCase(testCase), testCase.relevance, k));
+
+  return {
+    ranker: fixture.ranker,
+    fixtureVersion: fixture.version,
+    k,
+    metrics: summarize(queries),
+    queries
+  };
+}
+
+/** Aggregate metrics that fell below the baseline; empty when the ranker held up. */
+export function findMetricRegressions(report: RankingEvalReport, baseline: RankingEvalReport): MetricRegression[] {
+  return (Object.keys(baseline.metrics) as Array<keyof RankingMetrics>)
+    .filter((metric) => report.metrics[metric] < baseline.metrics[metric] - METRIC_TOLERANCE)
+    .map((metric) => ({ metric, baseline: baseline.metrics[metric], actual: report.metrics[metric] }));
+}
@@ -1,25 +1,94 @@
-import type { SearchResult } from '../types';
+import type { MovieData, SearchResult } from '../types';
+import { findGenreByName, findGenreName, languageCodeForName } from '../lib/searchOperators';
 
 type FeedbackSignal = 'up' | 'down';
 
+/** Signals inferred from what the user does with a title rather than a thumbs up/down. */
+export type ImplicitFeedbackSignal = 'opened' | 'saved' | 'watched';
+
+export type FeedbackDimension = 'genre' | 'mediaType' | 'language' | 'decade' | 'person';
+
 export type RankingFeedbackStore = {
   positiveGenres: Record<number, number>;
   negativeGenres: Record<number, number>;
   positiveMediaType: Record<'movie' | 'tv', number>;
   negativeMediaType: Record<'movie' | 'tv', number>;
+  /** Keyed by ISO 639-1 original language. */
+  positiveLanguages: Record<string, number>;
+  negativeLanguages: Record<string, number>;
+  /** Keyed by decade start year, e.g. 1990. */
+  positiveDecades: Record<number, number>;
+  negativeDecades: Record<number, number>;
+  /** Keyed by lower-cased credited name. */
+  positivePeople: Record<string, number>;
+  negativePeople: Record<string, number>;
   helpfulQueries: string[];
   unhelpfulQueries: string[];
+  /** Counts hold their weight as of this instant and decay from it. */
   updatedAt: string;
 };
 
+export type RankingFeedbackConfig = {
+  /** Days after which a signal counts for half as much. */
+  halfLifeDays: number;
+  signalWeights: Record<FeedbackSignal | ImplicitFeedbackSignal, number>;
+  positiveBoost: Record<FeedbackDimension, number>;
+  negativePenalty: Record<FeedbackDimension, number>;
+};
+
+/** Anything that can be ranked or give feedback: search results, cards, full details. */
+export type RankingFeedbackSubject = {
+  media_type: 'movie' | 'tv';
+  genre_ids?: number[];
+  original_language?: string;
+  year?: string;
+  people?: string[];
+};
+
+export type FeedbackBoost = {
+  dimension: FeedbackDimension;
+  key: string;
+  label: string;
+  /** Change applied to the result's score; negative for penalties. */
+  delta: number;
+};
+
+export type FeedbackExplanation = {
+  baseScore: number;
+  score: number;
+  /** Largest effect first. */
+  boosts: FeedbackBoost[];
+};
+
+export type RankedSearchResult = SearchResult & { feedback: FeedbackExplanation };
+
+export const DEFAULT_RANKING_FEEDBACK_CONFIG: RankingFeedbackConfig = {
+  halfLifeDays: 45,
+  signalWeights: { up: 1, down: 1, opened: 0.15, saved: 0.5, watched: 0.4 },
+  positiveBoost: { genre: 0.035, mediaType: 0.035, language: 0.03, decade: 0.02, person: 0.04 },
+  negativePenalty: { genre: 0.03, mediaType: 0.03, language: 0.025, decade: 0.015, person: 0.035 }
+};
+
 const STORAGE_KEY = 'moviemonk_ranking_feedback_v1';
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Decayed counts below this are dropped so the store does not grow forever. */
+const MIN_TRACKED_WEIGHT = 0.01;
+const MIN_EXPLAINED_DELTA = 0.0005;
+const MAX_PEOPLE_PER_SIGNAL = 6;
+const MAX_TRACKED_PEOPLE = 200;
 
-function defaultStore(): RankingFeedbackStore {
+export function createRankingFeedbackStore(): RankingFeedbackStore {
   return {
     positiveGenres: {},
     negativeGenres: {},
     positiveMediaType: { movie: 0, tv: 0 },
     negativeMediaType: { movie: 0, tv: 0 },
+    positiveLanguages: {},
+    negativeLanguages: {},
+    positiveDecades: {},
+    negativeDecades: {},
+    positivePeople: {},
+    negativePeople: {},
     helpfulQueries: [],
     unhelpfulQueries: [],
     updatedAt: new Date(0).toISOString()
@@ -33,15 +102,17 @@ function getStorage(): Storage | null {
 
 function loadStore(): RankingFeedbackStore {
   const storage = getStorage();
-  if (!storage) return defaultStore();
+  if (!storage) return createRankingFeedbackStore();
 
   const raw = storage.getItem(STORAGE_KEY);
-  if (!raw) return defaultStore();
+  if (!raw) return createRankingFeedbackStore();
 
   try {
     const parsed = JSON.parse(raw) as Partial<RankingFeedbackStore>;
+    // Stores written before the language / decade / people dimensions existed
+    // simply start those maps empty.
     return {
-      ...defaultStore(),
+      ...createRankingFeedbackStore(),
       ...parsed,
       positiveGenres: { ...(parsed.positiveGenres || {}) },
       negativeGenres: { ...(parsed.negativeGenres || {}) },
@@ -53,11 +124,17 @@ function loadStore(): RankingFeedbackStore {
         movie: Number(parsed.negativeMediaType?.movie || 0),
         tv: Number(parsed.negativeMediaType?.tv || 0)
       },
+      positiveLanguages: { ...(parsed.positiveLanguages || {}) },
+      negativeLanguages: { ...(parsed.negativeLanguages || {}) },
+      positiveDecades: { ...(parsed.positiveDecades || {}) },
+      negativeDecades: { ...(parsed.negativeDecades || {}) },
+      positivePeople: { ...(parsed.positivePeople || {}) },
+      negativePeople: { ...(parsed.negativePeople || {}) },
       helpfulQueries: Array.isArray(parsed.helpfulQueries) ? parsed.helpfulQueries : [],
       unhelpfulQueries: Array.isArray(parsed.unhelpfulQueries) ? parsed.unhelpfulQueries : []
     };
   } catch {
-    return defaultStore();
+    return createRankingFeedbackStore();
   }
 }
 
@@ -71,23 +148,143 @@ function normalizeQuery(query: string): string {
   return query.trim().toLowerCase();
 }
 
-function boostScore(base: number, positive: number, negative: number): number {
-  if (positive <= 0 && negative <= 0) return base;
-  return base + positive * 0.035 - negative * 0.03;
+function normalizePerson(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+function decadeOf(year?: string): number | null {
+  const match = year?.match(/\d{4}/);
+  return match ? Math.floor(Number(match[0]) / 10) * 10 : null;
 }
 
-export function scoreSearchResultForFeedback(item: SearchResult, store: RankingFeedbackStore): number {
-  let score = item.confidence || 0;
-  const genres = item.genre_ids || [];
-  for (const genreId of genres) {
-    score = boostScore(score, store.positiveGenres[genreId] || 0, store.negativeGenres[genreId] || 0);
+function decayRecord<K extends string | number>(record: Record<K, number>, factor: number): Record<K, number> {
+  const next = {} as Record<K, number>;
+  for (const [key, value] of Object.entries(record) as Array<[K, number]>) {
+    const decayed = Number(value) * factor;
+    if (decayed >= MIN_TRACKED_WEIGHT) next[key] = decayed;
   }
-  score = boostScore(
-    score,
-    store.positiveMediaType[item.media_type] || 0,
-    store.negativeMediaType[item.media_type] || 0
-  );
-  return score;
+  return next;
+}
+
+function keepStrongestPeople(record: Record<string, number>): Record<string, number> {
+  const entries = Object.entries(record);
+  if (entries.length <= MAX_TRACKED_PEOPLE) return record;
+  return Object.fromEntries(entries.sort((a, b) => b[1] - a[1]).slice(0, MAX_TRACKED_PEOPLE));
+}
+
+/**
+ * Ages every count to `now` using the configured half-life, so a thumbs up
+ * from `halfLifeDays` ago weighs half as much as one given today.
+ */
+export function decayRankingFeedbackStore(
+  store: RankingFeedbackStore,
+  now: Date = new Date(),
+  config: RankingFeedbackConfig = DEFAULT_RANKING_FEEDBACK_CONFIG
+): RankingFeedbackStore {
+  const elapsedMs = Math.max(0, now.getTime() - new Date(store.updatedAt).getTime());
+  const factor = config.halfLifeDays > 0 && Number.isFinite(elapsedMs)
+    ? Math.pow(0.5, elapsedMs / (config.halfLifeDays * DAY_MS))
+    : 1;
+  const decayWeight = (value: number) => {
+    const decayed = (value || 0) * factor;
+    return decayed >= MIN_TRACKED_WEIGHT ? decayed : 0;
+  };
+  const decayMediaType = (record: Record<'movie' | 'tv', number>) => ({
+    movie: decayWeight(record.movie),
+    tv: decayWeight(record.tv)
+  });
+
+  return {
+    ...store,
+    positiveGenres: decayRecord(store.positiveGenres, factor),
+    negativeGenres: decayRecord(store.negativeGenres, factor),
+    positiveMediaType: decayMediaType(store.positiveMediaType),
+    negativeMediaType: decayMediaType(store.negativeMediaType),
+    positiveLanguages: decayRecord(store.positiveLanguages, factor),
+    negativeLanguages: decayRecord(store.negativeLanguages, factor),
+    positiveDecades: decayRecord(store.positiveDecades, factor),
+    negativeDecades: decayRecord(store.negativeDecades, factor),
+    positivePeople: decayRecord(store.positivePeople, factor),
+    negativePeople: decayRecord(store.negativePeople, factor),
+    updatedAt: now.toISOString()
+  };
+}
+
+let languageNames: Intl.DisplayNames | null | undefined;
+
+function languageLabel(code: string): string {
+  if (languageNames === undefined) {
+    try {
+      languageNames = new Intl.DisplayNames(['en'], { type: 'language' });
+    } catch {
+      languageNames = null;
+    }
+  }
+  try {
+    return languageNames?.of(code) || code.toUpperCase();
+  } catch {
+    return code.toUpperCase();
+  }
+}
+
+function explainFeedback(
+  item: RankingFeedbackSubject & { confidence?: number },
+  store: RankingFeedbackStore,
+  config: RankingFeedbackConfig
+): FeedbackExplanation {
+  const baseScore = item.confidence || 0;
+  const boosts: FeedbackBoost[] = [];
+  const push = (dimension: FeedbackDimension, key: string, label: string, positive: number, negative: number) => {
+    if (positive <= 0 && negative <= 0) return;
+    const delta = positive * config.positiveBoost[dimension] - negative * config.negativePenalty[dimension];
+    if (Math.abs(delta) >= MIN_EXPLAINED_DELTA) boosts.push({ dimension, key, label, delta });
+  };
+
+  for (const genreId of item.genre_ids || []) {
+    push('genre', String(genreId), findGenreName(genreId) || `Genre ${genreId}`,
+      store.positiveGenres[genreId] || 0, store.negativeGenres[genreId] || 0);
+  }
+  push('mediaType', item.media_type, item.media_type === 'tv' ? 'TV shows' : 'Movies',
+    store.positiveMediaType[item.media_type] || 0, store.negativeMediaType[item.media_type] || 0);
+
+  const language = item.original_language?.toLowerCase();
+  if (language) {
+    push('language', language, languageLabel(language),
+      store.positiveLanguages[language] || 0, store.negativeLanguages[language] || 0);
+  }
+
+  const decade = decadeOf(item.year);
+  if (decade !== null) {
+    push('decade', String(decade), `${decade}s`, store.positiveDecades[decade] || 0, store.negativeDecades[decade] || 0);
+  }
+
+  const seenPeople = new Set<string>();
+  for (const name of item.people || []) {
+    const key = normalizePerson(name);
+    if (!key || seenPeople.has(key)) continue;
+    seenPeople.add(key);
+    push('person', key, name.trim(), store.positivePeople[key] || 0, store.negativePeople[key] || 0);
+  }
+
+  boosts.sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+  return {
+    baseScore,
+    score: boosts.reduce((score, boost) => score + boost.delta, baseScore),
+    boosts
+  };
+}
+
+export function scoreSearchResultForFeedback(
+  item: SearchResult,
+  store: RankingFeedbackStore,
+  config: RankingFeedbackConfig = DEFAULT_RANKING_FEEDBACK_CONFIG
+): number {
+  return explainFeedback(item, store, config).score;
+}
+
+/** Short, user-facing reason for a boost, e.g. "You like Action". */
+export function describeFeedbackBoost(boost: FeedbackBoost): string {
+  return boost.delta > 0 ? `You like ${boost.label}` : `You skip ${boost.label}`;
 }
 
 function uniquePush(input: string[], value: string): string[] {
@@ -96,46 +293,136 @@ function uniquePush(input: string[], value: string): string[] {
   return [value, ...input].slice(0, 40);
 }
 
-export function applyRankingFeedbackWithStore(results: SearchResult[], store: RankingFeedbackStore): SearchResult[] {
-  if (!Array.isArray(results) || results.length < 2) return results;
+/**
+ * Re-ranks results by feedback and attaches what moved each one. The store is
+ * read as-is; decay it first when it may be stale.
+ */
+export function applyRankingFeedbackWithStore(
+  results: SearchResult[],
+  store: RankingFeedbackStore,
+  config: RankingFeedbackConfig = DEFAULT_RANKING_FEEDBACK_CONFIG
+): RankedSearchResult[] {
+  if (!Array.isArray(results)) return [];
+
+  const ranked = results.map((item) => ({ ...item, feedback: explainFeedback(item, store, config) }));
+  if (ranked.length < 2) return ranked;
 
-  return [...results].sort((a, b) => {
-    const scoreA = scoreSearchResultForFeedback(a, store);
-    const scoreB = scoreSearchResultForFeedback(b, store);
-    if (scoreA === scoreB) return (b.popularity || 0) - (a.popularity || 0);
-    return scoreB - scoreA;
+  return ranked.sort((a, b) => {
+    if (a.feedback.score === b.feedback.score) return (b.popularity || 0) - (a.popularity || 0);
+    return b.feedback.score - a.feedback.score;
   });
 }
 
-export function applyRankingFeedback(results: SearchResult[]): SearchResult[] {
-  if (!Array.isArray(results) || results.length < 2) return results;
-  const store = loadStore();
-  return applyRankingFeedbackWithStore(results, store);
+export function applyRankingFeedback(
+  results: SearchResult[],
+  config: RankingFeedbackConfig = DEFAULT_RANKING_FEEDBACK_CONFIG
+): RankedSearchResult[] {
+  const store = decayRankingFeedbackStore(loadStore(), new Date(), config);
+  return applyRankingFeedbackWithStore(results, store, config);
 }
 
-export function recordResultFeedback(query: string, item: SearchResult, signal: FeedbackSignal): void {
-  const store = loadStore();
-  const next = { ...store };
-  const isPositive = signal === 'up';
-  const mediaType = item.media_type;
-  const genres = item.genre_ids || [];
+/** Adds one weighted signal about `subject` to every dimension it carries. */
+export function addFeedbackSignal(
+  store: RankingFeedbackStore,
+  subject: RankingFeedbackSubject,
+  positive: boolean,
+  weight: number
+): RankingFeedbackStore {
+  const bump = <K extends string | number>(record: Record<K, number>, key: K): Record<K, number> => ({
+    ...record,
+    [key]: (record[key] || 0) + weight
+  });
+  const next: RankingFeedbackStore = { ...store };
 
-  if (isPositive) next.positiveMediaType[mediaType] += 1;
-  else next.negativeMediaType[mediaType] += 1;
+  if (positive) next.positiveMediaType = bump(next.positiveMediaType, subject.media_type);
+  else next.negativeMediaType = bump(next.negativeMediaType, subject.media_type);
 
-  for (const genreId of genres) {
-    if (isPositive) next.positiveGenres[genreId] = (next.positiveGenres[genreId] || 0) + 1;
-    else next.negativeGenres[genreId] = (next.negativeGenres[genreId] || 0) + 1;
+  for (const genreId of subject.genre_ids || []) {
+    if (positive) next.positiveGenres = bump(next.positiveGenres, genreId);
+    else next.negativeGenres = bump(next.negativeGenres, genreId);
   }
 
+  const language = subject.original_language?.trim().toLowerCase();
+  if (language) {
+    if (positive) next.positiveLanguages = bump(next.positiveLanguages, language);
+    else next.negativeLanguages = bump(next.negativeLanguages, language);
+  }
+
+  const decade = decadeOf(subject.year);
+  if (decade !== null) {
+    if (positive) next.positiveDecades = bump(next.positiveDecades, decade);
+    else next.negativeDecades = bump(next.negativeDecades, decade);
+  }
+
+  const people = Array.from(new Set((subject.people || []).map(normalizePerson).filter(Boolean)))
+    .slice(0, MAX_PEOPLE_PER_SIGNAL);
+  for (const person of people) {
+    if (positive) next.positivePeople = bump(next.positivePeople, person);
+    else next.negativePeople = bump(next.negativePeople, person);
+  }
+  next.positivePeople = keepStrongestPeople(next.positivePeople);
+  next.negativePeople = keepStrongestPeople(next.negativePeople);
+
+  return next;
+}
+
+export function recordResultFeedback(
+  query: string,
+  item: SearchResult,
+  signal: FeedbackSignal,
+  config: RankingFeedbackConfig = DEFAULT_RANKING_FEEDBACK_CONFIG
+): void {
+  const isPositive = signal === 'up';
+  const next = addFeedbackSignal(
+    decayRankingFeedbackStore(loadStore(), new Date(), config),
+    item,
+    isPositive,
+    config.signalWeights[signal]
+  );
+
   const normalized = normalizeQuery(query);
   if (isPositive) next.helpfulQueries = uniquePush(next.helpfulQueries, normalized);
   else next.unhelpfulQueries = uniquePush(next.unhelpfulQueries, normalized);
 
-  next.updatedAt = new Date().toISOString();
   saveStore(next);
 }
 
+/** Opening, saving or watching a title counts as a weaker thumbs up. */
+export function recordImplicitFeedback(
+  signal: ImplicitFeedbackSignal,
+  subject: RankingFeedbackSubject,
+  config: RankingFeedbackConfig = DEFAULT_RANKING_FEEDBACK_CONFIG
+): void {
+  saveStore(addFeedbackSignal(
+    decayRankingFeedbackStore(loadStore(), new Date(), config),
+    subject,
+    true,
+    config.signalWeights[signal]
+  ));
+}
+
+/** Feedback dimensions of a full details payload; null when the media type is unknown. */
+export function feedbackSubjectFromMovie(movie: MovieData): RankingFeedbackSubject | null {
+  const mediaType = movie.media_type === 'tv' || movie.type === 'show'
+    ? 'tv'
+    : movie.media_type === 'movie' || movie.type === 'movie' ? 'movie' : null;
+  if (!mediaType) return null;
+
+  const genreIds = (Array.isArray(movie.genres) ? movie.genres : [])
+    .map((genre) => findGenreByName(genre)?.id)
+    .filter((id): id is number => typeof id === 'number');
+  const cast = (Array.isArray(movie.cast) ? movie.cast : []).slice(0, MAX_PEOPLE_PER_SIGNAL - 1).map((member) => member?.name);
+  const people = [movie.crew?.director, ...cast].filter((name): name is string => typeof name === 'string' && name.trim().length > 0);
+
+  return {
+    media_type: mediaType,
+    genre_ids: genreIds,
+    original_language: movie.language ? languageCodeForName(movie.language) : undefined,
+    year: movie.year || undefined,
+    people
+  };
+}
+
 export function recordQueryFeedback(query: string, helpful: boolean): void {
   const store = loadStore();
   const normalized = normalizeQuery(query);
@@ -144,6 +431,5 @@ export function recordQueryFeedback(query: string, helpful: boolean): void {
   const next = { ...store };
   if (helpful) next.helpfulQueries = uniquePush(next.helpfulQueries, normalized);
   else next.unhelpfulQueries = uniquePush(next.unhelpfulQueries, normalized);
-  next.updatedAt = new Date().toISOString();
   saveStore(next);
 }
@@ -0,0 +1,94 @@
+import { isSupabaseConfigured, supabase } from '../lib/supabase';
+import { SavedSearch } from '../types';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+function ensureUuid(value?: string): string {
+  if (value && UUID_PATTERN.test(value)) return value;
+  return crypto.randomUUID();
+}
+
+type CloudSavedSearchRow = {
+  id: string;
+  user_id: string;
+  name: string;
+  query: string;
+  filters: SavedSearch['filters'] | null;
+  media_type: SavedSearch['media_type'] | null;
+  search_mode: SavedSearch['search_mode'] | null;
+  last_result_ids: string[] | null;
+  last_run_at: string | null;
+  created_at?: string;
+};
+
+function getSupabaseOrThrow() {
+  if (!isSupabaseConfigured || !supabase) {
+    throw new Error('Supabase is not configured');
+  }
+  return supabase;
+}
+
+function toSavedSearch(row: CloudSavedSearchRow): SavedSearch {
+  return {
+    id: row.id,
+    name: row.name,
+    query: row.query,
+    filters: row.filters || {},
+    media_type: row.media_type || 'all',
+    search_mode: row.search_mode || undefined,
+    last_result_ids: Array.isArray(row.last_result_ids) ? row.last_result_ids : [],
+    last_run_at: row.last_run_at || undefined,
+    created_at: row.created_at || new Date().toISOString()
+  };
+}
+
+function toCloudRow(userId: string, search: SavedSearch): CloudSavedSearchRow {
+  return {
+    id: ensureUuid(search.id),
+    user_id: userId,
+    name: search.name.trim(),
+    query: search.query,
+    filters: search.filters,
+    media_type: search.media_type,
+    search_mode: search.search_mode || null,
+    last_result_ids: search.last_result_ids,
+    last_run_at: search.last_run_at || null,
+    created_at: search.created_at
+  };
+}
+
+export async function fetchCloudSavedSearches(userId: string): Promise<SavedSearch[]> {
+  const client = getSupabaseOrThrow();
+  const { data, error } = await client
+    .from('saved_searches')
+    .select('id, user_id, name, query, filters, media_type, search_mode, last_result_ids, last_run_at, created_at')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return ((data || []) as CloudSavedSearchRow[]).map(toSavedSearch);
+}
+
+/** Upserts one saved search and returns it with the id the cloud row was stored under. */
+export async function saveCloudSavedSearch(userId: string, search: SavedSearch): Promise<SavedSearch> {
+  const client = getSupabaseOrThrow();
+  const row = toCloudRow(userId, search);
+  const { error } = await client.from('saved_searches').upsert(row, { onConflict: 'id' });
+  if (error) throw error;
+  return { ...search, id: row.id };
+}
+
+export async function uploadSavedSearchesToCloud(userId: string, searches: SavedSearch[]): Promise<void> {
+  if (searches.length === 0) return;
+  const client = getSupabaseOrThrow();
+  const { error } = await client
+    .from('saved_searches')
+    .upsert(searches.map((search) => toCloudRow(userId, search)), { onConflict: 'id' });
+  if (error) throw error;
+}
+
+export async function deleteCloudSavedSearch(searchId: string): Promise<void> {
+  const client = getSupabaseOrThrow();
+  const { error } = await client.from('saved_searches').delete().eq('id', searchId);
+  if (error) throw error;
+}
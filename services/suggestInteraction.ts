@@ -7,6 +7,8 @@ export type EnterAction =
 export interface InteractionIntent {
   prefersPersonResult: boolean;
   prefersExactTitle: boolean;
+  /** Browsing for something new ("sci-fi movies like ...") rather than naming a title. */
+  prefersDiscovery: boolean;
   typedYear?: string;
   confidenceThreshold: number;
 }
@@ -23,6 +25,8 @@ export function inferInteractionIntent(query: string): InteractionIntent {
   const typedYear = normalized.match(/\b(19|20)\d{2}\b/)?.[0];
   const prefersPersonResult = /\b(actor|actress|director|cast|starring|who is|by )\b/.test(normalized);
   const prefersExactTitle = /\b(exact|full title|named|called)\b/.test(normalized) || Boolean(typedYear);
+  const prefersDiscovery = !prefersExactTitle
+    && /\b(movies|films|shows|series|like|similar|best|top|something|recommend\w*|to watch)\b/.test(normalized);
 
   // When users type intent-rich query (year or person cues), require stronger confidence for auto-select.
   const confidenceThreshold = prefersPersonResult || prefersExactTitle ? 0.88 : 0.82;
@@ -30,6 +34,7 @@ export function inferInteractionIntent(query: string): InteractionIntent {
   return {
     prefersPersonResult,
     prefersExactTitle,
+    prefersDiscovery,
     typedYear,
     confidenceThreshold
   };
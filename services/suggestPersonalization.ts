@@ -0,0 +1,97 @@
+import type { SuggestionItem, WatchedTitle, WatchlistFolder } from '../types';
+import type { UserPreferenceSettings } from '../lib/userSettings';
+import { findGenreByName, languageCodeForName } from '../lib/searchOperators';
+import { feedbackSubjectFromMovie } from './rankingFeedback';
+import { SuggestPersonalization, rankSuggestCandidates } from './suggestRanking';
+
+export interface SuggestPersonalizationSources {
+  watched: WatchedTitle[];
+  watchlists: WatchlistFolder[];
+  preferences: UserPreferenceSettings;
+}
+
+/** Taste stated in settings counts fully; taste inferred from saves tops out below it. */
+const EXPLICIT_AFFINITY = 1;
+const MAX_INFERRED_AFFINITY = 0.8;
+const MAX_PEOPLE = 50;
+
+function addCount<K extends string | number>(counts: Map<K, number>, key: K): void {
+  counts.set(key, (counts.get(key) || 0) + 1);
+}
+
+function toAffinities<K extends string | number>(counts: Map<K, number>, limit = Infinity): Record<K, number> {
+  const entries = [...counts.entries()].sort((a, b) => b[1] - a[1]).slice(0, limit);
+  const max = entries[0]?.[1] || 0;
+  const affinities = {} as Record<K, number>;
+  for (const [key, count] of entries) {
+    affinities[key] = Number(((count / max) * MAX_INFERRED_AFFINITY).toFixed(3));
+  }
+  return affinities;
+}
+
+/**
+ * Builds the autocomplete personalisation context from what the user saved,
+ * watched and told us in settings. Returns undefined when there is nothing to
+ * go on, which leaves suggestion ranking untouched.
+ */
+export function buildSuggestPersonalization(
+  sources: SuggestPersonalizationSources
+): SuggestPersonalization | undefined {
+  const genreCounts = new Map<number, number>();
+  const languageCounts = new Map<string, number>();
+  const peopleCounts = new Map<string, number>();
+
+  for (const folder of sources.watchlists) {
+    for (const item of folder.items || []) {
+      const subject = item?.movie ? feedbackSubjectFromMovie(item.movie) : null;
+      if (!subject) continue;
+      subject.genre_ids?.forEach((genreId) => addCount(genreCounts, genreId));
+      if (subject.original_language) addCount(languageCounts, subject.original_language.toLowerCase());
+      subject.people?.forEach((name) => addCount(peopleCounts, name.trim().toLowerCase()));
+    }
+  }
+
+  const genres = toAffinities(genreCounts);
+  for (const name of sources.preferences.genres) {
+    const genre = findGenreByName(name);
+    if (genre) genres[genre.id] = EXPLICIT_AFFINITY;
+  }
+
+  const languages = toAffinities(languageCounts);
+  for (const name of sources.preferences.languages) {
+    const code = languageCodeForName(name);
+    if (code) languages[code] = EXPLICIT_AFFINITY;
+  }
+
+  const personalization: SuggestPersonalization = {
+    genres,
+    languages,
+    people: toAffinities(peopleCounts, MAX_PEOPLE),
+    watched: sources.watched.map((entry) => `${entry.media_type}:${entry.tmdb_id}`)
+  };
+
+  const hasSignal = personalization.watched.length > 0
+    || Object.keys(genres).length > 0
+    || Object.keys(languages).length > 0
+    || Object.keys(personalization.people).length > 0;
+  return hasSignal ? personalization : undefined;
+}
+
+/**
+ * Reorders fetched suggestions with the personalised ranker. Items keep their
+ * own confidence, and anything the ranker would drop stays at the end in its
+ * original order.
+ */
+export function personalizeSuggestions<T extends SuggestionItem>(
+  query: string,
+  items: T[],
+  personalization?: SuggestPersonalization
+): T[] {
+  if (!personalization || items.length < 2) return items;
+
+  const positions = new Map(
+    rankSuggestCandidates(query, items, personalization).map((candidate, index) => [`${candidate.media_type}:${candidate.id}`, index])
+  );
+  const positionOf = (item: T) => positions.get(`${item.media_type}:${item.id}`) ?? Number.MAX_SAFE_INTEGER;
+  return [...items].sort((a, b) => positionOf(a) - positionOf(b));
+}
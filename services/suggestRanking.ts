@@ -13,6 +13,23 @@ export interface SuggestCandidate {
   popularity?: number;
   known_for_department?: string;
   known_for_titles?: string[];
+  genre_ids?: number[];
+  original_language?: string;
+}
+
+/**
+ * What the user engages with, used to nudge suggestions towards their taste.
+ * Affinities run 0–1 so the builder decides how strong each source is.
+ */
+export interface SuggestPersonalization {
+  /** Affinity per TMDB genre id. */
+  genres: Record<number, number>;
+  /** Affinity per ISO 639-1 language code. */
+  languages: Record<string, number>;
+  /** Affinity per lower-cased person name. */
+  people: Record<string, number>;
+  /** `media_type:id` of titles already marked watched. */
+  watched: string[];
 }
 
 export interface RankedSuggestCandidate extends SuggestCandidate {
@@ -163,17 +180,60 @@ function getInteractionIntentBoost(query: string, candidate: SuggestCandidate):
   return boost;
 }
 
+// Personal taste only reorders near-equal matches: the cap is well below the
+// 40 points separating an exact title from a starts-with match.
+const PERSONALIZATION_BOOST_CAP = 10;
+const GENRE_AFFINITY_WEIGHT = 6;
+const LANGUAGE_AFFINITY_WEIGHT = 4;
+const PERSON_AFFINITY_WEIGHT = 8;
+const WATCHED_DISCOVERY_PENALTY = 12;
+
+function isExactTitleMatch(query: string, title: string): boolean {
+  const normalizedTitle = normalizeText(title);
+  if (!normalizedTitle) return false;
+  return normalizedTitle === normalizeText(query)
+    || normalizedTitle === normalizeText(query.replace(/\b(19|20)\d{2}\b/g, ' '));
+}
+
+function getPersonalizationBoost(
+  candidate: SuggestCandidate,
+  personalization: SuggestPersonalization,
+  watched: Set<string>,
+  prefersDiscovery: boolean
+): number {
+  const genreAffinity = Math.min(1, (candidate.genre_ids || [])
+    .reduce((sum, genreId) => sum + (personalization.genres[genreId] || 0), 0));
+  const language = candidate.original_language?.toLowerCase();
+  const languageAffinity = language ? personalization.languages[language] || 0 : 0;
+  const personAffinity = candidate.type === 'person'
+    ? personalization.people[candidate.title.trim().toLowerCase()] || 0
+    : 0;
+
+  const boost = Math.min(
+    PERSONALIZATION_BOOST_CAP,
+    genreAffinity * GENRE_AFFINITY_WEIGHT
+      + languageAffinity * LANGUAGE_AFFINITY_WEIGHT
+      + personAffinity * PERSON_AFFINITY_WEIGHT
+  );
+  const seen = prefersDiscovery && watched.has(`${candidate.media_type}:${candidate.id}`);
+  return seen ? boost - WATCHED_DISCOVERY_PENALTY : boost;
+}
+
 function toConfidence(score: number): number {
   if (score <= 0) return 0;
   const confidence = score / 140;
   return Math.max(0, Math.min(0.99, Number(confidence.toFixed(3))));
 }
 
-export function rankSuggestCandidates(query: string, candidates: SuggestCandidate[]): RankedSuggestCandidate[] {
+export function rankSuggestCandidates(
+  query: string,
+  candidates: SuggestCandidate[],
+  personalization?: SuggestPersonalization
+): RankedSuggestCandidate[] {
   const queryYear = extractYear(query);
   const intent = parsePersonIntent(query);
 
-  return candidates
+  const scored = candidates
     .map((candidate) => {
       // Weighted blend:
       // - Title relevance (exact/starts-with/fuzzy): strongest signal
@@ -193,13 +253,32 @@ export function rankSuggestCandidates(query: string, candidates: SuggestCandidat
       const interactionIntentBoost = getInteractionIntentBoost(query, candidate);
       const score = titleScore + popularityBoost + yearBoost + personFocusBoost + roleMatchBoost + knownForBoost + interactionIntentBoost;
 
+      return { candidate, score, exact: isExactTitleMatch(query, candidate.title) };
+    })
+    .filter((entry) => entry.score > 0);
+
+  // Personalised scores of other titles stay below the weakest exact match,
+  // so typing a full title always surfaces it first.
+  const exactScores = scored.filter((entry) => entry.exact).map((entry) => entry.score);
+  const exactFloor = exactScores.length > 0 ? Math.min(...exactScores) : Infinity;
+  const watched = new Set(personalization?.watched || []);
+  const prefersDiscovery = inferInteractionIntent(query).prefersDiscovery;
+
+  return scored
+    .map(({ candidate, score, exact }) => {
+      let finalScore = score;
+      if (personalization) {
+        const boost = getPersonalizationBoost(candidate, personalization, watched, prefersDiscovery && !exact);
+        finalScore = exact
+          ? score + Math.max(0, boost)
+          : boost > 0 ? Math.max(score, Math.min(score + boost, exactFloor - 0.001)) : score + boost;
+      }
       return {
         ...candidate,
-        score,
-        confidence: toConfidence(score)
+        score: finalScore,
+        confidence: toConfidence(finalScore)
       };
     })
-    .filter((candidate) => candidate.score > 0)
     .sort((a, b) => {
       if (b.score !== a.score) return b.score - a.score;
       return (b.popularity || 0) - (a.popularity || 0);
@@ -145,6 +145,39 @@ export async function getTVShowDetails(showId: number): Promise<TVMazeShow | nul
     }
 }
 
+export interface TVMazeShowExternals {
+    name: string;
+    premiered: string | null;
+    imdb: string | null;
+    thetvdb: number | null;
+}
+
+/**
+ * Get the cross-site ids for a show (used to map TVMaze links onto TMDB)
+ */
+export async function getTVShowExternals(showId: number): Promise<TVMazeShowExternals | null> {
+    try {
+        const url = `${TVMAZE_BASE}/shows/${showId}`;
+        const response = await fetch(url);
+
+        if (!response.ok) {
+            console.warn(`TVMaze show lookup failed: ${response.status}`);
+            return null;
+        }
+
+        const data = await response.json();
+        return {
+            name: data.name,
+            premiered: data.premiered || null,
+            imdb: data.externals?.imdb || null,
+            thetvdb: data.externals?.thetvdb || null
+        };
+    } catch (error) {
+        emitClientError(error, { service: 'tvmaze', context: 'getTVShowExternals', showId });
+        return null;
+    }
+}
+
 /**
  * Get episodes for a specific season
  * @deprecated Use backend /api/episodes/{tmdb_id}/{season} endpoint instead for caching and fallback orchestration.
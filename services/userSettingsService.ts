@@ -51,25 +51,40 @@ export async function upsertProfileSettings(userId: string, settings: UserProfil
   if (error) throw error;
 }
 
+/**
+ * Columns added after `user_preferences` was created, newest first. Databases
+ * that have not run the matching migration yet (see supabase/migrations) lack
+ * some of them; reads and writes then retry without exactly those columns.
+ */
+const OPTIONAL_PREFERENCE_COLUMNS = ['share_search_queries', 'diverse_results', 'reduced_motion'];
+
+const BASE_PREFERENCE_COLUMNS = 'genres, languages, favorite_decades, favorite_regions, content_mix, maturity_filter, autoplay_trailers, card_density';
+
+/** The optional column a missing-column error refers to, or null for any other error. */
+function missingOptionalColumn(error: any, remaining: string[]): string | null {
+  if (!error || remaining.length === 0) return null;
+  const message = String(error?.message || error);
+  const named = remaining.find((column) => message.includes(column));
+  if (named) return named;
+  // Errors that do not name the column shed the newest one first.
+  return error.code === '42703' || /schema cache/i.test(message) ? remaining[0] : null;
+}
+
 export async function fetchPreferenceSettings(userId: string): Promise<UserPreferenceSettings> {
   const client = getClientOrThrow();
+  let columns = [...OPTIONAL_PREFERENCE_COLUMNS];
   let data: any;
   let error: any;
 
-  ({ data, error } = await client
-    .from('user_preferences')
-    .select('genres, languages, favorite_decades, favorite_regions, content_mix, maturity_filter, reduced_motion, autoplay_trailers, card_density')
-    .eq('user_id', userId)
-    .maybeSingle());
-
-  if (error && (error.code === '42703' || /column .*reduced_motion|reduced_motion does not exist|schema cache/i.test(String(error?.message || error)))) {
-    const fallback = await client
+  for (;;) {
+    ({ data, error } = await client
       .from('user_preferences')
-      .select('genres, languages, favorite_decades, favorite_regions, content_mix, maturity_filter, autoplay_trailers, card_density')
+      .select([BASE_PREFERENCE_COLUMNS, ...columns].join(', '))
       .eq('user_id', userId)
-      .maybeSingle();
-    data = fallback.data;
-    error = fallback.error;
+      .maybeSingle());
+    const missing = missingOptionalColumn(error, columns);
+    if (!missing) break;
+    columns = columns.filter((column) => column !== missing);
   }
 
   if (error) throw error;
@@ -87,7 +102,9 @@ export async function fetchPreferenceSettings(userId: string): Promise<UserPrefe
     familySafe: data.maturity_filter !== 'strict',
     reducedMotion: Boolean(data.reduced_motion),
     autoplayTrailers: Boolean(data.autoplay_trailers),
-    cardDensity: data.card_density || 'rich'
+    cardDensity: data.card_density || 'rich',
+    diverseResults: data.diverse_results !== false,
+    shareSearchQueries: Boolean(data.share_search_queries)
   };
 }
 
@@ -104,15 +121,18 @@ export async function upsertPreferenceSettings(userId: string, settings: UserPre
     reduced_motion: settings.reducedMotion,
     autoplay_trailers: settings.autoplayTrailers,
     card_density: settings.cardDensity,
+    diverse_results: settings.diverseResults,
+    share_search_queries: settings.shareSearchQueries,
     updated_at: new Date().toISOString()
   };
 
+  let columns = [...OPTIONAL_PREFERENCE_COLUMNS];
   let { error } = await client.from('user_preferences').upsert(payload);
 
-  if (error && (error.code === '42703' || /column .*reduced_motion|reduced_motion does not exist|schema cache/i.test(String(error?.message || error)))) {
-    delete payload.reduced_motion;
-    const retry = await client.from('user_preferences').upsert(payload);
-    error = retry.error;
+  for (let missing = missingOptionalColumn(error, columns); missing; missing = missingOptionalColumn(error, columns)) {
+    delete payload[missing];
+    columns = columns.filter((column) => column !== missing);
+    ({ error } = await client.from('user_preferences').upsert(payload));
   }
 
   if (error) throw error;
@@ -1,6 +1,9 @@
 import { isSupabaseConfigured, supabase } from '../lib/supabase';
 import { WatchedTitle } from '../types';
 
+export const WATCHED_STORAGE_KEY = 'moviemonk_watched';
+export const CLOUD_WATCHED_CACHE_PREFIX = 'moviemonk_cloud_watched_cache_v1';
+
 function getSupabaseOrThrow() {
   if (!isSupabaseConfigured || !supabase) {
     throw new Error('Supabase is not configured');
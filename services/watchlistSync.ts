@@ -191,6 +191,24 @@ export async function saveCloudItem(folderId: string, item: WatchlistItem): Prom
   if (error) throw error;
 }
 
+export async function saveCloudItems(folderId: string, items: WatchlistItem[]): Promise<void> {
+  if (items.length === 0) return;
+  const client = getSupabaseOrThrow();
+  const { error } = await client.from('watchlist_items').upsert(
+    items.map((item) => ({
+      id: ensureUuid(item.id),
+      folder_id: folderId,
+      tmdb_id: item.movie.tmdb_id || null,
+      media_type: toCloudMediaType(item.movie.media_type || item.movie.type),
+      saved_title: item.saved_title,
+      movie_data: item.movie,
+      added_at: item.added_at || new Date().toISOString()
+    })),
+    { onConflict: 'folder_id,tmdb_id,media_type' }
+  );
+  if (error) throw error;
+}
+
 export async function deleteCloudItem(itemId: string): Promise<void> {
   const client = getSupabaseOrThrow();
   const { error } = await client.from('watchlist_items').delete().eq('id', itemId);
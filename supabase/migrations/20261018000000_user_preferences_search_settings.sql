@@ -0,0 +1,9 @@
+-- Search settings stored on user_preferences.
+--   diverse_results:      "Varied results" toggle (MMR re-ranking of search and discovery).
+--   share_search_queries: opt-in to sending raw search queries with client events.
+-- Until this runs, services/userSettingsService.ts reads and writes without
+-- these columns and the app falls back to their defaults.
+
+alter table public.user_preferences
+  add column if not exists diverse_results boolean not null default true,
+  add column if not exists share_search_queries boolean not null default false;
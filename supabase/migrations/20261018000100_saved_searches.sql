@@ -0,0 +1,38 @@
+-- Saved searches synced across devices for signed-in users.
+-- services/savedSearchSync.ts reads, upserts (on id) and deletes these rows;
+-- until this runs, hooks/useSavedSearches.ts keeps them in localStorage only.
+
+create table if not exists public.saved_searches (
+  id uuid primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  query text not null default '',
+  filters jsonb not null default '{}'::jsonb,
+  media_type text not null default 'all' check (media_type in ('all', 'movie', 'tv')),
+  search_mode text check (search_mode in ('keyword', 'vibe')),
+  last_result_ids text[] not null default '{}',
+  last_run_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists saved_searches_user_id_created_at_idx
+  on public.saved_searches (user_id, created_at desc);
+
+alter table public.saved_searches enable row level security;
+
+create policy "Users can read their saved searches"
+  on public.saved_searches for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert their saved searches"
+  on public.saved_searches for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their saved searches"
+  on public.saved_searches for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete their saved searches"
+  on public.saved_searches for delete
+  using (auth.uid() = user_id);
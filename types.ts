@@ -172,6 +172,27 @@ export interface Rating {
   score: string;
 }
 
+// Franchise / collection types
+export interface CollectionEntry {
+  id: number;
+  title: string;
+  year: string;
+  release_date: string | null;
+  runtime: number | null; // minutes; null until the movie details have loaded
+  rating: number | null;
+  poster_url: string;
+  overview: string;
+}
+
+export interface MovieCollection {
+  id: number;
+  name: string;
+  overview: string;
+  poster_url: string;
+  backdrop_url: string;
+  parts: CollectionEntry[];
+}
+
 // TV Show specific types
 export interface TVShowSeason {
   number: number;
@@ -323,6 +344,16 @@ export interface SuggestionItem {
   confidence: number;
   known_for_department?: string;
   known_for_titles?: string[];
+  popularity?: number;
+  genre_ids?: number[];
+  original_language?: string;
+}
+
+export interface SuggestResponse {
+  ok: boolean;
+  query?: string;
+  suggestions: SuggestionItem[];
+  cached?: boolean;
 }
 
 // Advanced Filters for search refinement
@@ -341,6 +372,20 @@ export interface SearchFilters {
   status?: 'returning' | 'planned' | 'in_production' | 'ended' | 'cancelled'; // TV only
 }
 
+// Saved Searches
+export interface SavedSearch {
+  id: string;
+  name: string;
+  query: string;
+  filters: SearchFilters;
+  media_type: 'all' | 'movie' | 'tv';
+  search_mode?: 'keyword' | 'vibe';
+  /** `${media_type}:${id}` keys returned by the most recent run, used to flag new results. */
+  last_result_ids: string[];
+  last_run_at?: string;
+  created_at: string;
+}
+
 // Watchlist Sharing
 export interface SharedWatchlist {
   id: string; // Unique share ID (uuid)
@@ -356,6 +401,16 @@ export interface SharedWatchlist {
   view_count: number;
 }
 
+/** Response of `POST /api/watchlists/share`. */
+export interface WatchlistShareResponse {
+  ok: boolean;
+  share_token: string;
+  share_url: string;
+  visibility: 'public';
+  item_count: number;
+  created_at: string;
+}
+
 export interface SharedWatchlistView {
   folderName: string;
   folderIcon?: string;
@@ -416,6 +471,8 @@ export interface SearchResult {
   confidence: number;
   popularity?: number;
   original_language?: string;
+  /** Credited cast / crew names, when known (offline results carry them). */
+  people?: string[];
   vibe_score?: number;
   match_reasons?: string[];
 }
@@ -427,6 +484,8 @@ export interface SearchPageResponse {
   total_pages: number;
   total_results: number;
   search_mode?: 'keyword' | 'vibe' | 'mixed';
+  /** Built on-device from cached titles because the API was unreachable. */
+  offline?: boolean;
   hero: SearchResult | null;
   results: SearchResult[];
   people: PersonSearchCandidate[];
@@ -443,6 +502,13 @@ export interface SearchPageResponse {
     yearMin: number | null;
     yearMax: number | null;
     ratingMin: number | null;
+    languages?: string[];
+    runtimeMin?: number;
+    runtimeMax?: number;
+    withCast?: number[];
+    withCrew?: number[];
+    status?: string;
+    includeAdult?: boolean;
   };
 }
 
@@ -453,5 +519,14 @@ export interface EpisodesResponse {
   cached: boolean;
 }
 
+/** `GET /api/details/:type/:id` envelope. */
+export interface DetailsResponse {
+  ok: boolean;
+  data: MovieData;
+  similar?: RelatedTitle[];
+  sources?: { name: string; url: string }[];
+  cached?: boolean;
+}
+
 
 
@@ -3,6 +3,11 @@
 interface ImportMetaEnv {
   readonly VITE_APP_ORIGIN?: string;
   readonly VITE_ALLOWED_ORIGINS?: string;
+  readonly VITE_APP_VERSION?: string;
+  readonly VITE_EXPERIMENTS_DISABLED?: string;
+  readonly VITE_API_MOCK?: string;
+  readonly VITE_API_MOCK_LATENCY_MS?: string;
+  readonly VITE_API_MOCK_ERROR_RATE?: string;
 }
 
 interface ImportMeta {